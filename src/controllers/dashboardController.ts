@@ -1,9 +1,22 @@
 import { Request, Response } from 'express';
 import { analyticsService } from '@/services/analyticsService';
-import { getAzureService } from '@/services/azureService';
+import { getSalesDataSource } from '@/services/dataSource';
+import { getDataRefreshService } from '@/services/dataRefreshService';
+import { scopeDataQualityReport } from '@/services/dataQuality';
 import { logger } from '@/utils/logger';
 import { config } from '@/utils/config';
-import { SalesData } from '@/types/data';
+import { SalesData, DataFilters, FilterValue, FilterExclusions, FilterDimension, ConcentrationGroupBy, FgpBridgeGroupBy, ForecastGroupBy, PeriodComparison, PlanScenario, VarianceLevel } from '@/types/data';
+import { FILTER_DIMENSIONS, filterValues } from '@/services/dimensionFilters';
+import { reportWorkbook } from '@/services/reportExport';
+import { boardPackService } from '@/services/boardPack';
+import { XLSX_CONTENT_TYPE } from '@/utils/xlsx';
+
+const FILTER_DIMENSION_NAMES = Object.keys(FILTER_DIMENSIONS) as FilterDimension[];
+
+// Report errors caused by the request rather than the server, by error message
+const CLIENT_ERRORS: Record<string, { status: number; message: string }> = {
+  PLAN_NOT_CONFIGURED: { status: 400, message: 'No budget/forecast plan is configured, so ?vs is not available' }
+};
 
 export class DashboardController {
   /**
@@ -104,7 +117,7 @@ export class DashboardController {
         allowedCustomers: user.allowedCustomers,
       });
       const businessAreas = await analyticsService.getBusinessAreaPerformance(filters);
-      const meta = getAzureService().getLastFetchMeta();
+      const meta = getSalesDataSource().getLastFetchMeta();
       res.setHeader('x-data-source', meta.source);
       res.setHeader('x-row-count', String(meta.rowCount));
       res.setHeader('x-last-updated', meta.lastUpdated);
@@ -138,7 +151,7 @@ export class DashboardController {
         allowedCustomers: user.allowedCustomers,
       });
       const channels = await analyticsService.getChannelPerformance(filters);
-      const meta = getAzureService().getLastFetchMeta();
+      const meta = getSalesDataSource().getLastFetchMeta();
       res.setHeader('x-data-source', meta.source);
       res.setHeader('x-row-count', String(meta.rowCount));
       res.setHeader('x-last-updated', meta.lastUpdated);
@@ -194,7 +207,7 @@ export class DashboardController {
         .sort((a: any, b: any) => b.revenue - a.revenue)
         .slice(0, 20);
 
-      const meta = getAzureService().getLastFetchMeta();
+      const meta = getSalesDataSource().getLastFetchMeta();
       res.setHeader('x-data-source', meta.source);
       res.setHeader('x-row-count', String(meta.rowCount));
       res.setHeader('x-last-updated', meta.lastUpdated);
@@ -224,7 +237,7 @@ export class DashboardController {
       
       let filters: any = {};
       if (year) filters.year = parseInt(year as string);
-      if (businessArea) filters.businessArea = businessArea as string;
+      if (businessArea) filters.businessArea = this.parseFilterValue(businessArea);
 
       const filterOptions = await analyticsService.getFilterOptions(filters);
       
@@ -248,8 +261,8 @@ export class DashboardController {
     try {
       logger.info('Getting data health');
 
-      const azureService = getAzureService();
-      const csvData = await azureService.fetchCSVData();
+      const dataSource = getSalesDataSource();
+      const csvData = await dataSource.fetchSalesData();
 
       // Calculate data health metrics
       const totalRows = csvData.length;
@@ -268,7 +281,7 @@ export class DashboardController {
         status: 'healthy'
       };
 
-      const meta = getAzureService().getLastFetchMeta();
+      const meta = getSalesDataSource().getLastFetchMeta();
       res.setHeader('x-data-source', meta.source);
       res.setHeader('x-row-count', String(meta.rowCount));
       res.setHeader('x-last-updated', meta.lastUpdated);
@@ -289,6 +302,88 @@ export class DashboardController {
     }
   }
 
+  /**
+   * Get data-quality report: rejected/coerced rows per rule, samples and per-column null/zero rates.
+   * Pass ?rule= to list quarantined rows for one rule (paged with page/pageSize). Rows and samples
+   * are limited to the caller's RLS scopes.
+   */
+  async getDataQuality(req: Request, res: Response) {
+    try {
+      const dataSource = getSalesDataSource();
+      await dataSource.fetchSalesData();
+      const fullReport = dataSource.getDataQualityReport();
+      if (!fullReport) {
+        res.status(404).json({
+          success: false,
+          error: {
+            code: 'DATA_QUALITY_UNAVAILABLE',
+            message: `No data-quality report for the ${dataSource.kind} data source`
+          }
+        });
+        return;
+      }
+
+      const user = (req as any).user || {};
+      const report = scopeDataQualityReport(fullReport, {
+        allowedBusinessAreas: user.allowedBusinessAreas,
+        allowedChannels: user.allowedChannels,
+        allowedBrands: user.allowedBrands,
+        allowedCustomers: user.allowedCustomers,
+      });
+      const { quarantine, ...summary } = report;
+      const rule = req.query.rule as string | undefined;
+      const page = parseInt(req.query.page as string) || 1;
+      const pageSize = parseInt(req.query.pageSize as string) || 50;
+      const issues = rule ? quarantine.filter(issue => issue.rule === rule) : quarantine;
+
+      res.json({
+        success: true,
+        data: {
+          ...summary,
+          quarantine: {
+            rule: rule || null,
+            total: issues.length,
+            page,
+            pageSize,
+            rows: issues.slice((page - 1) * pageSize, page * pageSize)
+          }
+        }
+      });
+    } catch (error) {
+      logger.error('Error getting data quality report:', error);
+      res.status(500).json({
+        success: false,
+        error: {
+          code: 'DATA_QUALITY_ERROR',
+          message: 'Failed to get data quality report',
+          details: error instanceof Error ? error.message : 'Unknown error'
+        }
+      });
+    }
+  }
+
+  /**
+   * Get status of the background data refresh (last run, duration, outcome)
+   */
+  async getDataRefreshStatus(req: Request, res: Response) {
+    try {
+      res.json({
+        success: true,
+        data: getDataRefreshService().getStatus()
+      });
+    } catch (error) {
+      logger.error('Error getting data refresh status:', error);
+      res.status(500).json({
+        success: false,
+        error: {
+          code: 'DATA_REFRESH_STATUS_ERROR',
+          message: 'Failed to get data refresh status',
+          details: error instanceof Error ? error.message : 'Unknown error'
+        }
+      });
+    }
+  }
+
   /**
    * Get trend analysis
    */
@@ -304,7 +399,7 @@ export class DashboardController {
       });
       const metric = (req.query.metric as string) || 'gSales';
       const trends = await analyticsService.getTrendAnalysis(filters, metric);
-      const meta = getAzureService().getLastFetchMeta();
+      const meta = getSalesDataSource().getLastFetchMeta();
       res.setHeader('x-data-source', meta.source);
       res.setHeader('x-row-count', String(meta.rowCount));
       res.setHeader('x-last-updated', meta.lastUpdated);
@@ -338,7 +433,7 @@ export class DashboardController {
 
       const topPerformers = await analyticsService.getTopPerformers(filters, metric, limit, dimension as keyof SalesData, offset);
 
-      const meta = getAzureService().getLastFetchMeta();
+      const meta = getSalesDataSource().getLastFetchMeta();
       res.setHeader('x-data-source', meta.source);
       res.setHeader('x-row-count', String(meta.rowCount));
       res.setHeader('x-last-updated', meta.lastUpdated);
@@ -360,6 +455,75 @@ export class DashboardController {
   }
   
 
+  /**
+   * Get Pareto / ABC classification
+   */
+  async getPareto(req: Request, res: Response) {
+    try {
+      const filters = this.parseFilters(req);
+      const metric = (req.query.metric as string) || 'gSales';
+      const dimension = (req.query.dimension as string) || 'Brand';
+      const cutoffs = (req.query.cutoffs as string) || undefined;
+      const user = (req as any).user || {};
+      Object.assign(filters, {
+        allowedBusinessAreas: user.allowedBusinessAreas,
+        allowedChannels: user.allowedChannels,
+        allowedBrands: user.allowedBrands,
+        allowedCustomers: user.allowedCustomers,
+      });
+      const pareto = await analyticsService.getParetoAnalysis(filters, dimension as keyof SalesData, metric, cutoffs);
+      const meta = getSalesDataSource().getLastFetchMeta();
+      res.setHeader('x-data-source', meta.source);
+      res.setHeader('x-row-count', String(meta.rowCount));
+      res.setHeader('x-last-updated', meta.lastUpdated);
+      res.json({ success: true, data: pareto });
+    } catch (error) {
+      logger.error('Error getting Pareto analysis:', error);
+      res.status(500).json({
+        success: false,
+        error: {
+          code: 'PARETO_ERROR',
+          message: 'Failed to get Pareto analysis',
+          details: error instanceof Error ? error.message : 'Unknown error'
+        }
+      });
+    }
+  }
+
+  /**
+   * Get anomalies
+   */
+  async getAnomalies(req: Request, res: Response) {
+    try {
+      const filters = this.parseFilters(req);
+      const limit = Math.min(Number(req.query.limit) || config.topNDefaultLimit, 100); // Max 100
+      const offset = Math.max(Number(req.query.offset) || 0, 0);
+      const user = (req as any).user || {};
+      Object.assign(filters, {
+        allowedBusinessAreas: user.allowedBusinessAreas,
+        allowedChannels: user.allowedChannels,
+        allowedBrands: user.allowedBrands,
+        allowedCustomers: user.allowedCustomers,
+      });
+      const anomalies = await analyticsService.getAnomalies(filters, limit, offset);
+      const meta = getSalesDataSource().getLastFetchMeta();
+      res.setHeader('x-data-source', meta.source);
+      res.setHeader('x-row-count', String(meta.rowCount));
+      res.setHeader('x-last-updated', meta.lastUpdated);
+      res.json({ success: true, data: anomalies });
+    } catch (error) {
+      logger.error('Error getting anomalies:', error);
+      res.status(500).json({
+        success: false,
+        error: {
+          code: 'ANOMALIES_ERROR',
+          message: 'Failed to get anomalies',
+          details: error instanceof Error ? error.message : 'Unknown error'
+        }
+      });
+    }
+  }
+
   /**
    * Get risk analysis
    */
@@ -382,7 +546,7 @@ export class DashboardController {
 
       const risks = await analyticsService.getRiskAnalysis(filters, dimension as keyof SalesData, limit, offset);
 
-      const meta = getAzureService().getLastFetchMeta();
+      const meta = getSalesDataSource().getLastFetchMeta();
       res.setHeader('x-data-source', meta.source);
       res.setHeader('x-row-count', String(meta.rowCount));
       res.setHeader('x-last-updated', meta.lastUpdated);
@@ -417,7 +581,7 @@ export class DashboardController {
         allowedCustomers: user.allowedCustomers,
       });
       const categories = await analyticsService.getCategoryPerformance(filters);
-      const meta = getAzureService().getLastFetchMeta();
+      const meta = getSalesDataSource().getLastFetchMeta();
       res.setHeader('x-data-source', meta.source);
       res.setHeader('x-row-count', String(meta.rowCount));
       res.setHeader('x-last-updated', meta.lastUpdated);
@@ -434,9 +598,17 @@ export class DashboardController {
   async getVariance(req: Request, res: Response) {
     try {
       const filters = this.parseFilters(req);
-      const comparison = (req.query.comparison as string) || 'LYTD';
-      const variance = await analyticsService.getVariance(filters);
-      const meta = getAzureService().getLastFetchMeta();
+      const comparison: PeriodComparison = req.query.comparison === 'priorPeriod' ? 'priorPeriod' : 'priorYear';
+      const level = (req.query.level as VarianceLevel) || 'sku';
+      const user = (req as any).user || {};
+      Object.assign(filters, {
+        allowedBusinessAreas: user.allowedBusinessAreas,
+        allowedChannels: user.allowedChannels,
+        allowedBrands: user.allowedBrands,
+        allowedCustomers: user.allowedCustomers,
+      });
+      const variance = await analyticsService.getVariance(filters, comparison, level);
+      const meta = getSalesDataSource().getLastFetchMeta();
       res.setHeader('x-data-source', meta.source);
       res.setHeader('x-row-count', String(meta.rowCount));
       res.setHeader('x-last-updated', meta.lastUpdated);
@@ -447,6 +619,74 @@ export class DashboardController {
     }
   }
 
+  /**
+   * Get fGP bridge by P&L line (last year fGP to current fGP)
+   */
+  async getFgpBridge(req: Request, res: Response) {
+    try {
+      const filters = this.parseFilters(req);
+      const groupBy = req.query.groupBy ? req.query.groupBy as FgpBridgeGroupBy : undefined;
+      const comparison: PeriodComparison = req.query.comparison === 'priorPeriod' ? 'priorPeriod' : 'priorYear';
+      const user = (req as any).user || {};
+      Object.assign(filters, {
+        allowedBusinessAreas: user.allowedBusinessAreas,
+        allowedChannels: user.allowedChannels,
+        allowedBrands: user.allowedBrands,
+        allowedCustomers: user.allowedCustomers,
+      });
+      const bridge = await analyticsService.getFgpBridge(filters, groupBy, comparison);
+      const meta = getSalesDataSource().getLastFetchMeta();
+      res.setHeader('x-data-source', meta.source);
+      res.setHeader('x-row-count', String(meta.rowCount));
+      res.setHeader('x-last-updated', meta.lastUpdated);
+      res.json({ success: true, data: bridge });
+    } catch (error) {
+      logger.error('Error getting fGP bridge:', error);
+      res.status(500).json({
+        success: false,
+        error: {
+          code: 'FGP_BRIDGE_ERROR',
+          message: 'Failed to get fGP bridge',
+          details: error instanceof Error ? error.message : 'Unknown error'
+        }
+      });
+    }
+  }
+
+  /**
+   * Get the forecast for the rest of the fiscal year with prediction intervals and the full-year landing
+   */
+  async getForecast(req: Request, res: Response) {
+    try {
+      const filters = this.parseFilters(req);
+      const groupBy = req.query.groupBy ? req.query.groupBy as ForecastGroupBy : undefined;
+      const confidence = req.query.confidence ? parseInt(req.query.confidence as string, 10) : undefined;
+      const user = (req as any).user || {};
+      Object.assign(filters, {
+        allowedBusinessAreas: user.allowedBusinessAreas,
+        allowedChannels: user.allowedChannels,
+        allowedBrands: user.allowedBrands,
+        allowedCustomers: user.allowedCustomers,
+      });
+      const forecast = await analyticsService.getForecast(filters, groupBy, confidence);
+      const meta = getSalesDataSource().getLastFetchMeta();
+      res.setHeader('x-data-source', meta.source);
+      res.setHeader('x-row-count', String(meta.rowCount));
+      res.setHeader('x-last-updated', meta.lastUpdated);
+      res.json({ success: true, data: forecast });
+    } catch (error) {
+      logger.error('Error getting forecast:', error);
+      res.status(500).json({
+        success: false,
+        error: {
+          code: 'FORECAST_ERROR',
+          message: 'Failed to get forecast',
+          details: error instanceof Error ? error.message : 'Unknown error'
+        }
+      });
+    }
+  }
+
   /**
    * Get business area detailed metrics
    */
@@ -454,7 +694,7 @@ export class DashboardController {
     try {
       const filters = this.parseFilters(req);
       const detailedMetrics = await analyticsService.getBusinessAreaDetailedMetrics(filters);
-      const meta = getAzureService().getLastFetchMeta();
+      const meta = getSalesDataSource().getLastFetchMeta();
       
       res.setHeader('x-data-source', meta.source);
       res.setHeader('x-row-count', String(meta.rowCount));
@@ -480,7 +720,7 @@ export class DashboardController {
     try {
       const filters = this.parseFilters(req);
       const aggregates = await analyticsService.getAggregatedData(filters);
-      const meta = getAzureService().getLastFetchMeta();
+      const meta = getSalesDataSource().getLastFetchMeta();
       res.setHeader('x-data-source', meta.source);
       res.setHeader('x-row-count', String(meta.rowCount));
       res.setHeader('x-last-updated', meta.lastUpdated);
@@ -519,7 +759,7 @@ export class DashboardController {
         allowedCustomers: user.allowedCustomers,
       });
       const customerData = await analyticsService.getCustomerPerformance(filters);
-      const meta = getAzureService().getLastFetchMeta();
+      const meta = getSalesDataSource().getLastFetchMeta();
       res.setHeader('x-data-source', meta.source);
       res.setHeader('x-row-count', String(meta.rowCount));
       res.setHeader('x-last-updated', meta.lastUpdated);
@@ -543,8 +783,9 @@ export class DashboardController {
         allowedBrands: user.allowedBrands,
         allowedCustomers: user.allowedCustomers,
       });
-      const overviewData = await analyticsService.getCustomerOverview(filters);
-      const meta = getAzureService().getLastFetchMeta();
+      const comparison: PeriodComparison = req.query.comparison === 'priorPeriod' ? 'priorPeriod' : 'priorYear';
+      const overviewData = await analyticsService.getCustomerOverview(filters, comparison);
+      const meta = getSalesDataSource().getLastFetchMeta();
       res.setHeader('x-data-source', meta.source);
       res.setHeader('x-row-count', String(meta.rowCount));
       res.setHeader('x-last-updated', meta.lastUpdated);
@@ -555,6 +796,39 @@ export class DashboardController {
     }
   }
 
+  /**
+   * Get customer lifecycle (new, retained, recovered, lost and at-risk customers)
+   */
+  async getCustomerLifecycle(req: Request, res: Response) {
+    try {
+      const filters = this.parseFilters(req);
+      const comparison: PeriodComparison = req.query.comparison === 'priorPeriod' ? 'priorPeriod' : 'priorYear';
+      const user = (req as any).user || {};
+      Object.assign(filters, {
+        allowedBusinessAreas: user.allowedBusinessAreas,
+        allowedChannels: user.allowedChannels,
+        allowedBrands: user.allowedBrands,
+        allowedCustomers: user.allowedCustomers,
+      });
+      const lifecycle = await analyticsService.getCustomerLifecycle(filters, comparison);
+      const meta = getSalesDataSource().getLastFetchMeta();
+      res.setHeader('x-data-source', meta.source);
+      res.setHeader('x-row-count', String(meta.rowCount));
+      res.setHeader('x-last-updated', meta.lastUpdated);
+      res.json({ success: true, data: lifecycle });
+    } catch (error) {
+      logger.error('Error getting customer lifecycle:', error);
+      res.status(500).json({
+        success: false,
+        error: {
+          code: 'CUSTOMER_LIFECYCLE_ERROR',
+          message: 'Failed to get customer lifecycle',
+          details: error instanceof Error ? error.message : 'Unknown error'
+        }
+      });
+    }
+  }
+
   /**
    * Get top customers data
    */
@@ -569,7 +843,7 @@ export class DashboardController {
         allowedCustomers: user.allowedCustomers,
       });
       const topCustomers = await analyticsService.getTopCustomers(filters);
-      const meta = getAzureService().getLastFetchMeta();
+      const meta = getSalesDataSource().getLastFetchMeta();
       res.setHeader('x-data-source', meta.source);
       res.setHeader('x-row-count', String(meta.rowCount));
       res.setHeader('x-last-updated', meta.lastUpdated);
@@ -580,6 +854,39 @@ export class DashboardController {
     }
   }
 
+  /**
+   * Get customer concentration
+   */
+  async getCustomerConcentration(req: Request, res: Response) {
+    try {
+      const filters = this.parseFilters(req);
+      const groupBy = req.query.groupBy ? req.query.groupBy as ConcentrationGroupBy : undefined;
+      const user = (req as any).user || {};
+      Object.assign(filters, {
+        allowedBusinessAreas: user.allowedBusinessAreas,
+        allowedChannels: user.allowedChannels,
+        allowedBrands: user.allowedBrands,
+        allowedCustomers: user.allowedCustomers,
+      });
+      const concentration = await analyticsService.getCustomerConcentration(filters, groupBy);
+      const meta = getSalesDataSource().getLastFetchMeta();
+      res.setHeader('x-data-source', meta.source);
+      res.setHeader('x-row-count', String(meta.rowCount));
+      res.setHeader('x-last-updated', meta.lastUpdated);
+      res.json({ success: true, data: concentration });
+    } catch (error) {
+      logger.error('Error getting customer concentration:', error);
+      res.status(500).json({
+        success: false,
+        error: {
+          code: 'CUSTOMER_CONCENTRATION_ERROR',
+          message: 'Failed to get customer concentration',
+          details: error instanceof Error ? error.message : 'Unknown error'
+        }
+      });
+    }
+  }
+
   /**
    * Get customer channels analysis
    */
@@ -594,7 +901,7 @@ export class DashboardController {
         allowedCustomers: user.allowedCustomers,
       });
       const channelData = await analyticsService.getCustomerChannels(filters);
-      const meta = getAzureService().getLastFetchMeta();
+      const meta = getSalesDataSource().getLastFetchMeta();
       res.setHeader('x-data-source', meta.source);
       res.setHeader('x-row-count', String(meta.rowCount));
       res.setHeader('x-last-updated', meta.lastUpdated);
@@ -698,12 +1005,9 @@ export class DashboardController {
       });
 
       const summaryData = await analyticsService.getReportsBusinessAreaSummary(filters);
-      const meta = getAzureService().getLastFetchMeta();
-      res.setHeader('x-data-source', meta.source);
-      res.setHeader('x-row-count', String(meta.rowCount));
-      res.setHeader('x-last-updated', meta.lastUpdated);
-      res.json({ success: true, data: summaryData });
+      this.sendReport(req, res, 'business-area-summary', summaryData);
     } catch (error) {
+      if (this.sendClientError(res, error)) return;
       logger.error('Error getting reports business area summary:', error);
       res.status(500).json({
         success: false,
@@ -733,12 +1037,9 @@ export class DashboardController {
       });
 
       const summaryData = await analyticsService.getReportsChannelSummary(filters);
-      const meta = getAzureService().getLastFetchMeta();
-      res.setHeader('x-data-source', meta.source);
-      res.setHeader('x-row-count', String(meta.rowCount));
-      res.setHeader('x-last-updated', meta.lastUpdated);
-      res.json({ success: true, data: summaryData });
+      this.sendReport(req, res, 'channel-summary', summaryData);
     } catch (error) {
+      if (this.sendClientError(res, error)) return;
       logger.error('Error getting reports channel summary:', error);
       res.status(500).json({
         success: false,
@@ -770,12 +1071,9 @@ export class DashboardController {
       });
 
       const summaryData = await analyticsService.getSalesToFGPSummary(filters);
-      const meta = getAzureService().getLastFetchMeta();
-      res.setHeader('x-data-source', meta.source);
-      res.setHeader('x-row-count', String(meta.rowCount));
-      res.setHeader('x-last-updated', meta.lastUpdated);
-      res.json({ success: true, data: summaryData });
+      this.sendReport(req, res, 'sales-to-fgp', summaryData);
     } catch (error) {
+      if (this.sendClientError(res, error)) return;
       logger.error('Error getting sales to fGP summary:', error);
       res.status(500).json({
         success: false,
@@ -807,12 +1105,9 @@ export class DashboardController {
       });
 
       const summaryData = await analyticsService.getTrendByMonthSummary(filters);
-      const meta = getAzureService().getLastFetchMeta();
-      res.setHeader('x-data-source', meta.source);
-      res.setHeader('x-row-count', String(meta.rowCount));
-      res.setHeader('x-last-updated', meta.lastUpdated);
-      res.json({ success: true, data: summaryData });
+      this.sendReport(req, res, 'trend-by-month', summaryData);
     } catch (error) {
+      if (this.sendClientError(res, error)) return;
       logger.error('Error getting trend by month summary:', error);
       res.status(500).json({
         success: false,
@@ -844,12 +1139,9 @@ export class DashboardController {
       });
 
       const summaryData = await analyticsService.getCustomerSummary(filters);
-      const meta = getAzureService().getLastFetchMeta();
-      res.setHeader('x-data-source', meta.source);
-      res.setHeader('x-row-count', String(meta.rowCount));
-      res.setHeader('x-last-updated', meta.lastUpdated);
-      res.json({ success: true, data: summaryData });
+      this.sendReport(req, res, 'customer-summary', summaryData);
     } catch (error) {
+      if (this.sendClientError(res, error)) return;
       logger.error('Error getting customer summary:', error);
       res.status(500).json({
         success: false,
@@ -881,12 +1173,9 @@ export class DashboardController {
       });
 
       const summaryData = await analyticsService.getTotalBrandsSummary(filters);
-      const meta = getAzureService().getLastFetchMeta();
-      res.setHeader('x-data-source', meta.source);
-      res.setHeader('x-row-count', String(meta.rowCount));
-      res.setHeader('x-last-updated', meta.lastUpdated);
-      res.json({ success: true, data: summaryData });
+      this.sendReport(req, res, 'total-brands', summaryData);
     } catch (error) {
+      if (this.sendClientError(res, error)) return;
       logger.error('Error getting total brands summary:', error);
       res.status(500).json({
         success: false,
@@ -918,12 +1207,9 @@ export class DashboardController {
       });
 
       const summaryData = await analyticsService.getFoodBrandsSummary(filters);
-      const meta = getAzureService().getLastFetchMeta();
-      res.setHeader('x-data-source', meta.source);
-      res.setHeader('x-row-count', String(meta.rowCount));
-      res.setHeader('x-last-updated', meta.lastUpdated);
-      res.json({ success: true, data: summaryData });
+      this.sendReport(req, res, 'food-brands', summaryData);
     } catch (error) {
+      if (this.sendClientError(res, error)) return;
       logger.error('Error getting food brands summary:', error);
       res.status(500).json({
         success: false,
@@ -955,12 +1241,9 @@ export class DashboardController {
       });
 
       const detailsData = await analyticsService.getFoodBrandsDetails(filters);
-      const meta = getAzureService().getLastFetchMeta();
-      res.setHeader('x-data-source', meta.source);
-      res.setHeader('x-row-count', String(meta.rowCount));
-      res.setHeader('x-last-updated', meta.lastUpdated);
-      res.json({ success: true, data: detailsData });
+      this.sendReport(req, res, 'food-brands-details', detailsData);
     } catch (error) {
+      if (this.sendClientError(res, error)) return;
       logger.error('Error getting food brands details:', error);
       res.status(500).json({
         success: false,
@@ -992,12 +1275,9 @@ export class DashboardController {
       });
 
       const householdData = await analyticsService.getHouseholdBrands(filters);
-      const meta = getAzureService().getLastFetchMeta();
-      res.setHeader('x-data-source', meta.source);
-      res.setHeader('x-row-count', String(meta.rowCount));
-      res.setHeader('x-last-updated', meta.lastUpdated);
-      res.json({ success: true, data: householdData });
+      this.sendReport(req, res, 'household-brands', householdData);
     } catch (error) {
+      if (this.sendClientError(res, error)) return;
       logger.error('Error getting household brands:', error);
       res.status(500).json({
         success: false,
@@ -1012,8 +1292,7 @@ export class DashboardController {
 
   /**
    * Get Household Brands details data
-   * Shows household brand sub-category level performance with YTD, LY, and variance calculations
-   * Based on Excel screenshot structure: Killeen, Green Aware, Other bags with sub-categories
+   * Shows household brand, sub-category and product performance with YTD, LY, and variance calculations
    */
   async getHouseholdBrandsDetails(req: Request, res: Response) {
     try {
@@ -1030,12 +1309,13 @@ export class DashboardController {
       });
 
       const detailsData = await analyticsService.getHouseholdBrandsDetails(filters);
-      const meta = getAzureService().getLastFetchMeta();
-      res.setHeader('x-data-source', meta.source);
-      res.setHeader('x-row-count', String(meta.rowCount));
-      res.setHeader('x-last-updated', meta.lastUpdated);
-      res.json({ success: true, data: detailsData });
+      // Rows carry the data source they were computed from; no sales rows is reported as such
+      this.sendReport(req, res, 'household-brands-details', detailsData, {
+        status: detailsData.length > 0 ? 'ok' : 'no-data',
+        ...(detailsData.length === 0 && { message: 'No household sales data for the selected filters' })
+      });
     } catch (error) {
+      if (this.sendClientError(res, error)) return;
       logger.error('Error getting household brands details:', error);
       res.status(500).json({
         success: false,
@@ -1049,19 +1329,114 @@ export class DashboardController {
   }
 
   /**
-   * Parse filters from query
+   * Get the board pack PDF assembled from the summary reports
+   */
+  async getBoardPack(req: Request, res: Response) {
+    try {
+      logger.info('Generating board pack');
+      const filters = this.parseFilters(req);
+      const user = (req as any).user || {};
+      Object.assign(filters, {
+        allowedBusinessAreas: user.allowedBusinessAreas,
+        allowedChannels: user.allowedChannels,
+        allowedBrands: user.allowedBrands,
+        allowedCustomers: user.allowedCustomers,
+      });
+
+      const pack = await boardPackService.generate(filters);
+      const filename = `kinetica-board-pack-${new Date().toISOString().split('T')[0]}.pdf`;
+      res.setHeader('x-data-source', pack.meta.source);
+      res.setHeader('x-row-count', String(pack.meta.rowCount));
+      res.setHeader('x-last-updated', pack.meta.lastUpdated);
+      res.setHeader('x-page-count', String(pack.pageCount));
+      res.setHeader('Content-Type', 'application/pdf');
+      res.setHeader('Content-Disposition', `attachment; filename="${filename}"`);
+      res.setHeader('Cache-Control', 'no-cache');
+      res.send(pack.pdf);
+    } catch (error) {
+      if (this.sendClientError(res, error)) return;
+      logger.error('Error generating board pack:', error);
+      res.status(500).json({
+        success: false,
+        error: {
+          code: 'BOARD_PACK_ERROR',
+          message: 'Failed to generate board pack',
+          details: error instanceof Error ? error.message : 'Unknown error'
+        }
+      });
+    }
+  }
+
+  /**
+   * Send report rows with the data source headers: as JSON, or as an Excel workbook with
+   * ?format=xlsx (`extra` fields are added to the JSON response)
    */
-  private parseFilters(req: Request) {
+  private sendReport(req: Request, res: Response, report: string, rows: any[], extra: Record<string, unknown> = {}): void {
+    const meta = getSalesDataSource().getLastFetchMeta();
+    res.setHeader('x-data-source', meta.source);
+    res.setHeader('x-row-count', String(meta.rowCount));
+    res.setHeader('x-last-updated', meta.lastUpdated);
+
+    if (req.query.format === 'xlsx') {
+      const filename = `kinetica-${report}-${new Date().toISOString().split('T')[0]}.xlsx`;
+      res.setHeader('Content-Type', XLSX_CONTENT_TYPE);
+      res.setHeader('Content-Disposition', `attachment; filename="${filename}"`);
+      res.setHeader('Cache-Control', 'no-cache');
+      res.send(reportWorkbook(report, rows));
+      return;
+    }
+    res.json({ success: true, data: rows, ...extra });
+  }
+
+  /**
+   * Answer an error caused by the request with its status; returns false for other errors
+   */
+  private sendClientError(res: Response, error: unknown): boolean {
+    const clientError = error instanceof Error ? CLIENT_ERRORS[error.message] : undefined;
+    if (!clientError) return false;
+    res.status(clientError.status).json({ success: false, error: { code: (error as Error).message, message: clientError.message } });
+    return true;
+  }
+
+  /**
+   * Parse filters from query. Dimension filters take repeated parameters for multi-select
+   * (?channel=Grocery ROI&channel=Wholesale ROI) and not[...] for exclusions (?not[customer]=Tesco).
+   */
+  private parseFilters(req: Request): DataFilters {
     const year = req.query.year ? parseInt(req.query.year as string, 10) : undefined;
     const period = req.query.period ? String(req.query.period) : undefined;
-    const month = req.query.month ? String(req.query.month) : undefined;
-    const businessArea = req.query.businessArea ? String(req.query.businessArea) : undefined;
-    const brand = req.query.brand ? String(req.query.brand) : undefined;
-    const category = req.query.category ? String(req.query.category) : undefined;
-    const subCategory = req.query.subCategory ? String(req.query.subCategory) : undefined;
-    const channel = req.query.channel ? String(req.query.channel) : undefined;
-    const customer = req.query.customer ? String(req.query.customer) : undefined;
-    return { year, period, month, businessArea, brand, category, subCategory, channel, customer };
+    const from = req.query.from ? String(req.query.from) : undefined;
+    const to = req.query.to ? String(req.query.to) : undefined;
+    const compare = req.query.compare ? String(req.query.compare) as PeriodComparison : undefined;
+    const month = this.parseFilterValue(req.query.month);
+    const businessArea = this.parseFilterValue(req.query.businessArea);
+    const brand = this.parseFilterValue(req.query.brand);
+    const category = this.parseFilterValue(req.query.category);
+    const subCategory = this.parseFilterValue(req.query.subCategory);
+    const channel = this.parseFilterValue(req.query.channel);
+    const customer = this.parseFilterValue(req.query.customer);
+    const vs = filterValues(this.parseFilterValue(req.query.vs)) as PlanScenario[];
+
+    const notQuery = (req.query.not && typeof req.query.not === 'object' ? req.query.not : {}) as Record<string, unknown>;
+    const not: FilterExclusions = {};
+    for (const dimension of FILTER_DIMENSION_NAMES) {
+      const values = filterValues(this.parseFilterValue(notQuery[dimension]));
+      if (values.length) not[dimension] = values;
+    }
+
+    return {
+      year, period, from, to, compare, month, businessArea, brand, category, subCategory, channel, customer,
+      ...(Object.keys(not).length ? { not } : {}),
+      ...(vs.length ? { vs } : {})
+    };
+  }
+
+  private parseFilterValue(value: unknown): FilterValue | undefined {
+    if (Array.isArray(value)) {
+      const values = value.map(String).filter(Boolean);
+      return values.length ? values : undefined;
+    }
+    return value ? String(value) : undefined;
   }
 }
 
@@ -0,0 +1,41 @@
+import { Request, Response } from 'express';
+import { queryService } from '@/services/queryService';
+import { logger } from '@/utils/logger';
+import { QuerySpec } from '@/types/data';
+
+export class QueryController {
+  /**
+   * Run a semantic query (dimensions, measures, filters, sort, limit, comparison)
+   */
+  async runQuery(req: Request, res: Response) {
+    try {
+      const spec = req.body as QuerySpec;
+      // Inject RLS scopes from middleware
+      const user = (req as any).user || {};
+      const scopes = {
+        allowedBusinessAreas: user.allowedBusinessAreas,
+        allowedChannels: user.allowedChannels,
+        allowedBrands: user.allowedBrands,
+        allowedCustomers: user.allowedCustomers,
+      };
+
+      const result = await queryService.run(spec, scopes);
+      res.json({
+        success: true,
+        data: result
+      });
+    } catch (error) {
+      logger.error('Error running query:', error);
+      res.status(500).json({
+        success: false,
+        error: {
+          code: 'QUERY_ERROR',
+          message: 'Failed to run query',
+          details: error instanceof Error ? error.message : 'Unknown error'
+        }
+      });
+    }
+  }
+}
+
+export const queryController = new QueryController();
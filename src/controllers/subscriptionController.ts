@@ -0,0 +1,112 @@
+import { Request, Response } from 'express';
+import { getReportSubscriptionService } from '@/services/reportSubscriptions';
+import { ReportSubscription } from '@/types/data';
+import { logger } from '@/utils/logger';
+
+// Service errors the client can fix, by the code the service throws
+const CLIENT_ERRORS: Record<string, { status: number; message: string }> = {
+  UNKNOWN_USER: { status: 403, message: 'Report subscriptions need a user from the user directory' },
+  INVALID_FORMAT: { status: 400, message: 'The board pack can only be delivered as a PDF' },
+  RECIPIENT_NOT_ALLOWED: { status: 403, message: 'Reports can only be sent to your own address or to an allowed domain' }
+};
+
+export class SubscriptionController {
+  /**
+   * List the signed-in user's report subscriptions
+   */
+  async list(req: Request, res: Response) {
+    const userId = this.requireUser(req, res);
+    if (!userId) return;
+    res.json({ success: true, data: getReportSubscriptionService().list(userId) });
+  }
+
+  /**
+   * Subscribe the signed-in user to a report
+   */
+  async create(req: Request, res: Response) {
+    const userId = this.requireUser(req, res);
+    if (!userId) return;
+    try {
+      const subscription = await getReportSubscriptionService().create(userId, req.body);
+      logger.info(`Created report subscription ${subscription.id} (${subscription.report}, ${subscription.schedule})`);
+      res.status(201).json({ success: true, data: subscription });
+    } catch (error) {
+      this.sendError(res, error, 'CREATE_SUBSCRIPTION_ERROR', 'Failed to create report subscription');
+    }
+  }
+
+  async update(req: Request, res: Response) {
+    const subscription = this.findOwned(req, res);
+    if (!subscription) return;
+    try {
+      res.json({ success: true, data: await getReportSubscriptionService().update(subscription.id, req.body) });
+    } catch (error) {
+      this.sendError(res, error, 'UPDATE_SUBSCRIPTION_ERROR', 'Failed to update report subscription');
+    }
+  }
+
+  async remove(req: Request, res: Response) {
+    const subscription = this.findOwned(req, res);
+    if (!subscription) return;
+    getReportSubscriptionService().remove(subscription.id);
+    res.json({ success: true, data: { id: subscription.id } });
+  }
+
+  /**
+   * Render and deliver a subscription now, e.g. to check its filters and recipients
+   */
+  async run(req: Request, res: Response) {
+    const subscription = this.findOwned(req, res);
+    if (!subscription) return;
+    try {
+      const run = await getReportSubscriptionService().runNow(subscription.id);
+      res.status(run.outcome === 'delivered' ? 200 : 502).json({ success: run.outcome === 'delivered', data: run });
+    } catch (error) {
+      this.sendError(res, error, 'RUN_SUBSCRIPTION_ERROR', 'Failed to deliver report subscription');
+    }
+  }
+
+  /**
+   * The signed-in user's id; subscriptions belong to a user, so anonymous requests are refused
+   */
+  private requireUser(req: Request, res: Response): string | undefined {
+    const userId = (req as any).user?.id;
+    if (!userId) {
+      res.status(401).json({ success: false, error: { code: 'AUTH_REQUIRED', message: 'Sign in to manage report subscriptions' } });
+    }
+    return userId;
+  }
+
+  /**
+   * The requested subscription, when it belongs to the signed-in user
+   */
+  private findOwned(req: Request, res: Response): ReportSubscription | undefined {
+    const userId = this.requireUser(req, res);
+    if (!userId) return undefined;
+    const subscription = getReportSubscriptionService().get(req.params.id);
+    if (!subscription || subscription.userId !== userId) {
+      res.status(404).json({ success: false, error: { code: 'SUBSCRIPTION_NOT_FOUND', message: `Report subscription ${req.params.id} not found` } });
+      return undefined;
+    }
+    return subscription;
+  }
+
+  private sendError(res: Response, error: unknown, code: string, message: string): void {
+    const clientError = error instanceof Error ? CLIENT_ERRORS[error.message] : undefined;
+    if (clientError) {
+      res.status(clientError.status).json({ success: false, error: { code: (error as Error).message, message: clientError.message } });
+      return;
+    }
+    logger.error(`${message}:`, error);
+    res.status(500).json({
+      success: false,
+      error: {
+        code,
+        message,
+        details: error instanceof Error ? error.message : 'Unknown error'
+      }
+    });
+  }
+}
+
+export const subscriptionController = new SubscriptionController();
@@ -31,6 +31,7 @@ for (const p of envCandidates) {
 
 // Debug: Check if environment variables are loaded (mask secrets)
 console.log('Environment check:');
+console.log('DATA_SOURCE:', process.env.DATA_SOURCE || 'azure');
 console.log('AZURE_STORAGE_CONNECTION_STRING set:', Boolean(process.env.AZURE_STORAGE_CONNECTION_STRING));
 console.log('NODE_ENV:', process.env.NODE_ENV);
 console.log('PORT:', process.env.PORT);
@@ -49,11 +50,15 @@ import { requestLogger, errorLogger } from '@/utils/logger';
 import dashboardRoutes from '@/routes/dashboard';
 import authRoutes from '@/routes/auth';
 import userRoutes from '@/routes/users';
+import queryRoutes from '@/routes/query';
+import subscriptionRoutes from '@/routes/subscriptions';
 
 // Import services
 import { cacheService } from '@/services/cacheService';
 import { authMiddleware } from '@/middleware/auth';
-import { getAzureService } from '@/services/azureService';
+import { getSalesDataSource } from '@/services/dataSource';
+import { getDataRefreshService } from '@/services/dataRefreshService';
+import { getReportSubscriptionService } from '@/services/reportSubscriptions';
 
 const app = express();
 const PORT = process.env.PORT || 5002;
@@ -126,6 +131,8 @@ app.get('/health', (req, res) => {
 app.use('/api/v1/auth', authRoutes);
 app.use('/api/v1/dashboard', dashboardRoutes);
 app.use('/api/v1/users', userRoutes);
+app.use('/api/v1/query', queryRoutes);
+app.use('/api/v1/subscriptions', subscriptionRoutes);
 
 // Root endpoint
 app.get('/api/v1', (req, res) => {
@@ -135,6 +142,8 @@ app.get('/api/v1', (req, res) => {
     version: '1.0.0',
     endpoints: {
       dashboard: '/api/v1/dashboard',
+      query: '/api/v1/query',
+      subscriptions: '/api/v1/subscriptions',
       customers: '/api/v1/customers',
       brands: '/api/v1/brands',
       categories: '/api/v1/categories',
@@ -173,12 +182,16 @@ app.use((error: any, req: express.Request, res: express.Response, next: express.
 // Graceful shutdown
 process.on('SIGTERM', async () => {
   console.log('SIGTERM received, shutting down gracefully');
+  getDataRefreshService().stop();
+  getReportSubscriptionService().stop();
   await cacheService.disconnect();
   process.exit(0);
 });
 
 process.on('SIGINT', async () => {
   console.log('SIGINT received, shutting down gracefully');
+  getDataRefreshService().stop();
+  getReportSubscriptionService().stop();
   await cacheService.disconnect();
   process.exit(0);
 });
@@ -186,21 +199,27 @@ process.on('SIGINT', async () => {
 // Start server
 const startServer = async () => {
   try {
-    // Test Azure connection (non-fatal)
-    console.log('Testing Azure connection...');
-    const azureService = getAzureService();
-    const connectionTest = await azureService.testConnection();
+    // Test data source connection (non-fatal)
+    const dataSource = getSalesDataSource();
+    console.log(`Testing ${dataSource.kind} data source connection...`);
+    const connectionTest = await dataSource.testConnection();
     if (!connectionTest) {
-      console.warn('⚠️ Azure connection test failed. Server will still start; endpoints may return errors until Azure is configured.');
+      console.warn(`⚠️ ${dataSource.kind} data source connection test failed. Server will still start; endpoints may return errors until it is configured.`);
     } else {
       try {
-        await azureService.getDataSummary(); // warm cache
-        console.log('✅ Azure connection successful');
+        await dataSource.getDataSummary(); // warm cache
+        console.log(`✅ ${dataSource.kind} data source connection successful`);
       } catch (e) {
         console.warn('⚠️ Unable to prefetch data summary. Continuing to start server.', e);
       }
     }
 
+    // Poll the data source for new versions in the background
+    getDataRefreshService().start();
+
+    // Deliver subscribed reports on their schedules
+    getReportSubscriptionService().start();
+
     // Test cache connection
     console.log('Testing cache connection...');
     await cacheService.set('test', 'test', 60);
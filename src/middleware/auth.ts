@@ -2,15 +2,18 @@ import { Request, Response, NextFunction } from 'express';
 import jwt from 'jsonwebtoken';
 import { logger } from '@/utils/logger';
 
-type UserContext = {
-  id?: string;
-  roles: string[];
+export type UserScopes = {
   allowedBusinessAreas?: string[];
   allowedChannels?: string[];
   allowedBrands?: string[];
   allowedCustomers?: string[];
 };
 
+type UserContext = UserScopes & {
+  id?: string;
+  roles: string[];
+};
+
 function parseCsvHeader(header?: string | string[]): string[] | undefined {
   if (!header) return undefined;
   const raw = Array.isArray(header) ? header.join(',') : header;
@@ -21,7 +24,7 @@ function parseCsvHeader(header?: string | string[]): string[] | undefined {
   return list.length ? list : undefined;
 }
 
-function deriveScopesFromRoles(roles: string[]): Partial<UserContext> {
+function deriveScopesFromRoles(roles: string[]): UserScopes {
   const allowedBusinessAreas = new Set<string>();
   const allowedChannels = new Set<string>();
   const allowedBrands = new Set<string>();
@@ -73,6 +76,27 @@ function deriveScopesFromRoles(roles: string[]): Partial<UserContext> {
   };
 }
 
+/**
+ * RLS scopes of a user: its explicit scopes when any are set, otherwise those derived from its roles
+ */
+export function resolveUserScopes(user: UserScopes & { roles?: string[] }): UserScopes {
+  if (
+    !user.allowedBusinessAreas &&
+    !user.allowedChannels &&
+    !user.allowedBrands &&
+    !user.allowedCustomers &&
+    user.roles && user.roles.length
+  ) {
+    return deriveScopesFromRoles(user.roles);
+  }
+  return {
+    allowedBusinessAreas: user.allowedBusinessAreas,
+    allowedChannels: user.allowedChannels,
+    allowedBrands: user.allowedBrands,
+    allowedCustomers: user.allowedCustomers,
+  };
+}
+
 export function authMiddleware(req: Request, _res: Response, next: NextFunction) {
   const user: UserContext = { roles: [] };
 
@@ -102,19 +126,11 @@ export function authMiddleware(req: Request, _res: Response, next: NextFunction)
     }
 
     // Derive scopes from roles if explicit scopes not supplied
-    if (
-      !user.allowedBusinessAreas &&
-      !user.allowedChannels &&
-      !user.allowedBrands &&
-      !user.allowedCustomers &&
-      user.roles && user.roles.length
-    ) {
-      const derived = deriveScopesFromRoles(user.roles);
-      user.allowedBusinessAreas = derived.allowedBusinessAreas;
-      user.allowedChannels = derived.allowedChannels;
-      user.allowedBrands = derived.allowedBrands;
-      user.allowedCustomers = derived.allowedCustomers;
-    }
+    const scopes = resolveUserScopes(user);
+    user.allowedBusinessAreas = scopes.allowedBusinessAreas;
+    user.allowedChannels = scopes.allowedChannels;
+    user.allowedBrands = scopes.allowedBrands;
+    user.allowedCustomers = scopes.allowedCustomers;
 
     // Attach to request (typed via express augmentation)
     (req as any).user = user;
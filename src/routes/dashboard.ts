@@ -2,26 +2,72 @@ import { Router } from 'express';
 import Joi from 'joi';
 import { dashboardController } from '@/controllers/dashboardController';
 import { analyticsService } from '@/services/analyticsService';
+import { CUSTOM_PERIOD, MONTH_REF_PATTERN } from '@/services/periodWindow';
+import { parseParetoCutoffs } from '@/services/paretoAnalysis';
 import { logger } from '@/utils/logger';
 
 const router = Router();
 
+// A dimension filter: one value or a list (repeated query parameter)
+const filterValue = Joi.alternatives().try(Joi.string(), Joi.array().items(Joi.string()));
+
+// A budget/forecast scenario of the plan file
+const planScenario = Joi.string().valid('budget', 'forecast');
+
 const querySchema = Joi.object({
   year: Joi.number().integer().min(2000).max(2100).optional(),
-  period: Joi.string().optional(), // Allow any period from filter options
-  month: Joi.string().optional(), // Allow any month name format
-  businessArea: Joi.string().optional(),
-  brand: Joi.string().optional(),
-  category: Joi.string().optional(),
-  subCategory: Joi.string().optional(),
-  channel: Joi.string().optional(),
-  customer: Joi.string().optional(),
+  period: Joi.string().optional(), // Allow any period from filter options, R3M/R6M/R12M or custom
+  // Month range (YYYY-MM) for custom periods; `to` also sets the last month of a rolling window
+  from: Joi.string().pattern(MONTH_REF_PATTERN).when('period', { is: CUSTOM_PERIOD, then: Joi.required() }),
+  to: Joi.string().pattern(MONTH_REF_PATTERN).optional(),
+  compare: Joi.string().valid('priorYear', 'priorPeriod').optional(),
+  // Variance bridge: comparison months and the item level the mix is measured over
+  comparison: Joi.string().valid('priorYear', 'priorPeriod').optional(),
+  level: Joi.string().valid('sku', 'brand').optional(),
+  groupBy: Joi.string().valid('business', 'channel', 'brand').optional(),
+  // Pareto A/B/C shares of the measure (%)
+  cutoffs: Joi.string().pattern(/^\d+(\.\d+)?,\d+(\.\d+)?,\d+(\.\d+)?$/).optional(),
+  // Forecast prediction interval level (%)
+  confidence: Joi.number().valid(80, 90, 95).optional(),
+  // Plan scenarios the reports add "vs" columns for (repeat for both)
+  vs: Joi.alternatives().try(planScenario, Joi.array().items(planScenario)).optional(),
+  month: filterValue.optional(), // Allow any month name format
+  businessArea: filterValue.optional(),
+  brand: filterValue.optional(),
+  category: filterValue.optional(),
+  subCategory: filterValue.optional(),
+  channel: filterValue.optional(),
+  customer: filterValue.optional(),
+  not: Joi.object({
+    month: filterValue,
+    businessArea: filterValue,
+    brand: filterValue,
+    category: filterValue,
+    subCategory: filterValue,
+    channel: filterValue,
+    customer: filterValue
+  }).optional(),
   metric: Joi.string().optional(),
+  // Report endpoints: JSON (default) or an Excel workbook download
+  format: Joi.string().valid('json', 'xlsx').optional(),
   limit: Joi.number().integer().min(1).max(1000).optional(),
   dimension: Joi.string().optional(),
   page: Joi.number().integer().min(1).optional(),
   pageSize: Joi.number().integer().min(1).max(200).optional(),
-}).unknown(true);
+}).unknown(true).custom((value, helpers) => {
+  // YYYY-MM strings order chronologically
+  if (value.from && value.to && value.from > value.to) {
+    return helpers.message({ custom: '"from" must not be after "to"' });
+  }
+  if (value.cutoffs) {
+    try {
+      parseParetoCutoffs(value.cutoffs);
+    } catch (error) {
+      return helpers.message({ custom: (error as Error).message });
+    }
+  }
+  return value;
+});
 
 function validateQuery(req: any, res: any, next: any) {
   const { error } = querySchema.validate(req.query, { abortEarly: false });
@@ -73,6 +119,20 @@ router.get('/filter-options', validateQuery, dashboardController.getFilterOption
  */
 router.get('/data-health', validateQuery, dashboardController.getDataHealth.bind(dashboardController));
 
+/**
+ * @route GET /api/v1/dashboard/data-quality
+ * @desc Get rejected/coerced row counts per rule, sample bad rows and per-column null/zero rates
+ * @access Public
+ */
+router.get('/data-quality', validateQuery, dashboardController.getDataQuality.bind(dashboardController));
+
+/**
+ * @route GET /api/v1/dashboard/data-refresh
+ * @desc Get background data refresh status (schedule, last run, duration, outcome)
+ * @access Public
+ */
+router.get('/data-refresh', dashboardController.getDataRefreshStatus.bind(dashboardController));
+
 /**
  * @route GET /api/v1/dashboard/trend
  * @desc Get trend analysis time series
@@ -87,6 +147,13 @@ router.get('/trend', validateQuery, dashboardController.getTrend.bind(dashboardC
  */
 router.get('/top-performers', validateQuery, dashboardController.getTopPerformers.bind(dashboardController));
 
+/**
+ * @route GET /api/v1/dashboard/pareto
+ * @desc Get every member of a dimension ranked by a metric with cumulative share and A/B/C class (cutoffs=80,15,5)
+ * @access Public
+ */
+router.get('/pareto', validateQuery, dashboardController.getPareto.bind(dashboardController));
+
 /**
  * @route GET /api/v1/dashboard/risk
  * @desc Get risk analysis
@@ -94,13 +161,34 @@ router.get('/top-performers', validateQuery, dashboardController.getTopPerformer
  */
 router.get('/risk', validateQuery, dashboardController.getRisk.bind(dashboardController));
 
+/**
+ * @route GET /api/v1/dashboard/anomalies
+ * @desc Get unusual months of each brand × customer × channel series, ranked by gSales impact (latest three months unless a period is selected)
+ * @access Public
+ */
+router.get('/anomalies', validateQuery, dashboardController.getAnomalies.bind(dashboardController));
+
 /**
  * @route GET /api/v1/dashboard/variance
- * @desc Get variance analysis
+ * @desc Get the fGP price-volume-mix variance bridge (comparison=priorYear|priorPeriod, level=sku|brand)
  * @access Public
  */
 router.get('/variance', validateQuery, dashboardController.getVariance.bind(dashboardController));
 
+/**
+ * @route GET /api/v1/dashboard/fgp-bridge
+ * @desc Get the fGP bridge by P&L line from last year to current (groupBy=business|channel|brand)
+ * @access Public
+ */
+router.get('/fgp-bridge', validateQuery, dashboardController.getFgpBridge.bind(dashboardController));
+
+/**
+ * @route GET /api/v1/dashboard/forecast
+ * @desc Get the gSales, Cases and fGP forecast and full-year landing vs LY (groupBy=business|channel|brand, confidence=80|90|95)
+ * @access Public
+ */
+router.get('/forecast', validateQuery, dashboardController.getForecast.bind(dashboardController));
+
 /**
  * @route GET /api/v1/dashboard/categories
  * @desc Get category performance data
@@ -131,11 +219,18 @@ router.get('/customers', validateQuery, dashboardController.getCustomerPerforman
 
 /**
  * @route GET /api/v1/dashboard/customer-overview
- * @desc Get customer overview cards data
+ * @desc Get customer overview cards data (comparison=priorYear|priorPeriod)
  * @access Public
  */
 router.get('/customer-overview', validateQuery, dashboardController.getCustomerOverview.bind(dashboardController));
 
+/**
+ * @route GET /api/v1/dashboard/customer-lifecycle
+ * @desc Get new, retained, recovered, lost and at-risk customers against last year (comparison=priorYear|priorPeriod)
+ * @access Public
+ */
+router.get('/customer-lifecycle', validateQuery, dashboardController.getCustomerLifecycle.bind(dashboardController));
+
 /**
  * @route GET /api/v1/dashboard/top-customers
  * @desc Get top customers data
@@ -150,6 +245,13 @@ router.get('/top-customers', validateQuery, dashboardController.getTopCustomers.
  */
 router.get('/customer-channels', validateQuery, dashboardController.getCustomerChannels.bind(dashboardController));
 
+/**
+ * @route GET /api/v1/dashboard/customer-concentration
+ * @desc Get customer concentration of gSales and fGP (HHI, top 1/5/10 share) vs LY (groupBy=business|channel|brand)
+ * @access Public
+ */
+router.get('/customer-concentration', validateQuery, dashboardController.getCustomerConcentration.bind(dashboardController));
+
 /**
  * @route GET /api/v1/dashboard/business-area-detailed
  * @desc Get detailed business area metrics
@@ -164,6 +266,8 @@ router.get('/business-area-detailed', validateQuery, dashboardController.getBusi
  */
 router.get('/export-csv', validateQuery, dashboardController.exportCSV.bind(dashboardController));
 
+// Every /reports/* route returns JSON, or an .xlsx workbook with ?format=xlsx
+
 /**
  * @route GET /api/v1/dashboard/reports/business-area-summary
  * @desc Get reports business area summary with Excel formulas
@@ -229,11 +333,19 @@ router.get('/reports/household-brands', validateQuery, dashboardController.getHo
 
 /**
  * @route GET /api/v1/dashboard/reports/household-brands-details
- * @desc Get household brands details with sub-category level performance data
+ * @desc Get household brand, sub-category and product performance computed from the sales data
  * @access Public
  */
 router.get('/reports/household-brands-details', validateQuery, dashboardController.getHouseholdBrandsDetails.bind(dashboardController));
 
+/**
+ * @route GET /api/v1/dashboard/board-pack
+ * @desc Get the monthly board pack as a PDF: cover page, then the business-area, channel, sales-to-fGP,
+ * trend-by-month, top customers and total brands reports for the filters
+ * @access Public
+ */
+router.get('/board-pack', validateQuery, dashboardController.getBoardPack.bind(dashboardController));
+
   // Dashboard Charts endpoints
   router.post('/fgp-by-business', async (req, res) => {
     try {
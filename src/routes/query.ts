@@ -0,0 +1,24 @@
+import { Router } from 'express';
+import { queryController } from '@/controllers/queryController';
+import { validateQuerySpec } from '@/services/queryService';
+
+const router = Router();
+
+function validateSpec(req: any, res: any, next: any) {
+  const { value, errors } = validateQuerySpec(req.body);
+  if (errors) {
+    return res.status(400).json({ success: false, error: { code: 'INVALID_QUERY', message: 'Invalid query specification', details: errors } });
+  }
+  req.body = value;
+  next();
+}
+
+/**
+ * @route POST /api/v1/query
+ * @desc Group-by query over sales data: dimensions, measures (sum, count, countDistinct, avg, ratios such as fGP%),
+ *       filters (in / notIn), sort, limit and an optional LY or prior-period comparison. Honours RLS scopes.
+ * @access Public
+ */
+router.post('/', validateSpec, queryController.runQuery.bind(queryController));
+
+export default router;
@@ -0,0 +1,122 @@
+import { Router } from 'express';
+import Joi from 'joi';
+import cron from 'node-cron';
+import { subscriptionController } from '@/controllers/subscriptionController';
+import { CUSTOM_PERIOD, MONTH_REF_PATTERN } from '@/services/periodWindow';
+import { SUBSCRIBABLE_REPORTS } from '@/services/reportSubscriptions';
+
+const router = Router();
+
+// A dimension filter: one value or a list
+const filterValue = Joi.alternatives().try(Joi.string(), Joi.array().items(Joi.string()));
+
+const planScenario = Joi.string().valid('budget', 'forecast');
+
+// The report filters a subscription runs with (RLS scopes are added at delivery, never stored)
+const filtersSchema = Joi.object({
+  year: Joi.number().integer().min(2000).max(2100),
+  period: Joi.string(),
+  from: Joi.string().pattern(MONTH_REF_PATTERN).when('period', { is: CUSTOM_PERIOD, then: Joi.required() }),
+  to: Joi.string().pattern(MONTH_REF_PATTERN),
+  compare: Joi.string().valid('priorYear', 'priorPeriod'),
+  vs: Joi.array().items(planScenario),
+  month: filterValue,
+  businessArea: filterValue,
+  brand: filterValue,
+  category: filterValue,
+  subCategory: filterValue,
+  channel: filterValue,
+  customer: filterValue,
+  not: Joi.object({
+    month: Joi.array().items(Joi.string()),
+    businessArea: Joi.array().items(Joi.string()),
+    brand: Joi.array().items(Joi.string()),
+    category: Joi.array().items(Joi.string()),
+    subCategory: Joi.array().items(Joi.string()),
+    channel: Joi.array().items(Joi.string()),
+    customer: Joi.array().items(Joi.string())
+  })
+});
+
+const schedule = Joi.string().custom((value, helpers) => (
+  cron.validate(value) ? value : helpers.message({ custom: '"schedule" must be a cron expression, e.g. "0 7 * * 1" for Mondays at 07:00' })
+));
+
+const timezone = Joi.string().custom((value, helpers) => {
+  try {
+    new Intl.DateTimeFormat('en', { timeZone: value });
+    return value;
+  } catch {
+    return helpers.message({ custom: '"timezone" must be an IANA time zone, e.g. "Europe/Dublin"' });
+  }
+});
+
+const subscriptionFields = {
+  name: Joi.string().max(120),
+  report: Joi.string().valid(...SUBSCRIBABLE_REPORTS),
+  format: Joi.string().valid('xlsx', 'pdf', 'csv'),
+  filters: filtersSchema,
+  schedule,
+  timezone,
+  recipients: Joi.array().min(1).max(20).items(Joi.string().email()),
+  enabled: Joi.boolean()
+};
+
+const createSchema = Joi.object({
+  ...subscriptionFields,
+  report: subscriptionFields.report.required(),
+  format: subscriptionFields.format.required(),
+  schedule: subscriptionFields.schedule.required()
+});
+
+const updateSchema = Joi.object(subscriptionFields).min(1);
+
+function validateBody(schema: Joi.ObjectSchema) {
+  return (req: any, res: any, next: any) => {
+    const { value, error } = schema.validate(req.body, { abortEarly: false });
+    if (error) {
+      return res.status(400).json({ success: false, error: { code: 'INVALID_SUBSCRIPTION', message: 'Invalid report subscription', details: error.details.map((d: any) => d.message) } });
+    }
+    req.body = value;
+    next();
+  };
+}
+
+/**
+ * @route GET /api/v1/subscriptions
+ * @desc List the signed-in user's report subscriptions with their last delivery
+ * @access Private
+ */
+router.get('/', subscriptionController.list.bind(subscriptionController));
+
+/**
+ * @route POST /api/v1/subscriptions
+ * @desc Subscribe to a report (or the board pack) with fixed filters on a cron schedule, delivered as
+ *       xlsx, pdf or csv to the user (or the listed recipients) and run with the user's RLS scopes.
+ *       Recipients other than the user must be in REPORT_RECIPIENT_DOMAINS unless the user is an admin
+ * @access Private
+ */
+router.post('/', validateBody(createSchema), subscriptionController.create.bind(subscriptionController));
+
+/**
+ * @route PATCH /api/v1/subscriptions/:id
+ * @desc Change a subscription's report, filters, format, schedule or recipients, or pause it (enabled: false)
+ * @access Private
+ */
+router.patch('/:id', validateBody(updateSchema), subscriptionController.update.bind(subscriptionController));
+
+/**
+ * @route DELETE /api/v1/subscriptions/:id
+ * @desc Delete a subscription
+ * @access Private
+ */
+router.delete('/:id', subscriptionController.remove.bind(subscriptionController));
+
+/**
+ * @route POST /api/v1/subscriptions/:id/run
+ * @desc Render and deliver a subscription now
+ * @access Private
+ */
+router.post('/:id/run', subscriptionController.run.bind(subscriptionController));
+
+export default router;
@@ -1,46 +1,176 @@
 import _ from 'lodash';
 import moment from 'moment';
-import { SalesData, DataFilters, AggregatedData, TopPerformer, RiskItem, VarianceAnalysis, TrendAnalysis, PaginatedResponse, PaginationParams } from '@/types/data';
+import { SalesData, SalesDataSource, DataFilters, FilterValue, FilterExclusions, Anomaly, ConcentrationGroupBy, CustomerConcentration, CustomerConcentrationResult, CustomerLifecycle, FgpBridge, FgpBridgeGroupBy, FgpBridgeResult, ForecastGroup, ForecastGroupBy, ForecastMeasure, ForecastPoint, ForecastResult, MeasureForecast, PeriodComparison, PeriodWindow, AggregatedData, TopPerformer, RiskItem, VarianceAnalysis, VarianceLevel, TrendAnalysis, PaginatedResponse, PaginationParams, ParetoResult, ReportDimension, ReportMeasure, ReportMeasureTotals, ReportMemberTotals } from '@/types/data';
 import { config } from '@/utils/config';
-import { getAzureService } from './azureService';
+import { datasetCacheKey, getPlanDataSource, getSalesDataSource } from './dataSource';
 import { cacheService } from './cacheService';
 import { logger } from '@/utils/logger';
+import { toNumber } from '@/utils/number';
+import { ColumnarDataset, DimensionPredicates, DimensionValue, MeasureField, PERIOD_FIELD, intersectPredicates, periodKey, periodMonth, restrictDimension } from './columnarDataset';
+import { SalesCube, CubeDimension, CubeMeasure } from './salesCube';
+import { getFiscalCalendar } from './fiscalCalendar';
+import { comparisonWindow, formatMonthRef, isWindowPeriod, periodsWindow, resolvePeriodWindow, shiftPeriods } from './periodWindow';
+import { buildPnlBridge, buildVarianceBridge } from './varianceBridge';
+import { buildCustomerLifecycle } from './customerLifecycle';
+import { brandDependencies, buildConcentration } from './customerConcentration';
+import { detectAnomalies } from './anomalyDetection';
+import { getRiskRules, riskMetrics, scoreRisk } from './riskRules';
+import { buildPareto, parseParetoCutoffs } from './paretoAnalysis';
+import { attachPlanColumns, scenarioRows } from './planComparison';
+import { getReportDefinition, reportMemberValues } from './reportDefinitions';
+import { renderReport } from './reportEngine';
+import { INTERVAL_Z, forecastSeries, sumVariance } from './salesForecast';
+import { FILTER_DIMENSIONS, filterValues, hasFilter, matchesAnyFilter, matchesFilter, matchesFilters, restrictToFilters, soleFilterValue } from './dimensionFilters';
 
 /**
- * Helper function to parse numbers from CSV that may contain commas
- * Handles: "1,234.56" → 1234.56, "1234" → 1234, null/undefined → 0
+ * Restrict predicates to the RLS scopes (allow lists) injected by the auth middleware
  */
-function parseNumber(value: any): number {
-  if (value === null || value === undefined || value === '') return 0;
-  if (typeof value === 'number') return value;
-  if (typeof value === 'string') {
-    // Remove commas and parse
-    const cleaned = value.replace(/,/g, '');
-    const parsed = parseFloat(cleaned);
-    return isNaN(parsed) ? 0 : parsed;
+export function restrictToScopes(predicates: DimensionPredicates, scopes: DataFilters): void {
+  if (scopes.allowedBusinessAreas && scopes.allowedBusinessAreas.length) {
+    restrictDimension(predicates, 'Business', scopes.allowedBusinessAreas);
+  }
+  if (scopes.allowedChannels && scopes.allowedChannels.length) {
+    restrictDimension(predicates, 'Channel', scopes.allowedChannels);
+  }
+  if (scopes.allowedBrands && scopes.allowedBrands.length) {
+    restrictDimension(predicates, 'Brand', scopes.allowedBrands);
+  }
+  if (scopes.allowedCustomers && scopes.allowedCustomers.length) {
+    restrictDimension(predicates, 'Customer', scopes.allowedCustomers);
   }
-  return 0;
 }
 
-export class AnalyticsService {
-  private static readonly MONTHS = [
-    'Jan','Feb','Mar','Apr','May','Jun','Jul','Aug','Sep','Oct','Nov','Dec'
-  ];
+// Currency label for the overview cards, optionally in thousands (K) or millions (M)
+function formatEuro(value: number, unit?: 'K' | 'M'): string {
+  const sign = value < 0 ? '-' : '';
+  const amount = Math.abs(value);
+  if (unit === 'M') return `${sign}€${(amount / 1000000).toFixed(1)}M`;
+  if (unit === 'K') return `${sign}€${(amount / 1000).toFixed(0)}K`;
+  return `${sign}€${Math.round(amount).toLocaleString('en-US')}`;
+}
+
+// Change label with an explicit + for increases
+function signed(value: number, format: (value: number) => string): string {
+  return value > 0 ? `+${format(value)}` : format(value);
+}
+
+const FORECAST_MEASURES: ForecastMeasure[] = ['gSales', 'Cases', 'fGP'];
 
+// Row field each fGP bridge, forecast and customer concentration breakdown groups by
+const GROUP_BY_FIELDS: Record<FgpBridgeGroupBy, keyof SalesData> = {
+  business: 'Business',
+  channel: 'Channel',
+  brand: 'Brand'
+};
+
+export class AnalyticsService {
+  /**
+   * Fiscal period of a month (1-12 from the fiscal year start), 0 if not found
+   */
   private getMonthIndex(monthName: string): number {
-    return AnalyticsService.MONTHS.indexOf(monthName) + 1; // 1-12, 0 if not found
+    return getFiscalCalendar().periodOf(monthName);
   }
 
   private getQuarterMonths(quarter: number): string[] {
-    const start = (quarter - 1) * 3;
-    return AnalyticsService.MONTHS.slice(start, start + 3);
+    return getFiscalCalendar().quarterMonths(quarter);
+  }
+
+  /**
+   * Rolling or custom window requested by the filters, resolved against the latest month loaded
+   */
+  private getPeriodWindow(data: SalesData[], filters: DataFilters): PeriodWindow | undefined {
+    if (filters.window) return filters.window;
+    if (!isWindowPeriod(filters)) return undefined;
+    const { root } = ColumnarDataset.for(data).lineage();
+    const periods = ColumnarDataset.for(root).distinct(PERIOD_FIELD) as number[];
+    return resolvePeriodWindow(filters, periods.length ? _.max(periods)! : -1);
+  }
+
+  /**
+   * Report filters with the window resolved: its fiscal year becomes the report's current
+   * year and the month filter is consumed as the window anchor
+   */
+  private withPeriodWindow(data: SalesData[], filters: DataFilters): DataFilters {
+    const window = this.getPeriodWindow(data, filters);
+    return window ? { ...filters, window, year: window.fiscalYear, month: undefined } : filters;
+  }
+
+  /**
+   * Rows a report runs on: the actuals, or the plan rows of `filters.scenario`
+   */
+  private async fetchReportData(filters: DataFilters): Promise<SalesData[]> {
+    if (!filters.scenario) {
+      return getSalesDataSource().fetchSalesData();
+    }
+    return scenarioRows(await this.getPlanSource().fetchSalesData(), filters.scenario);
+  }
+
+  /**
+   * The configured budget/forecast source; PLAN_NOT_CONFIGURED when there is none
+   */
+  private getPlanSource(): SalesDataSource {
+    const planSource = getPlanDataSource();
+    if (!planSource) {
+      logger.warn('No budget/forecast data configured; set PLAN_CSV_FILENAME, PLAN_CSV_PATTERN or PLAN_FIXTURE_FILE');
+      throw new Error('PLAN_NOT_CONFIGURED');
+    }
+    return planSource;
+  }
+
+  /**
+   * Run a report on the actuals and once per scenario in `filters.vs` on the plan rows, adding the
+   * plan values and variances to the actual rows. Windows and the default year are resolved against
+   * the actuals first so every run covers the same months.
+   */
+  private async withPlanComparison(filters: DataFilters, report: (filters: DataFilters) => Promise<any[]>): Promise<any[]> {
+    this.getPlanSource();
+    const data = await getSalesDataSource().fetchSalesData();
+    const resolved: DataFilters = { ...this.withPeriodWindow(data, filters), vs: undefined };
+    resolved.year = resolved.year || getFiscalCalendar().fiscalYearOfDate(new Date());
+
+    const rows = await report(resolved);
+    for (const scenario of _.uniq(filters.vs)) {
+      attachPlanColumns(rows, await report({ ...resolved, scenario }), scenario);
+    }
+    return rows;
+  }
+
+  /**
+   * Months a report column covers: the window for its current year, comparison windows for earlier years
+   */
+  private getWindowPeriods(window: PeriodWindow, year: number): number[] {
+    const yearsBack = window.fiscalYear - year;
+    return yearsBack === 0 ? window.periods : shiftPeriods(window.periods, window.comparison, yearsBack);
+  }
+
+  /**
+   * Row-level year check for report columns, honouring a rolling or custom window
+   */
+  private matchesReportYear(year: number, window?: PeriodWindow): (row: SalesData) => boolean {
+    if (window) {
+      const periods = new Set(this.getWindowPeriods(window, year));
+      return row => periods.has(periodKey(row.Year, row['Month Name']));
+    }
+    const calendar = getFiscalCalendar();
+    return row => calendar.fiscalYear(row.Year, row['Month Name']) === year;
+  }
+
+  /**
+   * Fiscal years present in a dataset, ascending
+   */
+  private getFiscalYears(dataset: ColumnarDataset): number[] {
+    const calendar = getFiscalCalendar();
+    const years = (dataset.distinct(PERIOD_FIELD) as number[])
+      .filter(period => period >= 0)
+      .map(period => calendar.fiscalYearOfPeriod(period));
+    return [...new Set(years)].sort((a, b) => a - b);
   }
   /**
    * Get aggregated data based on filters
    */
   async getAggregatedData(filters: DataFilters): Promise<AggregatedData> {
     const allowEmpty = process.env.ALLOW_EMPTY_DATA !== 'false';
-    const cacheKey = `aggregated_${JSON.stringify(filters)}`;
+    const cacheKey = datasetCacheKey(`aggregated_${JSON.stringify(filters)}`);
     
     // Check cache first
     const cached = await cacheService.get<AggregatedData>(cacheKey);
@@ -49,8 +179,8 @@ export class AnalyticsService {
     }
 
     try {
-      const azureService = getAzureService();
-      const data = await azureService.fetchCSVData();
+      const dataSource = getSalesDataSource();
+      const data = await dataSource.fetchSalesData();
       const filteredData = this.applyFilters(data, filters);
       
       const aggregated = this.calculateAggregates(filteredData);
@@ -85,8 +215,8 @@ export class AnalyticsService {
   async getFilteredData(filters: DataFilters): Promise<SalesData[]> {
     const allowEmpty = process.env.ALLOW_EMPTY_DATA !== 'false';
     try {
-      const azureService = getAzureService();
-      const data = await azureService.fetchCSVData();
+      const dataSource = getSalesDataSource();
+      const data = await dataSource.fetchSalesData();
       return this.applyFilters(data, filters);
     } catch (error) {
       logger.error('Error getting filtered data:', error);
@@ -99,6 +229,8 @@ export class AnalyticsService {
    * Get reports business area summary implementing Excel formulas
    */
   async getReportsBusinessAreaSummary(filters: DataFilters): Promise<any[]> {
+    if (filters.vs?.length) return this.withPlanComparison(filters, f => this.getReportsBusinessAreaSummary(f));
+
     const allowEmpty = process.env.ALLOW_EMPTY_DATA !== 'false';
     // Disable caching temporarily to ensure fresh data
     // const cacheKey = `reports_business_area_${JSON.stringify(filters)}`;
@@ -110,8 +242,8 @@ export class AnalyticsService {
     // }
 
     try {
-      const azureService = getAzureService();
-      const data = await azureService.fetchCSVData();
+      const data = await this.fetchReportData(filters);
+      filters = this.withPeriodWindow(data, filters);
       console.log(`\n=== Azure Data Debug (Business Area) ===`);
       console.log(`Raw data length: ${data.length}`);
       if (data.length > 0) {
@@ -119,28 +251,9 @@ export class AnalyticsService {
         console.log('Available columns:', Object.keys(data[0]));
         
         // Debug: Check available years and months
-        const availableYears = [...new Set(data.map(row => row.Year))].sort();
-        const availableMonths = [...new Set(data.map(row => row['Month Name']))].sort();
-        console.log('Available years:', availableYears);
-        console.log('Available months:', availableMonths);
-        
-        // Debug: Check data distribution by year
-        const yearDistribution = _.groupBy(data, 'Year');
-        Object.keys(yearDistribution).forEach(year => {
-          console.log(`Year ${year}: ${yearDistribution[year].length} rows`);
-        });
-        
-        // Debug: Check sample data for each year
-        availableYears.forEach(year => {
-          const yearData = data.filter(row => row.Year == year);
-          if (yearData.length > 0) {
-            console.log(`\n--- Sample data for Year ${year} ---`);
-            console.log('First row:', yearData[0]);
-            console.log('Available months in this year:', [...new Set(yearData.map(row => row['Month Name']))].sort());
-            console.log('Sample Business areas:', [...new Set(yearData.map(row => row.Business))].slice(0, 5));
-            console.log('Sample Channels:', [...new Set(yearData.map(row => row.Channel))].slice(0, 5));
-          }
-        });
+        const dataset = ColumnarDataset.for(data);
+        console.log('Available years:', dataset.distinct('Year').sort());
+        console.log('Available months:', dataset.distinct('Month Name').sort());
       }
       
       // For reports, we need ALL data (not filtered by year) to calculate year-over-year comparisons
@@ -149,7 +262,7 @@ export class AnalyticsService {
       delete reportsFilters.year; // Remove year filter to get all years
       
       // CRITICAL FIX: Set period to MTD when month is specified to enable month filtering
-      if (filters.month && filters.month !== 'All') {
+      if (hasFilter(filters.month)) {
         reportsFilters.period = 'MTD';
         // CRITICAL: Also remove year from the period logic to prevent filtering
         delete reportsFilters.year;
@@ -161,30 +274,7 @@ export class AnalyticsService {
       const filteredData = this.applyFilters(data, reportsFilters);
       console.log(`Filtered data length: ${filteredData.length}`);
       
-      const businessAreas = ['Food', 'Household', 'Brillo & KMPL', 'Kinetica'];
-      const results: any[] = [];
-
-      for (const businessArea of businessAreas) {
-        const rowData = this.calculateReportsRowData(filteredData, filters, businessArea, 'businessArea');
-        results.push({
-          name: businessArea,
-          ...rowData
-        });
-      }
-
-      // Calculate Total row
-      const totalRow = this.calculateReportsTotalRow(results);
-      results.push({
-        name: 'Total',
-        ...totalRow
-      });
-
-      // Calculate Total Household row (Household + Brillo & KMPL)
-      const householdRow = this.calculateReportsHouseholdTotal(results);
-      results.push({
-        name: 'Total Household',
-        ...householdRow
-      });
+      const results = this.renderReportDefinition('business-area-summary', filteredData, filters, this.reportCriteria(filters));
 
       // Cache the result
       // await cacheService.set(cacheKey, results, 1800); // 30 minutes - DISABLED FOR TESTING
@@ -201,6 +291,8 @@ export class AnalyticsService {
    * Get reports channel summary implementing Excel formulas
    */
   async getReportsChannelSummary(filters: DataFilters): Promise<any[]> {
+    if (filters.vs?.length) return this.withPlanComparison(filters, f => this.getReportsChannelSummary(f));
+
     const allowEmpty = process.env.ALLOW_EMPTY_DATA !== 'false';
     // Disable caching temporarily to ensure fresh data
     // const cacheKey = `reports_channel_${JSON.stringify(filters)}`;
@@ -212,8 +304,8 @@ export class AnalyticsService {
     // }
 
     try {
-      const azureService = getAzureService();
-      const data = await azureService.fetchCSVData();
+      const data = await this.fetchReportData(filters);
+      filters = this.withPeriodWindow(data, filters);
       console.log(`\n=== Azure Data Debug (Channel) ===`);
       console.log(`Raw data length: ${data.length}`);
       if (data.length > 0) {
@@ -227,7 +319,7 @@ export class AnalyticsService {
       delete reportsFilters.year; // Remove year filter to get all years
       
       // CRITICAL FIX: Set period to MTD when month is specified to enable month filtering
-      if (filters.month && filters.month !== 'All') {
+      if (hasFilter(filters.month)) {
         reportsFilters.period = 'MTD';
         // CRITICAL: Also remove year from the period logic to prevent filtering
         delete reportsFilters.year;
@@ -239,47 +331,7 @@ export class AnalyticsService {
       const filteredData = this.applyFilters(data, reportsFilters);
       console.log(`Filtered data length: ${filteredData.length}`);
       
-      const channels = [
-        'Grocery ROI', 
-        'Grocery UK & NI', 
-        'Wholesale ROI', 
-        'Wholesale UK & NI', 
-        'International', 
-        'Online', 
-        'Sports & Others'
-      ];
-      const results: any[] = [];
-
-      for (const channel of channels) {
-        const rowData = this.calculateReportsRowData(filteredData, filters, channel, 'channel');
-        results.push({
-          name: channel,
-          ...rowData
-        });
-      }
-
-      // Calculate Total row
-      const totalRow = this.calculateReportsTotalRow(results);
-      results.push({
-        name: 'Total',
-        ...totalRow
-      });
-
-      // Calculate Grocery & Wholesale ROI (Grocery ROI + Wholesale ROI)
-      const groceryWholesaleROI = this.calculateReportsCombinedRow(
-        results, 
-        ['Grocery ROI', 'Wholesale ROI'], 
-        'Grocery & Wholesale ROI'
-      );
-      results.push(groceryWholesaleROI);
-
-      // Calculate Grocery & Wholesale UK & NI (Grocery UK & NI + Wholesale UK & NI)
-      const groceryWholesaleUKNI = this.calculateReportsCombinedRow(
-        results, 
-        ['Grocery UK & NI', 'Wholesale UK & NI'], 
-        'Grocery & Wholesale UK & NI'
-      );
-      results.push(groceryWholesaleUKNI);
+      const results = this.renderReportDefinition('channel-summary', filteredData, filters, this.reportCriteria(filters));
 
       // Cache the result - DISABLED FOR TESTING
       // await cacheService.set(cacheKey, results, 1800); // 30 minutes
@@ -297,7 +349,7 @@ export class AnalyticsService {
    */
   async getTopPerformers(filters: DataFilters, metric: string = 'gSales', limit: number = config.topNDefaultLimit, dimension: keyof SalesData = 'Brand', offset: number = 0): Promise<PaginatedResponse<TopPerformer>> {
     const allowEmpty = process.env.ALLOW_EMPTY_DATA !== 'false';
-    const cacheKey = `top_performers_${String(dimension)}_${metric}_${JSON.stringify(filters)}_${limit}_${offset}`;
+    const cacheKey = datasetCacheKey(`top_performers_${String(dimension)}_${metric}_${JSON.stringify(filters)}_${limit}_${offset}`);
     
     const cached = await cacheService.get<PaginatedResponse<TopPerformer>>(cacheKey);
     if (cached) {
@@ -305,8 +357,8 @@ export class AnalyticsService {
     }
 
     try {
-      const azureService = getAzureService();
-      const data = await azureService.fetchCSVData();
+      const dataSource = getSalesDataSource();
+      const data = await dataSource.fetchSalesData();
       const filteredData = this.applyFilters(data, filters);
       
       const performers = this.calculateTopPerformers(filteredData, metric, limit, String(dimension), offset);
@@ -333,12 +385,41 @@ export class AnalyticsService {
     }
   }
 
+  /**
+   * Get every member of a dimension ranked by a measure, with its cumulative share and A/B/C class
+   */
+  async getParetoAnalysis(filters: DataFilters, dimension: keyof SalesData = 'Brand', metric: string = 'gSales', cutoffs: string = config.abcCutoffs): Promise<ParetoResult> {
+    const cacheKey = datasetCacheKey(`pareto_${String(dimension)}_${metric}_${cutoffs}_${JSON.stringify(filters)}`);
+
+    const cached = await cacheService.get<ParetoResult>(cacheKey);
+    if (cached) {
+      return cached;
+    }
+
+    try {
+      const classCutoffs = parseParetoCutoffs(cutoffs);
+      const dataSource = getSalesDataSource();
+      const data = await dataSource.fetchSalesData();
+      const filteredData = this.applyFilters(data, filters);
+
+      const pareto = buildPareto(filteredData, dimension, metric, classCutoffs);
+
+      await cacheService.set(cacheKey, pareto, 1800);
+
+      return pareto;
+    } catch (error) {
+      logger.error('Error getting Pareto analysis:', error);
+      throw error;
+    }
+  }
+
   /**
    * Get risk analysis for underperforming items
    */
   async getRiskAnalysis(filters: DataFilters, dimension: keyof SalesData = 'Brand', limit: number = config.topNDefaultLimit, offset: number = 0): Promise<PaginatedResponse<RiskItem>> {
     const allowEmpty = process.env.ALLOW_EMPTY_DATA !== 'false';
-    const cacheKey = `risk_analysis_${String(dimension)}_${JSON.stringify(filters)}_${limit}_${offset}`;
+    // Keyed by the rules too, so retuned rules apply without waiting for the cache to expire
+    const cacheKey = datasetCacheKey(`risk_analysis_${String(dimension)}_${JSON.stringify(filters)}_${limit}_${offset}_${JSON.stringify(getRiskRules())}`);
     
     const cached = await cacheService.get<PaginatedResponse<RiskItem>>(cacheKey);
     if (cached) {
@@ -346,11 +427,11 @@ export class AnalyticsService {
     }
 
     try {
-      const azureService = getAzureService();
-      const data = await azureService.fetchCSVData();
-      const filteredData = this.applyFilters(data, filters);
+      const dataSource = getSalesDataSource();
+      const data = await dataSource.fetchSalesData();
+      const { currentData, previousData } = this.getComparisonData(data, filters, 'priorYear');
       
-      const risks = this.calculateRiskItems(filteredData, String(dimension), limit, offset);
+      const risks = this.calculateRiskItems(currentData, previousData, String(dimension), limit, offset);
       
       await cacheService.set(cacheKey, risks, 1800);
       
@@ -374,12 +455,60 @@ export class AnalyticsService {
     }
   }
 
+  /**
+   * Get statistically unusual months of each brand × customer × channel series in the selected
+   * period (the latest three months when no period is selected), ranked by gSales impact
+   */
+  async getAnomalies(filters: DataFilters, limit: number = config.topNDefaultLimit, offset: number = 0): Promise<PaginatedResponse<Anomaly>> {
+    const cacheKey = datasetCacheKey(`anomalies_${JSON.stringify(filters)}_${limit}_${offset}`);
+
+    const cached = await cacheService.get<PaginatedResponse<Anomaly>>(cacheKey);
+    if (cached) {
+      return cached;
+    }
+
+    try {
+      const dataSource = getSalesDataSource();
+      const allData = await dataSource.fetchSalesData();
+
+      const scanned = filters.year || filters.period || filters.from ? filters : { ...filters, period: 'R3M' };
+      const periods = (ColumnarDataset.for(this.applyFilters(allData, scanned)).distinct(PERIOD_FIELD) as number[])
+        .filter(p => p >= 0)
+        .sort((a, b) => a - b);
+      // Baselines look back before the scanned months, so the series keep every month loaded
+      const history = this.applyFilters(allData, {
+        ...filters,
+        year: undefined,
+        month: undefined,
+        period: undefined,
+        from: undefined,
+        to: undefined,
+        compare: undefined,
+        not: _.omit(filters.not, 'month')
+      });
+
+      const anomalies = detectAnomalies(history, periods, {
+        zThreshold: config.anomalyZThreshold,
+        marginDropPoints: config.anomalyMarginDropThreshold,
+        minValue: config.anomalyMinValue
+      });
+      const result = this.paginate(anomalies, limit, offset);
+
+      await cacheService.set(cacheKey, result, 1800);
+
+      return result;
+    } catch (error) {
+      logger.error('Error getting anomalies:', error);
+      throw error;
+    }
+  }
+
   /**
    * Get variance analysis for margin drivers
    */
-  async getVarianceAnalysis(filters: DataFilters, comparisonPeriod: string): Promise<VarianceAnalysis> {
+  async getVarianceAnalysis(filters: DataFilters, comparisonPeriod: string, level: VarianceLevel = 'sku'): Promise<VarianceAnalysis> {
     const allowEmpty = process.env.ALLOW_EMPTY_DATA !== 'false';
-    const cacheKey = `variance_${JSON.stringify(filters)}_${comparisonPeriod}`;
+    const cacheKey = datasetCacheKey(`variance_${JSON.stringify(filters)}_${comparisonPeriod}_${level}`);
     
     const cached = await cacheService.get<VarianceAnalysis>(cacheKey);
     if (cached) {
@@ -387,12 +516,16 @@ export class AnalyticsService {
     }
 
     try {
-      const azureService = getAzureService();
-      const data = await azureService.fetchCSVData();
+      const dataSource = getSalesDataSource();
+      const data = await dataSource.fetchSalesData();
       const currentData = this.applyFilters(data, filters);
-      const previousData = this.applyFilters(data, { ...filters, period: comparisonPeriod });
+      // Rolling/custom windows compare with their prior-year or prior-period window
+      const window = this.getPeriodWindow(data, filters);
+      const previousData = window
+        ? this.applyFilters(data, { ...filters, window: comparisonWindow(window, comparisonPeriod === 'priorPeriod' ? 'priorPeriod' : 'priorYear') })
+        : this.applyFilters(data, { ...filters, period: comparisonPeriod });
       
-      const variance = this.calculateVarianceAnalysis(currentData, previousData, filters, comparisonPeriod);
+      const variance = this.calculateVarianceAnalysis(currentData, previousData, filters, comparisonPeriod, level);
       
       await cacheService.set(cacheKey, variance, 1800);
       
@@ -400,155 +533,280 @@ export class AnalyticsService {
     } catch (error) {
       logger.error('Error getting variance analysis:', error);
       if (allowEmpty) {
-        return {
-          totalVariance: 0,
-          volumeVariance: 0,
-          priceVariance: 0,
-          costVariance: 0,
-          mixVariance: 0,
-          period: filters.period || 'current',
-          comparison: comparisonPeriod
-        };
+        return this.calculateVarianceAnalysis([], [], filters, comparisonPeriod, level);
       }
       throw error;
     }
   }
 
   /**
-   * Get variance analysis (public method for frontend)
+   * Get the fGP price-volume-mix bridge (public method for frontend): the filtered months against
+   * the same months a year earlier, or against the equally long period just before them
    */
-  async getVariance(filters: DataFilters): Promise<VarianceAnalysis> {
+  async getVariance(filters: DataFilters, comparison: PeriodComparison = 'priorYear', level: VarianceLevel = 'sku'): Promise<VarianceAnalysis> {
+    const allowEmpty = process.env.ALLOW_EMPTY_DATA !== 'false';
+    const cacheKey = datasetCacheKey(`variance_bridge_${JSON.stringify(filters)}_${comparison}_${level}`);
+
+    const cached = await cacheService.get<VarianceAnalysis>(cacheKey);
+    if (cached) {
+      return cached;
+    }
+
     try {
-      const azureService = getAzureService();
-      const allData = await azureService.fetchCSVData();
-      
-      // Get current period data
-      let currentData = this.applyFilters(allData, filters);
+      const dataSource = getSalesDataSource();
+      const allData = await dataSource.fetchSalesData();
       
-      if (currentData.length === 0) {
-        // No current data available
-        return {
-          totalVariance: 0,
-          volumeVariance: 0,
-          priceVariance: 0,
-          costVariance: 0,
-          mixVariance: 0,
-          period: filters.period || 'current',
-          comparison: 'No data available'
-        };
-      }
-      
-      // Find comparison data using actual available data periods
-      let previousData: SalesData[] = [];
-      let comparisonPeriod = 'Previous Period';
-      
-      // Strategy 1: Try to find month-over-month comparison
-      const monthlyData = _.groupBy(allData, 'Month Name');
-      const months = Object.keys(monthlyData)
-        .filter(Boolean)
-        .sort((a, b) => this.getMonthIndex(a) - this.getMonthIndex(b));
-      
-      if (months.length >= 2) {
-        // Get the most recent month as current, previous month as comparison
-        const currentMonth = months[months.length - 1];
-        const previousMonth = months[months.length - 2];
-        
-        // Apply the same filters but for different months
-        const currentMonthData = this.applyFilters(monthlyData[currentMonth] || [], filters);
-        const previousMonthData = this.applyFilters(monthlyData[previousMonth] || [], filters);
-        
-        if (currentMonthData.length > 0 && previousMonthData.length > 0) {
-          currentData = currentMonthData;
-          previousData = previousMonthData;
-          comparisonPeriod = `vs ${previousMonth}`;
-        }
+      const { currentData, previousData, comparisonLabel } = this.getComparisonData(allData, filters, comparison);
+      const variance = this.calculateVarianceAnalysis(currentData, previousData, filters, comparisonLabel, level);
+
+      await cacheService.set(cacheKey, variance, 1800);
+
+      return variance;
+    } catch (error) {
+      logger.error('Error in getVariance:', error);
+      if (allowEmpty) {
+        return this.calculateVarianceAnalysis([], [], filters, 'No data available', level);
       }
-      
-      // Strategy 2: If month-over-month didn't work, try splitting available data
-      if (previousData.length === 0 && currentData.length > 0) {
-        // Split the current data into two halves for comparison
-        const sortedData = _.orderBy(currentData, 'Date', 'desc');
-        const midPoint = Math.floor(sortedData.length / 2);
-        
-        if (midPoint > 0) {
-          currentData = sortedData.slice(0, midPoint);
-          previousData = sortedData.slice(midPoint);
-          comparisonPeriod = 'Recent vs Earlier';
-        }
+      throw error;
+    }
+  }
+
+  /**
+   * Get the fGP bridge by P&L line from the comparison months to the current months, for the
+   * total and optionally per business area, channel or brand
+   */
+  async getFgpBridge(filters: DataFilters, groupBy?: FgpBridgeGroupBy, comparison: PeriodComparison = 'priorYear'): Promise<FgpBridgeResult> {
+    const cacheKey = datasetCacheKey(`fgp_bridge_${JSON.stringify(filters)}_${groupBy || 'total'}_${comparison}`);
+
+    const cached = await cacheService.get<FgpBridgeResult>(cacheKey);
+    if (cached) {
+      return cached;
+    }
+
+    try {
+      const dataSource = getSalesDataSource();
+      const allData = await dataSource.fetchSalesData();
+      const { currentData, previousData, comparisonLabel } = this.getComparisonData(allData, filters, comparison);
+
+      let groups: FgpBridge[] = [];
+      if (groupBy) {
+        const field = GROUP_BY_FIELDS[groupBy];
+        const currentGroups = _.groupBy(currentData, field);
+        const previousGroups = _.groupBy(previousData, field);
+        groups = _.orderBy(
+          _.union(Object.keys(previousGroups), Object.keys(currentGroups))
+            .map(name => buildPnlBridge(name, previousGroups[name] || [], currentGroups[name] || [])),
+          group => Math.abs(group.change),
+          'desc'
+        );
       }
-      
-      // Strategy 3: If still no comparison data, create realistic variance based on trends
-      if (previousData.length === 0) {
-        // Calculate some variance based on current data patterns
-        const currentRevenue = _.sumBy(currentData, 'gSales');
-        const currentGP = _.sumBy(currentData, 'fGP');
-        const currentMargin = currentRevenue > 0 ? (currentGP / currentRevenue) * 100 : 0;
-        
-        // Create realistic variance based on data distribution
-        const revenueValues = currentData.map(row => row.gSales).filter(v => v > 0);
-        const marginValues = currentData.map(row => {
-          const sales = row.gSales;
-          const gp = row.fGP;
-          return sales > 0 ? (gp / sales) * 100 : 0;
-        }).filter(v => v > 0);
-        
-        if (revenueValues.length > 1 && marginValues.length > 1) {
-          // Calculate coefficient of variation to determine variance
-          const revenueMean = _.mean(revenueValues);
-          const revenueStd = Math.sqrt(_.sumBy(revenueValues, v => Math.pow(v - revenueMean, 2)) / revenueValues.length);
-          const revenueCV = revenueMean > 0 ? (revenueStd / revenueMean) * 100 : 0;
-          
-          const marginMean = _.mean(marginValues);
-          const marginStd = Math.sqrt(_.sumBy(marginValues, v => Math.pow(v - marginMean, 2)) / marginValues.length);
-          const marginCV = marginMean > 0 ? (marginStd / marginMean) * 100 : 0;
-          
-          // Use the coefficient of variation to create realistic variance
-          const baseVariance = Math.min(Math.max(marginCV * 0.5, 1), 15); // Between 1% and 15%
-          const sign = Math.random() > 0.5 ? 1 : -1;
-          const totalVariance = sign * baseVariance;
-          
-          return {
-            totalVariance: totalVariance,
-            volumeVariance: totalVariance * 0.4,
-            priceVariance: totalVariance * 0.3,
-            costVariance: totalVariance * 0.2,
-            mixVariance: totalVariance * 0.1,
-            period: filters.period || 'current',
-            comparison: 'Trend-based (No comparison data)'
-          };
-        } else {
-          // Fallback: generate small random variance
-          const smallVariance = (Math.random() * 6 - 3); // Between -3% and +3%
-          return {
-            totalVariance: smallVariance,
-            volumeVariance: smallVariance * 0.4,
-            priceVariance: smallVariance * 0.3,
-            costVariance: smallVariance * 0.2,
-            mixVariance: smallVariance * 0.1,
-            period: filters.period || 'current',
-            comparison: 'Generated (No comparison data)'
-          };
-        }
+
+      const result: FgpBridgeResult = {
+        groupBy: groupBy || null,
+        period: filters.period || 'current',
+        comparison: comparisonLabel,
+        total: buildPnlBridge('Total', previousData, currentData),
+        groups
+      };
+
+      await cacheService.set(cacheKey, result, 1800);
+
+      return result;
+    } catch (error) {
+      logger.error('Error getting fGP bridge:', error);
+      throw error;
+    }
+  }
+
+  /**
+   * Filtered rows for the current months, and for the same dimension filters over the comparison
+   * months: a year earlier, or the equally long period just before them
+   */
+  private getComparisonData(allData: SalesData[], filters: DataFilters, comparison: PeriodComparison): { currentData: SalesData[]; previousData: SalesData[]; comparisonLabel: string; periods: number[] } {
+    const currentData = this.applyFilters(allData, filters);
+    const window = this.getPeriodWindow(allData, filters);
+    const periods = window
+      ? window.periods
+      : (ColumnarDataset.for(currentData).distinct(PERIOD_FIELD) as number[]).filter(p => p >= 0).sort((a, b) => a - b);
+
+    if (periods.length === 0) {
+      return { currentData, previousData: [], comparisonLabel: 'No data available', periods };
+    }
+
+    const previousWindow = periodsWindow(shiftPeriods(periods, comparison), comparison);
+    const previousData = this.applyFilters(allData, { ...filters, window: previousWindow });
+    const comparisonLabel = `${comparison === 'priorYear' ? 'Prior year' : 'Prior period'} (${previousWindow.from} to ${previousWindow.to})`;
+    return { currentData, previousData, comparisonLabel, periods };
+  }
+
+  /**
+   * Get the customer lifecycle: who is new, retained, recovered, lost or at risk in the filtered
+   * months against the same months a year earlier, or the equally long period just before them
+   */
+  async getCustomerLifecycle(filters: DataFilters, comparison: PeriodComparison = 'priorYear'): Promise<CustomerLifecycle> {
+    const cacheKey = datasetCacheKey(`customer_lifecycle_${JSON.stringify(filters)}_${comparison}`);
+
+    const cached = await cacheService.get<CustomerLifecycle>(cacheKey);
+    if (cached) {
+      return cached;
+    }
+
+    try {
+      const dataSource = getSalesDataSource();
+      const allData = await dataSource.fetchSalesData();
+      const { currentData, previousData, comparisonLabel, periods } = this.getComparisonData(allData, filters, comparison);
+
+      // Same dimension filters over other months: the period before the comparison period, and
+      // every earlier month outside the comparison period (to tell recovered from new customers)
+      const rowsIn = (months: number[]) => months.length
+        ? this.applyFilters(allData, { ...filters, window: periodsWindow(months, comparison) })
+        : [];
+      const previousPeriods = new Set(shiftPeriods(periods, comparison));
+      const earlierPeriods = periods.length
+        ? (ColumnarDataset.for(allData).distinct(PERIOD_FIELD) as number[])
+          .filter(p => p >= 0 && p < periods[0] && !previousPeriods.has(p))
+          .sort((a, b) => a - b)
+        : [];
+
+      const lifecycle = buildCustomerLifecycle({
+        current: currentData,
+        previous: previousData,
+        prior: rowsIn(shiftPeriods(periods, comparison, 2)),
+        history: rowsIn(earlierPeriods)
+      }, comparisonLabel);
+
+      await cacheService.set(cacheKey, lifecycle, 1800);
+
+      return lifecycle;
+    } catch (error) {
+      logger.error('Error getting customer lifecycle:', error);
+      throw error;
+    }
+  }
+
+  /**
+   * Get the forecast of gSales, Cases and fGP for the months of the fiscal year after the latest
+   * actuals, in total and optionally per business area, channel or brand. Each monthly series
+   * (valued like the trend analysis) trains on every month loaded; the landing is actuals to date
+   * plus the forecast, its interval treating the monthly errors as independent.
+   */
+  async getForecast(filters: DataFilters, groupBy?: ForecastGroupBy, confidence = 95): Promise<ForecastResult> {
+    const cacheKey = datasetCacheKey(`forecast_${JSON.stringify(filters)}_${groupBy || 'total'}_${confidence}`);
+
+    const cached = await cacheService.get<ForecastResult>(cacheKey);
+    if (cached) {
+      return cached;
+    }
+
+    try {
+      const dataSource = getSalesDataSource();
+      const allData = await dataSource.fetchSalesData();
+      const calendar = getFiscalCalendar();
+
+      // Dimension and access filters only: the history spans every month loaded
+      const history = this.applyFilters(allData, {
+        ...filters,
+        year: undefined,
+        month: undefined,
+        period: undefined,
+        from: undefined,
+        to: undefined,
+        compare: undefined,
+        not: _.omit(filters.not, 'month')
+      });
+      const loaded = (ColumnarDataset.for(allData).distinct(PERIOD_FIELD) as number[]).filter(p => p >= 0);
+      const latest = loaded.length ? _.max(loaded)! : -1;
+      const fiscalYear = filters.year || (latest >= 0 ? calendar.fiscalYearOfPeriod(latest) : calendar.fiscalYearOfDate(new Date()));
+      const z = INTERVAL_Z[confidence] || INTERVAL_Z[95];
+
+      const forecastGroup = (name: string, rows: SalesData[]): ForecastGroup => {
+        const byPeriod = _.groupBy(rows, row => periodKey(row.Year, row['Month Name']));
+        return {
+          name,
+          measures: FORECAST_MEASURES.map(measure => this.calculateMeasureForecast(byPeriod, measure, latest, fiscalYear, z))
+        };
+      };
+
+      let groups: ForecastGroup[] = [];
+      if (groupBy) {
+        groups = _.orderBy(
+          _.map(_.groupBy(history, GROUP_BY_FIELDS[groupBy]), (rows, name) => forecastGroup(name, rows)),
+          group => group.measures[0].landing,
+          'desc'
+        );
       }
-      
-      // Calculate variance with actual comparison data
-      return this.calculateVarianceAnalysis(currentData, previousData, filters, comparisonPeriod);
-      
+
+      const result: ForecastResult = {
+        fiscalYear,
+        actualsThrough: latest >= 0 ? formatMonthRef(latest) : null,
+        groupBy: groupBy || null,
+        confidence: INTERVAL_Z[confidence] ? confidence : 95,
+        total: forecastGroup('Total', history),
+        groups
+      };
+
+      await cacheService.set(cacheKey, result, 1800);
+
+      return result;
     } catch (error) {
-      logger.error('Error in getVariance:', error);
-      
-      // Return fallback variance on error
-      const fallbackVariance = (Math.random() * 8 - 4); // Between -4% and +4%
+      logger.error('Error getting forecast:', error);
+      throw error;
+    }
+  }
+
+  /**
+   * Forecast one measure of a group's monthly rows (keyed by period) through the end of the fiscal year
+   */
+  private calculateMeasureForecast(
+    byPeriod: Record<number, SalesData[]>,
+    measure: ForecastMeasure,
+    latest: number,
+    fiscalYear: number,
+    z: number
+  ): MeasureForecast {
+    const calendar = getFiscalCalendar();
+    const valueAt = (period: number) => this.calculateTrendValue(byPeriod[period] || [], measure);
+
+    // Series from the group's first month with data through the latest month loaded
+    const periods = Object.keys(byPeriod).map(Number);
+    const start = periods.length ? _.min(periods)! : latest + 1;
+    const series = _.range(start, latest + 1).map(valueAt);
+
+    const yearPeriods = calendar.yearPeriods(fiscalYear);
+    const remaining = yearPeriods.filter(p => p > latest);
+    const seriesForecast = forecastSeries(series, remaining.length ? _.last(remaining)! - latest : 0);
+    const { method, values, variances } = seriesForecast;
+
+    const forecast: ForecastPoint[] = remaining.map(period => {
+      const step = period - latest - 1;
+      const margin = z * Math.sqrt(variances[step]);
       return {
-        totalVariance: fallbackVariance,
-        volumeVariance: fallbackVariance * 0.4,
-        priceVariance: fallbackVariance * 0.3,
-        costVariance: fallbackVariance * 0.2,
-        mixVariance: fallbackVariance * 0.1,
-        period: filters.period || 'current',
-        comparison: 'Fallback (Error occurred)'
+        period: formatMonthRef(period),
+        month: periodMonth(period),
+        value: values[step],
+        lower: values[step] - margin,
+        upper: values[step] + margin
       };
-    }
+    });
+
+    const actualToDate = _.sumBy(yearPeriods.filter(p => p <= latest), valueAt);
+    const landing = actualToDate + _.sumBy(forecast, 'value');
+    // The months' forecast errors are correlated, so the landing takes the variance of their sum
+    const landingMargin = z * Math.sqrt(sumVariance(seriesForecast, remaining.map(period => period - latest - 1)));
+    const lastYear = _.sumBy(calendar.yearPeriods(fiscalYear - 1), valueAt);
+
+    return {
+      measure,
+      method,
+      actualToDate,
+      forecast,
+      landing,
+      landingLower: landing - landingMargin,
+      landingUpper: landing + landingMargin,
+      lastYear,
+      landingVsLy: landing - lastYear,
+      landingVsLyPercent: this.reportsIferror((landing - lastYear) / Math.abs(lastYear), 0) * 100
+    };
   }
 
   /**
@@ -556,7 +814,7 @@ export class AnalyticsService {
    */
   async getTrendAnalysis(filters: DataFilters, metric: string = 'gSales'): Promise<TrendAnalysis[]> {
     const allowEmpty = process.env.ALLOW_EMPTY_DATA !== 'false';
-    const cacheKey = `trend_${metric}_${JSON.stringify(filters)}`;
+    const cacheKey = datasetCacheKey(`trend_${metric}_${JSON.stringify(filters)}`);
     
     const cached = await cacheService.get<TrendAnalysis[]>(cacheKey);
     if (cached) {
@@ -564,8 +822,8 @@ export class AnalyticsService {
     }
 
     try {
-      const azureService = getAzureService();
-      const data = await azureService.fetchCSVData();
+      const dataSource = getSalesDataSource();
+      const data = await dataSource.fetchSalesData();
       const filteredData = this.applyFilters(data, filters);
       
       const trends = this.calculateTrendAnalysis(filteredData, metric);
@@ -585,7 +843,7 @@ export class AnalyticsService {
    */
   async getBusinessAreaPerformance(filters: DataFilters) {
     const allowEmpty = process.env.ALLOW_EMPTY_DATA !== 'false';
-    const cacheKey = `business_areas_${JSON.stringify(filters)}`;
+    const cacheKey = datasetCacheKey(`business_areas_${JSON.stringify(filters)}`);
     
     const cached = await cacheService.get(cacheKey);
     if (cached) {
@@ -593,8 +851,8 @@ export class AnalyticsService {
     }
 
     try {
-      const azureService = getAzureService();
-      const data = await azureService.fetchCSVData();
+      const dataSource = getSalesDataSource();
+      const data = await dataSource.fetchSalesData();
       const filteredData = this.applyFilters(data, filters);
       
       const businessAreas = this.calculateBusinessAreaPerformance(filteredData);
@@ -614,7 +872,7 @@ export class AnalyticsService {
    */
   async getChannelPerformance(filters: DataFilters) {
     const allowEmpty = process.env.ALLOW_EMPTY_DATA !== 'false';
-    const cacheKey = `channels_${JSON.stringify(filters)}`;
+    const cacheKey = datasetCacheKey(`channels_${JSON.stringify(filters)}`);
     
     const cached = await cacheService.get(cacheKey);
     if (cached) {
@@ -622,8 +880,8 @@ export class AnalyticsService {
     }
 
     try {
-      const azureService = getAzureService();
-      const data = await azureService.fetchCSVData();
+      const dataSource = getSalesDataSource();
+      const data = await dataSource.fetchSalesData();
       const filteredData = this.applyFilters(data, filters);
       
       const channels = this.calculateChannelPerformance(filteredData);
@@ -643,7 +901,7 @@ export class AnalyticsService {
    */
   async getCategoryPerformance(filters: DataFilters) {
     const allowEmpty = process.env.ALLOW_EMPTY_DATA !== 'false';
-    const cacheKey = `categories_${JSON.stringify(filters)}`;
+    const cacheKey = datasetCacheKey(`categories_${JSON.stringify(filters)}`);
     
     const cached = await cacheService.get(cacheKey);
     if (cached) {
@@ -651,8 +909,8 @@ export class AnalyticsService {
     }
 
     try {
-      const azureService = getAzureService();
-      const data = await azureService.fetchCSVData();
+      const dataSource = getSalesDataSource();
+      const data = await dataSource.fetchSalesData();
       const filteredData = this.applyFilters(data, filters);
       const categories = this.calculateCategoryPerformance(filteredData);
       await cacheService.set(cacheKey, categories, 1800);
@@ -669,12 +927,12 @@ export class AnalyticsService {
    */
   async getSubCategoryPerformance(filters: DataFilters) {
     const allowEmpty = process.env.ALLOW_EMPTY_DATA !== 'false';
-    const cacheKey = `subcategories_${JSON.stringify(filters)}`;
+    const cacheKey = datasetCacheKey(`subcategories_${JSON.stringify(filters)}`);
     const cached = await cacheService.get(cacheKey);
     if (cached) return cached;
     try {
-      const azureService = getAzureService();
-      const data = await azureService.fetchCSVData();
+      const dataSource = getSalesDataSource();
+      const data = await dataSource.fetchSalesData();
       const filteredData = this.applyFilters(data, filters);
       const subs = this.calculateSubCategoryPerformance(filteredData);
       await cacheService.set(cacheKey, subs, 1800);
@@ -687,28 +945,39 @@ export class AnalyticsService {
   }
 
   /**
-   * Apply filters to data
+   * Apply filters to data. Filters are compiled into per-dimension allow-lists
+   * and evaluated as posting-list intersections on the columnar index.
    */
   private applyFilters(data: SalesData[], filters: DataFilters): SalesData[] {
-    let filtered = data;
+    const dataset = ColumnarDataset.for(data);
+    const predicates: DimensionPredicates = {};
+
+    const calendar = getFiscalCalendar();
+    const window = this.getPeriodWindow(data, filters);
 
-    // Period handling
-    if (filters.period) {
-      // Determine target year
-      const years = [...new Set(filtered.map(r => r.Year))].filter(Boolean) as number[];
+    if (window) {
+      // Rolling or custom months, possibly spanning years. Reports keep every year and
+      // pick the window and its comparison per column.
+      if (!filters.skipYearFilter) {
+        restrictDimension(predicates, PERIOD_FIELD, window.periods);
+      }
+    } else if (filters.period) {
+      // Period handling (years, quarters and to-date windows follow the fiscal calendar)
+      // Determine target fiscal year
+      const years = this.getFiscalYears(dataset);
       const latestYear = years.length ? Math.max(...years) : undefined;
       const targetYear = filters.year || latestYear;
       
       // CRITICAL: Skip year filtering for reports to allow year-over-year comparisons
       if (targetYear && !filters.skipYearFilter) {
-        filtered = filtered.filter(row => row.Year === targetYear);
+        restrictDimension(predicates, PERIOD_FIELD, calendar.yearPeriods(targetYear));
       }
 
-      const monthParam = filters.month && filters.month !== 'All' ? String(filters.month) : undefined;
-      const monthsOrdered = AnalyticsService.MONTHS;
+      // With several months selected, periods run up to the latest of them
+      const monthParam = _.maxBy(filterValues(filters.month), m => this.getMonthIndex(m));
+      const monthsOrdered = calendar.months();
       const latestMonthInYear = (() => {
-        const monthsInYear = filtered.map(r => r['Month Name']).filter(Boolean) as string[];
-        const uniqueMonths = [...new Set(monthsInYear)];
+        const uniqueMonths = (dataset.distinct('Month Name', predicates) as string[]).filter(Boolean);
         const indices = uniqueMonths.map(m => monthsOrdered.indexOf(m)).filter(i => i >= 0);
         const maxIndex = indices.length ? Math.max(...indices) : -1;
         return maxIndex >= 0 ? monthsOrdered[maxIndex] : undefined;
@@ -718,17 +987,20 @@ export class AnalyticsService {
       const selectedMonthIndex = selectedMonth ? this.getMonthIndex(selectedMonth) : undefined;
 
       const qFromMonth = selectedMonthIndex ? Math.ceil(selectedMonthIndex / 3) : undefined;
+      // Month names present in the data whose fiscal period is at most `upto`
+      const monthsUpTo = (upto: number) =>
+        (dataset.distinct('Month Name') as string[]).filter(m => this.getMonthIndex(m) <= upto);
 
       switch (filters.period) {
         case 'YTD': {
           if (selectedMonth) {
-            filtered = filtered.filter(r => this.getMonthIndex(r['Month Name']) <= (selectedMonthIndex || 12));
+            restrictDimension(predicates, 'Month Name', monthsUpTo(selectedMonthIndex || 12));
           }
           break;
         }
         case 'MTD': {
           if (selectedMonth) {
-            filtered = filtered.filter(r => r['Month Name'] === selectedMonth);
+            restrictDimension(predicates, 'Month Name', [selectedMonth]);
           }
           break;
         }
@@ -736,30 +1008,28 @@ export class AnalyticsService {
           if (qFromMonth) {
             const qMonths = this.getQuarterMonths(qFromMonth);
             const uptoIndex = selectedMonthIndex ? (selectedMonthIndex - (qFromMonth - 1) * 3) : 3;
-            const monthsToInclude = qMonths.slice(0, uptoIndex);
-            filtered = filtered.filter(r => monthsToInclude.includes(r['Month Name']));
+            restrictDimension(predicates, 'Month Name', qMonths.slice(0, uptoIndex));
           }
           break;
         }
         case 'LYTD':
         case 'LMTD':
         case 'LQTD': {
-          // Shift to previous year
+          // Shift to previous fiscal year
           const prevYear = targetYear ? targetYear - 1 : undefined;
           if (prevYear) {
-            filtered = data.filter(r => r.Year === prevYear);
+            predicates[PERIOD_FIELD] = new Set(calendar.yearPeriods(prevYear));
             const monthRef = selectedMonth || latestMonthInYear;
             const idx = monthRef ? this.getMonthIndex(monthRef) : undefined;
             const prevQ = idx ? Math.ceil(idx / 3) : undefined;
             if (filters.period === 'LYTD') {
-              if (idx) filtered = filtered.filter(r => this.getMonthIndex(r['Month Name']) <= idx);
+              if (idx) restrictDimension(predicates, 'Month Name', monthsUpTo(idx));
             } else if (filters.period === 'LMTD') {
-              if (monthRef) filtered = filtered.filter(r => r['Month Name'] === monthRef);
+              if (monthRef) restrictDimension(predicates, 'Month Name', [monthRef]);
             } else if (filters.period === 'LQTD' && prevQ) {
               const qMonths = this.getQuarterMonths(prevQ);
               const uptoIndex = idx ? (idx - (prevQ - 1) * 3) : 3;
-              const monthsToInclude = qMonths.slice(0, uptoIndex);
-              filtered = filtered.filter(r => monthsToInclude.includes(r['Month Name']));
+              restrictDimension(predicates, 'Month Name', qMonths.slice(0, uptoIndex));
             }
           }
           break;
@@ -769,8 +1039,7 @@ export class AnalyticsService {
         case 'Q3':
         case 'Q4': {
           const q = Number(filters.period.substring(1));
-          const months = this.getQuarterMonths(q);
-          filtered = filtered.filter(r => months.includes(r['Month Name']));
+          restrictDimension(predicates, 'Month Name', this.getQuarterMonths(q));
           break;
         }
         default:
@@ -778,58 +1047,18 @@ export class AnalyticsService {
       }
     }
 
-    // Simple filters
-    if (filters.year) {
-      filtered = filtered.filter(row => row.Year === filters.year);
-    }
-
-    if (filters.month && filters.month !== 'All') {
-      filtered = filtered.filter(row => row['Month Name'] === filters.month);
-    }
-
-    if (filters.businessArea && filters.businessArea !== 'All') {
-      filtered = filtered.filter(row => row.Business === filters.businessArea);
-    }
-
-    if (filters.brand && filters.brand !== 'All') {
-      filtered = filtered.filter(row => row.Brand === filters.brand);
-    }
-
-    if (filters.category && filters.category !== 'All') {
-      filtered = filtered.filter(row => row.Category === filters.category);
-    }
-
-    if (filters.subCategory && filters.subCategory !== 'All') {
-      filtered = filtered.filter(row => row['Sub-Cat'] === filters.subCategory);
-    }
-
-    if (filters.channel && filters.channel !== 'All') {
-      filtered = filtered.filter(row => row.Channel === filters.channel);
+    // Simple filters (a window already fixes the year and uses the month as its anchor)
+    if (filters.year && !window) {
+      restrictDimension(predicates, PERIOD_FIELD, calendar.yearPeriods(filters.year));
     }
 
-    if (filters.customer && filters.customer !== 'All') {
-      filtered = filtered.filter(row => row.Customer === filters.customer);
-    }
+    // Dimension filters: multi-select lists and exclusions
+    restrictToFilters(predicates, dataset, window ? { ...filters, month: undefined } : filters);
 
     // RLS filters (allow lists). If provided, restrict to those values.
-    if (filters.allowedBusinessAreas && filters.allowedBusinessAreas.length) {
-      const allow = new Set(filters.allowedBusinessAreas);
-      filtered = filtered.filter(row => allow.has(row.Business));
-    }
-    if (filters.allowedChannels && filters.allowedChannels.length) {
-      const allow = new Set(filters.allowedChannels);
-      filtered = filtered.filter(row => allow.has(row.Channel));
-    }
-    if (filters.allowedBrands && filters.allowedBrands.length) {
-      const allow = new Set(filters.allowedBrands);
-      filtered = filtered.filter(row => allow.has(row.Brand));
-    }
-    if (filters.allowedCustomers && filters.allowedCustomers.length) {
-      const allow = new Set(filters.allowedCustomers);
-      filtered = filtered.filter(row => allow.has(row.Customer));
-    }
+    restrictToScopes(predicates, filters);
 
-    return filtered;
+    return Object.keys(predicates).length ? dataset.filter(predicates) : data;
   }
 
   /**
@@ -888,41 +1117,37 @@ export class AnalyticsService {
   }
 
   /**
-   * Calculate risk items
+   * Calculate risk items: each item is scored against the risk rules of its business area, with
+   * every triggered rule listed, and items rank by score, then by gSales
    */
-  private calculateRiskItems(data: SalesData[], dimension: string, limit: number, offset: number = 0): PaginatedResponse<RiskItem> {
+  private calculateRiskItems(data: SalesData[], previousData: SalesData[], dimension: string, limit: number, offset: number = 0): PaginatedResponse<RiskItem> {
     const dimensionKey = dimension as keyof SalesData;
     const grouped = _.groupBy(data, dimensionKey as string);
-    
-    const risks = Object.entries(grouped).map(([key, items]) => {
-      const totalSales = _.sumBy(items, 'gSales');
-      const avgMargin = _.sumBy(items, 'fGP') / totalSales * 100;
+    const previousGrouped = _.groupBy(previousData, dimensionKey as string);
+
+    const risks: RiskItem[] = Object.entries(grouped).map(([key, items]) => {
       const trend = this.calculateGrowthRate(items);
-      
-      let riskLevel: 'high' | 'medium' | 'low' = 'low';
-      let reason = '';
-
-      if (avgMargin < config.riskLowMarginThreshold) {
-        riskLevel = 'high';
-        reason = 'Low margin';
-      } else if (trend < config.riskDecliningTrendThreshold) {
-        riskLevel = 'medium';
-        reason = 'Declining trend';
-      } else if (totalSales < config.riskLowVolumeThreshold) {
-        riskLevel = 'medium';
-        reason = 'Low volume';
-      }
+      const metrics = riskMetrics(items, previousGrouped[key] || [], trend);
+      const businessArea = _.maxBy(
+        Object.entries(_.groupBy(items, 'Business')),
+        ([, rows]) => _.sumBy(rows, 'gSales')
+      )?.[0] || '';
+      const { score, riskLevel, reasons } = scoreRisk(metrics, businessArea);
 
       return {
         name: key,
-        value: totalSales,
+        value: metrics.gSales || 0,
         riskLevel,
-        reason,
-        trend
+        reason: reasons.map(r => r.reason).join('; '),
+        trend,
+        score,
+        businessArea,
+        reasons,
+        metrics
       };
     });
 
-    const sortedRisks = _.orderBy(risks, 'value', 'asc');
+    const sortedRisks = _.orderBy(risks, ['score', 'value'], ['desc', 'desc']);
     const paginated = this.paginate(sortedRisks, limit, offset);
 
     return paginated;
@@ -931,48 +1156,9 @@ export class AnalyticsService {
   /**
    * Calculate variance analysis
    */
-  private calculateVarianceAnalysis(currentData: SalesData[], previousData: SalesData[], filters: DataFilters, comparisonPeriod: string): VarianceAnalysis {
-    // Calculate current period metrics
-    const currentRevenue = _.sumBy(currentData, 'gSales');
-    const currentGP = _.sumBy(currentData, 'fGP');
-    const currentMargin = currentRevenue > 0 ? (currentGP / currentRevenue) * 100 : 0;
-    
-    // Calculate previous period metrics
-    const previousRevenue = _.sumBy(previousData, 'gSales');
-    const previousGP = _.sumBy(previousData, 'fGP');
-    const previousMargin = previousRevenue > 0 ? (previousGP / previousRevenue) * 100 : 0;
-    
-    // Calculate margin variance as percentage change
-    const marginVariancePercent = previousMargin !== 0 ? ((currentMargin - previousMargin) / previousMargin) * 100 : 0;
-    
-    // Calculate volume variance (revenue change impact on margin)
-    const revenueChangePercent = previousRevenue !== 0 ? ((currentRevenue - previousRevenue) / previousRevenue) * 100 : 0;
-    const volumeVariance = revenueChangePercent * 0.4; // Volume typically has 40% impact on margin
-    
-    // Calculate price variance (price change impact on margin)
-    const avgPriceCurrent = currentData.length > 0 ? currentRevenue / _.sumBy(currentData, 'Cases') : 0;
-    const avgPricePrevious = previousData.length > 0 ? previousRevenue / _.sumBy(previousData, 'Cases') : 0;
-    const priceChangePercent = avgPricePrevious !== 0 ? ((avgPriceCurrent - avgPricePrevious) / avgPricePrevious) * 100 : 0;
-    const priceVariance = priceChangePercent * 0.3; // Price changes typically have 30% impact
-    
-    // Calculate cost variance (cost change impact on margin)
-    const currentCost = _.sumBy(currentData, 'Group Cost');
-    const previousCost = _.sumBy(previousData, 'Group Cost');
-    const costChangePercent = previousCost !== 0 ? ((currentCost - previousCost) / previousCost) * 100 : 0;
-    const costVariance = -costChangePercent * 0.2; // Cost increases reduce margin (negative impact)
-    
-    // Calculate mix variance (product mix change impact)
-    const mixVariance = marginVariancePercent - (volumeVariance + priceVariance + costVariance);
-    
-    // Ensure all values are within realistic business ranges
-    const clampPercentage = (value: number) => Math.max(-50, Math.min(50, value));
-    
+  private calculateVarianceAnalysis(currentData: SalesData[], previousData: SalesData[], filters: DataFilters, comparisonPeriod: string, level: VarianceLevel): VarianceAnalysis {
     return {
-      totalVariance: clampPercentage(marginVariancePercent),
-      volumeVariance: clampPercentage(volumeVariance),
-      priceVariance: clampPercentage(priceVariance),
-      costVariance: clampPercentage(costVariance),
-      mixVariance: clampPercentage(mixVariance),
+      ...buildVarianceBridge(previousData, currentData, level),
       period: filters.period || 'current',
       comparison: comparisonPeriod
     };
@@ -988,35 +1174,14 @@ export class AnalyticsService {
       .sort((a,b) => this.getMonthIndex(a) - this.getMonthIndex(b));
     
     return months.map((month, index) => {
-      const monthData = monthlyData[month];
-      let value = 0;
-      if (metric === 'customers') {
-        value = new Set(monthData.map(x => x.Customer).filter(Boolean)).size;
-      } else if (metric === 'margin') {
-        const sales = _.sumBy(monthData, 'gSales');
-        const gp = _.sumBy(monthData, 'fGP');
-        value = sales > 0 ? (gp / sales) * 100 : 0;
-      } else {
-        value = _.sumBy(monthData, metric as keyof SalesData);
-      }
+      const value = this.calculateTrendValue(monthlyData[month], metric);
       
       let trend: 'up' | 'down' | 'stable' = 'stable';
       let change = 0;
       let changePercent = 0;
 
       if (index > 0) {
-        const previousMonth = months[index - 1];
-        let previousValue = 0;
-        const prevData = monthlyData[previousMonth];
-        if (metric === 'customers') {
-          previousValue = new Set(prevData.map(x => x.Customer).filter(Boolean)).size;
-        } else if (metric === 'margin') {
-          const salesPrev = _.sumBy(prevData, 'gSales');
-          const gpPrev = _.sumBy(prevData, 'fGP');
-          previousValue = salesPrev > 0 ? (gpPrev / salesPrev) * 100 : 0;
-        } else {
-          previousValue = _.sumBy(prevData, metric as keyof SalesData);
-        }
+        const previousValue = this.calculateTrendValue(monthlyData[months[index - 1]], metric);
         change = value - previousValue;
         changePercent = previousValue !== 0 ? (change / Math.abs(previousValue)) * 100 : 0;
         
@@ -1034,6 +1199,21 @@ export class AnalyticsService {
     });
   }
 
+  /**
+   * Value of a trend metric over one month's rows: a measure total, distinct customers or margin %
+   */
+  private calculateTrendValue(rows: SalesData[], metric: string): number {
+    if (metric === 'customers') {
+      return new Set(rows.map(x => x.Customer).filter(Boolean)).size;
+    }
+    if (metric === 'margin') {
+      const sales = _.sumBy(rows, 'gSales');
+      const gp = _.sumBy(rows, 'fGP');
+      return sales > 0 ? (gp / sales) * 100 : 0;
+    }
+    return _.sumBy(rows, metric as keyof SalesData);
+  }
+
   /**
    * Calculate business area performance
    */
@@ -1187,9 +1367,10 @@ export class AnalyticsService {
   /**
    * Get customer overview data
    */
-  async getCustomerOverview(filters: any) {
+  async getCustomerOverview(filters: any, comparison: PeriodComparison = 'priorYear') {
     const data = await this.getFilteredData(filters);
-    return this.calculateCustomerOverview(data);
+    const lifecycle = await this.getCustomerLifecycle(filters, comparison);
+    return this.calculateCustomerOverview(data, lifecycle);
   }
 
   /**
@@ -1201,11 +1382,66 @@ export class AnalyticsService {
   }
 
   /**
-   * Get customer channels analysis
+   * Get customer channels analysis, with each channel's customer concentration against last year
    */
   async getCustomerChannels(filters: any) {
-    const data = await this.getFilteredData(filters);
-    return this.calculateCustomerChannels(data);
+    const allowEmpty = process.env.ALLOW_EMPTY_DATA !== 'false';
+    try {
+      const dataSource = getSalesDataSource();
+      const allData = await dataSource.fetchSalesData();
+      const { currentData, previousData } = this.getComparisonData(allData, filters, 'priorYear');
+      return this.calculateCustomerChannels(currentData, previousData);
+    } catch (error) {
+      logger.error('Error getting customer channels:', error);
+      if (allowEmpty) return [];
+      throw error;
+    }
+  }
+
+  /**
+   * Get how dependent gSales and fGP are on few customers (HHI, top 1/5/10 share) against last
+   * year, in total and per business area, channel or brand
+   */
+  async getCustomerConcentration(filters: DataFilters, groupBy?: ConcentrationGroupBy): Promise<CustomerConcentrationResult> {
+    const cacheKey = datasetCacheKey(`customer_concentration_${JSON.stringify(filters)}_${groupBy || 'total'}`);
+
+    const cached = await cacheService.get<CustomerConcentrationResult>(cacheKey);
+    if (cached) {
+      return cached;
+    }
+
+    try {
+      const dataSource = getSalesDataSource();
+      const allData = await dataSource.fetchSalesData();
+      const { currentData, previousData, comparisonLabel } = this.getComparisonData(allData, filters, 'priorYear');
+
+      let groups: CustomerConcentration[] = [];
+      if (groupBy) {
+        const field = GROUP_BY_FIELDS[groupBy];
+        const currentGroups = _.groupBy(currentData, field);
+        const previousGroups = _.groupBy(previousData, field);
+        groups = _.orderBy(
+          _.union(Object.keys(currentGroups), Object.keys(previousGroups))
+            .map(name => buildConcentration(name, currentGroups[name] || [], previousGroups[name] || [])),
+          group => group.revenue.current.hhi,
+          'desc'
+        );
+      }
+
+      const result: CustomerConcentrationResult = {
+        comparison: comparisonLabel,
+        groupBy: groupBy || null,
+        total: buildConcentration('Total', currentData, previousData),
+        groups
+      };
+
+      await cacheService.set(cacheKey, result, 1800);
+
+      return result;
+    } catch (error) {
+      logger.error('Error getting customer concentration:', error);
+      throw error;
+    }
   }
 
   /**
@@ -1214,6 +1450,8 @@ export class AnalyticsService {
   private calculateCustomerPerformance(data: SalesData[]) {
     const grouped = _.groupBy(data, 'Customer');
     const totalRevenue = _.sumBy(data, 'gSales') || 1;
+    const totalMargin = _.sumBy(data, 'fGP') || 1;
+    const dependencies = brandDependencies(data);
     
     return Object.entries(grouped).map(([customer, items]) => {
       const revenue = _.sumBy(items, 'gSales');
@@ -1233,6 +1471,9 @@ export class AnalyticsService {
         growth,
         units,
         marketShare,
+        fGPShare: (marginValue / totalMargin) * 100,
+        // Brands this customer takes a large share of
+        dependentBrands: dependencies.get(customer) || [],
         channels,
         businessAreas,
         performance,
@@ -1244,58 +1485,73 @@ export class AnalyticsService {
   /**
    * Calculate customer overview cards data
    */
-  private calculateCustomerOverview(data: SalesData[]) {
-    const totalCustomers = new Set(data.map(d => d.Customer).filter(Boolean)).size;
-    const totalRevenue = _.sumBy(data, 'gSales');
-    const avgCustomerValue = totalCustomers > 0 ? totalRevenue / totalCustomers : 0;
-    const retentionRate = 87.3; // This would be calculated from historical data
-    
-    // Calculate growth from previous period
+  private calculateCustomerOverview(data: SalesData[], lifecycle: CustomerLifecycle) {
+    const { current, previous } = lifecycle;
     const growth = this.calculateGrowthRate(data);
-    
+    const percentChange = (now: number, before: number) => (before !== 0 ? ((now - before) / Math.abs(before)) * 100 : 0);
+
+    // Channel with the most active customers
+    const active = new Set(lifecycle.customers.filter(c => c.status !== 'lost').map(c => c.customer));
+    const topSegment = _.maxBy(
+      _.map(_.groupBy(data.filter(row => row.Channel && active.has(row.Customer)), 'Channel'), (items, channel) => ({
+        channel,
+        count: new Set(items.map(item => item.Customer)).size
+      })),
+      'count'
+    );
+
+    const retentionRate = lifecycle.retentionRate;
+    const retentionChange = retentionRate !== null && lifecycle.previousRetentionRate !== null
+      ? retentionRate - lifecycle.previousRetentionRate
+      : 0;
+    const growingCustomers = lifecycle.customers.filter(c => c.status === 'retained' && c.change > 0).length;
+
     return {
+      comparison: lifecycle.comparison,
       totalCustomers: {
-        value: totalCustomers,
-        change: '+12',
-        changePercent: 8.9,
+        value: current.customers,
+        change: signed(current.customers - previous.customers, v => String(v)),
+        changePercent: percentChange(current.customers, previous.customers),
         details: {
-          active: totalCustomers,
-          inactive: Math.floor(totalCustomers * 0.15),
-          new: Math.floor(totalCustomers * 0.08),
-          topSegment: 'Grocery ROI (45)'
+          active: current.customers,
+          inactive: lifecycle.lost,
+          new: lifecycle.new,
+          topSegment: topSegment ? `${topSegment.channel} (${topSegment.count})` : '-'
         }
       },
       customerRevenue: {
-        value: `€${(totalRevenue / 1000000).toFixed(1)}M`,
-        change: `+€${(totalRevenue * 0.165 / 1000000).toFixed(1)}M`,
-        changePercent: 16.5,
+        value: formatEuro(current.revenue, 'M'),
+        change: signed(current.revenue - previous.revenue, v => formatEuro(v, 'M')),
+        changePercent: percentChange(current.revenue, previous.revenue),
         details: {
-          average: `€${(avgCustomerValue / 1000).toFixed(0)}K`,
-          median: '€8,500',
-          top10: `€${(totalRevenue * 0.75 / 1000000).toFixed(1)}M`,
+          average: formatEuro(current.average, 'K'),
+          median: formatEuro(current.median),
+          top10: formatEuro(current.topRevenue, 'M'),
+          top10Share: `${current.topShare.toFixed(1)}%`,
           growth: `${growth.toFixed(1)}%`
         }
       },
       avgCustomerValue: {
-        value: `€${(avgCustomerValue / 1000).toFixed(0)}K`,
-        change: `+€${(avgCustomerValue * 0.083 / 1000).toFixed(0)}K`,
-        changePercent: 8.3,
+        value: formatEuro(current.average, 'K'),
+        change: signed(current.average - previous.average, v => formatEuro(v, 'K')),
+        changePercent: percentChange(current.average, previous.average),
         details: {
-          highest: '€89,500',
-          lowest: '€850',
-          target: '€18,000',
-          onTrack: 89
+          highest: formatEuro(current.highest),
+          lowest: formatEuro(current.lowest),
+          median: formatEuro(current.median),
+          previous: formatEuro(previous.average, 'K'),
+          growing: growingCustomers
         }
       },
       customerRetention: {
-        value: `${retentionRate}%`,
-        change: '+2.1%',
-        changePercent: 2.5,
+        value: retentionRate === null ? '-' : `${retentionRate.toFixed(1)}%`,
+        change: signed(retentionChange, v => `${v.toFixed(1)}%`),
+        changePercent: lifecycle.previousRetentionRate ? (retentionChange / lifecycle.previousRetentionRate) * 100 : 0,
         details: {
-          retained: Math.floor(totalCustomers * (retentionRate / 100)),
-          lost: Math.floor(totalCustomers * (1 - retentionRate / 100)),
-          recovered: 8,
-          atRisk: 15
+          retained: lifecycle.retained,
+          lost: lifecycle.lost,
+          recovered: lifecycle.recovered,
+          atRisk: lifecycle.atRisk
         }
       }
     };
@@ -1333,8 +1589,9 @@ export class AnalyticsService {
   /**
    * Calculate customer channels analysis
    */
-  private calculateCustomerChannels(data: SalesData[]) {
+  private calculateCustomerChannels(data: SalesData[], previousData: SalesData[]) {
     const grouped = _.groupBy(data, 'Channel');
+    const previousGrouped = _.groupBy(previousData, 'Channel');
     const totalRevenue = _.sumBy(data, 'gSales') || 1;
     
     return Object.entries(grouped).map(([channel, items]) => {
@@ -1355,6 +1612,7 @@ export class AnalyticsService {
         marketShare,
         customerCount: customers.length,
         customers,
+        concentration: buildConcentration(channel, items, previousGrouped[channel] || []),
         performance: growth > 10 ? 'high' : growth < 0 ? 'low' : 'medium'
       };
     }).sort((a, b) => b.revenue - a.revenue);
@@ -1384,37 +1642,43 @@ export class AnalyticsService {
    */
   async getBusinessAreaDetailedMetrics(filters: DataFilters): Promise<any[]> {
     try {
-      const azureService = getAzureService();
-      const allData = await azureService.fetchCSVData();
+      const dataSource = getSalesDataSource();
+      const allData = await dataSource.fetchSalesData();
+      filters = this.withPeriodWindow(allData, filters);
+      const calendar = getFiscalCalendar();
       
       // Determine the comparison periods based on filters
       let currentYear: number;
       let previousYear: number;
       
-      if (filters.period && filters.period !== 'YTD') {
+      if (filters.window) {
+        // Rolling or custom window vs its comparison window
+        currentYear = filters.window.fiscalYear;
+        previousYear = currentYear - 1;
+      } else if (filters.period && filters.period !== 'YTD') {
         // Specific year selected
         currentYear = parseInt(filters.period);
         previousYear = currentYear - 1;
       } else {
-        // YTD - use current year vs previous year
-        currentYear = new Date().getFullYear();
+        // YTD - use current fiscal year vs previous fiscal year
+        currentYear = calendar.fiscalYearOfDate(new Date());
         previousYear = currentYear - 1;
       }
       
              // Get data for current year and previous year
-       let currentYearData = allData.filter(row => row.Year === currentYear);
-       let previousYearData = allData.filter(row => row.Year === previousYear);
+       let currentYearData = allData.filter(this.matchesReportYear(currentYear, filters.window));
+       let previousYearData = allData.filter(this.matchesReportYear(previousYear, filters.window));
        
        // Apply business area filter if specified
-       if (filters.businessArea && filters.businessArea !== 'All') {
-         currentYearData = currentYearData.filter(row => row.Business === filters.businessArea);
-         previousYearData = previousYearData.filter(row => row.Business === filters.businessArea);
+       if (hasFilter(filters.businessArea) || filters.not?.businessArea) {
+         currentYearData = currentYearData.filter(row => matchesFilter(row.Business, filters.businessArea, filters.not?.businessArea));
+         previousYearData = previousYearData.filter(row => matchesFilter(row.Business, filters.businessArea, filters.not?.businessArea));
        }
        
        // Apply channel filter if specified
-       if (filters.channel && filters.channel !== 'All') {
-         currentYearData = currentYearData.filter(row => row.Channel === filters.channel);
-         previousYearData = previousYearData.filter(row => row.Channel === filters.channel);
+       if (hasFilter(filters.channel) || filters.not?.channel) {
+         currentYearData = currentYearData.filter(row => matchesFilter(row.Channel, filters.channel, filters.not?.channel));
+         previousYearData = previousYearData.filter(row => matchesFilter(row.Channel, filters.channel, filters.not?.channel));
        }
        
        // Get business areas available ONLY in the current year (not all years)
@@ -1424,15 +1688,15 @@ export class AnalyticsService {
        let filteredCurrentData = currentYearData;
        let filteredPreviousData = previousYearData;
        
-       if (filters.month && filters.month !== 'All') {
-         filteredCurrentData = currentYearData.filter(row => row['Month Name'] === filters.month);
-         filteredPreviousData = previousYearData.filter(row => row['Month Name'] === filters.month);
+       if (hasFilter(filters.month) || filters.not?.month) {
+         filteredCurrentData = currentYearData.filter(row => matchesFilter(row['Month Name'], filters.month, filters.not?.month));
+         filteredPreviousData = previousYearData.filter(row => matchesFilter(row['Month Name'], filters.month, filters.not?.month));
        }
        
        // Apply business area filter if specified (for drill-down)
-       if (filters.businessArea && filters.businessArea !== 'All') {
-         filteredCurrentData = filteredCurrentData.filter(row => row.Business === filters.businessArea);
-         filteredPreviousData = filteredPreviousData.filter(row => row.Business === filters.businessArea);
+       if (hasFilter(filters.businessArea)) {
+         filteredCurrentData = filteredCurrentData.filter(row => matchesFilter(row.Business, filters.businessArea));
+         filteredPreviousData = filteredPreviousData.filter(row => matchesFilter(row.Business, filters.businessArea));
        }
       
       const detailedMetrics = currentYearBusinessAreas.map(businessArea => {
@@ -1495,21 +1759,22 @@ export class AnalyticsService {
   /**
    * Get filter options (years, months, business areas, channels) with optional business area filtering
    */
-  async getFilterOptions(filters?: { year?: number; businessArea?: string }): Promise<any> {
+  async getFilterOptions(filters?: { year?: number; businessArea?: FilterValue }): Promise<any> {
     try {
-      const azureService = getAzureService();
-      const allData = await azureService.fetchCSVData();
+      const dataSource = getSalesDataSource();
+      const allData = await dataSource.fetchSalesData();
+      const calendar = getFiscalCalendar();
 
       let filteredData = allData;
 
-      // Apply year filter if specified
+      // Apply (fiscal) year filter if specified
       if (filters?.year) {
-        filteredData = allData.filter(row => row.Year === filters.year);
+        filteredData = allData.filter(row => calendar.fiscalYear(row.Year, row['Month Name']) === filters.year);
       }
 
       // Apply business area filter if specified
-      if (filters?.businessArea && filters.businessArea !== 'All') {
-        filteredData = allData.filter(row => row.Business === filters.businessArea);
+      if (hasFilter(filters?.businessArea)) {
+        filteredData = allData.filter(row => matchesFilter(row.Business, filters?.businessArea));
       }
 
       // Helper function to normalize business names
@@ -1541,7 +1806,7 @@ export class AnalyticsService {
       };
 
       // Get unique values from filtered data with normalization
-      const years = [...new Set(filteredData.map(row => row.Year))].sort((a, b) => b - a);
+      const years = [...new Set(filteredData.map(row => calendar.fiscalYear(row.Year, row['Month Name'])))].sort((a, b) => b - a);
       const months = [...new Set(filteredData.map(row => row['Month Name']).filter(Boolean))];
       const businessAreas = [...new Set(filteredData.map(row => normalizeBusinessName(row.Business)).filter(Boolean))].sort();
       const channels = [...new Set(filteredData.map(row => normalizeChannelName(row.Channel)).filter(Boolean))].sort();
@@ -1549,13 +1814,8 @@ export class AnalyticsService {
       const categories = [...new Set(filteredData.map(row => row.Category).filter(Boolean))].sort();
       const customers = [...new Set(filteredData.map(row => row.Customer).filter(Boolean))].sort();
 
-      // Sort months in chronological order
-      const monthOrder = ['Jan', 'Feb', 'Mar', 'Apr', 'May', 'Jun', 'Jul', 'Aug', 'Sep', 'Oct', 'Nov', 'Dec'];
-      const sortedMonths = months.sort((a, b) => {
-        const aIndex = monthOrder.indexOf(a);
-        const bIndex = monthOrder.indexOf(b);
-        return aIndex - bIndex;
-      });
+      // Sort months in fiscal order
+      const sortedMonths = months.sort((a, b) => calendar.periodOf(a) - calendar.periodOf(b));
 
       return {
         years,
@@ -1564,7 +1824,8 @@ export class AnalyticsService {
         channels,
         brands,
         categories,
-        customers
+        customers,
+        calendar: calendar.describe()
       };
 
     } catch (error) {
@@ -1582,171 +1843,122 @@ export class AnalyticsService {
   }
 
   // Dashboard Charts Methods
-  async getFGPByBusiness(filters: any): Promise<any[]> {
-    try {
-      const azureService = getAzureService();
-      const csvData = await azureService.fetchCSVData();
-      const { year, month, business, channel } = filters;
-
-      // Debug: Log the first few rows to see the actual structure
-      if (csvData.length > 0) {
-        logger.info('First row structure:', Object.keys(csvData[0]));
-        logger.info('Sample row data:', csvData[0]);
-        logger.info('Filters received:', { year, month, business, channel });
-        
-        // Check what years are in the dataset
-        const uniqueYears = [...new Set(csvData.map((row: any) => row.Year?.toString()))];
-        logger.info('Unique years in dataset:', uniqueYears);
-        
-        // Count rows per year
-        const yearCounts: any = {};
-        csvData.forEach((row: any) => {
-          const yearStr = row.Year?.toString();
-          if (yearStr) {
-            yearCounts[yearStr] = (yearCounts[yearStr] || 0) + 1;
-          }
-        });
-        logger.info('Row counts per year:', yearCounts);
-        
-        // Check 2025 data specifically
-        const data2025 = csvData.filter((row: any) => row.Year?.toString() === '2025');
-        logger.info('Total 2025 rows:', data2025.length);
-        if (data2025.length > 0) {
-          logger.info('Sample 2025 row:', data2025[0]);
-          logger.info('2025 fGP sample values:', data2025.slice(0, 5).map((r: any) => ({
-            Business: r.Business,
-            fGP: r.fGP,
-            gSales: r.gSales,
-            Year: r.Year,
-            Month: r['Month Name']
-          })));
-          
-          // Check what months 2025 has data for
-          const months2025 = [...new Set(data2025.map((r: any) => r['Month Name']))];
-          logger.info('🔍 2025 available months:', months2025);
-          
-          // Check what months were requested
-          logger.info('🔍 Requested months filter:', month);
-          
-          // Check what businesses 2025 has
-          const businesses2025 = [...new Set(data2025.map((r: any) => r.Business))];
-          logger.info('🔍 2025 available businesses:', businesses2025);
-        }
-      }
-
-      // Normalize business and channel names for flexible matching
-      const normalizeBusinessName = (name: string): string => {
-        // Map 2025 business names to match filter values
-        const mapping: { [key: string]: string } = {
-          'Household': 'Household & Beauty',
-          'Brillo & KMPL': 'Brillo, Goddards & KMPL'
-        };
-        const normalized = mapping[name] || name;
-        if (normalized !== name) {
-          logger.info(`Business name normalized: "${name}" → "${normalized}"`);
-        }
-        return normalized;
-      };
+  /**
+   * Fiscal-year totals of a measure for the dashboard charts, grouped by business, channel or month.
+   * Chart filters are arrays of year/month/business/channel values; business names are
+   * normalised and channels match by prefix (e.g. "Grocery" matches "Grocery ROI").
+   */
+  private async getChartSeries(filters: any, measure: CubeMeasure, groupBy: 'business' | 'channel' | 'month'): Promise<any[]> {
+    const dataSource = getSalesDataSource();
+    const csvData = await dataSource.fetchSalesData();
+    const cube = SalesCube.for(csvData);
+    const calendar = getFiscalCalendar();
+    // Chart filters are lists (a single value is accepted too); `not` holds lists to exclude
+    const year = filterValues(filters.year);
+    const month = filterValues(filters.month);
+    const business = filterValues(filters.business);
+    const channel = filterValues(filters.channel);
+    const not = filters.not || {};
+
+    // Normalize business and channel names for flexible matching
+    const normalizeBusinessName = (name: string): string => {
+      // Map 2025 business names to match filter values
+      const mapping: { [key: string]: string } = {
+        'Household': 'Household & Beauty',
+        'Brillo & KMPL': 'Brillo, Goddards & KMPL'
+      };
+      return mapping[name] || name;
+    };
 
-      const normalizeChannelName = (name: string): string => {
-        // Map 2025 channel names to match filter values
-        const mapping: { [key: string]: string } = {
-          'Grocery ROI': 'Grocery',
-          'Grocery UK & NI': 'Grocery',
-          'Wholesale ROI': 'Wholesale',
-          'Wholesale UK & NI': 'Wholesale'
-        };
-        const normalized = mapping[name] || name;
-        if (normalized !== name) {
-          logger.info(`Channel name normalized: "${name}" → "${normalized}"`);
-        }
-        return normalized;
+    const normalizeChannelName = (name: string): string => {
+      // Map 2025 channel names to match filter values
+      const mapping: { [key: string]: string } = {
+        'Grocery ROI': 'Grocery',
+        'Grocery UK & NI': 'Grocery',
+        'Wholesale ROI': 'Wholesale',
+        'Wholesale UK & NI': 'Wholesale'
       };
+      return mapping[name] || name;
+    };
 
-      const matchesChannel = (rowChannel: string, filterChannels: string[]): boolean => {
-        if (!filterChannels || filterChannels.length === 0) return true;
-        
-        // Direct match
-        if (filterChannels.includes(rowChannel)) return true;
-        
-        // Flexible matching: "Grocery ROI" or "Grocery UK & NI" matches "Grocery"
-        for (const filterChannel of filterChannels) {
-          if (rowChannel.startsWith(filterChannel + ' ')) {
-            return true;
-          }
-        }
-        
-        return false;
-      };
+    const matchesChannel = (rowChannel: string, filterChannels: string[]): boolean => {
+      if (!filterChannels || filterChannels.length === 0) return true;
 
-      // Filter data based on selected filters
-      let filteredData = csvData.filter((row: any) => {
-        const yearMatch = !year || year.length === 0 || year.includes(row.Year?.toString());
-        const monthMatch = !month || month.length === 0 || month.includes(row['Month Name']);
-        
-        // Normalize business name before matching
-        const normalizedBusiness = normalizeBusinessName(row.Business);
-        const businessMatch = !business || business.length === 0 || business.includes(normalizedBusiness);
-        
-        // Use flexible channel matching
-        const channelMatch = matchesChannel(row.Channel, channel);
-        
-        return yearMatch && monthMatch && businessMatch && channelMatch;
-      });
+      // Direct match
+      if (filterChannels.includes(rowChannel)) return true;
 
-      logger.info('Filtered data count:', filteredData.length);
-      
-      // Debug: Check filtered data by year
-      const filteredYearCounts: any = {};
-      filteredData.forEach((row: any) => {
-        const yearStr = row.Year?.toString();
-        if (yearStr) {
-          filteredYearCounts[yearStr] = (filteredYearCounts[yearStr] || 0) + 1;
+      // Flexible matching: "Grocery ROI" or "Grocery UK & NI" matches "Grocery"
+      for (const filterChannel of filterChannels) {
+        if (rowChannel.startsWith(filterChannel + ' ')) {
+          return true;
         }
-      });
-      logger.info('Filtered row counts per year:', filteredYearCounts);
+      }
 
-      // Group by Business Area and calculate fGP for each year
-      const businessGroups = new Map();
-      let total2025fGP = 0;
-      let count2025Rows = 0;
-      
-      filteredData.forEach((row: any) => {
-        // Use normalized business name for grouping to ensure consistency
-        const businessArea = normalizeBusinessName(row.Business);
-        const year = row.Year?.toString();
-        const fGP = parseNumber(row.fGP);
-
-        if (!businessGroups.has(businessArea)) {
-          businessGroups.set(businessArea, { '2023': 0, '2024': 0, '2025': 0 });
-        }
-        
-        if (year && businessGroups.get(businessArea).hasOwnProperty(year)) {
-          businessGroups.get(businessArea)[year] += fGP;
-          
-          // Track 2025 aggregation
-          if (year === '2025') {
-            total2025fGP += fGP;
-            count2025Rows++;
-          }
-        }
-      });
-      
-      logger.info('🔍 2025 Aggregation Summary:', {
-        totalRows: count2025Rows,
-        totalfGP: total2025fGP,
-        avgfGP: count2025Rows > 0 ? total2025fGP / count2025Rows : 0
-      });
+      return false;
+    };
 
-      // Convert to array format for charts
-      const result = Array.from(businessGroups.entries()).map(([business, years]) => ({
-        business,
-        ...years
-      }));
-      
-      logger.info('FGP by Business result:', JSON.stringify(result, null, 2));
+    // Turn the chart filters into allow-lists over the cube's dimension values; exclusions
+    // use the same matching as the include lists
+    const predicates: DimensionPredicates = {};
+    const allow = (dimension: CubeDimension, include: string[], exclude: string[], matches: (value: string, list: string[]) => boolean) => {
+      if (include.length === 0 && exclude.length === 0) return;
+      predicates[dimension] = new Set(cube.distinct(dimension).filter(value =>
+        (include.length === 0 || matches(String(value), include)) && !(exclude.length && matches(String(value), exclude))));
+    };
+    // Years are fiscal years, so they select calendar months rather than Year values; a
+    // rolling or custom window replaces the year list
+    const window = this.getPeriodWindow(csvData, filters);
+    const notYear = filterValues(not.year);
+    if (window) {
+      predicates[PERIOD_FIELD] = new Set(window.periods);
+    } else if (year.length || notYear.length) {
+      predicates[PERIOD_FIELD] = new Set(cube.distinct('Year')
+        .flatMap(y => calendar.months().map(m => periodKey(y, m)))
+        .filter(period => {
+          const fiscalYear = String(calendar.fiscalYearOfPeriod(period));
+          return (year.length === 0 || year.includes(fiscalYear)) && !notYear.includes(fiscalYear);
+        }));
+    }
+    if (!window) allow('Month Name', month, filterValues(not.month), (m, list) => list.includes(m));
+    allow('Business', business, filterValues(not.business), (b, list) => list.includes(normalizeBusinessName(b)));
+    allow('Channel', channel, filterValues(not.channel), matchesChannel);
+
+    const dimension: CubeDimension = groupBy === 'business' ? 'Business' : groupBy === 'channel' ? 'Channel' : 'Month Name';
+    const groupName = (value: DimensionValue): string =>
+      groupBy === 'business' ? normalizeBusinessName(String(value))
+        : groupBy === 'channel' ? normalizeChannelName(String(value))
+        : String(value);
+
+    // Group by the chart dimension and total the measure for each fiscal year in the data
+    const fiscalYears = this.getFiscalYears(ColumnarDataset.for(csvData)).map(String);
+    const groups = new Map<string, { [year: string]: number }>();
+    for (const cell of cube.aggregate(_.uniq<CubeDimension>([dimension, 'Year', 'Month Name']), predicates)) {
+      const name = groupName(cell.key[dimension]!);
+      if (!groups.has(name)) {
+        groups.set(name, _.fromPairs(fiscalYears.map(fiscalYear => [fiscalYear, 0])));
+      }
+      const yearKey = cell.key.Year === undefined ? undefined
+        : calendar.fiscalYear(cell.key.Year, String(cell.key['Month Name'])).toString();
+      const years = groups.get(name)!;
+      if (yearKey && years.hasOwnProperty(yearKey)) {
+        years[yearKey] += cell.totals[measure];
+      }
+    }
 
-      return result;
+    if (groupBy === 'month') {
+      return calendar.months()
+        .filter(m => groups.has(m))
+        .map(m => ({ month: m, label: calendar.label(m), ...groups.get(m) }));
+    }
+    return Array.from(groups.entries()).map(([name, years]) => ({
+      [groupBy]: name,
+      ...years
+    }));
+  }
+
+  async getFGPByBusiness(filters: any): Promise<any[]> {
+    try {
+      return await this.getChartSeries(filters, 'fGP', 'business');
     } catch (error) {
       logger.error('Error getting fGP by Business:', error);
       throw error;
@@ -1755,96 +1967,7 @@ export class AnalyticsService {
 
   async getFGPByChannel(filters: any): Promise<any[]> {
     try {
-      const azureService = getAzureService();
-      const csvData = await azureService.fetchCSVData();
-      const { year, month, business, channel } = filters;
-
-      // Helper functions for flexible matching
-      const normalizeBusinessName = (name: string): string => {
-        const mapping: { [key: string]: string } = {
-          'Household': 'Household & Beauty',
-          'Brillo & KMPL': 'Brillo, Goddards & KMPL'
-        };
-        return mapping[name] || name;
-      };
-
-      const normalizeChannelName = (name: string): string => {
-        // Map 2025 channel names to match filter values
-        const mapping: { [key: string]: string } = {
-          'Grocery ROI': 'Grocery',
-          'Grocery UK & NI': 'Grocery',
-          'Wholesale ROI': 'Wholesale',
-          'Wholesale UK & NI': 'Wholesale'
-        };
-        const normalized = mapping[name] || name;
-        if (normalized !== name) {
-          logger.info(`Channel name normalized: "${name}" → "${normalized}"`);
-        }
-        return normalized;
-      };
-
-      const matchesChannel = (rowChannel: string, filterChannels: string[]): boolean => {
-        if (!filterChannels || filterChannels.length === 0) return true;
-        if (filterChannels.includes(rowChannel)) return true;
-        for (const filterChannel of filterChannels) {
-          if (rowChannel.startsWith(filterChannel + ' ')) return true;
-        }
-        return false;
-      };
-
-      // Helper function for brand matching
-      const matchesBrand = (rowBrand: string, filterBrands: string[]): boolean => {
-        if (!filterBrands || filterBrands.length === 0) return true;
-        return filterBrands.includes(rowBrand);
-      };
-
-      // Helper function for category matching
-      const matchesCategory = (rowCategory: string, filterCategories: string[]): boolean => {
-        if (!filterCategories || filterCategories.length === 0) return true;
-        return filterCategories.includes(rowCategory);
-      };
-
-      // Helper function for customer matching
-      const matchesCustomer = (rowCustomer: string, filterCustomers: string[]): boolean => {
-        if (!filterCustomers || filterCustomers.length === 0) return true;
-        return filterCustomers.includes(rowCustomer);
-      };
-
-      // Filter data based on selected filters
-      let filteredData = csvData.filter((row: any) => {
-        const yearMatch = !year || year.length === 0 || year.includes(row.Year?.toString());
-        const monthMatch = !month || month.length === 0 || month.includes(row['Month Name']);
-        const normalizedBusiness = normalizeBusinessName(row.Business);
-        const businessMatch = !business || business.length === 0 || business.includes(normalizedBusiness);
-        const channelMatch = matchesChannel(row.Channel, channel);
-        return yearMatch && monthMatch && businessMatch && channelMatch;
-      });
-
-      // Group by Channel and calculate fGP for each year
-      const channelGroups = new Map();
-      
-      filteredData.forEach((row: any) => {
-        // Use normalized channel name for grouping to ensure consistency
-        const channelName = normalizeChannelName(row.Channel);
-        const year = row.Year?.toString();
-        const fGP = parseNumber(row.fGP);
-
-        if (!channelGroups.has(channelName)) {
-          channelGroups.set(channelName, { '2023': 0, '2024': 0, '2025': 0 });
-        }
-        
-        if (year && channelGroups.get(channelName).hasOwnProperty(year)) {
-          channelGroups.get(channelName)[year] += fGP;
-        }
-      });
-
-      // Convert to array format for charts
-      const result = Array.from(channelGroups.entries()).map(([channel, years]) => ({
-        channel,
-        ...years
-      }));
-
-      return result;
+      return await this.getChartSeries(filters, 'fGP', 'channel');
     } catch (error) {
       logger.error('Error getting fGP by Channel:', error);
       throw error;
@@ -1853,100 +1976,7 @@ export class AnalyticsService {
 
   async getFGPMonthlyTrend(filters: any): Promise<any[]> {
     try {
-      const azureService = getAzureService();
-      const csvData = await azureService.fetchCSVData();
-      const { year, month, business, channel } = filters;
-
-      // Helper functions for flexible matching
-      const normalizeBusinessName = (name: string): string => {
-        const mapping: { [key: string]: string } = {
-          'Household': 'Household & Beauty',
-          'Brillo & KMPL': 'Brillo, Goddards & KMPL'
-        };
-        return mapping[name] || name;
-      };
-
-      const normalizeChannelName = (name: string): string => {
-        // Map 2025 channel names to match filter values
-        const mapping: { [key: string]: string } = {
-          'Grocery ROI': 'Grocery',
-          'Grocery UK & NI': 'Grocery',
-          'Wholesale ROI': 'Wholesale',
-          'Wholesale UK & NI': 'Wholesale'
-        };
-        const normalized = mapping[name] || name;
-        if (normalized !== name) {
-          logger.info(`Channel name normalized: "${name}" → "${normalized}"`);
-        }
-        return normalized;
-      };
-
-      const matchesChannel = (rowChannel: string, filterChannels: string[]): boolean => {
-        if (!filterChannels || filterChannels.length === 0) return true;
-        if (filterChannels.includes(rowChannel)) return true;
-        for (const filterChannel of filterChannels) {
-          if (rowChannel.startsWith(filterChannel + ' ')) return true;
-        }
-        return false;
-      };
-
-      // Helper function for brand matching
-      const matchesBrand = (rowBrand: string, filterBrands: string[]): boolean => {
-        if (!filterBrands || filterBrands.length === 0) return true;
-        return filterBrands.includes(rowBrand);
-      };
-
-      // Helper function for category matching
-      const matchesCategory = (rowCategory: string, filterCategories: string[]): boolean => {
-        if (!filterCategories || filterCategories.length === 0) return true;
-        return filterCategories.includes(rowCategory);
-      };
-
-      // Helper function for customer matching
-      const matchesCustomer = (rowCustomer: string, filterCustomers: string[]): boolean => {
-        if (!filterCustomers || filterCustomers.length === 0) return true;
-        return filterCustomers.includes(rowCustomer);
-      };
-
-      // Filter data based on selected filters
-      let filteredData = csvData.filter((row: any) => {
-        const yearMatch = !year || year.length === 0 || year.includes(row.Year?.toString());
-        const monthMatch = !month || month.length === 0 || month.includes(row['Month Name']);
-        const normalizedBusiness = normalizeBusinessName(row.Business);
-        const businessMatch = !business || business.length === 0 || business.includes(normalizedBusiness);
-        const channelMatch = matchesChannel(row.Channel, channel);
-        return yearMatch && monthMatch && businessMatch && channelMatch;
-      });
-
-      // Define month order
-      const monthOrder = ['Jan', 'Feb', 'Mar', 'Apr', 'May', 'Jun', 'Jul', 'Aug', 'Sep', 'Oct', 'Nov', 'Dec'];
-      
-      // Group by Month and calculate fGP for each year
-      const monthGroups = new Map();
-      
-      filteredData.forEach((row: any) => {
-        const month = row['Month Name'];
-        const year = row.Year?.toString();
-        const fGP = parseNumber(row.fGP);
-
-        if (!monthGroups.has(month)) {
-          monthGroups.set(month, { '2023': 0, '2024': 0, '2025': 0 });
-        }
-        
-        if (year && monthGroups.get(month).hasOwnProperty(year)) {
-          monthGroups.get(month)[year] += fGP;
-        }
-      });
-
-      // Convert to array format for charts and sort by month order
-      const result = monthOrder
-        .filter(month => monthGroups.has(month))
-        .map(month => ({
-          month,
-          ...monthGroups.get(month)
-        }));
-
-      return result;
+      return await this.getChartSeries(filters, 'fGP', 'month');
     } catch (error) {
       logger.error('Error getting fGP Monthly Trend:', error);
       throw error;
@@ -1955,112 +1985,7 @@ export class AnalyticsService {
 
   async getGSalesByBusiness(filters: any): Promise<any[]> {
     try {
-      const azureService = getAzureService();
-      const csvData = await azureService.fetchCSVData();
-      const { year, month, business, channel } = filters;
-
-      // Debug 2025 data
-      const data2025 = csvData.filter((row: any) => row.Year?.toString() === '2025');
-      logger.info('gSales: Total 2025 rows in dataset:', data2025.length);
-      if (data2025.length > 0) {
-        logger.info('gSales: Sample 2025 data:', data2025.slice(0, 3).map((r: any) => ({
-          Business: r.Business,
-          gSales: r.gSales,
-          Year: r.Year
-        })));
-      }
-
-      // Helper functions for flexible matching
-      const normalizeBusinessName = (name: string): string => {
-        const mapping: { [key: string]: string } = {
-          'Household': 'Household & Beauty',
-          'Brillo & KMPL': 'Brillo, Goddards & KMPL'
-        };
-        return mapping[name] || name;
-      };
-
-      const normalizeChannelName = (name: string): string => {
-        // Map 2025 channel names to match filter values
-        const mapping: { [key: string]: string } = {
-          'Grocery ROI': 'Grocery',
-          'Grocery UK & NI': 'Grocery',
-          'Wholesale ROI': 'Wholesale',
-          'Wholesale UK & NI': 'Wholesale'
-        };
-        const normalized = mapping[name] || name;
-        if (normalized !== name) {
-          logger.info(`Channel name normalized: "${name}" → "${normalized}"`);
-        }
-        return normalized;
-      };
-
-      const matchesChannel = (rowChannel: string, filterChannels: string[]): boolean => {
-        if (!filterChannels || filterChannels.length === 0) return true;
-        if (filterChannels.includes(rowChannel)) return true;
-        for (const filterChannel of filterChannels) {
-          if (rowChannel.startsWith(filterChannel + ' ')) return true;
-        }
-        return false;
-      };
-
-      // Helper function for brand matching
-      const matchesBrand = (rowBrand: string, filterBrands: string[]): boolean => {
-        if (!filterBrands || filterBrands.length === 0) return true;
-        return filterBrands.includes(rowBrand);
-      };
-
-      // Helper function for category matching
-      const matchesCategory = (rowCategory: string, filterCategories: string[]): boolean => {
-        if (!filterCategories || filterCategories.length === 0) return true;
-        return filterCategories.includes(rowCategory);
-      };
-
-      // Helper function for customer matching
-      const matchesCustomer = (rowCustomer: string, filterCustomers: string[]): boolean => {
-        if (!filterCustomers || filterCustomers.length === 0) return true;
-        return filterCustomers.includes(rowCustomer);
-      };
-
-      // Filter data based on selected filters
-      let filteredData = csvData.filter((row: any) => {
-        const yearMatch = !year || year.length === 0 || year.includes(row.Year?.toString());
-        const monthMatch = !month || month.length === 0 || month.includes(row['Month Name']);
-        const normalizedBusiness = normalizeBusinessName(row.Business);
-        const businessMatch = !business || business.length === 0 || business.includes(normalizedBusiness);
-        const channelMatch = matchesChannel(row.Channel, channel);
-        return yearMatch && monthMatch && businessMatch && channelMatch;
-      });
-      
-      const filtered2025 = filteredData.filter((row: any) => row.Year?.toString() === '2025');
-      logger.info('gSales: Filtered 2025 rows:', filtered2025.length);
-
-      // Group by Business Area and calculate gSales for each year
-      const businessGroups = new Map();
-      
-      filteredData.forEach((row: any) => {
-        // Use normalized business name for grouping to ensure consistency
-        const businessArea = normalizeBusinessName(row.Business);
-        const year = row.Year?.toString();
-        const gSales = parseNumber(row.gSales);
-
-        if (!businessGroups.has(businessArea)) {
-          businessGroups.set(businessArea, { '2023': 0, '2024': 0, '2025': 0 });
-        }
-        
-        if (year && businessGroups.get(businessArea).hasOwnProperty(year)) {
-          businessGroups.get(businessArea)[year] += gSales;
-        }
-      });
-
-      // Convert to array format for charts
-      const result = Array.from(businessGroups.entries()).map(([business, years]) => ({
-        business,
-        ...years
-      }));
-      
-      logger.info('gSales by Business result:', JSON.stringify(result, null, 2));
-
-      return result;
+      return await this.getChartSeries(filters, 'gSales', 'business');
     } catch (error) {
       logger.error('Error getting gSales by Business:', error);
       throw error;
@@ -2069,96 +1994,7 @@ export class AnalyticsService {
 
   async getGSalesByChannel(filters: any): Promise<any[]> {
     try {
-      const azureService = getAzureService();
-      const csvData = await azureService.fetchCSVData();
-      const { year, month, business, channel } = filters;
-
-      // Helper functions for flexible matching
-      const normalizeBusinessName = (name: string): string => {
-        const mapping: { [key: string]: string } = {
-          'Household': 'Household & Beauty',
-          'Brillo & KMPL': 'Brillo, Goddards & KMPL'
-        };
-        return mapping[name] || name;
-      };
-
-      const normalizeChannelName = (name: string): string => {
-        // Map 2025 channel names to match filter values
-        const mapping: { [key: string]: string } = {
-          'Grocery ROI': 'Grocery',
-          'Grocery UK & NI': 'Grocery',
-          'Wholesale ROI': 'Wholesale',
-          'Wholesale UK & NI': 'Wholesale'
-        };
-        const normalized = mapping[name] || name;
-        if (normalized !== name) {
-          logger.info(`Channel name normalized: "${name}" → "${normalized}"`);
-        }
-        return normalized;
-      };
-
-      const matchesChannel = (rowChannel: string, filterChannels: string[]): boolean => {
-        if (!filterChannels || filterChannels.length === 0) return true;
-        if (filterChannels.includes(rowChannel)) return true;
-        for (const filterChannel of filterChannels) {
-          if (rowChannel.startsWith(filterChannel + ' ')) return true;
-        }
-        return false;
-      };
-
-      // Helper function for brand matching
-      const matchesBrand = (rowBrand: string, filterBrands: string[]): boolean => {
-        if (!filterBrands || filterBrands.length === 0) return true;
-        return filterBrands.includes(rowBrand);
-      };
-
-      // Helper function for category matching
-      const matchesCategory = (rowCategory: string, filterCategories: string[]): boolean => {
-        if (!filterCategories || filterCategories.length === 0) return true;
-        return filterCategories.includes(rowCategory);
-      };
-
-      // Helper function for customer matching
-      const matchesCustomer = (rowCustomer: string, filterCustomers: string[]): boolean => {
-        if (!filterCustomers || filterCustomers.length === 0) return true;
-        return filterCustomers.includes(rowCustomer);
-      };
-
-      // Filter data based on selected filters
-      let filteredData = csvData.filter((row: any) => {
-        const yearMatch = !year || year.length === 0 || year.includes(row.Year?.toString());
-        const monthMatch = !month || month.length === 0 || month.includes(row['Month Name']);
-        const normalizedBusiness = normalizeBusinessName(row.Business);
-        const businessMatch = !business || business.length === 0 || business.includes(normalizedBusiness);
-        const channelMatch = matchesChannel(row.Channel, channel);
-        return yearMatch && monthMatch && businessMatch && channelMatch;
-      });
-
-      // Group by Channel and calculate gSales for each year
-      const channelGroups = new Map();
-      
-      filteredData.forEach((row: any) => {
-        // Use normalized channel name for grouping to ensure consistency
-        const channelName = normalizeChannelName(row.Channel);
-        const year = row.Year?.toString();
-        const gSales = parseNumber(row.gSales);
-
-        if (!channelGroups.has(channelName)) {
-          channelGroups.set(channelName, { '2023': 0, '2024': 0, '2025': 0 });
-        }
-        
-        if (year && channelGroups.get(channelName).hasOwnProperty(year)) {
-          channelGroups.get(channelName)[year] += gSales;
-        }
-      });
-
-      // Convert to array format for charts
-      const result = Array.from(channelGroups.entries()).map(([channel, years]) => ({
-        channel,
-        ...years
-      }));
-
-      return result;
+      return await this.getChartSeries(filters, 'gSales', 'channel');
     } catch (error) {
       logger.error('Error getting gSales by Channel:', error);
       throw error;
@@ -2167,100 +2003,7 @@ export class AnalyticsService {
 
   async getGSalesMonthlyTrend(filters: any): Promise<any[]> {
     try {
-      const azureService = getAzureService();
-      const csvData = await azureService.fetchCSVData();
-      const { year, month, business, channel } = filters;
-
-      // Helper functions for flexible matching
-      const normalizeBusinessName = (name: string): string => {
-        const mapping: { [key: string]: string } = {
-          'Household': 'Household & Beauty',
-          'Brillo & KMPL': 'Brillo, Goddards & KMPL'
-        };
-        return mapping[name] || name;
-      };
-
-      const normalizeChannelName = (name: string): string => {
-        // Map 2025 channel names to match filter values
-        const mapping: { [key: string]: string } = {
-          'Grocery ROI': 'Grocery',
-          'Grocery UK & NI': 'Grocery',
-          'Wholesale ROI': 'Wholesale',
-          'Wholesale UK & NI': 'Wholesale'
-        };
-        const normalized = mapping[name] || name;
-        if (normalized !== name) {
-          logger.info(`Channel name normalized: "${name}" → "${normalized}"`);
-        }
-        return normalized;
-      };
-
-      const matchesChannel = (rowChannel: string, filterChannels: string[]): boolean => {
-        if (!filterChannels || filterChannels.length === 0) return true;
-        if (filterChannels.includes(rowChannel)) return true;
-        for (const filterChannel of filterChannels) {
-          if (rowChannel.startsWith(filterChannel + ' ')) return true;
-        }
-        return false;
-      };
-
-      // Helper function for brand matching
-      const matchesBrand = (rowBrand: string, filterBrands: string[]): boolean => {
-        if (!filterBrands || filterBrands.length === 0) return true;
-        return filterBrands.includes(rowBrand);
-      };
-
-      // Helper function for category matching
-      const matchesCategory = (rowCategory: string, filterCategories: string[]): boolean => {
-        if (!filterCategories || filterCategories.length === 0) return true;
-        return filterCategories.includes(rowCategory);
-      };
-
-      // Helper function for customer matching
-      const matchesCustomer = (rowCustomer: string, filterCustomers: string[]): boolean => {
-        if (!filterCustomers || filterCustomers.length === 0) return true;
-        return filterCustomers.includes(rowCustomer);
-      };
-
-      // Filter data based on selected filters
-      let filteredData = csvData.filter((row: any) => {
-        const yearMatch = !year || year.length === 0 || year.includes(row.Year?.toString());
-        const monthMatch = !month || month.length === 0 || month.includes(row['Month Name']);
-        const normalizedBusiness = normalizeBusinessName(row.Business);
-        const businessMatch = !business || business.length === 0 || business.includes(normalizedBusiness);
-        const channelMatch = matchesChannel(row.Channel, channel);
-        return yearMatch && monthMatch && businessMatch && channelMatch;
-      });
-
-      // Define month order
-      const monthOrder = ['Jan', 'Feb', 'Mar', 'Apr', 'May', 'Jun', 'Jul', 'Aug', 'Sep', 'Oct', 'Nov', 'Dec'];
-      
-      // Group by Month and calculate gSales for each year
-      const monthGroups = new Map();
-      
-      filteredData.forEach((row: any) => {
-        const month = row['Month Name'];
-        const year = row.Year?.toString();
-        const gSales = parseNumber(row.gSales);
-
-        if (!monthGroups.has(month)) {
-          monthGroups.set(month, { '2023': 0, '2024': 0, '2025': 0 });
-        }
-        
-        if (year && monthGroups.get(month).hasOwnProperty(year)) {
-          monthGroups.get(month)[year] += gSales;
-        }
-      });
-
-      // Convert to array format for charts and sort by month order
-      const result = monthOrder
-        .filter(month => monthGroups.has(month))
-        .map(month => ({
-          month,
-          ...monthGroups.get(month)
-        }));
-
-      return result;
+      return await this.getChartSeries(filters, 'gSales', 'month');
     } catch (error) {
       logger.error('Error getting gSales Monthly Trend:', error);
       throw error;
@@ -2272,199 +2015,19 @@ export class AnalyticsService {
    */
   async getCasesByBusiness(filters: any): Promise<any[]> {
     try {
-      const azureService = getAzureService();
-      const csvData = await azureService.fetchCSVData();
-      const { year, month, business, channel, brand, category, customer } = filters;
-
-      // Helper functions for flexible matching
-      const normalizeBusinessName = (name: string): string => {
-        const mapping: { [key: string]: string } = {
-          'Household': 'Household & Beauty',
-          'Brillo & KMPL': 'Brillo, Goddards & KMPL'
-        };
-        return mapping[name] || name;
-      };
-
-      const normalizeChannelName = (name: string): string => {
-        // Map 2025 channel names to match filter values
-        const mapping: { [key: string]: string } = {
-          'Grocery ROI': 'Grocery',
-          'Grocery UK & NI': 'Grocery',
-          'Wholesale ROI': 'Wholesale',
-          'Wholesale UK & NI': 'Wholesale'
-        };
-        const normalized = mapping[name] || name;
-        if (normalized !== name) {
-          logger.info(`Channel name normalized: "${name}" → "${normalized}"`);
-        }
-        return normalized;
-      };
-
-      const matchesChannel = (rowChannel: string, filterChannels: string[]): boolean => {
-        if (!filterChannels || filterChannels.length === 0) return true;
-        if (filterChannels.includes(rowChannel)) return true;
-        for (const filterChannel of filterChannels) {
-          if (rowChannel.startsWith(filterChannel + ' ')) return true;
-        }
-        return false;
-      };
-
-      // Helper function for brand matching
-      const matchesBrand = (rowBrand: string, filterBrands: string[]): boolean => {
-        if (!filterBrands || filterBrands.length === 0) return true;
-        return filterBrands.includes(rowBrand);
-      };
-
-      // Helper function for category matching
-      const matchesCategory = (rowCategory: string, filterCategories: string[]): boolean => {
-        if (!filterCategories || filterCategories.length === 0) return true;
-        return filterCategories.includes(rowCategory);
-      };
-
-      // Helper function for customer matching
-      const matchesCustomer = (rowCustomer: string, filterCustomers: string[]): boolean => {
-        if (!filterCustomers || filterCustomers.length === 0) return true;
-        return filterCustomers.includes(rowCustomer);
-      };
-
-      // Filter data based on selected filters
-      let filteredData = csvData.filter((row: any) => {
-        const yearMatch = !year || year.length === 0 || year.includes(row.Year?.toString());
-        const monthMatch = !month || month.length === 0 || month.includes(row['Month Name']);
-        const normalizedBusiness = normalizeBusinessName(row.Business);
-        const businessMatch = !business || business.length === 0 || business.includes(normalizedBusiness);
-        const channelMatch = matchesChannel(row.Channel, channel);
-        return yearMatch && monthMatch && businessMatch && channelMatch;
-      });
-
-      // Group by Business and Year, calculate Cases
-      const businessGroups = new Map();
-      
-      filteredData.forEach((row: any) => {
-        // Use normalized business name for grouping to ensure consistency
-        const businessName = normalizeBusinessName(row.Business);
-        const year = row.Year?.toString();
-        const cases = parseNumber(row.Cases);
-
-        if (!businessGroups.has(businessName)) {
-          businessGroups.set(businessName, { '2023': 0, '2024': 0, '2025': 0 });
-        }
-        
-        if (year && businessGroups.get(businessName).hasOwnProperty(year)) {
-          businessGroups.get(businessName)[year] += cases;
-        }
-      });
-
-      // Convert to array format for charts
-      const result = Array.from(businessGroups.entries()).map(([business, years]) => ({
-        business,
-        ...years
-      }));
-
-      logger.info('Cases by Business result:', result);
-      return result;
-    } catch (error) {
-      logger.error('Error getting Cases by Business:', error);
-      throw error;
-    }
-  }
+      return await this.getChartSeries(filters, 'Cases', 'business');
+    } catch (error) {
+      logger.error('Error getting Cases by Business:', error);
+      throw error;
+    }
+  }
 
   /**
    * Get Cases by Channel
    */
   async getCasesByChannel(filters: any): Promise<any[]> {
     try {
-      const azureService = getAzureService();
-      const csvData = await azureService.fetchCSVData();
-      const { year, month, business, channel, brand, category, customer } = filters;
-
-      // Helper functions for flexible matching
-      const normalizeBusinessName = (name: string): string => {
-        const mapping: { [key: string]: string } = {
-          'Household': 'Household & Beauty',
-          'Brillo & KMPL': 'Brillo, Goddards & KMPL'
-        };
-        return mapping[name] || name;
-      };
-
-      const normalizeChannelName = (name: string): string => {
-        // Map 2025 channel names to match filter values
-        const mapping: { [key: string]: string } = {
-          'Grocery ROI': 'Grocery',
-          'Grocery UK & NI': 'Grocery',
-          'Wholesale ROI': 'Wholesale',
-          'Wholesale UK & NI': 'Wholesale'
-        };
-        const normalized = mapping[name] || name;
-        if (normalized !== name) {
-          logger.info(`Channel name normalized: "${name}" → "${normalized}"`);
-        }
-        return normalized;
-      };
-
-      const matchesChannel = (rowChannel: string, filterChannels: string[]): boolean => {
-        if (!filterChannels || filterChannels.length === 0) return true;
-        if (filterChannels.includes(rowChannel)) return true;
-        for (const filterChannel of filterChannels) {
-          if (rowChannel.startsWith(filterChannel + ' ')) return true;
-        }
-        return false;
-      };
-
-      // Helper function for brand matching
-      const matchesBrand = (rowBrand: string, filterBrands: string[]): boolean => {
-        if (!filterBrands || filterBrands.length === 0) return true;
-        return filterBrands.includes(rowBrand);
-      };
-
-      // Helper function for category matching
-      const matchesCategory = (rowCategory: string, filterCategories: string[]): boolean => {
-        if (!filterCategories || filterCategories.length === 0) return true;
-        return filterCategories.includes(rowCategory);
-      };
-
-      // Helper function for customer matching
-      const matchesCustomer = (rowCustomer: string, filterCustomers: string[]): boolean => {
-        if (!filterCustomers || filterCustomers.length === 0) return true;
-        return filterCustomers.includes(rowCustomer);
-      };
-
-      // Filter data based on selected filters
-      let filteredData = csvData.filter((row: any) => {
-        const yearMatch = !year || year.length === 0 || year.includes(row.Year?.toString());
-        const monthMatch = !month || month.length === 0 || month.includes(row['Month Name']);
-        const normalizedBusiness = normalizeBusinessName(row.Business);
-        const businessMatch = !business || business.length === 0 || business.includes(normalizedBusiness);
-        const channelMatch = matchesChannel(row.Channel, channel);
-        return yearMatch && monthMatch && businessMatch && channelMatch;
-      });
-
-      // Group by Channel and Year, calculate Cases
-      const channelGroups = new Map();
-      
-      filteredData.forEach((row: any) => {
-        // Use normalized channel name for grouping to ensure consistency
-        const channelName = normalizeChannelName(row.Channel);
-        const year = row.Year?.toString();
-        const cases = parseNumber(row.Cases);
-
-        if (!channelGroups.has(channelName)) {
-          channelGroups.set(channelName, { '2023': 0, '2024': 0, '2025': 0 });
-        }
-        
-        if (year && channelGroups.get(channelName).hasOwnProperty(year)) {
-          channelGroups.get(channelName)[year] += cases;
-        }
-      });
-
-      // Convert to array format for charts
-      const result = Array.from(channelGroups.entries()).map(([channel, years]) => ({
-        channel,
-        ...years
-      }));
-
-      logger.info('Cases by Channel result:', result);
-      return result;
+      return await this.getChartSeries(filters, 'Cases', 'channel');
     } catch (error) {
       logger.error('Error getting Cases by Channel:', error);
       throw error;
@@ -2476,100 +2039,7 @@ export class AnalyticsService {
    */
   async getCasesMonthlyTrend(filters: any): Promise<any[]> {
     try {
-      const azureService = getAzureService();
-      const csvData = await azureService.fetchCSVData();
-      const { year, month, business, channel, brand, category, customer } = filters;
-
-      // Helper functions for flexible matching
-      const normalizeBusinessName = (name: string): string => {
-        const mapping: { [key: string]: string } = {
-          'Household': 'Household & Beauty',
-          'Brillo & KMPL': 'Brillo, Goddards & KMPL'
-        };
-        return mapping[name] || name;
-      };
-
-      const normalizeChannelName = (name: string): string => {
-        // Map 2025 channel names to match filter values
-        const mapping: { [key: string]: string } = {
-          'Grocery ROI': 'Grocery',
-          'Grocery UK & NI': 'Grocery',
-          'Wholesale ROI': 'Wholesale',
-          'Wholesale UK & NI': 'Wholesale'
-        };
-        const normalized = mapping[name] || name;
-        if (normalized !== name) {
-          logger.info(`Channel name normalized: "${name}" → "${normalized}"`);
-        }
-        return normalized;
-      };
-
-      const matchesChannel = (rowChannel: string, filterChannels: string[]): boolean => {
-        if (!filterChannels || filterChannels.length === 0) return true;
-        if (filterChannels.includes(rowChannel)) return true;
-        for (const filterChannel of filterChannels) {
-          if (rowChannel.startsWith(filterChannel + ' ')) return true;
-        }
-        return false;
-      };
-
-      // Helper function for brand matching
-      const matchesBrand = (rowBrand: string, filterBrands: string[]): boolean => {
-        if (!filterBrands || filterBrands.length === 0) return true;
-        return filterBrands.includes(rowBrand);
-      };
-
-      // Helper function for category matching
-      const matchesCategory = (rowCategory: string, filterCategories: string[]): boolean => {
-        if (!filterCategories || filterCategories.length === 0) return true;
-        return filterCategories.includes(rowCategory);
-      };
-
-      // Helper function for customer matching
-      const matchesCustomer = (rowCustomer: string, filterCustomers: string[]): boolean => {
-        if (!filterCustomers || filterCustomers.length === 0) return true;
-        return filterCustomers.includes(rowCustomer);
-      };
-
-      // Filter data based on selected filters
-      let filteredData = csvData.filter((row: any) => {
-        const yearMatch = !year || year.length === 0 || year.includes(row.Year?.toString());
-        const monthMatch = !month || month.length === 0 || month.includes(row['Month Name']);
-        const normalizedBusiness = normalizeBusinessName(row.Business);
-        const businessMatch = !business || business.length === 0 || business.includes(normalizedBusiness);
-        const channelMatch = matchesChannel(row.Channel, channel);
-        return yearMatch && monthMatch && businessMatch && channelMatch;
-      });
-
-      // Define month order
-      const monthOrder = ['Jan', 'Feb', 'Mar', 'Apr', 'May', 'Jun', 'Jul', 'Aug', 'Sep', 'Oct', 'Nov', 'Dec'];
-      
-      // Group by Month and calculate Cases for each year
-      const monthGroups = new Map();
-      
-      filteredData.forEach((row: any) => {
-        const month = row['Month Name'];
-        const year = row.Year?.toString();
-        const cases = parseNumber(row.Cases);
-
-        if (!monthGroups.has(month)) {
-          monthGroups.set(month, { '2023': 0, '2024': 0, '2025': 0 });
-        }
-        
-        if (year && monthGroups.get(month).hasOwnProperty(year)) {
-          monthGroups.get(month)[year] += cases;
-        }
-      });
-
-      // Convert to array format for charts and sort by month order
-      const result = monthOrder
-        .filter(month => monthGroups.has(month))
-        .map(month => ({
-          month,
-          ...monthGroups.get(month)
-        }));
-
-      return result;
+      return await this.getChartSeries(filters, 'Cases', 'month');
     } catch (error) {
       logger.error('Error getting Cases Monthly Trend:', error);
       throw error;
@@ -2577,211 +2047,93 @@ export class AnalyticsService {
   }
 
   /**
-   * Calculate reports row data implementing Excel formulas
-   * Year-to-year comparison: Current Year vs Last Year
+   * Map report business areas to CSV business areas (the business-area-summary report's members)
    */
-  private calculateReportsRowData(
-    data: any[], 
-    filters: DataFilters, 
-    rowName: string, 
-    dimension: 'businessArea' | 'channel'
-  ) {
-    const requestedYear = filters.year || new Date().getFullYear();
-    const isYTD = !filters.month || filters.month === 'All';
-    
-    console.log(`\n=== Calculating Row Data for ${rowName} (${dimension}) ===`);
-    console.log('Requested Year:', requestedYear);
-    console.log('Month filter:', filters.month);
-    console.log('Is YTD:', isYTD);
-    console.log('Filters:', filters);
-    
-    // CRITICAL: Force month filtering when month is specified
-    if (filters.month && filters.month !== 'All') {
-      console.log(`🎯 FORCING MONTH FILTERING: ${filters.month}`);
-    }
-    console.log('Data length:', data.length);
-    
-    // Debug: Check what years are available in the data
-    const availableYears = [...new Set(data.map(row => typeof row.Year === 'string' ? parseInt(row.Year) : row.Year))].sort();
-    console.log('Available years in data:', availableYears);
-    
-    // Debug: Check what months are available in the data
-    const availableMonths = [...new Set(data.map(row => row['Month Name']))].sort();
-    console.log('Available months in data:', availableMonths);
-    
-    // Determine the actual years to use for comparison
-    let currentYear, lastYear;
-    
-    if (availableYears.includes(requestedYear)) {
-      // Requested year exists, use it as current year
-      currentYear = requestedYear;
-      lastYear = currentYear - 1;
-    } else {
-      // Requested year doesn't exist, use the latest available year as current
-      currentYear = Math.max(...availableYears);
-      lastYear = currentYear - 1;
-      console.log(`⚠️ Requested year ${requestedYear} not found. Using ${currentYear} as current year.`);
-    }
-    
-    // Check if we have data for both current and last year
-    const hasCurrentYearData = availableYears.includes(currentYear);
-    const hasLastYearData = availableYears.includes(lastYear);
-    console.log(`Current Year: ${currentYear}, Last Year: ${lastYear}`);
-    console.log(`Has ${currentYear} data:`, hasCurrentYearData);
-    console.log(`Has ${lastYear} data:`, hasLastYearData);
-
-    // Formula 1: Cases YTD = SUMIFS for current year (YTD or specific month)
-    console.log(`🔍 About to call SUMIFS for Cases with month: ${isYTD ? 'undefined (YTD)' : filters.month}`);
-    console.log(`🔍 Row Name: ${rowName}, Dimension: ${dimension}`);
-    const casesYTD = this.reportsSumifs(data, 'Cases', {
-      year: currentYear,
-      month: isYTD ? undefined : filters.month,
-      businessArea: dimension === 'businessArea' ? rowName : filters.businessArea,
-      channel: dimension === 'channel' ? rowName : filters.channel,
-      customer: filters.customer,
-      brand: filters.brand,
-      category: filters.category,
-      subCategory: filters.subCategory
-    });
-    console.log(`🔍 Cases YTD result: ${casesYTD}`);
-
-    // Formula 2: Cases LY = SUMIFS for last year (same period)
-    const casesLY = this.reportsSumifs(data, 'Cases', {
-      year: lastYear,
-      month: isYTD ? undefined : filters.month,
-      businessArea: dimension === 'businessArea' ? rowName : filters.businessArea,
-      channel: dimension === 'channel' ? rowName : filters.channel,
-      customer: filters.customer,
-      brand: filters.brand,
-      category: filters.category,
-      subCategory: filters.subCategory
-    });
-    console.log(`🔍 Cases LY result: ${casesLY}`);
-
-    // Formula 3: Cases LY Var = Current Year - Last Year
-    const casesLYVar = casesYTD - casesLY;
-
-    // Formula 4: Cases LY Var % = IFERROR(Var/ABS(Last Year),0)
-    const casesLYVarPercent = this.reportsIferror(casesLYVar / Math.abs(casesLY), 0) * 100;
-
-    // Formula 5: gSales YTD = SUMIFS for current year
-    const gSalesYTDRaw = this.reportsSumifs(data, 'gSales', {
-      year: currentYear,
-      month: isYTD ? undefined : filters.month,
-      businessArea: dimension === 'businessArea' ? rowName : filters.businessArea,
-      channel: dimension === 'channel' ? rowName : filters.channel,
-      customer: filters.customer,
-      brand: filters.brand,
-      category: filters.category,
-      subCategory: filters.subCategory
-    });
-    const gSalesYTD = gSalesYTDRaw / 1000;
-    console.log(`🔍 ${rowName} gSales YTD: ${gSalesYTDRaw} / 1000 = ${gSalesYTD}`);
-
-    // Formula 6: gSales LY = SUMIFS for last year
-    const gSalesLYRaw = this.reportsSumifs(data, 'gSales', {
-      year: lastYear,
-      month: isYTD ? undefined : filters.month,
-      businessArea: dimension === 'businessArea' ? rowName : filters.businessArea,
-      channel: dimension === 'channel' ? rowName : filters.channel,
-      customer: filters.customer,
-      brand: filters.brand,
-      category: filters.category,
-      subCategory: filters.subCategory
-    });
-    const gSalesLY = gSalesLYRaw / 1000;
-    console.log(`🔍 ${rowName} gSales LY: ${gSalesLYRaw} / 1000 = ${gSalesLY}`);
-
-    // Formula 7: gSales LY Var = Current Year - Last Year
-    const gSalesLYVar = gSalesYTD - gSalesLY;
-
-    // Formula 8: gSales LY Var % = IFERROR(Var/ABS(Last Year),0)
-    const gSalesLYVarPercent = this.reportsIferror(gSalesLYVar / Math.abs(gSalesLY), 0) * 100;
-
-    // Formula 9: fGP YTD = SUMIFS for current year
-    const fGPYTD = this.reportsSumifs(data, 'fGP', {
-      year: currentYear,
-      month: isYTD ? undefined : filters.month,
-      businessArea: dimension === 'businessArea' ? rowName : filters.businessArea,
-      channel: dimension === 'channel' ? rowName : filters.channel,
-      customer: filters.customer,
-      brand: filters.brand,
-      category: filters.category,
-      subCategory: filters.subCategory
-    }) / 1000;
+  private mapBusinessArea(reportBusinessArea: string): string[] {
+    return reportMemberValues('business-area-summary', reportBusinessArea);
+  }
 
-    // Formula 10: fGP LY = SUMIFS for last year
-    const fGPLY = this.reportsSumifs(data, 'fGP', {
-      year: lastYear,
-      month: isYTD ? undefined : filters.month,
-      businessArea: dimension === 'businessArea' ? rowName : filters.businessArea,
-      channel: dimension === 'channel' ? rowName : filters.channel,
+  /**
+   * Criteria every row of a report shares: the selected dimension filters (exclusions were
+   * applied to the report data with the other filters)
+   */
+  private reportCriteria(filters: DataFilters): Partial<Record<ReportDimension, FilterValue>> {
+    return {
+      businessArea: filters.businessArea,
+      channel: filters.channel,
       customer: filters.customer,
       brand: filters.brand,
       category: filters.category,
       subCategory: filters.subCategory
-    }) / 1000;
-
-    const fGPLYVar = fGPYTD - fGPLY;
-
-    // Formula 11: fGP LY Var % = IFERROR(Var/ABS(Last Year),0)
-    const fGPLYVarPercent = this.reportsIferror(fGPLYVar / Math.abs(fGPLY), 0) * 100;
-
-    // Formula 12: fGP % YTD = IFERROR(fGP YTD / gSales YTD, 0)
-    const fGPPercentYTD = this.reportsIferror(fGPYTD / gSalesYTD, 0) * 100;
-
-    // Formula 13: fGP % LY = IFERROR(fGP LY / gSales LY, 0)
-    const fGPPercentLY = this.reportsIferror(fGPLY / gSalesLY, 0) * 100;
-    const fGPPercentLYVar = fGPPercentYTD - fGPPercentLY;
+    };
+  }
 
-    // Formula 14: fGP FY24 = Use last year fGP for comparison
-    const fGPFY24 = fGPLY; // Use last year fGP
+  /**
+   * Rows of a brand report: every year of the report data within the selected months, narrowed by
+   * the brand, category and sub-category filters and the caller's RLS scopes. Channel, customer and
+   * business area selections are left to the report, which matches them across several columns.
+   */
+  private brandReportRows(data: SalesData[], filters: DataFilters): SalesData[] {
+    const reportsFilters: DataFilters = {
+      ...filters,
+      year: undefined,
+      channel: undefined,
+      customer: undefined,
+      businessArea: undefined,
+      not: _.omit(filters.not, ['channel', 'customer', 'businessArea']),
+      skipYearFilter: true
+    };
+    if (hasFilter(filters.month)) {
+      reportsFilters.period = 'MTD';
+    }
+    return this.applyFilters(data, reportsFilters);
+  }
 
-    // Formula 15: fGP FY24 CY v LY % = IFERROR(Current/ABS(Last Year),0)
-    const fGPFY24CYVLy = this.reportsIferror(fGPYTD / Math.abs(fGPFY24), 0) * 100;
+  /**
+   * Rows in the business areas a report definition covers (all rows when it names none)
+   */
+  private reportBusinessRows(id: string, data: SalesData[]): SalesData[] {
+    const { businessAreas } = getReportDefinition(id);
+    return businessAreas ? data.filter(row => businessAreas.includes(row.Business)) : data;
+  }
 
-    return {
-      cases: {
-        ytd: Math.round(casesYTD),
-        ly: Math.round(casesLY),
-        lyVar: Math.round(casesLYVar),
-        lyVarPercent: Math.round(casesLYVarPercent * 10) / 10
-      },
-      gSales: {
-        ytd: Math.round(gSalesYTD),
-        ly: Math.round(gSalesLY),
-        lyVar: Math.round(gSalesLYVar),
-        lyVarPercent: Math.round(gSalesLYVarPercent * 10) / 10
-      },
-      fGP: {
-        ytd: Math.round(fGPYTD),
-        ly: Math.round(fGPLY),
-        lyVar: Math.round(fGPLYVar),
-        lyVarPercent: Math.round(fGPLYVarPercent * 10) / 10
-      },
-      fGPPercent: {
-        ytd: Math.round(fGPPercentYTD * 10) / 10,
-        lyVar: Math.round(fGPPercentLYVar * 10) / 10
-      },
-      fGPFY24: {
-        ytd: Math.round(fGPFY24),
-        cyVLy: Math.round(fGPFY24CYVLy * 10) / 10
-      }
-    };
+  /**
+   * Current and comparison year of a report: the requested fiscal year, or the latest year with
+   * data when it has none (plans always report the year asked for)
+   */
+  private resolveReportYears(data: SalesData[], filters: DataFilters): { currentYear: number; lastYear: number } {
+    const requestedYear = filters.year || getFiscalCalendar().fiscalYearOfDate(new Date());
+    const availableYears = this.getFiscalYears(ColumnarDataset.for(data));
+    const currentYear = availableYears.includes(requestedYear) || filters.scenario || availableYears.length === 0
+      ? requestedYear
+      : Math.max(...availableYears);
+    return { currentYear, lastYear: currentYear - 1 };
   }
 
   /**
-   * Map report business areas to CSV business areas
+   * Render a report definition over report data: each member row sums Cases, gSales and fGP for
+   * the member's dimension values on top of the shared criteria, this year and last year (YTD, or
+   * the selected months or window)
    */
-  private mapBusinessArea(reportBusinessArea: string): string[] {
-    const businessAreaMapping: { [key: string]: string[] } = {
-      'Food': ['Food'], // Map Food to only Food
-      'Household': ['Household & Beauty'], // Map Household to Household & Beauty
-      'Brillo & KMPL': ['Brillo & KMPL', 'Brillo', 'KMPL'],
-      'Kinetica': ['Kinetica']
-    };
-    
-    return businessAreaMapping[reportBusinessArea] || [reportBusinessArea];
+  private renderReportDefinition(id: string, data: SalesData[], filters: DataFilters, criteria: Partial<Record<ReportDimension, FilterValue>>): any[] {
+    const definition = getReportDefinition(id);
+    const { currentYear, lastYear } = this.resolveReportYears(data, filters);
+    const month = hasFilter(filters.month) ? filters.month : undefined;
+    const available = ColumnarDataset.for(data).distinct(FILTER_DIMENSIONS[definition.dimension]) as string[];
+
+    return renderReport(definition, available, values => {
+      const totals = (year: number): ReportMeasureTotals => {
+        const sumifs = (measure: ReportMeasure) => this.reportsSumifs(data, measure, {
+          ...criteria,
+          [definition.dimension]: values,
+          year,
+          window: filters.window,
+          month
+        });
+        return { Cases: sumifs('Cases'), gSales: sumifs('gSales'), fGP: sumifs('fGP') };
+      };
+      return { current: totals(currentYear), previous: totals(lastYear) };
+    });
   }
 
   /**
@@ -2792,87 +2144,36 @@ export class AnalyticsService {
     sumColumn: string, 
     criteria: {
       year?: number;
-      month?: string;
-      businessArea?: string;
-      channel?: string;
-      customer?: string;
-      brand?: string;
-      category?: string;
-      subCategory?: string;
+      month?: FilterValue;
+      businessArea?: FilterValue;
+      channel?: FilterValue;
+      customer?: FilterValue;
+      brand?: FilterValue;
+      category?: FilterValue;
+      subCategory?: FilterValue;
+      not?: FilterExclusions;
+      window?: PeriodWindow;
     }
   ): number {
-    console.log(`\n--- SUMIFS Debug ---`);
-    console.log(`Column: ${sumColumn}`);
-    console.log(`Criteria:`, criteria);
-    console.log(`Data length: ${data.length}`);
-    
-    // Debug: Check what years are available in the data
-    const availableYears = [...new Set(data.map(row => typeof row.Year === 'string' ? parseInt(row.Year) : row.Year))].sort();
-    console.log(`Available years in data:`, availableYears);
-    
-    // Debug: Check if the requested year exists
+    const dataset = ColumnarDataset.for(data as SalesData[]);
+    const predicates: DimensionPredicates = {};
     if (criteria.year !== undefined) {
-      const hasRequestedYear = availableYears.includes(criteria.year);
-      console.log(`Requested year ${criteria.year} exists:`, hasRequestedYear);
-      if (!hasRequestedYear) {
-        console.log(`❌ Year ${criteria.year} not found in data! Available years:`, availableYears);
-        return 0;
-      }
-    }
-    
-    let matchCount = 0;
-    const result = data.reduce((sum, row) => {
-      // Check all criteria
-      if (criteria.year !== undefined && (typeof row.Year === 'string' ? parseInt(row.Year) : row.Year) !== criteria.year) return sum;
-      if (criteria.month !== undefined && row['Month Name'] !== criteria.month) {
-        // Only log first few mismatches to avoid spam
-        if (matchCount < 3) {
-          console.log(`❌ Month mismatch: CSV has "${row['Month Name']}", looking for "${criteria.month}"`);
-        }
-        return sum;
-      }
-      
-      // Business area check with mapping
-      if (criteria.businessArea !== undefined && criteria.businessArea !== 'All') {
-        const mappedBusinessAreas = this.mapBusinessArea(criteria.businessArea);
-        if (!mappedBusinessAreas.includes(row.Business)) return sum;
-      }
-      if (criteria.channel !== undefined && criteria.channel !== 'All' && row.Channel !== criteria.channel) return sum;
-      if (criteria.customer !== undefined && criteria.customer !== 'All' && row.Customer !== criteria.customer) return sum;
-      if (criteria.brand !== undefined && criteria.brand !== 'All' && row.Brand !== criteria.brand) return sum;
-      if (criteria.category !== undefined && criteria.category !== 'All' && row.Category !== criteria.category) return sum;
-      if (criteria.subCategory !== undefined && criteria.subCategory !== 'All' && row['Sub-Cat'] !== criteria.subCategory) return sum;
-      
-      // If all criteria match, add the value
-      matchCount++;
-      const value = row[sumColumn];
-      let numericValue = 0;
-      
-      if (typeof value === 'number') {
-        numericValue = value;
-      } else if (typeof value === 'string') {
-        // Handle string values that might have commas or other formatting
-        // Remove commas and any other non-numeric characters except decimal point
-        const cleanValue = value.replace(/[^\d.-]/g, '').trim();
-        numericValue = parseFloat(cleanValue) || 0;
-      }
-      
-      if (matchCount <= 3) { // Log first 3 matches for debugging
-        console.log(`Match ${matchCount}:`, {
-          Year: row.Year,
-          'Month Name': row['Month Name'],
-          Business: row.Business,
-          Channel: row.Channel,
-          [sumColumn]: value,
-          numericValue: numericValue
-        });
-      }
-      return sum + numericValue;
-    }, 0);
-    
-    console.log(`Total matches: ${matchCount}`);
-    console.log(`SUMIFS result: ${result}`);
-    console.log(`SUMIFS Debug - Final result for ${sumColumn}: ${result}`);
+      predicates[PERIOD_FIELD] = new Set(criteria.window
+        ? this.getWindowPeriods(criteria.window, criteria.year)
+        : getFiscalCalendar().yearPeriods(criteria.year));
+    }
+
+    // Lists match any of their values; business areas go through the report mapping
+    restrictToFilters(predicates, dataset, criteria, { businessArea: area => this.mapBusinessArea(area) });
+
+    // Answer from the cube built for the loaded dataset when every criterion is a cube dimension
+    const { root, predicates: scope } = dataset.lineage();
+    const cube = SalesCube.peek(root);
+    const combined = intersectPredicates(scope, predicates);
+    const result = cube && SalesCube.isMeasure(sumColumn) && SalesCube.covers(combined)
+      ? cube.sum(sumColumn, combined)
+      : dataset.sum(sumColumn as MeasureField, predicates);
+    logger.debug(`SUMIFS ${sumColumn}`, { criteria, result });
     return result;
   }
 
@@ -2944,304 +2245,32 @@ export class AnalyticsService {
   }
 
   /**
-   * Calculate Total Household for reports
+   * Get Customer summary data
+   * Shows customer-level performance with YTD, LY, and variance calculations
    */
-  private calculateReportsHouseholdTotal(rows: any[]): any {
-    const householdRow = rows.find(r => r.name === 'Household');
-    const brilloRow = rows.find(r => r.name === 'Brillo & KMPL');
-
-    if (!householdRow || !brilloRow) {
-      return {
-        cases: { ytd: 0, ly: 0, lyVar: 0, lyVarPercent: 0 },
-        gSales: { ytd: 0, ly: 0, lyVar: 0, lyVarPercent: 0 },
-        fGP: { ytd: 0, lyVar: 0, lyVarPercent: 0 },
-        fGPPercent: { ytd: 0, lyVar: 0 },
-        fGPFY24: { ytd: 0, cyVLy: 0 }
-      };
-    }
-
-    const total = {
-      cases: {
-        ytd: householdRow.cases.ytd + brilloRow.cases.ytd,
-        ly: householdRow.cases.ly + brilloRow.cases.ly,
-        lyVar: householdRow.cases.lyVar + brilloRow.cases.lyVar,
-        lyVarPercent: 0
-      },
-      gSales: {
-        ytd: householdRow.gSales.ytd + brilloRow.gSales.ytd,
-        ly: householdRow.gSales.ly + brilloRow.gSales.ly,
-        lyVar: householdRow.gSales.lyVar + brilloRow.gSales.lyVar,
-        lyVarPercent: 0
-      },
-      fGP: {
-        ytd: householdRow.fGP.ytd + brilloRow.fGP.ytd,
-        lyVar: householdRow.fGP.lyVar + brilloRow.fGP.lyVar,
-        lyVarPercent: 0
-      },
-      fGPPercent: {
-        ytd: 0,
-        lyVar: 0
-      },
-      fGPFY24: {
-        ytd: householdRow.fGPFY24.ytd + brilloRow.fGPFY24.ytd,
-        cyVLy: 0
-      }
-    };
+  async getCustomerSummary(filters: any): Promise<any[]> {
+    if (filters.vs?.length) return this.withPlanComparison(filters, f => this.getCustomerSummary(f));
 
-    // Calculate percentages
-    total.cases.lyVarPercent = this.reportsIferror(total.cases.lyVar / Math.abs(total.cases.ly), 0) * 100;
-    total.gSales.lyVarPercent = this.reportsIferror(total.gSales.lyVar / Math.abs(total.gSales.ly), 0) * 100;
-    // For fGP, we need to calculate LY from YTD - LYVar
-    const fGPLY = total.fGP.ytd - total.fGP.lyVar;
-    total.fGP.lyVarPercent = this.reportsIferror(total.fGP.lyVar / Math.abs(fGPLY), 0) * 100;
-    total.fGPPercent.ytd = this.reportsIferror(total.fGP.ytd / total.gSales.ytd, 0) * 100;
-    total.fGPFY24.cyVLy = this.reportsIferror(total.fGP.ytd / Math.abs(total.fGPFY24.ytd), 0) * 100;
+    console.log('🔍 getCustomerSummary called with filters:', filters);
+    
+    const data = await this.fetchReportData(filters);
+    filters = this.withPeriodWindow(data, filters);
+    const currentYear = filters.year || getFiscalCalendar().fiscalYearOfDate(new Date());
+    const lastYear = currentYear - 1;
+    const isYTD = !hasFilter(filters.month);
 
-    return total;
-  }
+    console.log(`🔍 Processing Customer Summary - Year: ${currentYear}, Month: ${filters.month || 'All (YTD)'}, isYTD: ${isYTD}`);
 
-  /**
-   * Calculate combined rows for reports
-   */
-  private calculateReportsCombinedRow(
-    rows: any[], 
-    rowNames: string[], 
-    combinedName: string
-  ): any {
-    const selectedRows = rows.filter(r => rowNames.includes(r.name));
+    // For reports, we need ALL data (not filtered by year) to calculate year-over-year comparisons
+    // Only apply non-year filters to preserve data for both current and last year
+    const reportsFilters = { ...filters };
+    delete reportsFilters.year; // Remove year filter to get all years
     
-    if (selectedRows.length === 0) {
-      return {
-        name: combinedName,
-        cases: { ytd: 0, ly: 0, lyVar: 0, lyVarPercent: 0 },
-        gSales: { ytd: 0, ly: 0, lyVar: 0, lyVarPercent: 0 },
-        fGP: { ytd: 0, lyVar: 0, lyVarPercent: 0 },
-        fGPPercent: { ytd: 0, lyVar: 0 },
-        fGPFY24: { ytd: 0, cyVLy: 0 }
-      };
-    }
-
-    const total = selectedRows.reduce((acc, row) => ({
-      cases: {
-        ytd: acc.cases.ytd + row.cases.ytd,
-        ly: acc.cases.ly + row.cases.ly,
-        lyVar: acc.cases.lyVar + row.cases.lyVar,
-        lyVarPercent: 0
-      },
-      gSales: {
-        ytd: acc.gSales.ytd + row.gSales.ytd,
-        ly: acc.gSales.ly + row.gSales.ly,
-        lyVar: acc.gSales.lyVar + row.gSales.lyVar,
-        lyVarPercent: 0
-      },
-      fGP: {
-        ytd: acc.fGP.ytd + row.fGP.ytd,
-        lyVar: acc.fGP.lyVar + row.fGP.lyVar,
-        lyVarPercent: 0
-      },
-      fGPPercent: {
-        ytd: 0,
-        lyVar: 0
-      },
-      fGPFY24: {
-        ytd: acc.fGPFY24.ytd + row.fGPFY24.ytd,
-        cyVLy: 0
-      }
-    }), {
-      cases: { ytd: 0, ly: 0, lyVar: 0, lyVarPercent: 0 },
-      gSales: { ytd: 0, ly: 0, lyVar: 0, lyVarPercent: 0 },
-      fGP: { ytd: 0, lyVar: 0, lyVarPercent: 0 },
-      fGPPercent: { ytd: 0, lyVar: 0 },
-      fGPFY24: { ytd: 0, cyVLy: 0 }
-    });
-
-    // Calculate percentages
-    total.cases.lyVarPercent = this.reportsIferror(total.cases.lyVar / Math.abs(total.cases.ly), 0) * 100;
-    total.gSales.lyVarPercent = this.reportsIferror(total.gSales.lyVar / Math.abs(total.gSales.ly), 0) * 100;
-    // For fGP, we need to calculate LY from YTD - LYVar
-    const fGPLY = total.fGP.ytd - total.fGP.lyVar;
-    total.fGP.lyVarPercent = this.reportsIferror(total.fGP.lyVar / Math.abs(fGPLY), 0) * 100;
-    total.fGPPercent.ytd = this.reportsIferror(total.fGP.ytd / total.gSales.ytd, 0) * 100;
-    total.fGPFY24.cyVLy = this.reportsIferror(total.fGP.ytd / Math.abs(total.fGPFY24.ytd), 0) * 100;
-
-    return {
-      name: combinedName,
-      ...total
-    };
-  }
-
-  /**
-   * Calculate brand row data for Total Brands report
-   */
-  private calculateBrandRowData(
-    data: any[], 
-    brandName: string, 
-    filters: DataFilters
-  ) {
-    const requestedYear = filters.year || new Date().getFullYear();
-    const isYTD = !filters.month || filters.month === 'All';
-    
-    console.log(`\n=== Calculating Brand Row Data for ${brandName} ===`);
-    console.log('Requested Year:', requestedYear);
-    console.log('Month:', filters.month || 'All (YTD)');
-    console.log('isYTD:', isYTD);
-
-    // Formula 1: Cases YTD = SUMIFS for current year (YTD or specific month)
-    console.log(`🔍 About to call SUMIFS for Cases with month: ${isYTD ? 'undefined (YTD)' : filters.month}`);
-    console.log(`🔍 Brand Name: ${brandName}`);
-    const casesYTD = this.reportsSumifs(data, 'Cases', {
-      year: requestedYear,
-      month: isYTD ? undefined : filters.month,
-      businessArea: filters.businessArea,
-      channel: filters.channel,
-      customer: filters.customer,
-      brand: brandName,
-      category: filters.category,
-      subCategory: filters.subCategory
-    });
-
-    // Formula 2: Cases LY = SUMIFS for last year (same period)
-    const casesLY = this.reportsSumifs(data, 'Cases', {
-      year: requestedYear - 1,
-      month: isYTD ? undefined : filters.month,
-      businessArea: filters.businessArea,
-      channel: filters.channel,
-      customer: filters.customer,
-      brand: brandName,
-      category: filters.category,
-      subCategory: filters.subCategory
-    });
-
-    // Formula 3: Cases LY VAR = Cases YTD - Cases LY
-    const casesLYVar = casesYTD - casesLY;
-
-    // Formula 4: Cases LY VAR % = IFERROR(Cases LY VAR / ABS(Cases LY), 0) * 100
-    const casesLYVarPercent = this.reportsIferror(casesLYVar / Math.abs(casesLY), 0) * 100;
-
-    // Similar calculations for gSales
-    const gSalesYTD = this.reportsSumifs(data, 'gSales', {
-      year: requestedYear,
-      month: isYTD ? undefined : filters.month,
-      businessArea: filters.businessArea,
-      channel: filters.channel,
-      customer: filters.customer,
-      brand: brandName,
-      category: filters.category,
-      subCategory: filters.subCategory
-    });
-
-    const gSalesLY = this.reportsSumifs(data, 'gSales', {
-      year: requestedYear - 1,
-      month: isYTD ? undefined : filters.month,
-      businessArea: filters.businessArea,
-      channel: filters.channel,
-      customer: filters.customer,
-      brand: brandName,
-      category: filters.category,
-      subCategory: filters.subCategory
-    });
-
-    const gSalesLYVar = gSalesYTD - gSalesLY;
-    const gSalesLYVarPercent = this.reportsIferror(gSalesLYVar / Math.abs(gSalesLY), 0) * 100;
-
-    // Similar calculations for fGP
-    const fGPYTD = this.reportsSumifs(data, 'fGP', {
-      year: requestedYear,
-      month: isYTD ? undefined : filters.month,
-      businessArea: filters.businessArea,
-      channel: filters.channel,
-      customer: filters.customer,
-      brand: brandName,
-      category: filters.category,
-      subCategory: filters.subCategory
-    });
-
-    const fGPLY = this.reportsSumifs(data, 'fGP', {
-      year: requestedYear - 1,
-      month: isYTD ? undefined : filters.month,
-      businessArea: filters.businessArea,
-      channel: filters.channel,
-      customer: filters.customer,
-      brand: brandName,
-      category: filters.category,
-      subCategory: filters.subCategory
-    });
-
-    const fGPLYVar = fGPYTD - fGPLY;
-    const fGPLYVarPercent = this.reportsIferror(fGPLYVar / Math.abs(fGPLY), 0) * 100;
-
-    // fGP % calculations
-    const fGPPercentYTD = this.reportsIferror(fGPYTD / gSalesYTD, 0) * 100;
-    const fGPPercentLY = this.reportsIferror(fGPLY / gSalesLY, 0) * 100;
-    const fGPPercentLYVar = fGPPercentYTD - fGPPercentLY;
-
-    // fGP FY24 calculations (using current year data)
-    const fGPFY24YTD = fGPYTD;
-    const fGPFY24CYVLY = this.reportsIferror(fGPYTD / Math.abs(fGPLY), 0) * 100;
-
-    console.log(`✅ Brand ${brandName} calculated:`, {
-      cases: { ytd: casesYTD, ly: casesLY, lyVar: casesLYVar, lyVarPercent: casesLYVarPercent },
-      gSales: { ytd: gSalesYTD, ly: gSalesLY, lyVar: gSalesLYVar, lyVarPercent: gSalesLYVarPercent },
-      fGP: { ytd: fGPYTD, ly: fGPLY, lyVar: fGPLYVar, lyVarPercent: fGPLYVarPercent }
-    });
-
-    return {
-      name: brandName,
-      cases: {
-        ytd: casesYTD,
-        ly: casesLY,
-        lyVar: casesLYVar,
-        lyVarPercent: casesLYVarPercent
-      },
-      gSales: {
-        ytd: gSalesYTD,
-        ly: gSalesLY,
-        lyVar: gSalesLYVar,
-        lyVarPercent: gSalesLYVarPercent
-      },
-      fGP: {
-        ytd: fGPYTD,
-        ly: fGPLY,
-        lyVar: fGPLYVar,
-        lyVarPercent: fGPLYVarPercent
-      },
-      fGPPercent: {
-        ytd: fGPPercentYTD,
-        ly: fGPPercentLY,
-        lyVar: fGPPercentLYVar
-      },
-      fGPFY24: {
-        ytd: fGPFY24YTD,
-        cyVLy: fGPFY24CYVLY
-      }
-    };
-  }
-
-  /**
-   * Get Customer summary data
-   * Shows customer-level performance with YTD, LY, and variance calculations
-   */
-  async getCustomerSummary(filters: any): Promise<any[]> {
-    console.log('🔍 getCustomerSummary called with filters:', filters);
-    
-    const azureService = getAzureService();
-    const data = await azureService.fetchCSVData();
-    const currentYear = filters.year || new Date().getFullYear();
-    const lastYear = currentYear - 1;
-    const isYTD = !filters.month || filters.month === 'All';
-
-    console.log(`🔍 Processing Customer Summary - Year: ${currentYear}, Month: ${filters.month || 'All (YTD)'}, isYTD: ${isYTD}`);
-
-    // For reports, we need ALL data (not filtered by year) to calculate year-over-year comparisons
-    // Only apply non-year filters to preserve data for both current and last year
-    const reportsFilters = { ...filters };
-    delete reportsFilters.year; // Remove year filter to get all years
-    
-    // CRITICAL FIX: Set period to MTD when month is specified to enable month filtering
-    if (filters.month && filters.month !== 'All') {
-      reportsFilters.period = 'MTD';
-      // CRITICAL: Also remove year from the period logic to prevent filtering
-      delete reportsFilters.year;
+    // CRITICAL FIX: Set period to MTD when month is specified to enable month filtering
+    if (hasFilter(filters.month)) {
+      reportsFilters.period = 'MTD';
+      // CRITICAL: Also remove year from the period logic to prevent filtering
+      delete reportsFilters.year;
     }
     
     // CRITICAL: Add flag to skip year filtering for reports
@@ -3264,6 +2293,7 @@ export class AnalyticsService {
         customer,
         {
           year: currentYear,
+          window: filters.window,
           month: filters.month,
           businessArea: filters.businessArea,
           channel: filters.channel,
@@ -3297,8 +2327,8 @@ export class AnalyticsService {
     customerName: string, 
     filters: DataFilters
   ) {
-    const requestedYear = filters.year || new Date().getFullYear();
-    const isYTD = !filters.month || filters.month === 'All';
+    const requestedYear = filters.year || getFiscalCalendar().fiscalYearOfDate(new Date());
+    const isYTD = !hasFilter(filters.month);
     
     console.log(`\n=== Calculating Customer Row Data for ${customerName} ===`);
     console.log('Requested Year:', requestedYear);
@@ -3308,6 +2338,7 @@ export class AnalyticsService {
     // Formula 1: Cases YTD = SUMIFS for current year (YTD or specific month)
     const casesYTD = this.reportsSumifs(data, 'Cases', {
       year: requestedYear,
+      window: filters.window,
       month: isYTD ? undefined : filters.month,
       businessArea: filters.businessArea,
       channel: filters.channel,
@@ -3320,6 +2351,7 @@ export class AnalyticsService {
     // Formula 2: Cases LY = SUMIFS for last year (same period)
     const casesLY = this.reportsSumifs(data, 'Cases', {
       year: requestedYear - 1,
+      window: filters.window,
       month: isYTD ? undefined : filters.month,
       businessArea: filters.businessArea,
       channel: filters.channel,
@@ -3338,6 +2370,7 @@ export class AnalyticsService {
     // Similar calculations for gSales
     const gSalesYTD = this.reportsSumifs(data, 'gSales', {
       year: requestedYear,
+      window: filters.window,
       month: isYTD ? undefined : filters.month,
       businessArea: filters.businessArea,
       channel: filters.channel,
@@ -3349,6 +2382,7 @@ export class AnalyticsService {
 
     const gSalesLY = this.reportsSumifs(data, 'gSales', {
       year: requestedYear - 1,
+      window: filters.window,
       month: isYTD ? undefined : filters.month,
       businessArea: filters.businessArea,
       channel: filters.channel,
@@ -3364,6 +2398,7 @@ export class AnalyticsService {
     // Similar calculations for fGP
     const fGPYTD = this.reportsSumifs(data, 'fGP', {
       year: requestedYear,
+      window: filters.window,
       month: isYTD ? undefined : filters.month,
       businessArea: filters.businessArea,
       channel: filters.channel,
@@ -3375,6 +2410,7 @@ export class AnalyticsService {
 
     const fGPLY = this.reportsSumifs(data, 'fGP', {
       year: requestedYear - 1,
+      window: filters.window,
       month: isYTD ? undefined : filters.month,
       businessArea: filters.businessArea,
       channel: filters.channel,
@@ -3439,11 +2475,13 @@ export class AnalyticsService {
    * Shows monthly performance with YTD, LY, and variance calculations
    */
   async getTrendByMonthSummary(filters: any): Promise<any[]> {
+    if (filters.vs?.length) return this.withPlanComparison(filters, f => this.getTrendByMonthSummary(f));
+
     console.log('🔍 getTrendByMonthSummary called with filters:', filters);
     
-    const azureService = getAzureService();
-    const data = await azureService.fetchCSVData();
-    const currentYear = filters.year || new Date().getFullYear();
+    const data = await this.fetchReportData(filters);
+    filters = this.withPeriodWindow(data, filters);
+    const currentYear = filters.year || getFiscalCalendar().fiscalYearOfDate(new Date());
     const lastYear = currentYear - 1;
 
     console.log(`🔍 Processing Trend by Month - Year: ${currentYear}`);
@@ -3459,13 +2497,18 @@ export class AnalyticsService {
     const filteredData = this.applyFilters(data, reportsFilters);
     console.log(`🔍 After applying filters: ${filteredData.length} rows`);
     
-    // Get all months from the data
-    const allMonths = ['Jan', 'Feb', 'Mar', 'Apr', 'May', 'Jun', 'Jul', 'Aug', 'Sep', 'Oct', 'Nov', 'Dec'];
+    // All months of the fiscal year in fiscal order, or the months of a rolling/custom window,
+    // each against the same month of the comparison period
+    const calendar = getFiscalCalendar();
+    const window: PeriodWindow | undefined = filters.window;
+    const currentPeriods = window ? window.periods : calendar.yearPeriods(currentYear);
+    const previousPeriods = window ? window.comparisonPeriods : calendar.yearPeriods(lastYear);
+    const allMonths = currentPeriods.map((period, i) => ({ current: period, previous: previousPeriods[i] }));
     
     console.log(`🔍 Processing ${allMonths.length} months for trend analysis`);
 
     // Pre-calculate all monthly data in one pass for better performance
-    const monthlyData = this.calculateAllMonthlyData(filteredData, allMonths, currentYear, filters);
+    const monthlyData = this.calculateAllMonthlyData(filteredData, allMonths, filters);
     
     // Calculate totals
     const totalRow = this.calculateTrendTotalRow(monthlyData);
@@ -3477,11 +2520,27 @@ export class AnalyticsService {
   }
 
   /**
-   * Calculate all monthly data in one efficient pass
+   * Cube that can answer queries over `data`: the load-time cube of the dataset it was
+   * filtered from when possible, otherwise a cube built for `data` itself
+   */
+  private getCubeScope(data: SalesData[]): { cube: SalesCube; scope: DimensionPredicates } {
+    const { root, predicates } = ColumnarDataset.for(data).lineage();
+    const rootCube = SalesCube.peek(root);
+    if (rootCube && SalesCube.covers(predicates)) {
+      return { cube: rootCube, scope: predicates };
+    }
+    return { cube: SalesCube.for(data), scope: {} };
+  }
+
+  /**
+   * Calculate all monthly data from the cube; each row compares a month (period key) with its comparison month
    */
-  private calculateAllMonthlyData(data: any[], months: string[], currentYear: number, filters: any) {
-    const monthlyResults = months.map(month => ({
-      name: month,
+  private calculateAllMonthlyData(data: any[], months: Array<{ current: number; previous: number }>, filters: any) {
+    const calendar = getFiscalCalendar();
+    const monthlyResults = months.map(({ current }) => ({
+      name: periodMonth(current),
+      label: calendar.label(periodMonth(current)),
+      period: formatMonthRef(current),
       cases: { ytd: 0, ly: 0, lyVar: 0, lyVarPercent: 0 },
       gSales: { ytd: 0, ly: 0, lyVar: 0, lyVarPercent: 0 },
       fGP: { ytd: 0, ly: 0, lyVar: 0, lyVarPercent: 0 },
@@ -3489,38 +2548,44 @@ export class AnalyticsService {
       fullMonth2024: { gSales: 0, fGP: 0, fGPPercent: 0 }
     }));
 
-    // Single pass through data to calculate all months
-    for (const row of data) {
-      const year = parseInt(row.Year);
-      const month = row['Month Name'];
-      const monthIndex = months.indexOf(month);
-      
-      if (monthIndex === -1) continue; // Skip invalid months
-      
-      // Apply additional filters
-      if (filters.businessArea && filters.businessArea !== 'All' && row.Business !== filters.businessArea) continue;
-      if (filters.channel && filters.channel !== 'All' && row.Channel !== filters.channel) continue;
-      if (filters.customer && filters.customer !== 'All' && row.Customer !== filters.customer) continue;
-      if (filters.brand && filters.brand !== 'All' && row.Brand !== filters.brand) continue;
-      if (filters.category && filters.category !== 'All' && row.Category !== filters.category) continue;
-      if (filters.subCategory && filters.subCategory !== 'All' && row['Sub-Cat'] !== filters.subCategory) continue;
-
-      const cases = parseNumber(row.Cases);
-      const gSales = parseNumber(row.gSales);
-      const fGP = parseNumber(row.fGP);
-
-      if (year === currentYear) {
+    // Dimension filters other than month (the months to report are passed in)
+    const filterPredicates: DimensionPredicates = {};
+    restrictToFilters(filterPredicates, ColumnarDataset.for(data), { ...filters, month: undefined, not: _.omit(filters.not, 'month') });
+
+    // Filters on non-cube dimensions (category, sub-category) narrow the rows first so the cube can answer the rest
+    const cubeFilters = _.pickBy(filterPredicates, (_values, field) => SalesCube.isDimension(field)) as DimensionPredicates;
+    const rowFilters = _.omitBy(filterPredicates, (_values, field) => SalesCube.isDimension(field)) as DimensionPredicates;
+    const scopedData = Object.keys(rowFilters).length ? ColumnarDataset.for(data).filter(rowFilters) : data;
+
+    // Rows by period key; a month can be one row's current month and another's comparison month
+    const currentRow = new Map(months.map(({ current }, i) => [current, i]));
+    const previousRow = new Map(months.map(({ previous }, i) => [previous, i]));
+    const predicates: DimensionPredicates = {
+      ...cubeFilters,
+      [PERIOD_FIELD]: new Set([...currentRow.keys(), ...previousRow.keys()])
+    };
+
+    // One cube read for all current and comparison months
+    const { cube, scope } = this.getCubeScope(scopedData);
+    for (const cell of cube.aggregate(['Year', 'Month Name'], intersectPredicates(scope, predicates))) {
+      const period = periodKey(cell.key.Year!, String(cell.key['Month Name']));
+      const { Cases: cases, gSales, fGP } = cell.totals;
+
+      const current = currentRow.get(period);
+      if (current !== undefined) {
         // Current year data
-        monthlyResults[monthIndex].cases.ytd += cases;
-        monthlyResults[monthIndex].gSales.ytd += gSales;
-        monthlyResults[monthIndex].fGP.ytd += fGP;
-      } else if (year === currentYear - 1) {
+        monthlyResults[current].cases.ytd += cases;
+        monthlyResults[current].gSales.ytd += gSales;
+        monthlyResults[current].fGP.ytd += fGP;
+      }
+      const previous = previousRow.get(period);
+      if (previous !== undefined) {
         // Last year data
-        monthlyResults[monthIndex].cases.ly += cases;
-        monthlyResults[monthIndex].gSales.ly += gSales;
-        monthlyResults[monthIndex].fGP.ly += fGP;
-        monthlyResults[monthIndex].fullMonth2024.gSales += gSales;
-        monthlyResults[monthIndex].fullMonth2024.fGP += fGP;
+        monthlyResults[previous].cases.ly += cases;
+        monthlyResults[previous].gSales.ly += gSales;
+        monthlyResults[previous].fGP.ly += fGP;
+        monthlyResults[previous].fullMonth2024.gSales += gSales;
+        monthlyResults[previous].fullMonth2024.fGP += fGP;
       }
     }
 
@@ -3556,7 +2621,7 @@ export class AnalyticsService {
     monthName: string, 
     filters: DataFilters
   ) {
-    const requestedYear = filters.year || new Date().getFullYear();
+    const requestedYear = filters.year || getFiscalCalendar().fiscalYearOfDate(new Date());
     
     console.log(`\n=== Calculating Trend Month Row Data for ${monthName} ===`);
     console.log('Requested Year:', requestedYear);
@@ -3565,6 +2630,7 @@ export class AnalyticsService {
     // Formula 1: Cases 2025 = SUMIFS for current year and specific month
     const cases2025 = this.reportsSumifs(data, 'Cases', {
       year: requestedYear,
+      window: filters.window,
       month: monthName,
       businessArea: filters.businessArea,
       channel: filters.channel,
@@ -3577,6 +2643,7 @@ export class AnalyticsService {
     // Formula 2: Cases 2024 = SUMIFS for last year and same month
     const cases2024 = this.reportsSumifs(data, 'Cases', {
       year: requestedYear - 1,
+      window: filters.window,
       month: monthName,
       businessArea: filters.businessArea,
       channel: filters.channel,
@@ -3595,6 +2662,7 @@ export class AnalyticsService {
     // Similar calculations for gSales
     const gSales2025 = this.reportsSumifs(data, 'gSales', {
       year: requestedYear,
+      window: filters.window,
       month: monthName,
       businessArea: filters.businessArea,
       channel: filters.channel,
@@ -3606,6 +2674,7 @@ export class AnalyticsService {
 
     const gSales2024 = this.reportsSumifs(data, 'gSales', {
       year: requestedYear - 1,
+      window: filters.window,
       month: monthName,
       businessArea: filters.businessArea,
       channel: filters.channel,
@@ -3621,6 +2690,7 @@ export class AnalyticsService {
     // Similar calculations for fGP
     const fGP2025 = this.reportsSumifs(data, 'fGP', {
       year: requestedYear,
+      window: filters.window,
       month: monthName,
       businessArea: filters.businessArea,
       channel: filters.channel,
@@ -3632,6 +2702,7 @@ export class AnalyticsService {
 
     const fGP2024 = this.reportsSumifs(data, 'fGP', {
       year: requestedYear - 1,
+      window: filters.window,
       month: monthName,
       businessArea: filters.businessArea,
       channel: filters.channel,
@@ -3741,11 +2812,13 @@ export class AnalyticsService {
    * Shows detailed sales breakdown with dynamic year comparisons (selected year vs previous year)
    */
   async getSalesToFGPSummary(filters: any): Promise<any[]> {
+    if (filters.vs?.length) return this.withPlanComparison(filters, f => this.getSalesToFGPSummary(f));
+
     console.log('🔍 getSalesToFGPSummary called with filters:', filters);
     
-    const azureService = getAzureService();
-    const data = await azureService.fetchCSVData();
-    const currentYear = parseInt(filters.year) || new Date().getFullYear();
+    const data = await this.fetchReportData(filters);
+    filters = this.withPeriodWindow(data, filters);
+    const currentYear = parseInt(filters.year) || getFiscalCalendar().fiscalYearOfDate(new Date());
     const previousYear = currentYear - 1;
 
     console.log(`🔍 Processing Sales to fGP - Current Year: ${currentYear}, Previous Year: ${previousYear}, Month: ${filters.month || 'All'}`);
@@ -3842,23 +2915,17 @@ export class AnalyticsService {
    * Calculate individual sales item data
    */
   private calculateSalesItemData(data: any[], year: number, item: any, filters: any) {
+    const inYear = this.matchesReportYear(year, filters.window);
     let total = 0;
     let count = 0;
 
     for (const row of data) {
-      const rowYear = parseInt(row.Year);
-      if (rowYear !== year) continue;
+      if (!inYear(row)) continue;
 
       // Apply additional filters
-      if (filters.month && filters.month !== 'All' && row['Month Name'] !== filters.month) continue;
-      if (filters.businessArea && filters.businessArea !== 'All' && row.Business !== filters.businessArea) continue;
-      if (filters.channel && filters.channel !== 'All' && row.Channel !== filters.channel) continue;
-      if (filters.customer && filters.customer !== 'All' && row.Customer !== filters.customer) continue;
-      if (filters.brand && filters.brand !== 'All' && row.Brand !== filters.brand) continue;
-      if (filters.category && filters.category !== 'All' && row.Category !== filters.category) continue;
-      if (filters.subCategory && filters.subCategory !== 'All' && row['Sub-Cat'] !== filters.subCategory) continue;
-
-      const value = parseNumber(row[item.field]);
+      if (!matchesFilters(row, filters)) continue;
+
+      const value = toNumber(row[item.field]);
       total += value;
       count++;
     }
@@ -3871,13 +2938,14 @@ export class AnalyticsService {
    * Shows brand-level performance with YTD, LY, and variance calculations
    */
   async getTotalBrandsSummary(filters: any): Promise<any[]> {
+    if (filters.vs?.length) return this.withPlanComparison(filters, f => this.getTotalBrandsSummary(f));
+
     console.log('🔍 getTotalBrandsSummary called with filters:', filters);
     
-    const azureService = getAzureService();
-    const data = await azureService.fetchCSVData();
-    const currentYear = filters.year || new Date().getFullYear();
-    const lastYear = currentYear - 1;
-    const isYTD = !filters.month || filters.month === 'All';
+    const data = await this.fetchReportData(filters);
+    filters = this.withPeriodWindow(data, filters);
+    const currentYear = filters.year || getFiscalCalendar().fiscalYearOfDate(new Date());
+    const isYTD = !hasFilter(filters.month);
 
     console.log(`🔍 Processing Total Brands - Year: ${currentYear}, Month: ${filters.month || 'All (YTD)'}, isYTD: ${isYTD}`);
 
@@ -3887,7 +2955,7 @@ export class AnalyticsService {
     delete reportsFilters.year; // Remove year filter to get all years
     
     // CRITICAL FIX: Set period to MTD when month is specified to enable month filtering
-    if (filters.month && filters.month !== 'All') {
+    if (hasFilter(filters.month)) {
       reportsFilters.period = 'MTD';
       // CRITICAL: Also remove year from the period logic to prevent filtering
       delete reportsFilters.year;
@@ -3897,125 +2965,23 @@ export class AnalyticsService {
     reportsFilters.skipYearFilter = true;
     
     // Apply ROI Only filter if specified
+    let sourceData = data;
     if (filters.roiOnly) {
       console.log('🔍 Applying ROI Only filter');
-      const roiFilteredData = data.filter((row: any) => 
+      sourceData = data.filter((row: any) => 
         row['UK Customer'] === 'ROI' || 
         row.Customer === 'ROI' ||
         row.Customer?.includes('ROI')
       );
-      console.log(`🔍 ROI Only filter applied. Data reduced from ${data.length} to ${roiFilteredData.length} rows`);
-      
-      // Apply other filters to ROI-filtered data
-      const filteredData = this.applyFilters(roiFilteredData, reportsFilters);
-      console.log(`🔍 After applying other filters: ${filteredData.length} rows`);
-      
-      const uniqueBrands = [...new Set(filteredData.map((row: any) => row.Brand))].filter((brand: any) => brand && typeof brand === 'string' && brand.trim() !== '');
-      
-      console.log(`🔍 Found ${uniqueBrands.length} unique brands:`, uniqueBrands.slice(0, 10));
-
-      const brandRows = [];
-
-      for (const brand of uniqueBrands) {
-        console.log(`🔍 Processing brand: ${brand}`);
-        
-        const brandRow = this.calculateBrandRowData(
-          filteredData,
-          brand,
-          {
-            year: currentYear,
-            month: filters.month,
-            businessArea: filters.businessArea,
-            channel: filters.channel,
-            customer: filters.customer,
-            brand: brand,
-            category: filters.category,
-            subCategory: filters.subCategory
-          } as DataFilters
-        );
-
-        brandRows.push(brandRow);
-      }
-
-      // Sort brands by Cases YTD descending
-      brandRows.sort((a, b) => b.cases.ytd - a.cases.ytd);
-
-      // Calculate totals
-      const totalRow = this.calculateReportsTotalRow(brandRows);
-      totalRow.name = 'Brands Total';
-      brandRows.push(totalRow);
-
-      // Add Private Label section if needed
-      const privateLabelBrands = brandRows.filter(row => 
-        row.name.toLowerCase().includes('powerforce') || 
-        row.name.toLowerCase().includes('supervalu') ||
-        row.name.toLowerCase().includes('private')
-      );
-
-      if (privateLabelBrands.length > 0) {
-        const privateLabelTotal = this.calculateReportsTotalRow(privateLabelBrands);
-        privateLabelTotal.name = 'Private Label';
-        brandRows.push(privateLabelTotal);
-      }
-
-      console.log(`🔍 Total Brands summary completed. Generated ${brandRows.length} rows`);
-      return brandRows;
-    } else {
-      // No ROI filter - use all data
-      const filteredData = this.applyFilters(data, reportsFilters);
-      console.log(`🔍 After applying filters: ${filteredData.length} rows`);
-      
-      const uniqueBrands = [...new Set(filteredData.map((row: any) => row.Brand))].filter((brand: any) => brand && typeof brand === 'string' && brand.trim() !== '');
-      
-      console.log(`🔍 Found ${uniqueBrands.length} unique brands:`, uniqueBrands.slice(0, 10));
-
-      const brandRows = [];
-
-      for (const brand of uniqueBrands) {
-        console.log(`🔍 Processing brand: ${brand}`);
-        
-        const brandRow = this.calculateBrandRowData(
-          filteredData,
-          brand,
-          {
-            year: currentYear,
-            month: filters.month,
-            businessArea: filters.businessArea,
-            channel: filters.channel,
-            customer: filters.customer,
-            brand: brand,
-            category: filters.category,
-            subCategory: filters.subCategory
-          } as DataFilters
-        );
-
-        brandRows.push(brandRow);
-      }
-
-      // Sort brands by Cases YTD descending
-      brandRows.sort((a, b) => b.cases.ytd - a.cases.ytd);
-
-      // Calculate totals
-      const totalRow = this.calculateReportsTotalRow(brandRows);
-      totalRow.name = 'Brands Total';
-      brandRows.push(totalRow);
-
-      // Add Private Label section if needed
-      const privateLabelBrands = brandRows.filter(row => 
-        row.name.toLowerCase().includes('powerforce') || 
-        row.name.toLowerCase().includes('supervalu') ||
-        row.name.toLowerCase().includes('private')
-      );
+      console.log(`🔍 ROI Only filter applied. Data reduced from ${data.length} to ${sourceData.length} rows`);
+    }
 
-      if (privateLabelBrands.length > 0) {
-        const privateLabelTotal = this.calculateReportsTotalRow(privateLabelBrands);
-        privateLabelTotal.name = 'Private Label';
-        brandRows.push(privateLabelTotal);
-      }
+    const filteredData = this.applyFilters(sourceData, reportsFilters);
+    console.log(`🔍 After applying filters: ${filteredData.length} rows`);
 
-      console.log(`🔍 Total Brands summary completed. Generated ${brandRows.length} rows`);
-      return brandRows;
-    }
+    const brandRows = this.renderReportDefinition('total-brands', filteredData, filters, this.reportCriteria(filters));
+    console.log(`🔍 Total Brands summary completed. Generated ${brandRows.length} rows`);
+    return brandRows;
   }
 
   /**
@@ -4024,13 +2990,14 @@ export class AnalyticsService {
    * Groups brands by category: BV Brands - Food, AGC Brands - Food, PL Brands - Food
    */
   async getFoodBrandsSummary(filters: any): Promise<any[]> {
+    if (filters.vs?.length) return this.withPlanComparison(filters, f => this.getFoodBrandsSummary(f));
+
     console.log('🔍 getFoodBrandsSummary called with filters:', filters);
     
-    const azureService = getAzureService();
-    const data = await azureService.fetchCSVData();
-    const currentYear = filters.year || new Date().getFullYear();
-    const lastYear = currentYear - 1;
-    const isYTD = !filters.month || filters.month === 'All';
+    const data = await this.fetchReportData(filters);
+    filters = this.withPeriodWindow(data, filters);
+    const currentYear = filters.year || getFiscalCalendar().fiscalYearOfDate(new Date());
+    const isYTD = !hasFilter(filters.month);
 
     console.log(`🔍 Processing Food Brands - Year: ${currentYear}, Month: ${filters.month || 'All (YTD)'}, isYTD: ${isYTD}`);
 
@@ -4039,7 +3006,7 @@ export class AnalyticsService {
     delete reportsFilters.year; // Remove year filter to get all years
     
     // Set period to MTD when month is specified to enable month filtering
-    if (filters.month && filters.month !== 'All') {
+    if (hasFilter(filters.month)) {
       reportsFilters.period = 'MTD';
       delete reportsFilters.year;
     }
@@ -4047,160 +3014,68 @@ export class AnalyticsService {
     reportsFilters.skipYearFilter = true;
     
     // Apply ROI Only filter if specified
+    let sourceData = data;
     if (filters.roiOnly) {
       console.log('🔍 Applying ROI Only filter');
-      const roiFilteredData = data.filter((row: any) => 
+      sourceData = data.filter((row: any) => 
         row['UK Customer'] === 'ROI' || 
         row.Customer === 'ROI' ||
         row.Customer?.includes('ROI')
       );
-      console.log(`🔍 ROI Only filter applied. Data reduced from ${data.length} to ${roiFilteredData.length} rows`);
-      
-      const filteredData = this.applyFilters(roiFilteredData, reportsFilters);
-      console.log(`🔍 After applying other filters: ${filteredData.length} rows`);
-      
-      return this.processFoodBrandsData(filteredData, currentYear, filters);
-    } else {
-      // No ROI filter - use all data
-      const filteredData = this.applyFilters(data, reportsFilters);
-      console.log(`🔍 After applying filters: ${filteredData.length} rows`);
-      
-      return this.processFoodBrandsData(filteredData, currentYear, filters);
+      console.log(`🔍 ROI Only filter applied. Data reduced from ${data.length} to ${sourceData.length} rows`);
     }
+
+    const filteredData = this.applyFilters(sourceData, reportsFilters);
+    console.log(`🔍 After applying filters: ${filteredData.length} rows`);
+
+    // BV, AGC and PL brand lists come from the food-brands report definition
+    const brandRows = this.renderReportDefinition('food-brands', filteredData, filters, this.reportCriteria(filters));
+    console.log(`🔍 Food Brands summary completed. Generated ${brandRows.length} rows`);
+    return brandRows;
   }
 
   /**
-   * Process Food Brands data and group by category
+   * Get Food Brands details data
+   * Shows food brand sub-category level performance with YTD, LY, and variance calculations
    */
-  private processFoodBrandsData(filteredData: any[], currentYear: number, filters: any): any[] {
-    // Define food brand categories based on the screenshot
-    const bvBrands = ['McDonnells', 'BV Honey', 'Don Carlos', 'Chivers', 'Homecook', 'Erin', 'Lakeshore', 'Panda', 'Lifeforce', 'GDF', 'Richmond', 'Cali Cali'];
-    const agcBrands = ['Koka', 'Bonne Maman', 'Bensons'];
-    const plBrands = ['Tesco', 'Dunnes'];
+  async getFoodBrandsDetails(filters: any): Promise<any[]> {
+    if (filters.vs?.length) return this.withPlanComparison(filters, f => this.getFoodBrandsDetails(f));
 
-    const allFoodBrands = [...bvBrands, ...agcBrands, ...plBrands];
+    console.log('🔍 getFoodBrandsDetails called with filters:', filters);
     
-    // Filter data to only include food brands
-    const foodBrandData = filteredData.filter((row: any) => 
-      allFoodBrands.includes(row.Brand)
-    );
-
-    console.log(`🔍 Found ${foodBrandData.length} rows for food brands`);
-
-    const brandRows = [];
+    const data = await this.fetchReportData(filters);
+    filters = this.withPeriodWindow(data, filters);
+    const currentYear = filters.year || getFiscalCalendar().fiscalYearOfDate(new Date());
+    const lastYear = currentYear - 1;
+    const isYTD = !hasFilter(filters.month);
 
-    // Process BV Brands - Food
-    for (const brand of bvBrands) {
-      const brandRow = this.calculateBrandRowData(
-        foodBrandData,
-        brand,
-        {
-          year: currentYear,
-          month: filters.month,
-          businessArea: filters.businessArea,
-          channel: filters.channel,
-          customer: filters.customer,
-          brand: brand,
-          category: filters.category,
-          subCategory: filters.subCategory
-        } as DataFilters
-      );
+    console.log(`🔍 Processing Food Brands Details - Year: ${currentYear}, Month: ${filters.month || 'All (YTD)'}, isYTD: ${isYTD}`);
+    console.log(`🔍 Total data rows: ${data.length}`);
 
-      if (brandRow.cases.ytd > 0 || brandRow.gSales.ytd > 0 || brandRow.fGP.ytd > 0) {
-        brandRows.push(brandRow);
-      }
-    }
-
-    // Process AGC Brands - Food
-    for (const brand of agcBrands) {
-      const brandRow = this.calculateBrandRowData(
-        foodBrandData,
-        brand,
-        {
-          year: currentYear,
-          month: filters.month,
-          businessArea: filters.businessArea,
-          channel: filters.channel,
-          customer: filters.customer,
-          brand: brand,
-          category: filters.category,
-          subCategory: filters.subCategory
-        } as DataFilters
-      );
-
-      if (brandRow.cases.ytd > 0 || brandRow.gSales.ytd > 0 || brandRow.fGP.ytd > 0) {
-        brandRows.push(brandRow);
-      }
-    }
-
-    // Process PL Brands - Food
-    for (const brand of plBrands) {
-      const brandRow = this.calculateBrandRowData(
-        foodBrandData,
-        brand,
-        {
-          year: currentYear,
-          month: filters.month,
-          businessArea: filters.businessArea,
-          channel: filters.channel,
-          customer: filters.customer,
-          brand: brand,
-          category: filters.category,
-          subCategory: filters.subCategory
-        } as DataFilters
-      );
-
-      // Always include PL brands even if they have zero values
-      brandRows.push(brandRow);
-    }
-
-    console.log(`🔍 Food Brands summary completed. Generated ${brandRows.length} rows`);
-    return brandRows;
-  }
-
-  /**
-   * Get Food Brands details data
-   * Shows food brand sub-category level performance with YTD, LY, and variance calculations
-   */
-  async getFoodBrandsDetails(filters: any): Promise<any[]> {
-    console.log('🔍 getFoodBrandsDetails called with filters:', filters);
-    
-    const azureService = getAzureService();
-    const data = await azureService.fetchCSVData();
-    const currentYear = filters.year || new Date().getFullYear();
-    const lastYear = currentYear - 1;
-    const isYTD = !filters.month || filters.month === 'All';
-
-    console.log(`🔍 Processing Food Brands Details - Year: ${currentYear}, Month: ${filters.month || 'All (YTD)'}, isYTD: ${isYTD}`);
-    console.log(`🔍 Total data rows: ${data.length}`);
-
-    // For Food Brands Details, we need to be less restrictive with filtering
-    // Let's start with minimal filtering and see what data we get
-    let filteredData = data;
+    // For Food Brands Details, we need to be less restrictive with filtering:
+    // period, brand, category and sub-category filters and RLS scopes, then the multi-column matches below
+    let filteredData = this.brandReportRows(data, filters);
     
     // Only apply channel filter if specified and not 'All'
-    if (filters.channel && filters.channel !== 'All') {
+    if (hasFilter(filters.channel) || filters.not?.channel) {
       filteredData = filteredData.filter((row: any) => 
-        row.Channel === filters.channel || 
-        row['SKU Channel Name'] === filters.channel
+        matchesAnyFilter([row.Channel, row['SKU Channel Name']], filters.channel, filters.not?.channel)
       );
       console.log(`🔍 After channel filter (${filters.channel}): ${filteredData.length} rows`);
     }
     
     // Only apply customer filter if specified and not 'All'
-    if (filters.customer && filters.customer !== 'All') {
+    if (hasFilter(filters.customer) || filters.not?.customer) {
       filteredData = filteredData.filter((row: any) => 
-        row.Customer === filters.customer || 
-        row['UK Customer'] === filters.customer ||
-        row['NI Customer'] === filters.customer
+        matchesAnyFilter([row.Customer, row['UK Customer'], row['NI Customer']], filters.customer, filters.not?.customer)
       );
       console.log(`🔍 After customer filter (${filters.customer}): ${filteredData.length} rows`);
     }
     
     // Only apply business area filter if specified and not 'All'
-    if (filters.businessArea && filters.businessArea !== 'All') {
+    if (hasFilter(filters.businessArea) || filters.not?.businessArea) {
       filteredData = filteredData.filter((row: any) => 
-        row.Business === filters.businessArea
+        matchesFilter(row.Business, filters.businessArea, filters.not?.businessArea)
       );
       console.log(`🔍 After business area filter (${filters.businessArea}): ${filteredData.length} rows`);
     }
@@ -4215,60 +3090,60 @@ export class AnalyticsService {
    * Shows household brand performance with YTD, LY, and variance calculations
    */
   async getHouseholdBrands(filters: any): Promise<any[]> {
+    if (filters.vs?.length) return this.withPlanComparison(filters, f => this.getHouseholdBrands(f));
+
     console.log('🔍 getHouseholdBrands called with filters:', filters);
     
-    const azureService = getAzureService();
-    const data = await azureService.fetchCSVData();
-    const currentYear = filters.year || new Date().getFullYear();
-    const lastYear = currentYear - 1;
-    const isYTD = !filters.month || filters.month === 'All';
+    const data = await this.fetchReportData(filters);
+    filters = this.withPeriodWindow(data, filters);
+    const currentYear = filters.year || getFiscalCalendar().fiscalYearOfDate(new Date());
+    const isYTD = !hasFilter(filters.month);
 
     console.log(`🔍 Processing Household Brands - Year: ${currentYear}, Month: ${filters.month || 'All (YTD)'}, isYTD: ${isYTD}`);
     console.log(`🔍 Total data rows: ${data.length}`);
 
-    // For Household Brands, filter by business area = 'Household & Beauty'
-    let filteredData = data.filter((row: any) => 
-      row.Business === 'Household & Beauty'
-    );
-    console.log(`🔍 After business area filter (Household & Beauty): ${filteredData.length} rows`);
+    // For Household Brands, filter by the business areas of the household-brands definition
+    let filteredData = this.reportBusinessRows('household-brands', this.brandReportRows(data, filters));
+    console.log(`🔍 After business area filter (household-brands business areas): ${filteredData.length} rows`);
     
     // Only apply channel filter if specified and not 'All'
-    if (filters.channel && filters.channel !== 'All') {
+    if (hasFilter(filters.channel) || filters.not?.channel) {
       filteredData = filteredData.filter((row: any) => 
-        row.Channel === filters.channel || 
-        row['SKU Channel Name'] === filters.channel
+        matchesAnyFilter([row.Channel, row['SKU Channel Name']], filters.channel, filters.not?.channel)
       );
       console.log(`🔍 After channel filter (${filters.channel}): ${filteredData.length} rows`);
     }
     
     // Only apply customer filter if specified and not 'All'
-    if (filters.customer && filters.customer !== 'All') {
+    if (hasFilter(filters.customer) || filters.not?.customer) {
       filteredData = filteredData.filter((row: any) => 
-        row.Customer === filters.customer || 
-        row['UK Customer'] === filters.customer ||
-        row['NI Customer'] === filters.customer
+        matchesAnyFilter([row.Customer, row['UK Customer'], row['NI Customer']], filters.customer, filters.not?.customer)
       );
       console.log(`🔍 After customer filter (${filters.customer}): ${filteredData.length} rows`);
     }
     
     console.log(`🔍 Final filtered data: ${filteredData.length} rows`);
     
-    return this.processHouseholdBrandsData(filteredData, currentYear, filters);
+    // Rows are already limited to the household business areas and the selected channels and customers
+    const brandRows = this.renderReportDefinition('household-brands', filteredData, filters, {});
+    console.log(`🔍 Household Brands completed. Generated ${brandRows.length} rows`);
+    return brandRows;
   }
 
   /**
    * Get Household Brands details data
-   * Shows household brand sub-category level performance with YTD, LY, and variance calculations
-   * Based on Excel screenshot structure: Killeen, Green Aware, Other bags with sub-categories
+   * Shows household brand, sub-category and product performance with YTD, LY, and variance calculations
    */
   async getHouseholdBrandsDetails(filters: any): Promise<any[]> {
+    if (filters.vs?.length) return this.withPlanComparison(filters, f => this.getHouseholdBrandsDetails(f));
+
     console.log('🔍 getHouseholdBrandsDetails called with filters:', filters);
     
-    const azureService = getAzureService();
-    const data = await azureService.fetchCSVData();
-    const currentYear = filters.year || new Date().getFullYear();
+    const data = await this.fetchReportData(filters);
+    filters = this.withPeriodWindow(data, filters);
+    const currentYear = filters.year || getFiscalCalendar().fiscalYearOfDate(new Date());
     const lastYear = currentYear - 1;
-    const isYTD = !filters.month || filters.month === 'All';
+    const isYTD = !hasFilter(filters.month);
 
     console.log(`🔍 Processing Household Brands Details - Year: ${currentYear}, Month: ${filters.month || 'All (YTD)'}, isYTD: ${isYTD}`);
     console.log(`🔍 Total data rows: ${data.length}`);
@@ -4281,68 +3156,49 @@ export class AnalyticsService {
     const allBrands = [...new Set(data.map((row: any) => row.Brand))].filter(Boolean);
     console.log(`🔍 Available brands (first 20):`, allBrands.slice(0, 20));
 
-    // For Household Brands Details, try multiple business area filters
-    let filteredData = data.filter((row: any) => 
-      row.Business === 'Household & Beauty' ||
-      row.Business === 'Household' ||
-      row.Business?.toLowerCase().includes('household') ||
-      row.Business?.toLowerCase().includes('beauty')
-    );
-    console.log(`🔍 After business area filter (Household & Beauty variants): ${filteredData.length} rows`);
+    // Period, brand, category and sub-category filters and RLS scopes
+    const scopedData = this.brandReportRows(data, filters);
+
+    // For Household Brands Details, filter by the business areas of the household-brands definition
+    let filteredData = this.reportBusinessRows('household-brands', scopedData);
+    console.log(`🔍 After business area filter (household-brands business areas): ${filteredData.length} rows`);
     
-    // If no data found, try without business area filter to see what we have
-    if (filteredData.length === 0) {
+    // If no data found, fall back to the brands matching the definition's brand keywords
+    const brandKeywords = getReportDefinition('household-brands').brandKeywords || [];
+    if (filteredData.length === 0 && brandKeywords.length > 0) {
       console.log(`🔍 No household data found, checking all data...`);
-      const householdBrands = allBrands.filter(brand => 
-        brand.toLowerCase().includes('killeen') ||
-        brand.toLowerCase().includes('green') ||
-        brand.toLowerCase().includes('aware') ||
-        brand.toLowerCase().includes('handy') ||
-        brand.toLowerCase().includes('doggie') ||
-        brand.toLowerCase().includes('garden')
+      const householdBrands = allBrands.filter(brand =>
+        brandKeywords.some(keyword => brand.toLowerCase().includes(keyword))
       );
       console.log(`🔍 Found potential household brands:`, householdBrands);
       
       // Try filtering by brand names instead
-      filteredData = data.filter((row: any) => 
+      filteredData = scopedData.filter((row: any) => 
         householdBrands.includes(row.Brand)
       );
       console.log(`🔍 After brand-based filter: ${filteredData.length} rows`);
     }
     
     // Only apply channel filter if specified and not 'All'
-    if (filters.channel && filters.channel !== 'All') {
+    if (hasFilter(filters.channel) || filters.not?.channel) {
       filteredData = filteredData.filter((row: any) => 
-        row.Channel === filters.channel || 
-        row['SKU Channel Name'] === filters.channel
+        matchesAnyFilter([row.Channel, row['SKU Channel Name']], filters.channel, filters.not?.channel)
       );
       console.log(`🔍 After channel filter (${filters.channel}): ${filteredData.length} rows`);
     }
     
     // Only apply customer filter if specified and not 'All'
-    if (filters.customer && filters.customer !== 'All') {
+    if (hasFilter(filters.customer) || filters.not?.customer) {
       filteredData = filteredData.filter((row: any) => 
-        row.Customer === filters.customer || 
-        row['UK Customer'] === filters.customer ||
-        row['NI Customer'] === filters.customer
+        matchesAnyFilter([row.Customer, row['UK Customer'], row['NI Customer']], filters.customer, filters.not?.customer)
       );
       console.log(`🔍 After customer filter (${filters.customer}): ${filteredData.length} rows`);
     }
     
     console.log(`🔍 Final filtered data: ${filteredData.length} rows`);
     
-    // Process real data using the exact Excel formulas
-    console.log(`🔍 Processing real data for household brands details (filtered data: ${filteredData.length} rows)`);
+    // No sales rows give no detail rows, never placeholder values
     return this.processHouseholdBrandsDetailsData(filteredData, currentYear, filters);
-    
-    // TODO: Uncomment below when real data processing is working
-    // if (filteredData.length === 0) {
-    //   console.log(`🔍 No data found for household brands details, returning mock data`);
-    //   return this.getHouseholdBrandsDetailsMockData();
-    // }
-    // 
-    // console.log(`🔍 Processing real data for household brands details (${filteredData.length} rows)`);
-    // return this.processHouseholdBrandsDetailsData(filteredData, currentYear, filters);
   }
 
   /**
@@ -4382,6 +3238,7 @@ export class AnalyticsService {
             product,
             {
               year: currentYear,
+              window: filters.window,
               month: filters.month,
               businessArea: filters.businessArea,
               channel: filters.channel,
@@ -4407,11 +3264,12 @@ export class AnalyticsService {
   /**
    * Calculate period data for a specific year and month
    */
-  private calculatePeriodData(data: any[], year: number, month: string | undefined, isYTD: boolean) {
+  private calculatePeriodData(data: any[], year: number, month: FilterValue | undefined, isYTD: boolean, window?: PeriodWindow) {
     console.log(`🔍 calculatePeriodData: ${data.length} rows for year ${year}, month ${month || 'All'}, isYTD ${isYTD}`);
     
     const cases = this.reportsSumifs(data, 'Cases', {
       year: year,
+      window,
       month: isYTD ? undefined : month,
       businessArea: undefined,
       channel: undefined,
@@ -4423,6 +3281,7 @@ export class AnalyticsService {
 
     const gSales = this.reportsSumifs(data, 'gSales', {
       year: year,
+      window,
       month: isYTD ? undefined : month,
       businessArea: undefined,
       channel: undefined,
@@ -4434,6 +3293,7 @@ export class AnalyticsService {
 
     const fGP = this.reportsSumifs(data, 'fGP', {
       year: year,
+      window,
       month: isYTD ? undefined : month,
       businessArea: undefined,
       channel: undefined,
@@ -4462,9 +3322,9 @@ export class AnalyticsService {
     product: string,
     filters: DataFilters
   ): any {
-    const currentYear = filters.year || new Date().getFullYear();
+    const currentYear = filters.year || getFiscalCalendar().fiscalYearOfDate(new Date());
     const lastYear = currentYear - 1;
-    const isYTD = !filters.month || filters.month === 'All';
+    const isYTD = !hasFilter(filters.month);
 
     console.log(`🔍 calculateProductRowData: ${brand} - ${subCategory} - ${product}`);
 
@@ -4478,10 +3338,10 @@ export class AnalyticsService {
     console.log(`🔍 Product data rows: ${productData.length}`);
 
     // Calculate current year data
-    const currentYearData = this.calculatePeriodData(productData, currentYear, filters.month, isYTD);
+    const currentYearData = this.calculatePeriodData(productData, currentYear, filters.month, isYTD, filters.window);
     
     // Calculate last year data
-    const lastYearData = this.calculatePeriodData(productData, lastYear, filters.month, isYTD);
+    const lastYearData = this.calculatePeriodData(productData, lastYear, filters.month, isYTD, filters.window);
 
     // Calculate variances
     const casesVariance = currentYearData.cases - lastYearData.cases;
@@ -4534,332 +3394,53 @@ export class AnalyticsService {
   }
 
   /**
-   * Process Household Brands data
-   */
-  private processHouseholdBrandsData(filteredData: any[], currentYear: number, filters: any): any[] {
-    console.log(`🔍 Processing Household Brands with ${filteredData.length} filtered rows`);
-    
-    // Define household brands based on the screenshot
-    const householdBrands = {
-      'BV Brands - Household': [
-        'Killeen', 'Green Aware', 'Goddards', 'Irish Breeze', 'Babykind'
-      ],
-      'PL Brands - Household': [
-        'Alio', 'Centra', 'PL Minor', 'SuperValu', 'Powerforce'
-      ]
-    };
-
-    const brandRows = [];
-
-    // Process each category and its brands
-    for (const [category, brands] of Object.entries(householdBrands)) {
-      const categoryBrands = [];
-      
-      for (const brand of brands) {
-        const brandRow = this.calculateHouseholdBrandRowData(
-          filteredData,
-          brand,
-          {
-            year: currentYear,
-            month: filters.month,
-            businessArea: 'Household & Beauty',
-            channel: filters.channel,
-            customer: filters.customer,
-            brand: brand
-          } as DataFilters
-        );
-
-        // Only include brands with some data
-        if (brandRow.cases.ytd > 0 || brandRow.gSales.ytd > 0 || brandRow.fGP.ytd > 0) {
-          categoryBrands.push(brandRow);
-        }
-      }
-
-      // Calculate category totals
-      if (categoryBrands.length > 0) {
-        const categoryTotal = this.calculateHouseholdBrandTotals(categoryBrands);
-        brandRows.push(...categoryBrands);
-        brandRows.push({
-          ...categoryTotal,
-          name: `${category} Total`,
-          isTotal: true
-        });
-      }
-    }
-
-    // Calculate overall total
-    const allBrands = brandRows.filter(row => !row.isTotal);
-    if (allBrands.length > 0) {
-      const overallTotal = this.calculateHouseholdBrandTotals(allBrands);
-      brandRows.push({
-        ...overallTotal,
-        name: 'Overall Total',
-        isTotal: true
-      });
-    }
-
-    console.log(`🔍 Household Brands completed. Generated ${brandRows.length} rows`);
-    return brandRows;
-  }
-
-  /**
-   * Calculate household brand row data
+   * Process Household Brands details data: brand, sub-category (Sub-Cat) and product (Attribute
+   * Name) rows built from the sales rows, with sub-category and brand totals. Brands, sub-categories
+   * and products are ordered by gSales this year; products with no sales in either year are left out.
    */
-  private calculateHouseholdBrandRowData(
-    data: any[],
-    brand: string,
-    filters: DataFilters
-  ): any {
-    const currentYear = filters.year || new Date().getFullYear();
-    const lastYear = currentYear - 1;
-    const isYTD = !filters.month || filters.month === 'All';
-
-    console.log(`🔍 calculateHouseholdBrandRowData: ${brand}`);
+  private processHouseholdBrandsDetailsData(filteredData: any[], currentYear: number, filters: any): any[] {
+    console.log(`🔍 Processing Household Brands Details with ${filteredData.length} filtered rows`);
 
-    // Filter data for this specific brand
-    const brandData = data.filter((row: any) => 
-      row.Brand === brand
+    const inCurrentYear = this.matchesReportYear(currentYear, filters.window);
+    const inLastYear = this.matchesReportYear(currentYear - 1, filters.window);
+    const inScope = filteredData.filter((row: any) =>
+      (inCurrentYear(row) || inLastYear(row)) && matchesFilter(row['Month Name'], filters.month, filters.not?.month)
     );
+    // Where the rows came from: the plan scenario they were read from, else the actuals source
+    const source: string = filters.scenario || getSalesDataSource().kind;
 
-    console.log(`🔍 Brand data rows: ${brandData.length}`);
-
-    // Calculate current year data
-    const currentYearData = this.calculatePeriodData(brandData, currentYear, filters.month, isYTD);
-    
-    // Calculate last year data
-    const lastYearData = this.calculatePeriodData(brandData, lastYear, filters.month, isYTD);
-    
-    // Calculate variances
-    const casesVariance = currentYearData.cases - lastYearData.cases;
-    const gSalesVariance = currentYearData.gSales - lastYearData.gSales;
-    const fGPVariance = currentYearData.fGP - lastYearData.fGP;
-
-    // Calculate variance percentages (using absolute value of previous year for consistent calculation)
-    const casesVariancePercent = lastYearData.cases !== 0 ? (casesVariance / Math.abs(lastYearData.cases)) * 100 : 0;
-    const gSalesVariancePercent = lastYearData.gSales !== 0 ? (gSalesVariance / Math.abs(lastYearData.gSales)) * 100 : 0;
-    const fGPVariancePercent = lastYearData.fGP !== 0 ? (fGPVariance / Math.abs(lastYearData.fGP)) * 100 : 0;
-
-    // Calculate fGP percentages
-    const currentFGPPercent = currentYearData.gSales !== 0 ? (currentYearData.fGP / currentYearData.gSales) * 100 : 0;
-    const lastFGPPercent = lastYearData.gSales !== 0 ? (lastYearData.fGP / lastYearData.gSales) * 100 : 0;
-    const fGPPercentVariance = currentFGPPercent - lastFGPPercent;
-
-    // Calculate fGP FY24 (assuming this is the previous year's fGP)
-    const fGPFY24 = lastYearData.fGP;
-    const fGPFY24CyVLy = fGPFY24 !== 0 ? (currentYearData.fGP / fGPFY24) * 100 : 0;
-
-    const result = {
-      name: brand,
-      cases: {
-        ytd: currentYearData.cases,
-        lyVar: casesVariance,
-        lyVarPercent: casesVariancePercent
-      },
-      gSales: {
-        ytd: currentYearData.gSales,
-        lyVar: gSalesVariance,
-        lyVarPercent: gSalesVariancePercent
-      },
-      fGP: {
-        ytd: currentYearData.fGP,
-        lyVar: fGPVariance,
-        lyVarPercent: fGPVariancePercent
-      },
-      fGPPercent: {
-        ytd: currentFGPPercent,
-        lyVar: fGPPercentVariance
-      },
-      fGPFY24: {
-        ytd: fGPFY24,
-        cyVLy: fGPFY24CyVLy
-      }
+    const totalsOf = (rows: any[]): ReportMemberTotals => {
+      const sum = (year: (row: any) => boolean): ReportMeasureTotals => {
+        const yearRows = rows.filter(year);
+        return {
+          Cases: _.sumBy(yearRows, row => toNumber(row.Cases)),
+          gSales: _.sumBy(yearRows, row => toNumber(row.gSales)),
+          fGP: _.sumBy(yearRows, row => toNumber(row.fGP))
+        };
+      };
+      return { current: sum(inCurrentYear), previous: sum(inLastYear) };
     };
-
-    console.log(`🔍 Household Brand result for ${brand}:`, {
-      currentYear: { cases: currentYearData.cases, gSales: currentYearData.gSales, fGP: currentYearData.fGP },
-      lastYear: { cases: lastYearData.cases, gSales: lastYearData.gSales, fGP: lastYearData.fGP },
-      variances: { cases: casesVariance, gSales: gSalesVariance, fGP: fGPVariance },
-      variancePercents: { cases: casesVariancePercent, gSales: gSalesVariancePercent, fGP: fGPVariancePercent }
-    });
-    
-    return result;
-  }
-
-  /**
-   * Calculate totals for household brands
-   */
-  private calculateHouseholdBrandTotals(brands: any[]): any {
-    const totals = brands.reduce((acc, brand) => ({
-      cases: {
-        ytd: acc.cases.ytd + brand.cases.ytd,
-        lyVar: acc.cases.lyVar + brand.cases.lyVar,
-        lyVarPercent: 0 // Will be calculated below
-      },
-      gSales: {
-        ytd: acc.gSales.ytd + brand.gSales.ytd,
-        lyVar: acc.gSales.lyVar + brand.gSales.lyVar,
-        lyVarPercent: 0 // Will be calculated below
-      },
-      fGP: {
-        ytd: acc.fGP.ytd + brand.fGP.ytd,
-        lyVar: acc.fGP.lyVar + brand.fGP.lyVar,
-        lyVarPercent: 0 // Will be calculated below
-      },
-      fGPPercent: {
-        ytd: 0, // Will be calculated below
-        lyVar: 0 // Will be calculated below
-      },
-      fGPFY24: {
-        ytd: acc.fGPFY24.ytd + brand.fGPFY24.ytd,
-        cyVLy: 0 // Will be calculated below
-      }
-    }), {
-      cases: { ytd: 0, lyVar: 0, lyVarPercent: 0 },
-      gSales: { ytd: 0, lyVar: 0, lyVarPercent: 0 },
-      fGP: { ytd: 0, lyVar: 0, lyVarPercent: 0 },
-      fGPPercent: { ytd: 0, lyVar: 0 },
-      fGPFY24: { ytd: 0, cyVLy: 0 }
-    });
-
-    // Calculate percentages for totals
-    totals.cases.lyVarPercent = totals.cases.lyVar !== 0 && (totals.cases.ytd - totals.cases.lyVar) !== 0 
-      ? (totals.cases.lyVar / Math.abs(totals.cases.ytd - totals.cases.lyVar)) * 100 : 0;
-    
-    totals.gSales.lyVarPercent = totals.gSales.lyVar !== 0 && (totals.gSales.ytd - totals.gSales.lyVar) !== 0 
-      ? (totals.gSales.lyVar / Math.abs(totals.gSales.ytd - totals.gSales.lyVar)) * 100 : 0;
-    
-    totals.fGP.lyVarPercent = totals.fGP.lyVar !== 0 && (totals.fGP.ytd - totals.fGP.lyVar) !== 0 
-      ? (totals.fGP.lyVar / Math.abs(totals.fGP.ytd - totals.fGP.lyVar)) * 100 : 0;
-    
-    totals.fGPPercent.ytd = totals.gSales.ytd !== 0 ? (totals.fGP.ytd / totals.gSales.ytd) * 100 : 0;
-    
-    // Calculate fGP FY24 CY v LY %
-    totals.fGPFY24.cyVLy = totals.fGPFY24.ytd !== 0 ? (totals.fGP.ytd / totals.fGPFY24.ytd) * 100 : 0;
-
-    return totals;
-  }
-
-  /**
-   * Process Household Brands details data with sub-category breakdown
-   * Based on Excel screenshot structure: Killeen, Green Aware, Other bags with sub-categories
-   */
-  private processHouseholdBrandsDetailsData(filteredData: any[], currentYear: number, filters: any): any[] {
-    console.log(`🔍 Processing Household Brands Details with ${filteredData.length} filtered rows`);
-    
-    // Get all data for calculations (not just filtered)
-    // For now, use filteredData as we don't have direct access to all data
-    const allData = filteredData;
-    console.log(`🔍 Using ${allData.length} total rows for calculations`);
-    
-    // Debug: Check what brands and sub-categories are actually in the data
-    const availableBrands = [...new Set(filteredData.map((row: any) => row.Brand))].filter(Boolean);
-    const availableSubCategories = [...new Set(filteredData.map((row: any) => row['Sub-Cat']))].filter(Boolean);
-    console.log(`🔍 Available brands in filtered data:`, availableBrands.slice(0, 10));
-    console.log(`🔍 Available sub-categories in filtered data:`, availableSubCategories.slice(0, 10));
-    
-    // Define the exact structure from the screenshots
-    const householdBrandsStructure = {
-      'Killeen': {
-        'Plastic sacks': [],
-        'Cloths': {
-          'Scourers': [],
-          'Cloths': [],
-          'Wipes': []
-        },
-        'Gloves': {
-          'Gloves total': []
-        },
-        'Other HH': [],
-        'Compost sacks': []
-      },
-      'Green Aware (including co-branded)': {
-        'Bins liners': {
-          '8L': [],
-          '12L': [],
-          '25L': [],
-          '60L': [],
-          '140L': [],
-          '240L': [],
-          'Mixed PFU': []
+    const bySales = (groups: Record<string, any[]>) =>
+      _.orderBy(Object.entries(groups).map(([name, rows]) => ({ name, rows, totals: totalsOf(rows) })), group => group.totals.current.gSales, 'desc');
+
+    const detailsRows: any[] = [];
+    for (const brand of bySales(_.groupBy(inScope.filter((row: any) => row.Brand), 'Brand'))) {
+      const brandRowCount = detailsRows.length;
+
+      for (const subCategory of bySales(_.groupBy(brand.rows, row => row['Sub-Cat'] || 'Other'))) {
+        // Rows without an Attribute Name count as a product named after their sub-category
+        const products = bySales(_.groupBy(subCategory.rows, row => row['Attribute Name'] || subCategory.name))
+          .filter(product => _.some(product.totals.current) || _.some(product.totals.previous));
+        for (const product of products) {
+          detailsRows.push(this.householdDetailsRow(product.name, brand.name, subCategory.name, product.totals, source));
         }
-      },
-      'Other bags': {
-        'Handy': [],
-        'Doggie Bag': [],
-        'Garden': []
-      },
-      'Shopping': {
-        'BWG': [],
-        'Alio': [],
-        'GreenAware': [],
-        'Centra': [],
-        'SuperValu': []
-      },
-      'Other': {
-        'Gloves': [],
-        'Dish Brush': [],
-        'Dish Cloth': [],
-        'Nappy bags': [],
-        'Sponge': [],
-        'Bottle Brush': [],
-        'Fruit and Veg Bag': [],
-        'Natural Loofah': [],
-        'Ice-stick bags': [],
-        '5 Litre Caddy': []
-      }
-    };
-
-    const detailsRows = [];
-
-    // Process each brand and its sub-categories according to screenshot structure
-    for (const [brandName, subCategories] of Object.entries(householdBrandsStructure)) {
-      console.log(`🔍 Processing brand: ${brandName}`);
-      
-      // Process each sub-category and product
-      for (const [subCategoryName, products] of Object.entries(subCategories)) {
-        if (typeof products === 'object' && products !== null) {
-          // This is a sub-category with nested products
-          const subCategoryRows: any[] = [];
-          
-          for (const [productName, _] of Object.entries(products)) {
-            const rowData = this.calculateHouseholdBrandDetailsRowDataWithFormulas(
-              allData, brandName, subCategoryName, productName, currentYear, filters
-            );
-            if (rowData) {
-              detailsRows.push(rowData);
-              subCategoryRows.push(rowData);
-            }
-          }
-          
-          // Add sub-category total if we have products
-          if (subCategoryRows.length > 0) {
-            const subCategoryTotal = this.calculateHouseholdBrandDetailsTotals(subCategoryRows);
-            subCategoryTotal.name = `${subCategoryName} total`;
-            subCategoryTotal.brand = brandName;
-            subCategoryTotal.subCategory = subCategoryName;
-            subCategoryTotal.isTotal = true;
-            detailsRows.push(subCategoryTotal);
-          }
-        } else {
-          // This is a direct product
-          const rowData = this.calculateHouseholdBrandDetailsRowDataWithFormulas(
-            allData, brandName, subCategoryName, subCategoryName, currentYear, filters
-          );
-          if (rowData) {
-            detailsRows.push(rowData);
-          }
+        if (products.length > 1) {
+          detailsRows.push(this.householdDetailsRow(`${subCategory.name} total`, brand.name, subCategory.name, subCategory.totals, source, true));
         }
       }
-      
-      // Add brand total
-      const brandRows = detailsRows.filter(row => row.brand === brandName && !row.isTotal);
-      if (brandRows.length > 0) {
-        const brandTotal = this.calculateHouseholdBrandDetailsTotals(brandRows);
-        brandTotal.name = `${brandName} total`;
-        brandTotal.brand = brandName;
-        brandTotal.subCategory = 'Total';
-        brandTotal.isTotal = true;
-        detailsRows.push(brandTotal);
+
+      if (detailsRows.length > brandRowCount) {
+        detailsRows.push(this.householdDetailsRow(`${brand.name} total`, brand.name, 'Total', brand.totals, source, true));
       }
     }
 
@@ -4868,648 +3449,38 @@ export class AnalyticsService {
   }
 
   /**
-   * Calculate totals for household brand details rows
+   * Household brand details row: cases, gSales and fGP ('000s) this year and last, with variances
    */
-  private calculateHouseholdBrandDetailsTotals(rows: any[]): any {
-    const total = rows.reduce((acc, row) => ({
-      cases: {
-        ytd: acc.cases.ytd + row.cases.ytd,
-        ly: acc.cases.ly + row.cases.ly,
-        lyVar: acc.cases.lyVar + row.cases.lyVar,
-        lyVarPercent: 0 // Will be calculated below
-      },
-      gSales: {
-        ytd: acc.gSales.ytd + row.gSales.ytd,
-        ly: acc.gSales.ly + row.gSales.ly,
-        lyVar: acc.gSales.lyVar + row.gSales.lyVar,
-        lyVarPercent: 0 // Will be calculated below
-      },
-      fGP: {
-        ytd: acc.fGP.ytd + row.fGP.ytd,
-        ly: acc.fGP.ly + row.fGP.ly,
-        lyVar: acc.fGP.lyVar + row.fGP.lyVar,
-        lyVarPercent: 0 // Will be calculated below
-      },
-      fGPPercent: {
-        ytd: 0, // Will be calculated below
-        ly: 0, // Will be calculated below
-        lyVar: 0 // Will be calculated below
-      }
-    }), {
-      cases: { ytd: 0, ly: 0, lyVar: 0, lyVarPercent: 0 },
-      gSales: { ytd: 0, ly: 0, lyVar: 0, lyVarPercent: 0 },
-      fGP: { ytd: 0, ly: 0, lyVar: 0, lyVarPercent: 0 },
-      fGPPercent: { ytd: 0, ly: 0, lyVar: 0 }
-    });
-
-    // Calculate percentages
-    total.cases.lyVarPercent = total.cases.ly !== 0 ? (total.cases.lyVar / total.cases.ly) * 100 : 0;
-    total.gSales.lyVarPercent = total.gSales.ly !== 0 ? (total.gSales.lyVar / total.gSales.ly) * 100 : 0;
-    total.fGP.lyVarPercent = total.fGP.ly !== 0 ? (total.fGP.lyVar / total.fGP.ly) * 100 : 0;
-    total.fGPPercent.ytd = total.gSales.ytd !== 0 ? (total.fGP.ytd / total.gSales.ytd) * 100 : 0;
-    total.fGPPercent.ly = total.gSales.ly !== 0 ? (total.fGP.ly / total.gSales.ly) * 100 : 0;
-    total.fGPPercent.lyVar = total.fGPPercent.ytd - total.fGPPercent.ly;
-
-    return total;
-  }
-
-  /**
-   * Get mock data for Household Brands Details (for testing when no real data is available)
-   */
-  private getHouseholdBrandsDetailsMockData(): any[] {
-    return [
-      // Killeen brand data - exact values from screenshot 1
-      {
-        name: 'Plastic sacks',
-        brand: 'Killeen',
-        subCategory: 'Plastic sacks',
-        cases: { ytd: 116751, ly: 118700, lyVar: -1949, lyVarPercent: -1.6 },
-        gSales: { ytd: 3116, ly: 3200, lyVar: -83, lyVarPercent: -2.6 },
-        fGP: { ytd: 1115, ly: 1196, lyVar: -81, lyVarPercent: -6.8 },
-        fGPPercent: { ytd: 35.8, ly: 37.4, lyVar: -1.6 }
-      },
-      {
-        name: 'Scourers',
-        brand: 'Killeen',
-        subCategory: 'Cloths',
-        cases: { ytd: 126654, ly: 119000, lyVar: 7654, lyVarPercent: 6.5 },
-        gSales: { ytd: 1664, ly: 1602, lyVar: 62, lyVarPercent: 3.9 },
-        fGP: { ytd: 580, ly: 555, lyVar: 25, lyVarPercent: 4.5 },
-        fGPPercent: { ytd: 34.9, ly: 34.7, lyVar: 0.2 }
-      },
-      {
-        name: 'Cloths',
-        brand: 'Killeen',
-        subCategory: 'Cloths',
-        cases: { ytd: 126654, ly: 119000, lyVar: 7654, lyVarPercent: 6.5 },
-        gSales: { ytd: 1664, ly: 1602, lyVar: 62, lyVarPercent: 3.9 },
-        fGP: { ytd: 580, ly: 555, lyVar: 25, lyVarPercent: 4.5 },
-        fGPPercent: { ytd: 34.9, ly: 34.7, lyVar: 0.2 }
-      },
-      {
-        name: 'Wipes',
-        brand: 'Killeen',
-        subCategory: 'Cloths',
-        cases: { ytd: 0, ly: 656, lyVar: -656, lyVarPercent: -100.0 },
-        gSales: { ytd: 0, ly: 203, lyVar: -203, lyVarPercent: -100.0 },
-        fGP: { ytd: 0, ly: 76, lyVar: -76, lyVarPercent: -100.0 },
-        fGPPercent: { ytd: 0, ly: 37.4, lyVar: -37.4 }
-      },
-      {
-        name: 'Cloths total',
-        brand: 'Killeen',
-        subCategory: 'Cloths',
-        cases: { ytd: 253308, ly: 238656, lyVar: 14652, lyVarPercent: 6.1 },
-        gSales: { ytd: 3328, ly: 3407, lyVar: -79, lyVarPercent: -2.3 },
-        fGP: { ytd: 1160, ly: 1186, lyVar: -26, lyVarPercent: -2.2 },
-        fGPPercent: { ytd: 34.9, ly: 34.8, lyVar: 0.1 },
-        isTotal: true
-      },
-      {
-        name: 'Gloves total',
-        brand: 'Killeen',
-        subCategory: 'Gloves',
-        cases: { ytd: 35000, ly: 0, lyVar: 35000, lyVarPercent: 0 },
-        gSales: { ytd: 1000, ly: 0, lyVar: 1000, lyVarPercent: 0 },
-        fGP: { ytd: 400, ly: 0, lyVar: 400, lyVarPercent: 0 },
-        fGPPercent: { ytd: 40.0, ly: 0, lyVar: 0 },
-        isTotal: true
-      },
-      {
-        name: 'Other HH',
-        brand: 'Killeen',
-        subCategory: 'Other HH',
-        cases: { ytd: 80000, ly: 2000, lyVar: 2000, lyVarPercent: 2.6 },
-        gSales: { ytd: 2000, ly: 50, lyVar: 50, lyVarPercent: 2.6 },
-        fGP: { ytd: 800, ly: 20, lyVar: 20, lyVarPercent: 2.6 },
-        fGPPercent: { ytd: 40.0, ly: 0, lyVar: 0 }
-      },
-      {
-        name: 'Compost sacks',
-        brand: 'Killeen',
-        subCategory: 'Compost sacks',
-        cases: { ytd: 0, ly: 0, lyVar: 0, lyVarPercent: 0 },
-        gSales: { ytd: 0, ly: 0, lyVar: 0, lyVarPercent: 0 },
-        fGP: { ytd: 0, ly: 0, lyVar: 0, lyVarPercent: 0 },
-        fGPPercent: { ytd: 0, ly: 0, lyVar: 0 }
-      },
-      {
-        name: 'Killeen total',
-        brand: 'Killeen',
-        subCategory: 'Total',
-        cases: { ytd: 484059, ly: 361356, lyVar: 122703, lyVarPercent: 34.0 },
-        gSales: { ytd: 10044, ly: 8657, lyVar: 1387, lyVarPercent: 16.0 },
-        fGP: { ytd: 3475, ly: 3202, lyVar: 273, lyVarPercent: 8.5 },
-        fGPPercent: { ytd: 34.6, ly: 37.0, lyVar: -2.4 },
-        isTotal: true
-      },
-      
-      // Green Aware brand data - exact values from screenshot 1
-      {
-        name: '8L',
-        brand: 'Green Aware (including co-branded)',
-        subCategory: 'Bins liners',
-        cases: { ytd: 25000, ly: 0, lyVar: 25000, lyVarPercent: 0 },
-        gSales: { ytd: 800, ly: 0, lyVar: 800, lyVarPercent: 0 },
-        fGP: { ytd: 320, ly: 0, lyVar: 320, lyVarPercent: 0 },
-        fGPPercent: { ytd: 40.0, ly: 0, lyVar: 0 }
-      },
-      {
-        name: '12L',
-        brand: 'Green Aware (including co-branded)',
-        subCategory: 'Bins liners',
-        cases: { ytd: 30000, ly: 0, lyVar: 30000, lyVarPercent: 0 },
-        gSales: { ytd: 900, ly: 0, lyVar: 900, lyVarPercent: 0 },
-        fGP: { ytd: 360, ly: 0, lyVar: 360, lyVarPercent: 0 },
-        fGPPercent: { ytd: 40.0, ly: 0, lyVar: 0 }
-      },
-      {
-        name: '25L',
-        brand: 'Green Aware (including co-branded)',
-        subCategory: 'Bins liners',
-        cases: { ytd: 20000, ly: 0, lyVar: 20000, lyVarPercent: 0 },
-        gSales: { ytd: 600, ly: 0, lyVar: 600, lyVarPercent: 0 },
-        fGP: { ytd: 240, ly: 0, lyVar: 240, lyVarPercent: 0 },
-        fGPPercent: { ytd: 40.0, ly: 0, lyVar: 0 }
-      },
-      {
-        name: '60L',
-        brand: 'Green Aware (including co-branded)',
-        subCategory: 'Bins liners',
-        cases: { ytd: 15000, ly: 0, lyVar: 15000, lyVarPercent: 0 },
-        gSales: { ytd: 450, ly: 0, lyVar: 450, lyVarPercent: 0 },
-        fGP: { ytd: 180, ly: 0, lyVar: 180, lyVarPercent: 0 },
-        fGPPercent: { ytd: 40.0, ly: 0, lyVar: 0 }
-      },
-      {
-        name: '140L',
-        brand: 'Green Aware (including co-branded)',
-        subCategory: 'Bins liners',
-        cases: { ytd: 10000, ly: 0, lyVar: 10000, lyVarPercent: 0 },
-        gSales: { ytd: 300, ly: 0, lyVar: 300, lyVarPercent: 0 },
-        fGP: { ytd: 120, ly: 0, lyVar: 120, lyVarPercent: 0 },
-        fGPPercent: { ytd: 40.0, ly: 0, lyVar: 0 }
-      },
-      {
-        name: '240L',
-        brand: 'Green Aware (including co-branded)',
-        subCategory: 'Bins liners',
-        cases: { ytd: 5000, ly: 0, lyVar: 5000, lyVarPercent: 0 },
-        gSales: { ytd: 150, ly: 0, lyVar: 150, lyVarPercent: 0 },
-        fGP: { ytd: 60, ly: 0, lyVar: 60, lyVarPercent: 0 },
-        fGPPercent: { ytd: 40.0, ly: 0, lyVar: 0 }
-      },
-      {
-        name: 'Mixed PFU',
-        brand: 'Green Aware (including co-branded)',
-        subCategory: 'Bins liners',
-        cases: { ytd: 8000, ly: 0, lyVar: 8000, lyVarPercent: 0 },
-        gSales: { ytd: 240, ly: 0, lyVar: 240, lyVarPercent: 0 },
-        fGP: { ytd: 96, ly: 0, lyVar: 96, lyVarPercent: 0 },
-        fGPPercent: { ytd: 40.0, ly: 0, lyVar: 0 }
-      },
-      {
-        name: 'Bins liners total',
-        brand: 'Green Aware (including co-branded)',
-        subCategory: 'Bins liners',
-        cases: { ytd: 113000, ly: 0, lyVar: 113000, lyVarPercent: 0 },
-        gSales: { ytd: 3440, ly: 0, lyVar: 3440, lyVarPercent: 0 },
-        fGP: { ytd: 1376, ly: 0, lyVar: 1376, lyVarPercent: 0 },
-        fGPPercent: { ytd: 40.0, ly: 0, lyVar: 0 },
-        isTotal: true
-      },
-      {
-        name: 'Green Aware (including co-branded) total',
-        brand: 'Green Aware (including co-branded)',
-        subCategory: 'Total',
-        cases: { ytd: 113000, ly: 0, lyVar: 113000, lyVarPercent: 0 },
-        gSales: { ytd: 3440, ly: 0, lyVar: 3440, lyVarPercent: 0 },
-        fGP: { ytd: 1376, ly: 0, lyVar: 1376, lyVarPercent: 0 },
-        fGPPercent: { ytd: 40.0, ly: 0, lyVar: 0 },
-        isTotal: true
-      },
-      
-      // Other bags brand data - exact values from screenshot 1
-      {
-        name: 'Handy',
-        brand: 'Other bags',
-        subCategory: 'Handy',
-        cases: { ytd: 40000, ly: 0, lyVar: 40000, lyVarPercent: 0 },
-        gSales: { ytd: 1200, ly: 0, lyVar: 1200, lyVarPercent: 0 },
-        fGP: { ytd: 480, ly: 0, lyVar: 480, lyVarPercent: 0 },
-        fGPPercent: { ytd: 40.0, ly: 0, lyVar: 0 }
-      },
-      {
-        name: 'Doggie Bag',
-        brand: 'Other bags',
-        subCategory: 'Doggie Bag',
-        cases: { ytd: 15000, ly: 0, lyVar: 15000, lyVarPercent: 0 },
-        gSales: { ytd: 500, ly: 0, lyVar: 500, lyVarPercent: 0 },
-        fGP: { ytd: 200, ly: 0, lyVar: 200, lyVarPercent: 0 },
-        fGPPercent: { ytd: 40.0, ly: 0, lyVar: 0 }
-      },
-      {
-        name: 'Garden',
-        brand: 'Other bags',
-        subCategory: 'Garden',
-        cases: { ytd: 25000, ly: 0, lyVar: 25000, lyVarPercent: 0 },
-        gSales: { ytd: 800, ly: 0, lyVar: 800, lyVarPercent: 0 },
-        fGP: { ytd: 320, ly: 0, lyVar: 320, lyVarPercent: 0 },
-        fGPPercent: { ytd: 40.0, ly: 0, lyVar: 0 }
-      },
-      {
-        name: 'Other bags total',
-        brand: 'Other bags',
-        subCategory: 'Total',
-        cases: { ytd: 80000, ly: 0, lyVar: 80000, lyVarPercent: 0 },
-        gSales: { ytd: 2500, ly: 0, lyVar: 2500, lyVarPercent: 0 },
-        fGP: { ytd: 1000, ly: 0, lyVar: 1000, lyVarPercent: 0 },
-        fGPPercent: { ytd: 40.0, ly: 0, lyVar: 0 },
-        isTotal: true
-      },
-      
-      // Shopping brand data - exact values from screenshot 2
-      {
-        name: 'BWG',
-        brand: 'Shopping',
-        subCategory: 'BWG',
-        cases: { ytd: 50000, ly: 25000, lyVar: 25000, lyVarPercent: 100.0 },
-        gSales: { ytd: 1500, ly: 750, lyVar: 750, lyVarPercent: 100.0 },
-        fGP: { ytd: 600, ly: 300, lyVar: 300, lyVarPercent: 100.0 },
-        fGPPercent: { ytd: 40.0, ly: 40.0, lyVar: 0 }
-      },
-      {
-        name: 'Alio',
-        brand: 'Shopping',
-        subCategory: 'Alio',
-        cases: { ytd: 30000, ly: 35000, lyVar: -5000, lyVarPercent: -14.3 },
-        gSales: { ytd: 900, ly: 1050, lyVar: -150, lyVarPercent: -14.3 },
-        fGP: { ytd: 360, ly: 420, lyVar: -60, lyVarPercent: -14.3 },
-        fGPPercent: { ytd: 40.0, ly: 40.0, lyVar: 0 }
-      },
-      {
-        name: 'GreenAware',
-        brand: 'Shopping',
-        subCategory: 'GreenAware',
-        cases: { ytd: 20000, ly: 0, lyVar: 20000, lyVarPercent: 0 },
-        gSales: { ytd: 600, ly: 0, lyVar: 600, lyVarPercent: 0 },
-        fGP: { ytd: 240, ly: 0, lyVar: 240, lyVarPercent: 0 },
-        fGPPercent: { ytd: 40.0, ly: 0, lyVar: 0 }
-      },
-      {
-        name: 'Centra',
-        brand: 'Shopping',
-        subCategory: 'Centra',
-        cases: { ytd: 25000, ly: 0, lyVar: 25000, lyVarPercent: 0 },
-        gSales: { ytd: 750, ly: 0, lyVar: 750, lyVarPercent: 0 },
-        fGP: { ytd: 300, ly: 0, lyVar: 300, lyVarPercent: 0 },
-        fGPPercent: { ytd: 40.0, ly: 0, lyVar: 0 }
-      },
-      {
-        name: 'SuperValu',
-        brand: 'Shopping',
-        subCategory: 'SuperValu',
-        cases: { ytd: 15000, ly: 0, lyVar: 15000, lyVarPercent: 0 },
-        gSales: { ytd: 450, ly: 0, lyVar: 450, lyVarPercent: 0 },
-        fGP: { ytd: 180, ly: 0, lyVar: 180, lyVarPercent: 0 },
-        fGPPercent: { ytd: 40.0, ly: 0, lyVar: 0 }
-      },
-      {
-        name: 'Shopping total',
-        brand: 'Shopping',
-        subCategory: 'Total',
-        cases: { ytd: 140000, ly: 60000, lyVar: 80000, lyVarPercent: 133.3 },
-        gSales: { ytd: 4200, ly: 1800, lyVar: 2400, lyVarPercent: 133.3 },
-        fGP: { ytd: 1680, ly: 720, lyVar: 960, lyVarPercent: 133.3 },
-        fGPPercent: { ytd: 40.0, ly: 40.0, lyVar: 0 },
-        isTotal: true
-      },
-      
-      // Other brand data - exact values from screenshot 3
-      {
-        name: 'Gloves',
-        brand: 'Other',
-        subCategory: 'Gloves',
-        cases: { ytd: 10000, ly: 0, lyVar: 10000, lyVarPercent: 0 },
-        gSales: { ytd: 300, ly: 0, lyVar: 300, lyVarPercent: 0 },
-        fGP: { ytd: 120, ly: 0, lyVar: 120, lyVarPercent: 0 },
-        fGPPercent: { ytd: 40.0, ly: 0, lyVar: 0 }
-      },
-      {
-        name: 'Dish Brush',
-        brand: 'Other',
-        subCategory: 'Dish Brush',
-        cases: { ytd: 5000, ly: 0, lyVar: 5000, lyVarPercent: 0 },
-        gSales: { ytd: 150, ly: 0, lyVar: 150, lyVarPercent: 0 },
-        fGP: { ytd: 60, ly: 0, lyVar: 60, lyVarPercent: 0 },
-        fGPPercent: { ytd: 40.0, ly: 0, lyVar: 0 }
-      },
-      {
-        name: 'Dish Cloth',
-        brand: 'Other',
-        subCategory: 'Dish Cloth',
-        cases: { ytd: 0, ly: 0, lyVar: 0, lyVarPercent: 0 },
-        gSales: { ytd: 0, ly: 0, lyVar: 0, lyVarPercent: 0 },
-        fGP: { ytd: 0, ly: 0, lyVar: 0, lyVarPercent: 0 },
-        fGPPercent: { ytd: 0, ly: 0, lyVar: 0 }
-      },
-      {
-        name: 'Nappy bags',
-        brand: 'Other',
-        subCategory: 'Nappy bags',
-        cases: { ytd: 8000, ly: 0, lyVar: 8000, lyVarPercent: 0 },
-        gSales: { ytd: 240, ly: 0, lyVar: 240, lyVarPercent: 0 },
-        fGP: { ytd: 96, ly: 0, lyVar: 96, lyVarPercent: 0 },
-        fGPPercent: { ytd: 40.0, ly: 0, lyVar: 0 }
-      },
-      {
-        name: 'Sponge',
-        brand: 'Other',
-        subCategory: 'Sponge',
-        cases: { ytd: 12000, ly: 0, lyVar: 12000, lyVarPercent: 0 },
-        gSales: { ytd: 360, ly: 0, lyVar: 360, lyVarPercent: 0 },
-        fGP: { ytd: 144, ly: 0, lyVar: 144, lyVarPercent: 0 },
-        fGPPercent: { ytd: 40.0, ly: 0, lyVar: 0 }
-      },
-      {
-        name: 'Bottle Brush',
-        brand: 'Other',
-        subCategory: 'Bottle Brush',
-        cases: { ytd: 3000, ly: 0, lyVar: 3000, lyVarPercent: 0 },
-        gSales: { ytd: 90, ly: 0, lyVar: 90, lyVarPercent: 0 },
-        fGP: { ytd: 36, ly: 0, lyVar: 36, lyVarPercent: 0 },
-        fGPPercent: { ytd: 40.0, ly: 0, lyVar: 0 }
-      },
-      {
-        name: 'Fruit and Veg Bag',
-        brand: 'Other',
-        subCategory: 'Fruit and Veg Bag',
-        cases: { ytd: 6000, ly: 0, lyVar: 6000, lyVarPercent: 0 },
-        gSales: { ytd: 180, ly: 0, lyVar: 180, lyVarPercent: 0 },
-        fGP: { ytd: 72, ly: 0, lyVar: 72, lyVarPercent: 0 },
-        fGPPercent: { ytd: 40.0, ly: 0, lyVar: 0 }
-      },
-      {
-        name: 'Natural Loofah',
-        brand: 'Other',
-        subCategory: 'Natural Loofah',
-        cases: { ytd: 2000, ly: 0, lyVar: 2000, lyVarPercent: 0 },
-        gSales: { ytd: 60, ly: 0, lyVar: 60, lyVarPercent: 0 },
-        fGP: { ytd: 24, ly: 0, lyVar: 24, lyVarPercent: 0 },
-        fGPPercent: { ytd: 40.0, ly: 0, lyVar: 0 }
-      },
-      {
-        name: 'Ice-stick bags',
-        brand: 'Other',
-        subCategory: 'Ice-stick bags',
-        cases: { ytd: 0, ly: 0, lyVar: 0, lyVarPercent: 0 },
-        gSales: { ytd: 0, ly: 0, lyVar: 0, lyVarPercent: 0 },
-        fGP: { ytd: 0, ly: 0, lyVar: 0, lyVarPercent: 0 },
-        fGPPercent: { ytd: 0, ly: 0, lyVar: 0 }
-      },
-      {
-        name: '5 Litre Caddy',
-        brand: 'Other',
-        subCategory: '5 Litre Caddy',
-        cases: { ytd: 0, ly: 0, lyVar: 0, lyVarPercent: 0 },
-        gSales: { ytd: 0, ly: 0, lyVar: 0, lyVarPercent: 0 },
-        fGP: { ytd: 0, ly: 0, lyVar: 0, lyVarPercent: 0 },
-        fGPPercent: { ytd: 0, ly: 0, lyVar: 0 }
-      },
-      {
-        name: 'Other total',
-        brand: 'Other',
-        subCategory: 'Total',
-        cases: { ytd: 46000, ly: 0, lyVar: 46000, lyVarPercent: 0 },
-        gSales: { ytd: 1380, ly: 0, lyVar: 1380, lyVarPercent: 0 },
-        fGP: { ytd: 552, ly: 0, lyVar: 552, lyVarPercent: 0 },
-        fGPPercent: { ytd: 40.0, ly: 0, lyVar: 0 },
-        isTotal: true
-      }
-    ];
-  }
-
-  /**
-   * Calculate household brand details row data using Excel formulas
-   */
-  private calculateHouseholdBrandDetailsRowDataWithFormulas(
-    allData: any[],
-    brand: string,
-    subCategory: string,
-    product: string,
-    currentYear: number,
-    filters: any
-  ): any {
-    const lastYear = currentYear - 1;
-    const isYTD = !filters.month || filters.month === 'All';
-    
-    // Filter data for this specific brand, sub-category, and product
-    const currentYearFiltered = allData.filter((row: any) => {
-      const yearMatch = parseInt(row.Year) === currentYear;
-      const monthMatch = !filters.month || filters.month === 'All' || row['Month Name'] === filters.month;
-      const brandMatch = this.matchesBrandSubCategoryProduct(row, brand, subCategory, product);
-      return yearMatch && monthMatch && brandMatch;
-    });
-    
-    const lastYearFiltered = allData.filter((row: any) => {
-      const yearMatch = parseInt(row.Year) === lastYear;
-      const monthMatch = !filters.month || filters.month === 'All' || row['Month Name'] === filters.month;
-      const brandMatch = this.matchesBrandSubCategoryProduct(row, brand, subCategory, product);
-      return yearMatch && monthMatch && brandMatch;
-    });
-    
-    // Calculate metrics using Excel formulas
-    const casesYTD = this.sumColumn(currentYearFiltered, 'Cases');
-    const casesLY = this.sumColumn(lastYearFiltered, 'Cases');
-    const casesVar = casesYTD - casesLY;
-    const casesVarPercent = casesLY !== 0 ? (casesVar / Math.abs(casesLY)) * 100 : 0;
-    
-    const gSalesYTD = this.sumColumn(currentYearFiltered, 'gSales') / 1000; // Convert to '000s
-    const gSalesLY = this.sumColumn(lastYearFiltered, 'gSales') / 1000;
-    const gSalesVar = gSalesYTD - gSalesLY;
-    const gSalesVarPercent = gSalesLY !== 0 ? (gSalesVar / Math.abs(gSalesLY)) * 100 : 0;
-    
-    const fGPYTD = this.sumColumn(currentYearFiltered, 'fGP') / 1000; // Convert to '000s
-    const fGPLY = this.sumColumn(lastYearFiltered, 'fGP') / 1000;
-    const fGPVar = fGPYTD - fGPLY;
-    const fGPVarPercent = fGPLY !== 0 ? (fGPVar / Math.abs(fGPLY)) * 100 : 0;
-    
-    const fGPPercentYTD = gSalesYTD !== 0 ? (fGPYTD / gSalesYTD) * 100 : 0;
-    const fGPPercentLY = gSalesLY !== 0 ? (fGPLY / gSalesLY) * 100 : 0;
-    const fGPPercentVar = fGPPercentYTD - fGPPercentLY;
-    
-    return {
-      name: product,
-      brand: brand,
-      subCategory: subCategory,
-      cases: {
-        ytd: Math.round(casesYTD),
-        ly: Math.round(casesLY),
-        lyVar: Math.round(casesVar),
-        lyVarPercent: Math.round(casesVarPercent * 10) / 10
-      },
-      gSales: {
-        ytd: Math.round(gSalesYTD * 100) / 100,
-        ly: Math.round(gSalesLY * 100) / 100,
-        lyVar: Math.round(gSalesVar * 100) / 100,
-        lyVarPercent: Math.round(gSalesVarPercent * 10) / 10
-      },
-      fGP: {
-        ytd: Math.round(fGPYTD * 100) / 100,
-        ly: Math.round(fGPLY * 100) / 100,
-        lyVar: Math.round(fGPVar * 100) / 100,
-        lyVarPercent: Math.round(fGPVarPercent * 10) / 10
-      },
-      fGPPercent: {
-        ytd: Math.round(fGPPercentYTD * 10) / 10,
-        ly: Math.round(fGPPercentLY * 10) / 10,
-        lyVar: Math.round(fGPPercentVar * 10) / 10
-      }
+  private householdDetailsRow(name: string, brand: string, subCategory: string, totals: ReportMemberTotals, source: string, isTotal = false): any {
+    const group = (current: number, previous: number, scale: number, decimals: number) => {
+      const round = (value: number) => Math.round(value * 10 ** decimals) / 10 ** decimals;
+      const lyVar = (current - previous) / scale;
+      return {
+        ytd: round(current / scale),
+        ly: round(previous / scale),
+        lyVar: round(lyVar),
+        lyVarPercent: Math.round(this.reportsIferror(lyVar / Math.abs(previous / scale), 0) * 1000) / 10
+      };
     };
-  }
-
-  /**
-   * Helper method to check if a row matches brand, sub-category, and product
-   */
-  private matchesBrandSubCategoryProduct(row: any, brand: string, subCategory: string, product: string): boolean {
-    // Flexible brand matching
-    let brandMatch = false;
-    if (brand === 'Killeen') {
-      brandMatch = row.Brand === 'Killeen';
-    } else if (brand === 'Green Aware (including co-branded)') {
-      brandMatch = row.Brand === 'Green Aware';
-    } else if (brand === 'Other bags') {
-      brandMatch = row.Brand === 'Handy' || row.Brand === 'Doggie Bag' || row.Brand === 'Garden';
-    } else if (brand === 'Shopping') {
-      brandMatch = row.Brand === 'BWG' || row.Brand === 'Alio' || 
-                   row.Brand === 'GreenAware' || row.Brand === 'Centra' || 
-                   row.Brand === 'SuperValu';
-    } else if (brand === 'Other') {
-      brandMatch = row.Brand === 'Gloves' || row.Brand === 'Dish Brush' ||
-                   row.Brand === 'Dish Cloth' || row.Brand === 'Nappy bags' ||
-                   row.Brand === 'Sponge' || row.Brand === 'Bottle Brush' ||
-                   row.Brand === 'Fruit and Veg Bag' || row.Brand === 'Natural Loofah' ||
-                   row.Brand === 'Ice-stick bags' || row.Brand === '5 Litre Caddy';
-    } else {
-      brandMatch = row.Brand === brand;
-    }
-    
-    // Sub-category matching
-    const subCategoryMatch = row['Sub-Cat'] === subCategory;
-    
-    // Product matching (for nested products, check if the product name matches the row's product)
-    const productMatch = product === subCategory || row['Sub-Cat'] === product;
-    
-    return brandMatch && subCategoryMatch && productMatch;
-  }
-
-  /**
-   * Helper method to sum a column from filtered data
-   */
-  private sumColumn(data: any[], columnName: string): number {
-    return data.reduce((sum, row) => {
-      return sum + parseNumber(row[columnName]);
-    }, 0);
-  }
+    const fGPPercent = (measures: ReportMeasureTotals) => this.reportsIferror(measures.fGP / measures.gSales, 0) * 100;
+    const { current, previous } = totals;
 
-  /**
-   * Calculate household brand details row data
-   */
-  private calculateHouseholdBrandDetailsRowData(
-    data: any[],
-    brand: string,
-    subCategory: string,
-    product: string,
-    filters: DataFilters
-  ): any {
-    const currentYear = filters.year || new Date().getFullYear();
-    const lastYear = currentYear - 1;
-    const isYTD = !filters.month || filters.month === 'All';
-
-    // Filter data for this specific brand, sub-category, and product
-    const productData = data.filter((row: any) => {
-      // More flexible brand matching
-      let brandMatch = false;
-      if (brand === 'Killeen') {
-        brandMatch = row.Brand?.toLowerCase().includes('killeen');
-      } else if (brand === 'Green Aware (including co-branded)') {
-        brandMatch = row.Brand?.toLowerCase().includes('green') || 
-                     row.Brand?.toLowerCase().includes('aware');
-      } else if (brand === 'Other bags') {
-        brandMatch = row.Brand?.toLowerCase().includes('handy') ||
-                     row.Brand?.toLowerCase().includes('doggie') ||
-                     row.Brand?.toLowerCase().includes('garden') ||
-                     row.Brand === 'Handy' ||
-                     row.Brand === 'Doggie Bag' ||
-                     row.Brand === 'Garden';
-      } else {
-        brandMatch = row.Brand === brand;
-      }
-      
-      const subCategoryMatch = row['Sub-Cat'] === subCategory;
-      
-      let productMatch = true;
-      if (subCategory === 'Cloths') {
-        productMatch = row['Attribute Name']?.toLowerCase().includes(product.toLowerCase()) ||
-                      (product === 'Gloves total' && row['Sub-Cat'] === 'Gloves');
-      } else if (subCategory === 'Bins liners') {
-        productMatch = row['Attribute Name']?.toLowerCase().includes(product.toLowerCase());
-      } else if (subCategory === 'Gloves') {
-        productMatch = row['Sub-Cat'] === 'Gloves';
-      }
-
-      return brandMatch && subCategoryMatch && productMatch;
-    });
-
-    // Calculate current year data
-    const currentYearData = this.calculatePeriodData(productData, currentYear, filters.month, isYTD);
-    
-    // Calculate last year data
-    const lastYearData = this.calculatePeriodData(productData, lastYear, filters.month, isYTD);
-    
-    // Calculate variances
-    const casesVariance = currentYearData.cases - lastYearData.cases;
-    const gSalesVariance = currentYearData.gSales - lastYearData.gSales;
-    const fGPVariance = currentYearData.fGP - lastYearData.fGP;
-
-    // Calculate variance percentages
-    const casesVariancePercent = lastYearData.cases !== 0 ? (casesVariance / Math.abs(lastYearData.cases)) * 100 : 0;
-    const gSalesVariancePercent = lastYearData.gSales !== 0 ? (gSalesVariance / Math.abs(lastYearData.gSales)) * 100 : 0;
-    const fGPVariancePercent = lastYearData.fGP !== 0 ? (fGPVariance / Math.abs(lastYearData.fGP)) * 100 : 0;
-
-    // Calculate fGP percentages
-    const currentFGPPercent = currentYearData.gSales > 0 ? (currentYearData.fGP / currentYearData.gSales) * 100 : 0;
-    const lastFGPPercent = lastYearData.gSales > 0 ? (lastYearData.fGP / lastYearData.gSales) * 100 : 0;
-    const fGPPercentVariance = currentFGPPercent - lastFGPPercent;
-
-    return {
-      name: product,
-      brand: brand,
-      subCategory: subCategory,
-      cases: {
-        ytd: Math.round(currentYearData.cases),
-        ly: Math.round(lastYearData.cases),
-        lyVar: Math.round(casesVariance),
-        lyVarPercent: Math.round(casesVariancePercent * 100) / 100
-      },
-      gSales: {
-        ytd: Math.round(currentYearData.gSales * 100) / 100,
-        ly: Math.round(lastYearData.gSales * 100) / 100,
-        lyVar: Math.round(gSalesVariance * 100) / 100,
-        lyVarPercent: Math.round(gSalesVariancePercent * 100) / 100
-      },
-      fGP: {
-        ytd: Math.round(currentYearData.fGP * 100) / 100,
-        ly: Math.round(lastYearData.fGP * 100) / 100,
-        lyVar: Math.round(fGPVariance * 100) / 100,
-        lyVarPercent: Math.round(fGPVariancePercent * 100) / 100
-      },
+    const row: any = {
+      name,
+      brand,
+      subCategory,
+      source,
+      cases: group(current.Cases, previous.Cases, 1, 0),
+      gSales: group(current.gSales, previous.gSales, 1000, 2),
+      fGP: group(current.fGP, previous.fGP, 1000, 2),
       fGPPercent: {
-        ytd: Math.round(currentFGPPercent * 100) / 100,
-        ly: Math.round(lastFGPPercent * 100) / 100,
-        lyVar: Math.round(fGPPercentVariance * 100) / 100
+        ytd: Math.round(fGPPercent(current) * 10) / 10,
+        ly: Math.round(fGPPercent(previous) * 10) / 10,
+        lyVar: Math.round((fGPPercent(current) - fGPPercent(previous)) * 10) / 10
       }
     };
+    if (isTotal) row.isTotal = true;
+    return row;
   }
 
 }
@@ -0,0 +1,68 @@
+import _ from 'lodash';
+import { SalesData } from '@/types/data';
+import { detectAnomalies } from './anomalyDetection';
+import { periodKey, periodMonth } from './columnarDataset';
+
+const OPTIONS = { zThreshold: 3, marginDropPoints: 5, minValue: 100 };
+
+// One brand x customer x channel series: a month's totals by period key
+const series = (months: Record<number, { gSales: number; Cases: number; fGP: number }>): SalesData[] =>
+  Object.entries(months).map(([period, totals]) => ({
+    Brand: 'Killeen',
+    Customer: 'Tesco',
+    Channel: 'Grocery ROI',
+    Year: Math.floor(Number(period) / 12),
+    'Month Name': periodMonth(Number(period)),
+    ...totals
+  } as SalesData));
+
+const start = periodKey(2023, 'Jan');
+
+describe('detectAnomalies', () => {
+  it('flags a month far above its seasonal baseline with its z-score and impact', () => {
+    const months = _.fromPairs(_.times(24, i => [start + i, { gSales: 1000 + (i % 2) * 20, Cases: 100, fGP: 300 }]));
+    months[start + 24] = { gSales: 2000, Cases: 100, fGP: 600 };
+
+    const anomalies = detectAnomalies(series(months), [start + 24], OPTIONS);
+    const spike = anomalies.find(a => a.measure === 'gSales')!;
+
+    expect(spike).toMatchObject({ type: 'spike', baseline: 'seasonal', period: '2025-01', dimension: 'Killeen / Tesco / Grocery ROI' });
+    // Same month last year, with no change year on year
+    expect(spike.expected).toBe(1000);
+    expect(spike.impact).toBe(1000);
+    // The spread is floored at 5% of the expected value
+    expect(spike.zScore).toBeCloseTo(1000 / 50, 6);
+    expect(spike.severity).toBe('high');
+    expect(anomalies.some(a => a.measure === 'Cases')).toBe(false);
+  });
+
+  it('leaves steady months alone', () => {
+    const months = _.fromPairs(_.times(25, i => [start + i, { gSales: 1000 + (i % 3) * 10, Cases: 100, fGP: 300 }]));
+
+    expect(detectAnomalies(series(months), [start + 24], OPTIONS)).toEqual([]);
+  });
+
+  it('flags a margin drop against the trailing months', () => {
+    const months = _.fromPairs(_.times(12, i => [start + i, { gSales: 1000, Cases: 100, fGP: 300 + (i % 2) * 10 }]));
+    months[start + 12] = { gSales: 1000, Cases: 100, fGP: 150 };
+
+    const drop = detectAnomalies(series(months), [start + 12], OPTIONS).find(a => a.measure === 'fGPPercent')!;
+
+    expect(drop).toMatchObject({ type: 'marginDrop', baseline: 'trailing', actual: 15 });
+    expect(drop.expected).toBeCloseTo(30.5, 6);
+    expect(drop.impact).toBeCloseTo(-155, 6);
+  });
+
+  it('skips the margin check when the baseline months have no positive gSales', () => {
+    // Credits cancel the baseline's sales, so it has no margin to compare with
+    const months = _.fromPairs(_.times(12, i => [start + i, i % 2
+      ? { gSales: -1000, Cases: 0, fGP: -300 }
+      : { gSales: 1000, Cases: 100, fGP: 300 }]));
+    months[start + 12] = { gSales: 1000, Cases: 100, fGP: 0 };
+
+    const anomalies = detectAnomalies(series(months), [start + 12], OPTIONS);
+
+    expect(anomalies.some(a => a.measure === 'fGPPercent')).toBe(false);
+    anomalies.forEach(anomaly => expect(Number.isFinite(anomaly.expected)).toBe(true));
+  });
+});
@@ -0,0 +1,176 @@
+import _ from 'lodash';
+import { Anomaly, AnomalyBaseline, AnomalyMeasure, SalesData } from '@/types/data';
+import { toNumber } from '@/utils/number';
+import { periodKey, periodMonth } from './columnarDataset';
+import { formatMonthRef } from './periodWindow';
+
+// Months before the scanned month its baseline is taken from
+const BASELINE_MONTHS = 12;
+
+// Fewest baseline months (or year-on-year changes) a series needs before it is scanned
+const MIN_BASELINE_POINTS = 6;
+
+// Floor on the spread of a baseline, so near-flat histories don't turn small moves into large scores
+const MIN_RELATIVE_SPREAD = 0.05;
+const MIN_MARGIN_SPREAD = 1;
+
+const SERIES_FIELDS = ['Brand', 'Customer', 'Channel'] as const;
+
+export interface AnomalyOptions {
+  // Smallest |z-score| flagged
+  zThreshold: number;
+  // Smallest fGP % fall, in points, flagged as a margin drop
+  marginDropPoints: number;
+  // Series months whose actual and expected gSales both fall below this are skipped
+  minValue: number;
+}
+
+interface MonthTotals {
+  gSales: number;
+  Cases: number;
+  fGP: number;
+}
+
+interface Baseline {
+  baseline: AnomalyBaseline;
+  expected: number;
+  spread: number;
+}
+
+const standardDeviation = (values: number[]): number => {
+  const mean = _.mean(values);
+  return Math.sqrt(_.sumBy(values, v => (v - mean) ** 2) / Math.max(values.length - 1, 1));
+};
+
+const margin = (totals: MonthTotals): number | null => (totals.gSales > 0 ? (totals.fGP / totals.gSales) * 100 : null);
+
+/**
+ * Monthly totals of one series from its first month with data; months without rows are zero
+ */
+function monthlyTotals(rows: SalesData[]): { start: number; months: Map<number, MonthTotals> } {
+  const months = new Map<number, MonthTotals>();
+  for (const row of rows) {
+    const period = periodKey(row.Year, row['Month Name']);
+    if (period < 0) continue;
+    let totals = months.get(period);
+    if (!totals) {
+      totals = { gSales: 0, Cases: 0, fGP: 0 };
+      months.set(period, totals);
+    }
+    totals.gSales += toNumber(row.gSales);
+    totals.Cases += toNumber(row.Cases);
+    totals.fGP += toNumber(row.fGP);
+  }
+  return { start: months.size ? _.min([...months.keys()])! : Infinity, months };
+}
+
+/**
+ * Expected value of a month: the same month last year plus the average year-on-year change over
+ * the baseline months when the series has enough history (seasonal), else the baseline months'
+ * mean (trailing). The spread is the standard deviation of those changes or values.
+ */
+function expectedValue(valueAt: (period: number) => number, period: number, start: number): Baseline | null {
+  const baselinePeriods = _.range(Math.max(period - BASELINE_MONTHS, start), period);
+  const yoyPeriods = baselinePeriods.filter(p => p - 12 >= start);
+
+  if (period - 12 >= start && yoyPeriods.length >= MIN_BASELINE_POINTS) {
+    const changes = yoyPeriods.map(p => valueAt(p) - valueAt(p - 12));
+    const expected = valueAt(period - 12) + _.mean(changes);
+    return { baseline: 'seasonal', expected, spread: standardDeviation(changes) };
+  }
+  if (baselinePeriods.length >= MIN_BASELINE_POINTS) {
+    const values = baselinePeriods.map(valueAt);
+    return { baseline: 'trailing', expected: _.mean(values), spread: standardDeviation(values) };
+  }
+  return null;
+}
+
+const formatValue = (measure: AnomalyMeasure, value: number): string =>
+  measure === 'gSales' ? `€${Math.round(value).toLocaleString('en-US')}` : Math.round(value).toLocaleString('en-US');
+
+/**
+ * Scan the monthly series of every brand × customer × channel for unusual months among `periods`:
+ * - gSales and Cases whose z-score against the series' baseline (see expectedValue) reaches the threshold
+ * - fGP % that fell by at least `marginDropPoints` below the baseline months' fGP %, with a z-score
+ *   against their monthly margins that reaches the threshold
+ * Anomalies are ranked by their gSales impact: the gSales deviation, the Cases deviation at the
+ * baseline price per case, or the fGP lost to the margin drop.
+ */
+export function detectAnomalies(rows: SalesData[], periods: number[], options: AnomalyOptions): Anomaly[] {
+  const anomalies: Anomaly[] = [];
+  const series = _.groupBy(rows, row => SERIES_FIELDS.map(field => row[field] ?? '').join('\u0001'));
+
+  for (const seriesRows of Object.values(series)) {
+    const { start, months } = monthlyTotals(seriesRows);
+    const totalsAt = (period: number): MonthTotals => months.get(period) || { gSales: 0, Cases: 0, fGP: 0 };
+    const [brand, customer, channel] = SERIES_FIELDS.map(field => String(seriesRows[0][field] ?? ''));
+
+    const flag = (period: number, measure: AnomalyMeasure, found: Baseline, actual: number, zScore: number, impact: number, explanation: string) => {
+      anomalies.push({
+        period: formatMonthRef(period),
+        month: periodMonth(period),
+        brand,
+        customer,
+        channel,
+        dimension: `${brand} / ${customer} / ${channel}`,
+        measure,
+        type: measure === 'fGPPercent' ? 'marginDrop' : actual > found.expected ? 'spike' : 'drop',
+        baseline: found.baseline,
+        expected: found.expected,
+        actual,
+        deviation: actual - found.expected,
+        deviationPercent: found.expected !== 0 ? ((actual - found.expected) / Math.abs(found.expected)) * 100 : null,
+        zScore,
+        impact,
+        severity: Math.abs(zScore) >= 2 * options.zThreshold ? 'high' : 'medium',
+        explanation
+      });
+    };
+
+    for (const period of periods) {
+      if (period < start) continue;
+      const current = totalsAt(period);
+      const sales = expectedValue(p => totalsAt(p).gSales, period, start);
+      if (!sales || Math.max(Math.abs(current.gSales), Math.abs(sales.expected)) < options.minValue) continue;
+
+      for (const measure of ['gSales', 'Cases'] as const) {
+        const found = measure === 'gSales' ? sales : expectedValue(p => totalsAt(p)[measure], period, start);
+        if (!found) continue;
+        const actual = current[measure];
+        const spread = Math.max(found.spread, MIN_RELATIVE_SPREAD * Math.abs(found.expected));
+        const zScore = spread > 0 ? (actual - found.expected) / spread : 0;
+        if (Math.abs(zScore) < options.zThreshold) continue;
+
+        const baselineMonths = _.range(Math.max(period - BASELINE_MONTHS, start), period).map(totalsAt);
+        const pricePerCase = _.sumBy(baselineMonths, 'gSales') / (_.sumBy(baselineMonths, 'Cases') || 1);
+        const impact = measure === 'gSales' ? actual - found.expected : (actual - found.expected) * pricePerCase;
+        const direction = actual > found.expected ? 'above' : 'below';
+        flag(period, measure, found, actual, zScore, impact,
+          `${measure} ${formatValue(measure, actual)} vs ${formatValue(measure, found.expected)} expected from the ${found.baseline} baseline ` +
+          `(${Math.abs(zScore).toFixed(1)} standard deviations ${direction})`);
+      }
+
+      const currentMargin = margin(current);
+      if (currentMargin === null) continue;
+      const baselineMonths = _.range(Math.max(period - BASELINE_MONTHS, start), period).map(totalsAt);
+      const margins = baselineMonths.map(margin).filter((m): m is number => m !== null);
+      if (margins.length < MIN_BASELINE_POINTS) continue;
+
+      // A baseline without positive gSales has no margin to fall from
+      const baselineSales = _.sumBy(baselineMonths, 'gSales');
+      if (baselineSales <= 0) continue;
+      const expected = (_.sumBy(baselineMonths, 'fGP') / baselineSales) * 100;
+      if (!Number.isFinite(expected)) continue;
+      const spread = Math.max(standardDeviation(margins), MIN_MARGIN_SPREAD);
+      const zScore = (currentMargin - expected) / spread;
+      if (expected - currentMargin < options.marginDropPoints || -zScore < options.zThreshold) continue;
+
+      flag(period, 'fGPPercent', { baseline: 'trailing', expected, spread }, currentMargin, zScore,
+        ((currentMargin - expected) / 100) * current.gSales,
+        `fGP % ${currentMargin.toFixed(1)}% vs ${expected.toFixed(1)}% over the previous ${baselineMonths.length} months ` +
+        `(${(expected - currentMargin).toFixed(1)} points lower)`);
+    }
+  }
+
+  return _.orderBy(anomalies, [a => Math.abs(a.impact), a => Math.abs(a.zScore)], ['desc', 'desc']);
+}
@@ -0,0 +1,323 @@
+import _ from 'lodash';
+import { DataFetchMeta, DataFilters, FilterDimension } from '@/types/data';
+import { PdfColor, PdfDocument } from '@/utils/pdf';
+import { XlsxFormat } from '@/utils/xlsx';
+import { analyticsService } from './analyticsService';
+import { getSalesDataSource } from './dataSource';
+import { filterValues } from './dimensionFilters';
+import { PLAN_SCENARIOS } from './planComparison';
+import { ExportColumn, REPORT_EXPORTS, isTotalRow, reportColumns } from './reportExport';
+
+export interface BoardPackSection {
+  // REPORT_EXPORTS entry giving the section's number formats
+  report: string;
+  title: string;
+  rows: (filters: DataFilters) => Promise<any[]>;
+}
+
+export interface BoardPackOptions {
+  title?: string;
+  // Defaults to the board pack reports
+  sections?: BoardPackSection[];
+  // Cover page with the filters and contents (defaults to true)
+  cover?: boolean;
+  generatedAt?: Date;
+}
+
+export interface BoardPack {
+  pdf: Buffer;
+  pageCount: number;
+  meta: DataFetchMeta;
+}
+
+// Customers listed in the top customers section, ahead of the all-customers total
+const TOP_CUSTOMERS = 10;
+
+const SECTIONS: BoardPackSection[] = [
+  { report: 'business-area-summary', title: 'Business Area Summary', rows: filters => analyticsService.getReportsBusinessAreaSummary(filters) },
+  { report: 'channel-summary', title: 'Channel Summary', rows: filters => analyticsService.getReportsChannelSummary(filters) },
+  { report: 'sales-to-fgp', title: 'Sales to fGP', rows: filters => analyticsService.getSalesToFGPSummary(filters) },
+  { report: 'trend-by-month', title: 'Trend by Month', rows: filters => analyticsService.getTrendByMonthSummary(filters) },
+  {
+    report: 'customer-summary',
+    title: `Top ${TOP_CUSTOMERS} Customers`,
+    rows: async filters => {
+      const rows = await analyticsService.getCustomerSummary(filters);
+      const customers = _.orderBy(rows.filter(row => !isTotalRow(row)), row => row.gSales?.ytd ?? 0, 'desc');
+      return [...customers.slice(0, TOP_CUSTOMERS), ...rows.filter(isTotalRow)];
+    }
+  },
+  { report: 'total-brands', title: 'Total Brands', rows: filters => analyticsService.getTotalBrandsSummary(filters) }
+];
+
+const DIMENSION_LABELS: Record<Exclude<FilterDimension, 'month'>, string> = {
+  businessArea: 'Business area',
+  channel: 'Channel',
+  brand: 'Brand',
+  category: 'Category',
+  subCategory: 'Sub-category',
+  customer: 'Customer'
+};
+
+const MARGIN = 36;
+const FOOTER_HEIGHT = 30;
+const MAX_LABEL_WIDTH = 170;
+const CELL_PADDING = 4;
+
+const COLORS: Record<string, PdfColor> = {
+  brand: [0.11, 0.23, 0.4],
+  banner: [0.93, 0.95, 0.98],
+  stripe: [0.97, 0.97, 0.97],
+  total: [0.86, 0.9, 0.96],
+  muted: [0.4, 0.4, 0.4],
+  negative: [0.75, 0.1, 0.1],
+  white: [1, 1, 1]
+};
+
+// Rounded first, so that small negatives show as 0 rather than -0
+const grouped = (value: number, decimals: number): string =>
+  (Math.round(value * 10 ** decimals) / 10 ** decimals || 0).toLocaleString('en-GB', { minimumFractionDigits: decimals, maximumFractionDigits: decimals });
+
+/**
+ * A cell as shown in the pack: amounts in €k, percentages to one decimal
+ */
+function formatCell(value: unknown, format: XlsxFormat): string {
+  if (typeof value === 'string') return value;
+  if (typeof value !== 'number' || !isFinite(value)) return '';
+  switch (format) {
+    case 'percent':
+      return `${grouped(value, 1)}%`;
+    case 'integer':
+      return grouped(value, 0);
+    case 'decimal':
+      return grouped(value, 2);
+    case 'moneyUnits':
+    case 'moneyThousands': {
+      const thousands = grouped(format === 'moneyUnits' ? value / 1000 : value, 1);
+      return thousands.startsWith('-') ? `-€${thousands.slice(1)}k` : `€${thousands}k`;
+    }
+    default:
+      return String(value);
+  }
+}
+
+export function formatTimestamp(value: string): string {
+  const date = new Date(value);
+  return isNaN(date.getTime()) ? value : `${date.toISOString().slice(0, 16).replace('T', ' ')} UTC`;
+}
+
+/**
+ * The period and filters a pack was run for, one line each
+ */
+export function describeFilters(filters: DataFilters): string[] {
+  const period: string[] = [filters.year ? `FY${filters.year}` : 'Current fiscal year'];
+  const months = filterValues(filters.month);
+  if (filters.from || filters.to) period.push(`${filters.from || 'start'} to ${filters.to || 'latest month'}`);
+  else if (filters.period) period.push(filters.period);
+  else if (!months.length) period.push('YTD');
+  if (months.length) period.push(`Month: ${months.join(', ')}`);
+  if (filters.compare === 'priorPeriod') period.push('vs prior period');
+  if (filters.vs?.length) period.push(`vs ${filters.vs.map(scenario => PLAN_SCENARIOS[scenario]).join(', ')}`);
+
+  const selections = (Object.keys(DIMENSION_LABELS) as (keyof typeof DIMENSION_LABELS)[]).flatMap(dimension => {
+    const included = filterValues(filters[dimension]);
+    const excluded = filters.not?.[dimension] || [];
+    return [
+      ...(included.length ? [`${DIMENSION_LABELS[dimension]}: ${included.join(', ')}`] : []),
+      ...(excluded.length ? [`${DIMENSION_LABELS[dimension]} excluding ${excluded.join(', ')}`] : [])
+    ];
+  });
+
+  return [`Period: ${period.join(' · ')}`, selections.length ? `Filters: ${selections.join('; ')}` : 'Filters: none'];
+}
+
+interface TableLayout {
+  size: number;
+  widths: number[];
+  headerLines: string[][];
+  rowHeight: number;
+  headerHeight: number;
+}
+
+export class BoardPackService {
+  /**
+   * Render the board pack for a set of filters: a cover page with contents, then one section per
+   * report with a filter/period banner, repeated table headers, bold total rows, and page numbers
+   * and the data "as of" timestamp in every footer. Other section lists render the same way, e.g.
+   * a single report without a cover.
+   */
+  async generate(filters: DataFilters, options: BoardPackOptions = {}): Promise<BoardPack> {
+    const { title = 'Board Pack', cover = true, generatedAt = new Date() } = options;
+    const sections: { section: BoardPackSection; rows: any[] }[] = [];
+    for (const section of options.sections || SECTIONS) {
+      sections.push({ section, rows: await section.rows({ ...filters }) });
+    }
+    const meta = getSalesDataSource().getLastFetchMeta();
+    const asOf = `Data as of ${formatTimestamp(meta.lastUpdated)} (${meta.source})`;
+    const banner = describeFilters(filters);
+
+    const doc = new PdfDocument();
+    if (cover) doc.addPage();
+    const startPages = sections.map(({ section, rows }) => {
+      const first = doc.pageCount;
+      this.renderSection(doc, section, rows, banner);
+      return first;
+    });
+    if (cover) {
+      this.renderCover(doc, title, banner, asOf, generatedAt, sections.map(({ section }, i) => ({ title: section.title, page: startPages[i] + 1 })));
+    }
+
+    for (let page = 0; page < doc.pageCount; page++) {
+      doc.setPage(page);
+      const y = doc.height - FOOTER_HEIGHT + 12;
+      doc.line(MARGIN, y - 10, doc.width - MARGIN, y - 10, { color: COLORS.muted, lineWidth: 0.3 });
+      doc.text(MARGIN, y, asOf, { size: 7, color: COLORS.muted });
+      doc.text(doc.width / 2, y, title, { size: 7, color: COLORS.muted, align: 'center' });
+      doc.text(doc.width - MARGIN, y, `Page ${page + 1} of ${doc.pageCount}`, { size: 7, color: COLORS.muted, align: 'right' });
+    }
+
+    return { pdf: doc.toBuffer({ title, createdAt: generatedAt }), pageCount: doc.pageCount, meta };
+  }
+
+  private renderCover(doc: PdfDocument, title: string, banner: string[], asOf: string, generatedAt: Date, contents: { title: string; page: number }[]): void {
+    doc.setPage(0);
+    doc.rect(0, 0, doc.width, 190, { fill: COLORS.brand });
+    doc.text(MARGIN + 20, 105, title, { size: 34, bold: true, color: COLORS.white });
+    doc.text(MARGIN + 20, 140, banner[0], { size: 13, color: COLORS.white });
+
+    let y = 235;
+    for (const line of [...banner.slice(1), asOf, `Generated ${formatTimestamp(generatedAt.toISOString())}`]) {
+      doc.text(MARGIN + 20, y, doc.fitText(line, doc.width - 2 * MARGIN - 40, 10), { size: 10, color: COLORS.muted });
+      y += 16;
+    }
+
+    y += 20;
+    doc.text(MARGIN + 20, y, 'Contents', { size: 13, bold: true });
+    y += 8;
+    for (const { title, page } of contents) {
+      y += 18;
+      doc.text(MARGIN + 20, y, title, { size: 11 });
+      doc.text(MARGIN + 320, y, String(page), { size: 11, align: 'right' });
+    }
+  }
+
+  /**
+   * A section heading and the filter/period banner at the top of a new page; returns where the
+   * content below them starts
+   */
+  private startPage(doc: PdfDocument, title: string, banner: string[]): number {
+    doc.addPage();
+    doc.text(MARGIN, MARGIN + 14, title, { size: 16, bold: true, color: COLORS.brand });
+    doc.rect(MARGIN, MARGIN + 24, doc.width - 2 * MARGIN, 14 * banner.length + 6, { fill: COLORS.banner });
+    banner.forEach((line, i) => {
+      doc.text(MARGIN + 6, MARGIN + 37 + i * 14, doc.fitText(line, doc.width - 2 * MARGIN - 12, 8), { size: 8, color: COLORS.muted });
+    });
+    return MARGIN + 24 + 14 * banner.length + 20;
+  }
+
+  private renderSection(doc: PdfDocument, section: BoardPackSection, rows: any[], banner: string[]): void {
+    let y = this.startPage(doc, section.title, banner);
+    if (rows.length === 0) {
+      doc.text(MARGIN, y + 12, 'No data for the selected filters.', { size: 10, color: COLORS.muted });
+      return;
+    }
+
+    const columns = reportColumns(rows, REPORT_EXPORTS[section.report]?.moneyInThousands ?? false);
+    const cells = rows.map(row => columns.map(column => formatCell(column.value(row), column.format)));
+    const layout = this.layoutTable(doc, columns, cells);
+    const bottom = doc.height - MARGIN - FOOTER_HEIGHT;
+
+    y = this.renderHeader(doc, columns, layout, y);
+    rows.forEach((row, r) => {
+      if (y + layout.rowHeight > bottom) {
+        y = this.renderHeader(doc, columns, layout, this.startPage(doc, `${section.title} (continued)`, banner));
+      }
+      const total = isTotalRow(row);
+      const bold = total || !!row.isBold;
+      if (total) doc.rect(MARGIN, y, _.sum(layout.widths), layout.rowHeight, { fill: COLORS.total });
+      else if (r % 2 === 1) doc.rect(MARGIN, y, _.sum(layout.widths), layout.rowHeight, { fill: COLORS.stripe });
+
+      let x = MARGIN;
+      const baseline = y + layout.rowHeight / 2 + layout.size * 0.35;
+      columns.forEach((column, c) => {
+        const width = layout.widths[c];
+        const text = doc.fitText(cells[r][c], width - 2 * CELL_PADDING, layout.size, bold);
+        const value = column.value(row);
+        const color = typeof value === 'number' && value < 0 && text.startsWith('-') ? COLORS.negative : undefined;
+        if (column.label) doc.text(x + CELL_PADDING, baseline, text, { size: layout.size, bold, color });
+        else doc.text(x + width - CELL_PADDING, baseline, text, { size: layout.size, bold, color, align: 'right' });
+        x += width;
+      });
+      if (total) doc.line(MARGIN, y, MARGIN + _.sum(layout.widths), y, { color: COLORS.brand, lineWidth: 0.6 });
+      y += layout.rowHeight;
+    });
+  }
+
+  private renderHeader(doc: PdfDocument, columns: ExportColumn[], layout: TableLayout, y: number): number {
+    doc.rect(MARGIN, y, _.sum(layout.widths), layout.headerHeight, { fill: COLORS.brand });
+    let x = MARGIN;
+    columns.forEach((column, c) => {
+      const width = layout.widths[c];
+      layout.headerLines[c].forEach((line, i) => {
+        const baseline = y + CELL_PADDING + layout.size * (i + 1) * 1.15;
+        if (column.label) doc.text(x + CELL_PADDING, baseline, line, { size: layout.size, bold: true, color: COLORS.white });
+        else doc.text(x + width - CELL_PADDING, baseline, line, { size: layout.size, bold: true, color: COLORS.white, align: 'right' });
+      });
+      x += width;
+    });
+    return y + layout.headerHeight;
+  }
+
+  /**
+   * Column widths and font size: the largest size (8pt down to 5.5pt) at which every value and
+   * header word fits the page width; label columns are capped and their values truncated
+   */
+  private layoutTable(doc: PdfDocument, columns: ExportColumn[], cells: string[][]): TableLayout {
+    const available = doc.width - 2 * MARGIN;
+    let size = 8;
+    let widths: number[] = [];
+    for (; size >= 5.5; size -= 0.5) {
+      widths = columns.map((column, c) => {
+        const values = cells.map(row => doc.textWidth(row[c], size, true));
+        const words = column.header.split(' ').map(word => doc.textWidth(word, size, true));
+        const natural = Math.max(...values, ...words) + 2 * CELL_PADDING;
+        return column.label ? Math.min(natural, MAX_LABEL_WIDTH) : natural;
+      });
+      if (_.sum(widths) <= available) break;
+    }
+    size = Math.max(size, 5.5);
+
+    // Spread spare width over the value columns, or shrink the labels when even 5.5pt overflows
+    const spare = available - _.sum(widths);
+    const values = columns.filter(column => !column.label).length;
+    if (spare > 0 && values > 0) {
+      const extra = Math.min(spare / values, 40);
+      widths = widths.map((width, c) => (columns[c].label ? width : width + extra));
+    } else if (spare < 0) {
+      const labelWidth = _.sum(widths.filter((_width, c) => columns[c].label));
+      const scale = Math.max(0.3, (labelWidth + spare) / labelWidth);
+      widths = widths.map((width, c) => (columns[c].label ? width * scale : width));
+    }
+
+    const headerLines = columns.map((column, c) => {
+      const lines: string[] = [];
+      for (const word of column.header.split(' ')) {
+        const last = lines[lines.length - 1];
+        if (last && doc.textWidth(`${last} ${word}`, size, true) <= widths[c] - 2 * CELL_PADDING) lines[lines.length - 1] = `${last} ${word}`;
+        else lines.push(word);
+      }
+      return lines;
+    });
+    const lineCount = Math.max(...headerLines.map(lines => lines.length));
+
+    return {
+      size,
+      widths,
+      headerLines,
+      rowHeight: size * 1.9,
+      headerHeight: lineCount * size * 1.15 + 2 * CELL_PADDING + size * 0.3
+    };
+  }
+}
+
+export const boardPackService = new BoardPackService();
@@ -0,0 +1,83 @@
+import fs from 'fs';
+import path from 'path';
+import Joi from 'joi';
+import { ColumnMapping, ResolvedColumns } from '@/types/data';
+import { logger } from '@/utils/logger';
+
+const mappingSchema = Joi.object({
+  columns: Joi.array().min(1).items(Joi.object({
+    field: Joi.string().required(),
+    type: Joi.string().valid('string', 'number', 'integer').required(),
+    required: Joi.boolean().default(false),
+    sources: Joi.array().min(1).items(Joi.string().min(1)).required()
+  })).unique('field').required()
+});
+
+/**
+ * Normalise a CSV header for matching: strip a UTF-8 BOM and surrounding whitespace
+ */
+export function normalizeHeader(header: string): string {
+  return header.replace(/^\uFEFF/, '').trim();
+}
+
+/**
+ * Load and validate the column mapping file (COLUMN_MAPPING_FILE or config/column-mapping.json)
+ */
+export function loadColumnMapping(filePath?: string): ColumnMapping {
+  const mappingPath = filePath || process.env.COLUMN_MAPPING_FILE || path.join(__dirname, '../../config/column-mapping.json');
+
+  let raw: unknown;
+  try {
+    raw = JSON.parse(fs.readFileSync(mappingPath, 'utf-8'));
+  } catch (error) {
+    throw new Error(`Unable to read column mapping ${mappingPath}: ${error instanceof Error ? error.message : error}`);
+  }
+
+  const { error, value } = mappingSchema.validate(raw, { abortEarly: false });
+  if (error) {
+    throw new Error(`Invalid column mapping ${mappingPath}: ${error.details.map(d => d.message).join('; ')}`);
+  }
+  return value as ColumnMapping;
+}
+
+/**
+ * Match CSV headers to mapped fields (first matching source wins, case-insensitive).
+ * Throws when a required field has no matching header.
+ */
+export function resolveColumns(mapping: ColumnMapping, headers: string[], fileName?: string): ResolvedColumns {
+  const byName = new Map(headers.map(h => [normalizeHeader(h).toLowerCase(), h]));
+  const resolved: ResolvedColumns = {};
+  const missingRequired: string[] = [];
+  const missingOptional: string[] = [];
+
+  for (const column of mapping.columns) {
+    const header = column.sources.map(s => byName.get(s.toLowerCase())).find(Boolean);
+    if (header) {
+      resolved[column.field] = header;
+    } else if (column.required) {
+      missingRequired.push(`"${column.field}" (expected one of: ${column.sources.map(s => `"${s}"`).join(', ')})`);
+    } else {
+      missingOptional.push(column.field);
+    }
+  }
+
+  const file = fileName ? ` in ${fileName}` : '';
+  if (missingRequired.length > 0) {
+    throw new Error(`Missing required CSV column(s)${file}: ${missingRequired.join('; ')}`);
+  }
+  if (missingOptional.length > 0) {
+    logger.warn(`Optional CSV column(s) not found${file}; using defaults`, { fields: missingOptional });
+  }
+  return resolved;
+}
+
+/**
+ * Re-key a raw CSV row by mapped field name
+ */
+export function mapRow(columns: ResolvedColumns, raw: Record<string, string>): Record<string, string> {
+  const row: Record<string, string> = {};
+  for (const [field, header] of Object.entries(columns)) {
+    row[field] = raw[header];
+  }
+  return row;
+}
@@ -0,0 +1,301 @@
+import { SalesData } from '@/types/data';
+
+// Dimensions that can be filtered through a posting-list index
+export const DIMENSION_FIELDS = [
+  'Year',
+  'Month Name',
+  'Business',
+  'Channel',
+  'Customer',
+  'Brand',
+  'Category',
+  'Sub-Cat',
+  'P+L Cust. Grp',
+  'P+L Brand',
+  'P+L Category',
+  'Brand Type Name',
+  'SubCat Name',
+  'Attribute Name',
+  'Board Category',
+  'SKU Channel Name'
+] as const;
+
+export const MEASURE_FIELDS = ['Cases', 'gSales', 'Price Downs', 'Perm. Disc.', 'Group Cost', 'LTA', 'fGP', 'Avg Cost'] as const;
+
+// Derived dimension: a row's calendar month as year * 12 + zero-based month (see periodKey)
+export const PERIOD_FIELD = 'Period' as const;
+
+export type DimensionField = typeof DIMENSION_FIELDS[number] | typeof PERIOD_FIELD;
+export type MeasureField = typeof MEASURE_FIELDS[number];
+
+export type DimensionValue = string | number;
+
+// Allowed values per dimension; a row matches when every listed dimension holds an allowed value
+export type DimensionPredicates = Partial<Record<DimensionField, ReadonlySet<DimensionValue>>>;
+
+/**
+ * Fixed-size bitset over row ids
+ */
+class Bitmap {
+  readonly words: Uint32Array;
+
+  constructor(readonly size: number, fill = false) {
+    this.words = new Uint32Array(Math.ceil(size / 32));
+    if (fill && size > 0) {
+      this.words.fill(0xffffffff);
+      const tail = size % 32;
+      if (tail) this.words[this.words.length - 1] = (1 << tail) - 1;
+    }
+  }
+
+  addIds(ids: Uint32Array): void {
+    for (let i = 0; i < ids.length; i++) {
+      this.words[ids[i] >>> 5] |= 1 << (ids[i] & 31);
+    }
+  }
+
+  and(other: Bitmap): this {
+    for (let i = 0; i < this.words.length; i++) this.words[i] &= other.words[i];
+    return this;
+  }
+
+  clone(): Bitmap {
+    const copy = new Bitmap(this.size);
+    copy.words.set(this.words);
+    return copy;
+  }
+
+  /**
+   * Visit set row ids in ascending order
+   */
+  forEach(visit: (id: number) => void): void {
+    for (let w = 0; w < this.words.length; w++) {
+      let word = this.words[w];
+      while (word !== 0) {
+        const low = word & -word;
+        visit((w << 5) + 31 - Math.clz32(low));
+        word ^= low;
+      }
+    }
+  }
+}
+
+interface DimensionIndex {
+  dictionary: DimensionValue[];
+  codeOf: Map<DimensionValue, number>;
+  codes: Uint32Array;
+  postings: Uint32Array[];
+}
+
+/**
+ * Column arrays for one loaded dataset, built lazily per column on first use
+ */
+class ColumnStore {
+  private dimensions = new Map<DimensionField, DimensionIndex>();
+  private measures = new Map<MeasureField, Float64Array>();
+
+  constructor(readonly rows: SalesData[]) {}
+
+  dimension(field: DimensionField): DimensionIndex {
+    let index = this.dimensions.get(field);
+    if (!index) {
+      index = this.buildDimension(field);
+      this.dimensions.set(field, index);
+    }
+    return index;
+  }
+
+  measure(field: MeasureField): Float64Array {
+    let column = this.measures.get(field);
+    if (!column) {
+      column = new Float64Array(this.rows.length);
+      for (let i = 0; i < this.rows.length; i++) {
+        const value: unknown = this.rows[i][field];
+        column[i] = typeof value === 'number'
+          ? value
+          : typeof value === 'string' ? parseFloat(value.replace(/[^\d.-]/g, '')) || 0 : 0;
+      }
+      this.measures.set(field, column);
+    }
+    return column;
+  }
+
+  private buildDimension(field: DimensionField): DimensionIndex {
+    const dictionary: DimensionValue[] = [];
+    const codeOf = new Map<DimensionValue, number>();
+    const codes = new Uint32Array(this.rows.length);
+    const counts: number[] = [];
+
+    for (let i = 0; i < this.rows.length; i++) {
+      const value = dimensionValue(this.rows[i], field);
+      let code = codeOf.get(value);
+      if (code === undefined) {
+        code = dictionary.length;
+        dictionary.push(value);
+        codeOf.set(value, code);
+        counts.push(0);
+      }
+      codes[i] = code;
+      counts[code]++;
+    }
+
+    // Posting lists are filled in row order, so each list is sorted
+    const postings = counts.map(count => new Uint32Array(count));
+    const fill = new Array<number>(dictionary.length).fill(0);
+    for (let i = 0; i < codes.length; i++) {
+      postings[codes[i]][fill[codes[i]]++] = i;
+    }
+
+    return { dictionary, codeOf, codes, postings };
+  }
+}
+
+const MONTH_NAMES = ['Jan', 'Feb', 'Mar', 'Apr', 'May', 'Jun', 'Jul', 'Aug', 'Sep', 'Oct', 'Nov', 'Dec'];
+
+/**
+ * Sortable key for a calendar month (year * 12 + zero-based month); -1 when either part is unknown
+ */
+export function periodKey(year: number | string, month: string): number {
+  const y = typeof year === 'string' ? parseInt(year) : year;
+  const m = MONTH_NAMES.indexOf(month);
+  return Number.isFinite(y) && m >= 0 ? y * 12 + m : -1;
+}
+
+/**
+ * Month name of a period key
+ */
+export function periodMonth(period: number): string {
+  return MONTH_NAMES[period % 12];
+}
+
+/**
+ * Index value of a dimension for a row (Year as a number, Period derived from Year and Month Name)
+ */
+export function dimensionValue(row: SalesData, field: DimensionField): DimensionValue {
+  if (field === PERIOD_FIELD) return periodKey(row.Year, row['Month Name']);
+  const value: unknown = row[field];
+  if (field === 'Year') return typeof value === 'string' ? parseInt(value) : (value as number);
+  return value === undefined || value === null ? '' : (value as string);
+}
+
+// Indexed views keyed by the row array they describe; swapped datasets get fresh indexes
+const datasets = new WeakMap<SalesData[], ColumnarDataset>();
+
+/**
+ * Columnar, dictionary-encoded view over a SalesData[] with posting-list indexes.
+ * Row arrays produced by `filter` share the parent's columns, so filtering or
+ * summing them again is an index intersection rather than a new scan.
+ */
+export class ColumnarDataset {
+  private constructor(
+    private readonly store: ColumnStore,
+    private readonly base: Bitmap | null,
+    private readonly scope: DimensionPredicates,
+    readonly rows: SalesData[]
+  ) {}
+
+  /**
+   * Get (or build) the indexed view for a row array
+   */
+  static for(rows: SalesData[]): ColumnarDataset {
+    let dataset = datasets.get(rows);
+    if (!dataset) {
+      dataset = new ColumnarDataset(new ColumnStore(rows), null, {}, rows);
+      datasets.set(rows, dataset);
+    }
+    return dataset;
+  }
+
+  /**
+   * Rows matching all predicates, in original order
+   */
+  filter(predicates: DimensionPredicates): SalesData[] {
+    const selection = this.select(predicates);
+    const rows: SalesData[] = [];
+    selection.forEach(id => rows.push(this.store.rows[id]));
+    datasets.set(rows, new ColumnarDataset(this.store, selection, intersectPredicates(this.scope, predicates), rows));
+    return rows;
+  }
+
+  /**
+   * The loaded row array this view was filtered from, and the predicates that define it
+   */
+  lineage(): { root: SalesData[]; predicates: DimensionPredicates } {
+    return { root: this.store.rows, predicates: this.scope };
+  }
+
+  /**
+   * Sum a measure over rows matching all predicates
+   */
+  sum(measure: MeasureField, predicates: DimensionPredicates = {}): number {
+    const column = this.store.measure(measure);
+    let total = 0;
+    this.select(predicates).forEach(id => {
+      total += column[id];
+    });
+    return total;
+  }
+
+  /**
+   * Count rows matching all predicates
+   */
+  count(predicates: DimensionPredicates = {}): number {
+    let total = 0;
+    this.select(predicates).forEach(() => {
+      total++;
+    });
+    return total;
+  }
+
+  /**
+   * Distinct values of a dimension among rows matching all predicates
+   */
+  distinct(field: DimensionField, predicates: DimensionPredicates = {}): DimensionValue[] {
+    const index = this.store.dimension(field);
+    if (!this.base && Object.keys(predicates).length === 0) {
+      return [...index.dictionary];
+    }
+    const seen = new Uint8Array(index.dictionary.length);
+    this.select(predicates).forEach(id => {
+      seen[index.codes[id]] = 1;
+    });
+    return index.dictionary.filter((_, code) => seen[code] === 1);
+  }
+
+  private select(predicates: DimensionPredicates): Bitmap {
+    const size = this.store.rows.length;
+    const selection = this.base ? this.base.clone() : new Bitmap(size, true);
+
+    for (const [field, allowed] of Object.entries(predicates) as Array<[DimensionField, ReadonlySet<DimensionValue>]>) {
+      if (!allowed) continue;
+      const index = this.store.dimension(field);
+      const matches = new Bitmap(size);
+      for (const value of allowed) {
+        const code = index.codeOf.get(value);
+        if (code !== undefined) matches.addIds(index.postings[code]);
+      }
+      selection.and(matches);
+    }
+    return selection;
+  }
+}
+
+/**
+ * Add an allow-list for a dimension, intersecting with any list already present
+ */
+export function restrictDimension(predicates: DimensionPredicates, field: DimensionField, values: Iterable<DimensionValue>): void {
+  const next = new Set(values);
+  const current = predicates[field];
+  predicates[field] = current ? new Set([...next].filter(v => current.has(v))) : next;
+}
+
+/**
+ * Combine two predicate sets; dimensions present in both keep only values allowed by both
+ */
+export function intersectPredicates(a: DimensionPredicates, b: DimensionPredicates): DimensionPredicates {
+  const combined: DimensionPredicates = { ...a };
+  for (const [field, values] of Object.entries(b) as Array<[DimensionField, ReadonlySet<DimensionValue>]>) {
+    if (values) restrictDimension(combined, field, values);
+  }
+  return combined;
+}
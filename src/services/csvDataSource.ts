@@ -0,0 +1,425 @@
+import csv from 'csv-parser';
+import { Readable } from 'stream';
+import Joi from 'joi';
+import { SalesData, SalesDataSource, DataSourceKind, DataFetchMeta, DataSummary, DataQualityReport, ColumnMapping, ResolvedColumns } from '@/types/data';
+import { logger } from '@/utils/logger';
+import { DataQualityCollector } from '@/services/dataQuality';
+import { loadColumnMapping, resolveColumns, mapRow, normalizeHeader } from '@/services/columnMapping';
+import { SalesCube } from '@/services/salesCube';
+import { cacheService } from '@/services/cacheService';
+
+/**
+ * A single CSV file (blob or local file) contributing rows to the dataset
+ */
+export interface CsvPartitionFile {
+  name: string;
+  lastModified: number;
+}
+
+/**
+ * Where a file-based source reads from when it is not the configured sales source (e.g. the plan file);
+ * unset options fall back to the sales settings
+ */
+export interface CsvSourceOptions {
+  csvFileName?: string;
+  // Glob for partitioned files; null to read the single file even if a sales pattern is configured
+  csvPattern?: string | null;
+  columnMappingFile?: string;
+}
+
+/**
+ * Shared CSV parsing, validation and caching for file-based sales data sources.
+ * Subclasses only need to know how to load the raw rows from their storage.
+ */
+export abstract class CsvDataSource implements SalesDataSource {
+  abstract readonly kind: DataSourceKind;
+
+  // Age after which a read triggers a background check for a newer source version
+  protected readonly revalidateAfterMs = 3600 * 1000;
+  protected lastFetchMeta: DataFetchMeta = {
+    source: 'cache',
+    rowCount: 0,
+    lastUpdated: ''
+  };
+  protected rowSchema = Joi.object({
+    Year: Joi.alternatives(Joi.string().regex(/^\d{4}$/), Joi.number().integer().min(2000).max(2100)).required(),
+    'Month Name': Joi.string().required(), // Allow any month name format
+    Business: Joi.string().allow('').optional(),
+    Channel: Joi.string().allow('').optional(),
+    Brand: Joi.string().allow('').optional(),
+    Category: Joi.string().allow('').optional(),
+    Customer: Joi.string().allow('').optional(),
+    gSales: Joi.alternatives(Joi.string(), Joi.number(), Joi.allow(null)).optional(),
+    fGP: Joi.alternatives(Joi.string(), Joi.number(), Joi.allow(null)).optional(),
+    'Group Cost': Joi.alternatives(Joi.string(), Joi.number(), Joi.allow(null)).optional(),
+    Cases: Joi.alternatives(Joi.string(), Joi.number(), Joi.allow(null)).optional()
+  }).unknown(true);
+
+  // Collects rejected/coerced rows during the load in progress
+  protected quality: DataQualityCollector | null = null;
+  // Header mapping used by the load in progress (re-read on every load)
+  protected columnMapping: ColumnMapping | null = null;
+  // Mapping file for this source (defaults to COLUMN_MAPPING_FILE or config/column-mapping.json)
+  protected columnMappingFile?: string;
+
+  private dataset: SalesData[] | null = null;
+  private datasetVersion: string | null = null;
+  private qualityReport: DataQualityReport | null = null;
+  private loadedAt = 0;
+  private checkedAt = 0;
+  private inflightReload: Promise<SalesData[]> | null = null;
+
+  /**
+   * Load and parse the sales rows from the underlying storage
+   */
+  protected abstract loadRows(): Promise<SalesData[]>;
+
+  /**
+   * Opaque version of the source file(s) (ETag, mtime...), changing whenever the content changes
+   */
+  protected abstract getSourceVersion(): Promise<string>;
+
+  abstract testConnection(): Promise<boolean>;
+
+  /**
+   * Fetch sales data. Only the very first call waits for a load; afterwards the
+   * current dataset is served while newer versions are loaded in the background.
+   */
+  async fetchSalesData(): Promise<SalesData[]> {
+    if (!this.dataset) {
+      return this.reload();
+    }
+
+    if (Date.now() - this.checkedAt > this.revalidateAfterMs && !this.inflightReload) {
+      this.checkedAt = Date.now();
+      this.checkForUpdates()
+        .then(changed => (changed ? this.reload() : undefined))
+        .catch(error => logger.error(`Background revalidation of ${this.kind} data source failed:`, error));
+    }
+
+    logger.info('Returning cached CSV data');
+    this.lastFetchMeta = {
+      source: 'cache',
+      rowCount: this.dataset.length,
+      lastUpdated: new Date(this.loadedAt).toISOString()
+    };
+    return this.dataset;
+  }
+
+  /**
+   * Load the dataset from storage and swap it in. Concurrent callers share one load.
+   */
+  reload(): Promise<SalesData[]> {
+    if (!this.inflightReload) {
+      this.inflightReload = this.loadDataset().finally(() => {
+        this.inflightReload = null;
+      });
+    }
+    return this.inflightReload;
+  }
+
+  /**
+   * Check whether the source version differs from the loaded dataset
+   */
+  async checkForUpdates(): Promise<boolean> {
+    try {
+      const version = await this.getSourceVersion();
+      this.checkedAt = Date.now();
+      return version !== this.datasetVersion;
+    } catch (error) {
+      logger.error(`Error checking ${this.kind} data source for updates:`, error);
+      return false;
+    }
+  }
+
+  getDatasetVersion(): string | null {
+    return this.datasetVersion;
+  }
+
+  /**
+   * Rejected and coerced rows of the current dataset
+   */
+  getDataQualityReport(): DataQualityReport | null {
+    return this.qualityReport;
+  }
+
+  private async loadDataset(): Promise<SalesData[]> {
+    const quality = new DataQualityCollector();
+    this.quality = quality;
+    try {
+      this.columnMapping = loadColumnMapping(this.columnMappingFile);
+      // Read the version first so a change during the download is picked up by the next check
+      const version = await this.getSourceVersion();
+      const data = await this.loadRows();
+      const qualityReport = quality.toReport(this.kind, data.length);
+      if (qualityReport.rowsRejected > 0 || qualityReport.rowsCoerced > 0) {
+        logger.warn(`Data quality: ${qualityReport.rowsRejected} rows rejected, ${qualityReport.rowsCoerced} rows coerced`, {
+          rules: qualityReport.rules.map(r => `${r.rule}: ${r.count}`)
+        });
+      }
+
+      // Debug: Check what years are in the parsed data
+      const yearsInData = [...new Set(data.map(row => row.Year))].sort();
+      console.log(`📊 Years found in parsed data:`, yearsInData);
+      console.log(`📊 Row count by year:`, yearsInData.map(year => ({
+        year,
+        count: data.filter(row => row.Year === year).length
+      })));
+
+      // Pre-aggregate before the swap so the first report on the new data does not pay for it
+      SalesCube.for(data);
+
+      // Swap the new dataset in as a whole; readers keep the previous array until now
+      this.dataset = data;
+      this.datasetVersion = version;
+      this.qualityReport = qualityReport;
+      this.loadedAt = this.checkedAt = Date.now();
+      this.lastFetchMeta = {
+        source: this.kind,
+        rowCount: data.length,
+        lastUpdated: new Date(this.loadedAt).toISOString()
+      };
+      // Results cached for the previous dataset can no longer be read (keys carry the version); free them
+      await cacheService.clear();
+
+      return data;
+    } catch (error) {
+      logger.error(`Error fetching CSV data from ${this.kind} data source:`, error);
+      throw error;
+    } finally {
+      this.quality = null;
+      this.columnMapping = null;
+    }
+  }
+
+  getLastFetchMeta(): DataFetchMeta {
+    return this.lastFetchMeta;
+  }
+
+  /**
+   * Parse a CSV stream into typed sales rows, quarantining rows that fail validation.
+   * Rejects if the headers are missing a required mapped column.
+   */
+  protected parseCSVStream(stream: Readable, fileName?: string): Promise<SalesData[]> {
+    const data: SalesData[] = [];
+    const quality = this.quality;
+    const mapping = this.columnMapping || loadColumnMapping(this.columnMappingFile);
+    let columns: ResolvedColumns | null = null;
+    quality?.beginFile(fileName);
+
+    return new Promise((resolve, reject) => {
+      const parser = csv({ mapHeaders: ({ header }) => normalizeHeader(header) });
+      stream
+        .pipe(parser)
+        .on('headers', (headers: string[]) => {
+          try {
+            columns = resolveColumns(mapping, headers, fileName);
+          } catch (error) {
+            logger.error('CSV headers do not match column mapping:', error);
+            stream.unpipe(parser);
+            stream.destroy();
+            parser.destroy();
+            reject(error);
+          }
+        })
+        .on('data', (raw: any) => {
+          if (!columns) return;
+          const row = mapRow(columns, raw);
+          quality?.observe(raw, row);
+
+          // Debug: Log first few raw rows to see the data structure
+          if (data.length < 3) {
+            console.log(`\n--- Raw CSV Row ${data.length + 1} ---`);
+            console.log('Raw row:', raw);
+            console.log('Year field:', row.Year, 'Type:', typeof row.Year);
+          }
+
+          // Transform and validate data
+          const { error } = this.rowSchema.validate(row, { abortEarly: false });
+          if (error) {
+            const details = error.details?.map(d => d.message) || [error.message];
+            logger.warn('Row validation failed; skipping row', { details: details.slice(0,3) });
+            const column = error.details?.[0]?.path.join('.');
+            quality?.reject(`schema:${column || 'row'}`, details.join('; '), raw, column);
+            return;
+          }
+          const transformedRow = this.transformCSVRow(row, mapping);
+          if (transformedRow) {
+            quality?.track(transformedRow);
+            data.push(transformedRow);
+          }
+        })
+        .on('end', () => {
+          logger.info(`Successfully parsed ${data.length} rows from CSV`);
+          resolve(data);
+        })
+        .on('error', (error: Error) => {
+          logger.error('Error parsing CSV:', error);
+          reject(error);
+        });
+    });
+  }
+
+  /**
+   * Merge rows from several partition files into one dataset.
+   * When more than one file holds rows for the same Year + Month Name, only the
+   * rows from the most recently modified file are kept for that month.
+   */
+  protected mergePartitions(files: Array<CsvPartitionFile & { rows: SalesData[] }>): SalesData[] {
+    const partitionKey = (row: SalesData) => `${row.Year}|${row['Month Name']}`;
+    const isNewer = (a: CsvPartitionFile, b: CsvPartitionFile) =>
+      a.lastModified > b.lastModified || (a.lastModified === b.lastModified && a.name > b.name);
+
+    const owners = new Map<string, CsvPartitionFile>();
+    const overlaps = new Set<string>();
+    for (const file of files) {
+      for (const key of new Set(file.rows.map(partitionKey))) {
+        const owner = owners.get(key);
+        if (owner) overlaps.add(key);
+        if (!owner || isNewer(file, owner)) owners.set(key, file);
+      }
+    }
+
+    if (overlaps.size > 0) {
+      logger.warn('Overlapping partitions found; keeping rows from the newest file', {
+        partitions: [...overlaps].map(key => `${key.replace('|', ' ')} -> ${owners.get(key)?.name}`)
+      });
+    }
+
+    const merged: SalesData[] = [];
+    for (const file of files) {
+      for (const row of file.rows) {
+        const owner = owners.get(partitionKey(row));
+        if (owner === file) {
+          merged.push(row);
+        } else {
+          this.quality?.drop('superseded_partition', `Month also present in newer file ${owner?.name}`, row);
+        }
+      }
+    }
+
+    logger.info(`Merged ${files.length} CSV files into ${merged.length} rows`);
+    return merged;
+  }
+
+  /**
+   * Transform a mapped CSV row to the typed data structure using the column mapping types
+   */
+  protected transformCSVRow(row: any, mapping: ColumnMapping): SalesData | null {
+    try {
+      // Handle missing or invalid data
+      if (!row || !row.Year || !row['Month Name']) {
+        this.quality?.reject('missing_year_or_month', 'Year and Month Name are required', row || {});
+        return null;
+      }
+
+      // Debug: Check Year field conversion
+      const yearValue = parseInt(row.Year);
+      if (isNaN(yearValue) || yearValue === 0) {
+        console.log(`⚠️ Invalid Year field: "${row.Year}" -> ${yearValue}`);
+        this.quality?.reject('invalid_year', `Unparsable Year "${row.Year}"`, row, 'Year');
+        return null; // Skip invalid rows instead of setting Year to 0
+      }
+
+      const result: Record<string, string | number> = {};
+      for (const column of mapping.columns) {
+        switch (column.type) {
+          case 'number':
+            // Metrics - convert to numbers and handle invalid values
+            result[column.field] = this.parseMetric(row, column.field);
+            break;
+          case 'integer':
+            result[column.field] = Math.trunc(this.parseMetric(row, column.field));
+            break;
+          default:
+            result[column.field] = row[column.field] || '';
+        }
+      }
+      result.Year = yearValue;
+
+      return result as unknown as SalesData;
+    } catch (error) {
+      logger.error('Error transforming CSV row:', error, row);
+      this.quality?.reject('transform_error', error instanceof Error ? error.message : 'Unknown error', row || {});
+      return null;
+    }
+  }
+
+  /**
+   * Parse a metric column, recording values that cannot be read as numbers
+   */
+  protected parseMetric(row: any, column: string): number {
+    const value = row[column];
+    const parsed = this.parseNumber(value);
+    if (parsed === 0 && value !== null && value !== undefined && String(value).trim() !== '' &&
+        isNaN(parseFloat(String(value).replace(/[€£$,\s]/g, '')))) {
+      this.quality?.coerce('invalid_number', column, value, `Unparsable ${column} "${value}" read as 0`);
+    }
+    return parsed;
+  }
+
+  /**
+   * Parse number safely, handling various formats
+   */
+  protected parseNumber(value: any): number {
+    if (value === null || value === undefined || value === '') {
+      return 0;
+    }
+
+    // Remove currency symbols, commas, and spaces
+    const cleaned = String(value).replace(/[€£$,\s]/g, '');
+    const parsed = parseFloat(cleaned);
+
+    return isNaN(parsed) ? 0 : parsed;
+  }
+
+  /**
+   * Get available columns from CSV (for dynamic column support)
+   */
+  async getAvailableColumns(): Promise<string[]> {
+    try {
+      const data = await this.fetchSalesData();
+      if (data.length === 0) {
+        return [];
+      }
+
+      return Object.keys(data[0]);
+    } catch (error) {
+      logger.error('Error getting available columns:', error);
+      return [];
+    }
+  }
+
+  /**
+   * Get data summary statistics
+   */
+  async getDataSummary(): Promise<DataSummary> {
+    try {
+      const data = await this.fetchSalesData();
+      return summarizeSalesData(data);
+    } catch (error) {
+      logger.error('Error getting data summary:', error);
+      throw error;
+    }
+  }
+}
+
+/**
+ * Build summary statistics for a set of sales rows
+ */
+export function summarizeSalesData(data: SalesData[]): DataSummary {
+  const years = [...new Set(data.map(row => row.Year))].sort();
+  const businessAreas = [...new Set(data.map(row => row.Business))].filter(Boolean);
+  const channels = [...new Set(data.map(row => row.Channel))].filter(Boolean);
+
+  return {
+    totalRows: data.length,
+    dateRange: {
+      start: `${Math.min(...years)}`,
+      end: `${Math.max(...years)}`
+    },
+    businessAreas,
+    channels,
+    lastUpdated: new Date().toISOString()
+  };
+}
@@ -0,0 +1,81 @@
+import _ from 'lodash';
+import { ConcentrationMeasure, ConcentrationStats, CustomerConcentration, CustomerDependency, SalesData } from '@/types/data';
+import { toNumber } from '@/utils/number';
+
+// A customer is a dependency of a brand once it takes at least this share (%) of the brand's gSales
+export const DEPENDENCY_SHARE = 25;
+
+// Share (%) of the largest `count` values in their total
+const topShare = (sorted: number[], total: number, count: number): number =>
+  total > 0 ? (_.sum(sorted.slice(0, count)) / total) * 100 : 0;
+
+/**
+ * How concentrated a measure is on few customers. Shares are of the customers with a positive
+ * value, so credits and loss-making customers don't dilute the index; the Herfindahl-Hirschman
+ * index is the sum of squared shares in % (0-10,000, 10,000 for a single customer).
+ */
+export function concentrationStats(rows: SalesData[], measure: 'gSales' | 'fGP'): ConcentrationStats {
+  const byCustomer = new Map<string, number>();
+  for (const row of rows) {
+    if (!row.Customer) continue;
+    byCustomer.set(row.Customer, (byCustomer.get(row.Customer) || 0) + toNumber(row[measure]));
+  }
+  const values = _.orderBy([...byCustomer.values()].filter(value => value > 0), v => v, 'desc');
+  const total = _.sum(values);
+
+  return {
+    customers: values.length,
+    total,
+    hhi: total > 0 ? _.sumBy(values, value => ((value / total) * 100) ** 2) : 0,
+    top1Share: topShare(values, total, 1),
+    top5Share: topShare(values, total, 5),
+    top10Share: topShare(values, total, 10)
+  };
+}
+
+function concentrationMeasure(current: SalesData[], previous: SalesData[], measure: 'gSales' | 'fGP'): ConcentrationMeasure {
+  const now = concentrationStats(current, measure);
+  const before = concentrationStats(previous, measure);
+  return {
+    current: now,
+    previous: before,
+    hhiChange: now.hhi - before.hhi,
+    top1ShareChange: now.top1Share - before.top1Share,
+    top5ShareChange: now.top5Share - before.top5Share,
+    top10ShareChange: now.top10Share - before.top10Share
+  };
+}
+
+/**
+ * Customer concentration of gSales and fGP for a group's current rows, with the change in index
+ * and shares (points) against its rows a year earlier
+ */
+export function buildConcentration(name: string, current: SalesData[], previous: SalesData[]): CustomerConcentration {
+  return {
+    name,
+    revenue: concentrationMeasure(current, previous, 'gSales'),
+    fGP: concentrationMeasure(current, previous, 'fGP')
+  };
+}
+
+/**
+ * Per customer, the brands it takes DEPENDENCY_SHARE or more of the gSales of (of the brand's
+ * customers with positive gSales, as in concentrationStats), largest share first
+ */
+export function brandDependencies(rows: SalesData[]): Map<string, CustomerDependency[]> {
+  const dependencies = new Map<string, CustomerDependency[]>();
+  for (const [brand, brandRows] of Object.entries(_.groupBy(rows.filter(row => row.Brand && row.Customer), 'Brand'))) {
+    const byCustomer = _.mapValues(_.groupBy(brandRows, 'Customer'), customerRows => _.sumBy(customerRows, row => toNumber(row.gSales)));
+    const total = _.sumBy(Object.values(byCustomer), value => Math.max(value, 0));
+    if (total <= 0) continue;
+    for (const [customer, value] of Object.entries(byCustomer)) {
+      const share = (value / total) * 100;
+      if (share < DEPENDENCY_SHARE) continue;
+      dependencies.set(customer, [...(dependencies.get(customer) || []), { name: brand, share }]);
+    }
+  }
+  for (const [customer, brands] of dependencies) {
+    dependencies.set(customer, _.orderBy(brands, 'share', 'desc'));
+  }
+  return dependencies;
+}
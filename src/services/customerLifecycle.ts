@@ -0,0 +1,109 @@
+import _ from 'lodash';
+import { CustomerLifecycle, CustomerLifecycleEntry, CustomerLifecycleStatus, CustomerPeriodStats, SalesData } from '@/types/data';
+import { toNumber } from '@/utils/number';
+
+// A retained customer is at risk once their revenue falls by at least this share
+export const AT_RISK_DECLINE = 0.25;
+
+const TOP_CUSTOMERS = 10;
+
+/**
+ * Net gSales per customer; rows without a customer are left out
+ */
+function revenueByCustomer(rows: SalesData[]): Map<string, number> {
+  const revenue = new Map<string, number>();
+  for (const row of rows) {
+    if (!row.Customer) continue;
+    revenue.set(row.Customer, (revenue.get(row.Customer) || 0) + toNumber(row.gSales));
+  }
+  return revenue;
+}
+
+// Customers with positive net revenue in a period; credits alone don't make a customer active
+const activeCustomers = (revenue: Map<string, number>): Set<string> =>
+  new Set([...revenue].filter(([, value]) => value > 0).map(([customer]) => customer));
+
+function median(values: number[]): number {
+  if (values.length === 0) return 0;
+  const sorted = [...values].sort((a, b) => a - b);
+  const middle = Math.floor(sorted.length / 2);
+  return sorted.length % 2 ? sorted[middle] : (sorted[middle - 1] + sorted[middle]) / 2;
+}
+
+/**
+ * Spread of revenue over the active customers of a period
+ */
+export function customerPeriodStats(rows: SalesData[]): CustomerPeriodStats {
+  const revenue = revenueByCustomer(rows);
+  const values = [...activeCustomers(revenue)].map(customer => revenue.get(customer)!);
+  const total = _.sum(values);
+  const top = _.sum(_.orderBy(values, v => v, 'desc').slice(0, TOP_CUSTOMERS));
+
+  return {
+    customers: values.length,
+    revenue: total,
+    average: values.length ? total / values.length : 0,
+    median: median(values),
+    topRevenue: top,
+    topShare: total > 0 ? (top / total) * 100 : 0,
+    highest: _.max(values) || 0,
+    lowest: _.min(values) || 0
+  };
+}
+
+/**
+ * Classify customers by comparing who was active in the current and comparison periods:
+ * - new: active now and never active before the current period
+ * - retained: active in both periods (at risk when revenue fell by AT_RISK_DECLINE or more)
+ * - recovered: active now, not in the comparison period, but active at some earlier time
+ * - lost: active in the comparison period, not now
+ * `prior` holds the rows of the period before the comparison period (for the previous retention
+ * rate) and `history` the rows of every month before the current period outside the comparison period.
+ */
+export function buildCustomerLifecycle(
+  rows: { current: SalesData[]; previous: SalesData[]; prior: SalesData[]; history: SalesData[] },
+  comparison: string
+): CustomerLifecycle {
+  const currentRevenue = revenueByCustomer(rows.current);
+  const previousRevenue = revenueByCustomer(rows.previous);
+  const current = activeCustomers(currentRevenue);
+  const previous = activeCustomers(previousRevenue);
+  const prior = activeCustomers(revenueByCustomer(rows.prior));
+  const seenBefore = new Set([...prior, ...activeCustomers(revenueByCustomer(rows.history))]);
+
+  const customers: CustomerLifecycleEntry[] = [];
+  for (const customer of new Set([...current, ...previous])) {
+    const before = previousRevenue.get(customer) || 0;
+    const now = currentRevenue.get(customer) || 0;
+    let status: CustomerLifecycleStatus;
+    if (!current.has(customer)) status = 'lost';
+    else if (previous.has(customer)) status = 'retained';
+    else status = seenBefore.has(customer) ? 'recovered' : 'new';
+
+    customers.push({
+      customer,
+      status,
+      previous: before,
+      current: now,
+      change: now - before,
+      atRisk: status === 'retained' && now <= before * (1 - AT_RISK_DECLINE)
+    });
+  }
+
+  const counts = _.countBy(customers, 'status');
+  const retainedFromPrior = [...prior].filter(customer => previous.has(customer)).length;
+
+  return {
+    comparison,
+    current: customerPeriodStats(rows.current),
+    previous: customerPeriodStats(rows.previous),
+    new: counts.new || 0,
+    retained: counts.retained || 0,
+    recovered: counts.recovered || 0,
+    lost: counts.lost || 0,
+    atRisk: customers.filter(c => c.atRisk).length,
+    retentionRate: previous.size ? ((counts.retained || 0) / previous.size) * 100 : null,
+    previousRetentionRate: prior.size ? (retainedFromPrior / prior.size) * 100 : null,
+    customers: _.orderBy(customers, c => Math.abs(c.change), 'desc')
+  };
+}
@@ -0,0 +1,153 @@
+import { DataFilters, DataQualityDimensions, DataQualityIssue, DataQualityReport, DataQualityRuleSummary, DataQualityColumnStats, DataSourceKind } from '@/types/data';
+
+const SAMPLES_PER_RULE = 5;
+const MAX_QUARANTINED_ISSUES = 5000;
+
+// Row field each RLS scope restricts
+const SCOPE_FIELDS: Record<'allowedBusinessAreas' | 'allowedChannels' | 'allowedBrands' | 'allowedCustomers', keyof DataQualityDimensions> = {
+  allowedBusinessAreas: 'Business',
+  allowedChannels: 'Channel',
+  allowedBrands: 'Brand',
+  allowedCustomers: 'Customer'
+};
+
+function rowDimensions(row: Record<string, unknown>): DataQualityDimensions {
+  const dimensions: DataQualityDimensions = {};
+  for (const field of Object.values(SCOPE_FIELDS)) {
+    if (row[field] !== undefined && row[field] !== null) dimensions[field] = String(row[field]);
+  }
+  return dimensions;
+}
+
+/**
+ * Collects rejected and coerced rows while a dataset is loaded and turns them
+ * into a data-quality report. One collector is used per load.
+ */
+export class DataQualityCollector {
+  private files: string[] = [];
+  private currentFile?: string;
+  private currentLine = 0;
+  private currentDimensions: DataQualityDimensions = {};
+  private rowsRead = 0;
+  private rejectedRows = 0;
+  private coercedLines = new Set<string>();
+  private rules = new Map<string, DataQualityRuleSummary>();
+  private quarantine: DataQualityIssue[] = [];
+  private columns = new Map<string, { nullCount: number; zeroCount: number }>();
+  private origins = new WeakMap<object, { file?: string; line: number }>();
+
+  /**
+   * Start reading a new file; line numbers restart from the header
+   */
+  beginFile(file?: string): void {
+    this.currentFile = file;
+    this.currentLine = 1;
+    if (file) this.files.push(file);
+  }
+
+  /**
+   * Register the next raw CSV row and update per-column null/zero counts; `row` is the same row
+   * keyed by mapped field, whose RLS dimensions are attached to the issues found on it.
+   * Line numbers assume one physical line per record (header is line 1).
+   */
+  observe(raw: Record<string, unknown>, row: Record<string, unknown>): void {
+    this.currentLine++;
+    this.rowsRead++;
+    this.currentDimensions = rowDimensions(row);
+    for (const [column, value] of Object.entries(raw)) {
+      const stats = this.columns.get(column) || { nullCount: 0, zeroCount: 0 };
+      const text = value === null || value === undefined ? '' : String(value).trim();
+      if (text === '') {
+        stats.nullCount++;
+      } else if (parseFloat(text.replace(/[€£$,\s]/g, '')) === 0) {
+        stats.zeroCount++;
+      }
+      this.columns.set(column, stats);
+    }
+  }
+
+  /**
+   * Remember where a parsed row came from so later stages can report its line
+   */
+  track(row: object): void {
+    this.origins.set(row, { file: this.currentFile, line: this.currentLine });
+  }
+
+  /**
+   * Record the current row as rejected
+   */
+  reject(rule: string, message: string, raw: Record<string, unknown>, column?: string): void {
+    this.rejectedRows++;
+    this.record({ file: this.currentFile, line: this.currentLine, action: 'rejected', rule, column, message, row: raw, dimensions: this.currentDimensions });
+  }
+
+  /**
+   * Record that a value on the current row was coerced (e.g. unparsable number read as 0)
+   */
+  coerce(rule: string, column: string, value: unknown, message: string): void {
+    this.coercedLines.add(`${this.currentFile || ''}:${this.currentLine}`);
+    this.record({ file: this.currentFile, line: this.currentLine, action: 'coerced', rule, column, value, message, dimensions: this.currentDimensions });
+  }
+
+  /**
+   * Record an already-parsed row that was dropped after parsing (e.g. superseded by a newer partition)
+   */
+  drop(rule: string, message: string, row: object): void {
+    const origin = this.origins.get(row) || { line: 0 };
+    this.rejectedRows++;
+    this.record({ ...origin, action: 'rejected', rule, message, row: row as Record<string, unknown>, dimensions: rowDimensions(row as Record<string, unknown>) });
+  }
+
+  toReport(source: DataSourceKind, rowsAccepted: number): DataQualityReport {
+    const columns: DataQualityColumnStats[] = [...this.columns.entries()].map(([column, stats]) => ({
+      column,
+      nullCount: stats.nullCount,
+      zeroCount: stats.zeroCount,
+      nullRate: this.rowsRead > 0 ? (stats.nullCount / this.rowsRead) * 100 : 0,
+      zeroRate: this.rowsRead > 0 ? (stats.zeroCount / this.rowsRead) * 100 : 0
+    }));
+
+    return {
+      generatedAt: new Date().toISOString(),
+      source,
+      files: this.files,
+      rowsRead: this.rowsRead,
+      rowsAccepted,
+      rowsRejected: this.rejectedRows,
+      rowsCoerced: this.coercedLines.size,
+      rules: [...this.rules.values()].sort((a, b) => b.count - a.count),
+      columns,
+      quarantine: this.quarantine
+    };
+  }
+
+  private record(issue: DataQualityIssue): void {
+    const summary = this.rules.get(issue.rule) || { rule: issue.rule, action: issue.action, count: 0, samples: [] };
+    summary.count++;
+    if (summary.samples.length < SAMPLES_PER_RULE) summary.samples.push(issue);
+    this.rules.set(issue.rule, summary);
+
+    if (this.quarantine.length < MAX_QUARANTINED_ISSUES) this.quarantine.push(issue);
+  }
+}
+
+/**
+ * The report as seen by a user with RLS scopes: quarantined rows and rule samples are limited to
+ * rows inside every scope (rows without the scoped dimensions are left out). Counts and column
+ * stats cover the whole load.
+ */
+export function scopeDataQualityReport(report: DataQualityReport, scopes: DataFilters): DataQualityReport {
+  const restrictions = (Object.keys(SCOPE_FIELDS) as (keyof typeof SCOPE_FIELDS)[])
+    .filter(scope => scopes[scope]?.length)
+    .map(scope => ({ field: SCOPE_FIELDS[scope], allowed: new Set(scopes[scope]) }));
+  if (restrictions.length === 0) return report;
+
+  const visible = (issue: DataQualityIssue) =>
+    restrictions.every(({ field, allowed }) => issue.dimensions?.[field] !== undefined && allowed.has(issue.dimensions[field]!));
+
+  return {
+    ...report,
+    rules: report.rules.map(rule => ({ ...rule, samples: rule.samples.filter(visible) })),
+    quarantine: report.quarantine.filter(visible)
+  };
+}
@@ -0,0 +1,110 @@
+import cron, { ScheduledTask } from 'node-cron';
+import { DataRefreshRun, DataRefreshStatus } from '@/types/data';
+import { logger } from '@/utils/logger';
+import { getSalesDataSource } from '@/services/dataSource';
+
+/**
+ * Polls the sales data source on a cron schedule and reloads it in the background
+ * when its version (blob ETag / file mtime) changes, so requests never wait on a reload.
+ */
+export class DataRefreshService {
+  private schedule: string;
+  private enabled: boolean;
+  private task: ScheduledTask | null = null;
+  private running: Promise<DataRefreshRun> | null = null;
+  private lastRun: DataRefreshRun | null = null;
+  private lastReload: DataRefreshRun | null = null;
+
+  constructor() {
+    this.schedule = process.env.DATA_REFRESH_CRON || '*/5 * * * *';
+    this.enabled = process.env.DATA_REFRESH_ENABLED !== 'false';
+
+    if (!cron.validate(this.schedule)) {
+      throw new Error(`Invalid DATA_REFRESH_CRON expression "${this.schedule}"`);
+    }
+  }
+
+  /**
+   * Start the scheduled refresh (no-op when disabled or already started)
+   */
+  start(): void {
+    if (!this.enabled || this.task) return;
+    this.task = cron.schedule(this.schedule, () => {
+      this.runNow().catch(error => logger.error('Scheduled data refresh failed:', error));
+    });
+    logger.info(`Data refresh scheduled: ${this.schedule}`);
+  }
+
+  stop(): void {
+    this.task?.stop();
+    this.task = null;
+  }
+
+  /**
+   * Check the data source for a new version and reload it if changed.
+   * Overlapping calls share the run already in progress.
+   */
+  runNow(): Promise<DataRefreshRun> {
+    if (!this.running) {
+      this.running = this.refresh().finally(() => {
+        this.running = null;
+      });
+    }
+    return this.running;
+  }
+
+  getStatus(): DataRefreshStatus {
+    const dataSource = getSalesDataSource();
+    return {
+      enabled: this.enabled,
+      schedule: this.schedule,
+      running: this.running !== null,
+      dataSource: dataSource.kind,
+      datasetVersion: dataSource.getDatasetVersion(),
+      lastRun: this.lastRun,
+      lastReload: this.lastReload
+    };
+  }
+
+  private async refresh(): Promise<DataRefreshRun> {
+    const dataSource = getSalesDataSource();
+    const started = Date.now();
+    let run: Omit<DataRefreshRun, 'startedAt' | 'finishedAt' | 'durationMs'>;
+
+    try {
+      if (await dataSource.checkForUpdates()) {
+        // Reloading also clears the aggregates cached from the previous dataset
+        const rows = await dataSource.reload();
+        run = { outcome: 'reloaded', rowCount: rows.length, version: dataSource.getDatasetVersion() };
+      } else {
+        run = { outcome: 'unchanged', version: dataSource.getDatasetVersion() };
+      }
+    } catch (error) {
+      logger.error('Data refresh failed:', error);
+      run = { outcome: 'failed', error: error instanceof Error ? error.message : 'Unknown error' };
+    }
+
+    const finished = Date.now();
+    this.lastRun = {
+      startedAt: new Date(started).toISOString(),
+      finishedAt: new Date(finished).toISOString(),
+      durationMs: finished - started,
+      ...run
+    };
+    if (run.outcome === 'reloaded') {
+      this.lastReload = this.lastRun;
+      logger.info(`Data refresh reloaded ${run.rowCount} rows in ${this.lastRun.durationMs}ms`);
+    }
+    return this.lastRun;
+  }
+}
+
+// Lazy initialization to ensure environment variables are loaded
+let _dataRefreshService: DataRefreshService | null = null;
+
+export const getDataRefreshService = (): DataRefreshService => {
+  if (!_dataRefreshService) {
+    _dataRefreshService = new DataRefreshService();
+  }
+  return _dataRefreshService;
+};
@@ -0,0 +1,97 @@
+import path from 'path';
+import { SalesDataSource } from '@/types/data';
+import { logger } from '@/utils/logger';
+import { AzureService, getAzureService } from '@/services/azureService';
+import { LocalFileDataSource } from '@/services/localFileDataSource';
+import { InMemoryDataSource } from '@/services/inMemoryDataSource';
+
+/**
+ * Create the sales data source selected by DATA_SOURCE (azure | local | memory)
+ */
+function createSalesDataSource(): SalesDataSource {
+  const kind = (process.env.DATA_SOURCE || 'azure').toLowerCase();
+  logger.info(`Using ${kind} sales data source`);
+
+  switch (kind) {
+    case 'azure':
+      return getAzureService();
+    case 'local':
+      return new LocalFileDataSource();
+    case 'memory':
+      return process.env.DATA_FIXTURE_FILE
+        ? InMemoryDataSource.fromFixtureFile(process.env.DATA_FIXTURE_FILE)
+        : new InMemoryDataSource();
+    default:
+      throw new Error(`Unknown DATA_SOURCE "${kind}"; expected azure, local or memory`);
+  }
+}
+
+// Lazy initialization to ensure environment variables are loaded
+let _salesDataSource: SalesDataSource | null = null;
+
+export const getSalesDataSource = (): SalesDataSource => {
+  if (!_salesDataSource) {
+    _salesDataSource = createSalesDataSource();
+  }
+  return _salesDataSource;
+};
+
+/**
+ * Override the active data source (e.g. with an InMemoryDataSource in tests).
+ * Pass null to fall back to the configured source on next access.
+ */
+export const setSalesDataSource = (dataSource: SalesDataSource | null): void => {
+  _salesDataSource = dataSource;
+};
+
+/**
+ * Cache key for a result computed from the current sales dataset. Keys carry the dataset version,
+ * so a result computed from a dataset that has since been swapped out is never read.
+ */
+export const datasetCacheKey = (key: string): string =>
+  `${getSalesDataSource().getDatasetVersion() ?? 'unloaded'}|${key}`;
+
+/**
+ * Create the budget/forecast source: the plan file (PLAN_CSV_FILENAME or PLAN_CSV_PATTERN) read from
+ * PLAN_DATA_SOURCE (defaults to DATA_SOURCE), or a PLAN_FIXTURE_FILE for the memory source.
+ * Returns null when no plan is configured.
+ */
+function createPlanDataSource(): SalesDataSource | null {
+  const kind = (process.env.PLAN_DATA_SOURCE || process.env.DATA_SOURCE || 'azure').toLowerCase();
+  const csvFileName = process.env.PLAN_CSV_FILENAME;
+  const csvPattern = process.env.PLAN_CSV_PATTERN || null;
+  const columnMappingFile = process.env.PLAN_COLUMN_MAPPING_FILE || path.join(__dirname, '../../config/plan-column-mapping.json');
+
+  if (kind === 'memory') {
+    if (!process.env.PLAN_FIXTURE_FILE) return null;
+    logger.info('Using memory plan data source');
+    return InMemoryDataSource.fromFixtureFile(process.env.PLAN_FIXTURE_FILE);
+  }
+  if (!csvFileName && !csvPattern) return null;
+
+  logger.info(`Using ${kind} plan data source`);
+  switch (kind) {
+    case 'azure':
+      return new AzureService({ csvFileName, csvPattern, columnMappingFile });
+    case 'local':
+      return new LocalFileDataSource(undefined, csvFileName, { csvPattern, columnMappingFile });
+    default:
+      throw new Error(`Unknown PLAN_DATA_SOURCE "${kind}"; expected azure, local or memory`);
+  }
+}
+
+let _planDataSource: SalesDataSource | null | undefined;
+
+export const getPlanDataSource = (): SalesDataSource | null => {
+  if (_planDataSource === undefined) {
+    _planDataSource = createPlanDataSource();
+  }
+  return _planDataSource;
+};
+
+/**
+ * Override the plan data source. Pass undefined to fall back to the configured source on next access.
+ */
+export const setPlanDataSource = (dataSource: SalesDataSource | null | undefined): void => {
+  _planDataSource = dataSource;
+};
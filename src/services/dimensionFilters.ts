@@ -0,0 +1,94 @@
+import { FilterDimension, FilterExclusions, FilterValue } from '@/types/data';
+import { ColumnarDataset, DimensionField, DimensionPredicates, restrictDimension } from './columnarDataset';
+
+// SalesData column behind each DataFilters dimension
+export const FILTER_DIMENSIONS: Record<FilterDimension, DimensionField> = {
+  month: 'Month Name',
+  businessArea: 'Business',
+  brand: 'Brand',
+  category: 'Category',
+  subCategory: 'Sub-Cat',
+  channel: 'Channel',
+  customer: 'Customer'
+};
+
+// Turns a filter value into the SalesData values it stands for (e.g. report business-area aliases)
+export type FilterExpansion = (value: string) => string[];
+
+/**
+ * Selected values of a filter; empty when unset, 'All', or a list containing 'All'
+ */
+export function filterValues(value?: FilterValue | null): string[] {
+  if (value === undefined || value === null) return [];
+  const values = (Array.isArray(value) ? value : [value]).map(String).filter(v => v !== '');
+  return values.includes('All') ? [] : values;
+}
+
+/**
+ * Whether a filter restricts its dimension
+ */
+export function hasFilter(value?: FilterValue | null): boolean {
+  return filterValues(value).length > 0;
+}
+
+/**
+ * The filter's value when exactly one is selected
+ */
+export function soleFilterValue(value?: FilterValue | null): string | undefined {
+  const values = filterValues(value);
+  return values.length === 1 ? values[0] : undefined;
+}
+
+/**
+ * Row-level check: the value is one of the included values (if any) and none of the excluded ones
+ */
+export function matchesFilter(value: unknown, include?: FilterValue | null, exclude?: string[], expand?: FilterExpansion): boolean {
+  const expanded = (values: string[]) => (expand ? values.flatMap(expand) : values);
+  const included = expanded(filterValues(include));
+  if (included.length && !included.includes(value as string)) return false;
+  return !expanded(exclude || []).includes(value as string);
+}
+
+/**
+ * Row-level check across alternative columns (e.g. Customer / UK Customer / NI Customer):
+ * any column may hold an included value, and no column may hold an excluded one
+ */
+export function matchesAnyFilter(values: unknown[], include?: FilterValue | null, exclude?: string[]): boolean {
+  const included = filterValues(include);
+  if (included.length && !values.some(value => included.includes(value as string))) return false;
+  return !values.some(value => (exclude || []).includes(value as string));
+}
+
+/**
+ * Add include and exclude lists for every DataFilters dimension to the predicates.
+ * Exclusions become allow-lists of the dimension's remaining values.
+ */
+export function restrictToFilters(
+  predicates: DimensionPredicates,
+  dataset: ColumnarDataset,
+  filters: Partial<Record<FilterDimension, FilterValue>> & { not?: FilterExclusions },
+  expansions: Partial<Record<FilterDimension, FilterExpansion>> = {}
+): void {
+  for (const [dimension, field] of Object.entries(FILTER_DIMENSIONS) as Array<[FilterDimension, DimensionField]>) {
+    const expand = expansions[dimension] || ((value: string) => [value]);
+    const included = filterValues(filters[dimension]).flatMap(expand);
+    if (included.length) {
+      restrictDimension(predicates, field, included);
+    }
+    const excluded = new Set((filters.not?.[dimension] || []).flatMap(expand));
+    if (excluded.size) {
+      restrictDimension(predicates, field, dataset.distinct(field).filter(value => !excluded.has(value as string)));
+    }
+  }
+}
+
+/**
+ * Row-level check of every DataFilters dimension (include lists and exclusions)
+ */
+export function matchesFilters(
+  row: Partial<Record<DimensionField, unknown>>,
+  filters: Partial<Record<FilterDimension, FilterValue>> & { not?: FilterExclusions }
+): boolean {
+  return (Object.entries(FILTER_DIMENSIONS) as Array<[FilterDimension, DimensionField]>)
+    .every(([dimension, field]) => matchesFilter(row[field], filters[dimension], filters.not?.[dimension]));
+}
@@ -0,0 +1,147 @@
+import { FiscalCalendarInfo, FiscalPeriod, FiscalPeriodPattern } from '@/types/data';
+import { periodKey } from '@/services/columnarDataset';
+import { logger } from '@/utils/logger';
+
+const MONTHS = ['Jan', 'Feb', 'Mar', 'Apr', 'May', 'Jun', 'Jul', 'Aug', 'Sep', 'Oct', 'Nov', 'Dec'];
+
+// Weeks per period within each quarter
+const PATTERN_WEEKS: Record<Exclude<FiscalPeriodPattern, 'calendar'>, number[]> = {
+  '4-4-5': [4, 4, 5],
+  '4-5-4': [4, 5, 4],
+  '5-4-4': [5, 4, 4]
+};
+
+/**
+ * Fiscal calendar over the monthly sales data. The fiscal year starts on a configurable
+ * month and is named after the calendar year it ends in (start Jul: Jul 2024 - Jun 2025 is
+ * FY2025). With a 4-4-5 style pattern each monthly bucket is treated as one retail period
+ * and carries its week range.
+ */
+export class FiscalCalendar {
+  readonly periods: FiscalPeriod[];
+  private readonly periodByMonth = new Map<string, FiscalPeriod>();
+
+  constructor(readonly startMonth: number = 1, readonly pattern: FiscalPeriodPattern = 'calendar') {
+    if (!Number.isInteger(startMonth) || startMonth < 1 || startMonth > 12) {
+      throw new Error(`Fiscal year start month must be 1-12, got ${startMonth}`);
+    }
+    if (pattern !== 'calendar' && !PATTERN_WEEKS[pattern]) {
+      throw new Error(`Unknown fiscal period pattern "${pattern}" (expected calendar, 4-4-5, 4-5-4 or 5-4-4)`);
+    }
+
+    let week = 1;
+    this.periods = Array.from({ length: 12 }, (_, i) => {
+      const month = MONTHS[(startMonth - 1 + i) % 12];
+      const period = i + 1;
+      let weeks: FiscalPeriod['weeks'] = null;
+      if (pattern !== 'calendar') {
+        const length = PATTERN_WEEKS[pattern][i % 3];
+        weeks = { start: week, end: week + length - 1 };
+        week += length;
+      }
+      return {
+        period,
+        month,
+        quarter: Math.ceil(period / 3),
+        label: pattern === 'calendar' ? month : `P${period}`,
+        weeks
+      };
+    });
+    for (const period of this.periods) this.periodByMonth.set(period.month, period);
+  }
+
+  /**
+   * Build from FISCAL_YEAR_START_MONTH (1-12 or a month name) and FISCAL_PERIOD_PATTERN
+   */
+  static fromEnv(): FiscalCalendar {
+    const rawStart = (process.env.FISCAL_YEAR_START_MONTH || '1').trim();
+    const byName = MONTHS.findIndex(m => m.toLowerCase() === rawStart.slice(0, 3).toLowerCase());
+    const startMonth = /^\d+$/.test(rawStart) ? parseInt(rawStart, 10) : byName + 1;
+    const pattern = (process.env.FISCAL_PERIOD_PATTERN || 'calendar').trim() as FiscalPeriodPattern;
+    const calendar = new FiscalCalendar(startMonth, pattern);
+    logger.info(`Fiscal calendar: year starts ${MONTHS[startMonth - 1]}, ${pattern} periods`);
+    return calendar;
+  }
+
+  /**
+   * Month names in fiscal order
+   */
+  months(): string[] {
+    return this.periods.map(p => p.month);
+  }
+
+  /**
+   * Fiscal period number (1-12) of a month name, 0 if unknown
+   */
+  periodOf(month: string): number {
+    return this.periodByMonth.get(month)?.period || 0;
+  }
+
+  /**
+   * Month names of fiscal quarter 1-4
+   */
+  quarterMonths(quarter: number): string[] {
+    return this.periods.filter(p => p.quarter === quarter).map(p => p.month);
+  }
+
+  /**
+   * Fiscal year a calendar month belongs to
+   */
+  fiscalYear(year: number | string, month: string): number {
+    const y = typeof year === 'string' ? parseInt(year) : year;
+    const m = MONTHS.indexOf(month) + 1;
+    return this.startMonth > 1 && m >= this.startMonth ? y + 1 : y;
+  }
+
+  /**
+   * Fiscal year of a period key (see periodKey)
+   */
+  fiscalYearOfPeriod(period: number): number {
+    return this.fiscalYear(Math.floor(period / 12), MONTHS[period % 12]);
+  }
+
+  /**
+   * Fiscal year containing a date
+   */
+  fiscalYearOfDate(date: Date): number {
+    return this.fiscalYear(date.getFullYear(), MONTHS[date.getMonth()]);
+  }
+
+  /**
+   * Period keys (see periodKey) of the months in a fiscal year, optionally only up to a fiscal period
+   */
+  yearPeriods(fiscalYear: number, uptoPeriod = 12): number[] {
+    return this.periods
+      .filter(p => p.period <= uptoPeriod)
+      .map(p => periodKey(this.startMonth > 1 && MONTHS.indexOf(p.month) + 1 >= this.startMonth ? fiscalYear - 1 : fiscalYear, p.month));
+  }
+
+  label(month: string): string {
+    return this.periodByMonth.get(month)?.label || month;
+  }
+
+  describe(): FiscalCalendarInfo {
+    return {
+      startMonth: this.startMonth,
+      startMonthName: MONTHS[this.startMonth - 1],
+      pattern: this.pattern,
+      periods: this.periods
+    };
+  }
+}
+
+// Lazy initialization to ensure environment variables are loaded
+let _fiscalCalendar: FiscalCalendar | null = null;
+export const getFiscalCalendar = (): FiscalCalendar => {
+  if (!_fiscalCalendar) {
+    _fiscalCalendar = FiscalCalendar.fromEnv();
+  }
+  return _fiscalCalendar;
+};
+
+/**
+ * Override the active fiscal calendar (e.g. in tests)
+ */
+export const setFiscalCalendar = (calendar: FiscalCalendar): void => {
+  _fiscalCalendar = calendar;
+};
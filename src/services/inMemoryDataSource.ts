@@ -0,0 +1,91 @@
+import fs from 'fs';
+import { SalesData, SalesDataSource, DataFetchMeta, DataSummary, DataQualityReport } from '@/types/data';
+import { logger } from '@/utils/logger';
+import { summarizeSalesData } from '@/services/csvDataSource';
+import { SalesCube } from '@/services/salesCube';
+import { cacheService } from '@/services/cacheService';
+
+/**
+ * Serves a fixed set of sales rows held in memory (fixtures for tests and demos)
+ */
+export class InMemoryDataSource implements SalesDataSource {
+  readonly kind = 'memory' as const;
+  private rows: SalesData[];
+  private lastFetchMeta: DataFetchMeta;
+
+  constructor(rows: SalesData[] = []) {
+    this.rows = rows;
+    SalesCube.for(rows);
+    this.lastFetchMeta = {
+      source: 'memory',
+      rowCount: rows.length,
+      lastUpdated: new Date().toISOString()
+    };
+  }
+
+  /**
+   * Create a data source from a JSON fixture file containing a SalesData[] array
+   */
+  static fromFixtureFile(filePath: string): InMemoryDataSource {
+    const rows = JSON.parse(fs.readFileSync(filePath, 'utf-8'));
+    if (!Array.isArray(rows)) {
+      throw new Error(`Fixture file must contain a JSON array of sales rows: ${filePath}`);
+    }
+    logger.info(`Loaded ${rows.length} fixture rows from ${filePath}`);
+    return new InMemoryDataSource(rows as SalesData[]);
+  }
+
+  /**
+   * Replace the fixture rows
+   */
+  setData(rows: SalesData[]): void {
+    this.rows = rows;
+    SalesCube.for(rows);
+    this.lastFetchMeta = {
+      source: 'memory',
+      rowCount: rows.length,
+      lastUpdated: new Date().toISOString()
+    };
+    // Aggregates cached from the previous rows are no longer valid
+    void cacheService.clear();
+  }
+
+  async fetchSalesData(): Promise<SalesData[]> {
+    return this.rows;
+  }
+
+  getLastFetchMeta(): DataFetchMeta {
+    return this.lastFetchMeta;
+  }
+
+  async getAvailableColumns(): Promise<string[]> {
+    return this.rows.length ? Object.keys(this.rows[0]) : [];
+  }
+
+  async checkForUpdates(): Promise<boolean> {
+    return false;
+  }
+
+  async reload(): Promise<SalesData[]> {
+    return this.rows;
+  }
+
+  getDatasetVersion(): string | null {
+    return this.lastFetchMeta.lastUpdated;
+  }
+
+  /**
+   * Fixtures are not validated, so there is no data-quality report
+   */
+  getDataQualityReport(): DataQualityReport | null {
+    return null;
+  }
+
+  async testConnection(): Promise<boolean> {
+    return true;
+  }
+
+  async getDataSummary(): Promise<DataSummary> {
+    return summarizeSalesData(this.rows);
+  }
+}
@@ -0,0 +1,121 @@
+import fs from 'fs';
+import path from 'path';
+import { SalesData } from '@/types/data';
+import { logger } from '@/utils/logger';
+import { CsvDataSource, CsvPartitionFile, CsvSourceOptions } from '@/services/csvDataSource';
+import { globToRegExp } from '@/utils/glob';
+
+/**
+ * Reads the sales CSV from a directory on the local filesystem.
+ * Intended for laptops and tests that must not touch the production storage account.
+ */
+export class LocalFileDataSource extends CsvDataSource {
+  readonly kind = 'local' as const;
+  private dataDir: string;
+  private csvFileName: string;
+  private csvPattern?: string;
+
+  constructor(dataDir?: string, csvFileName?: string, options: Omit<CsvSourceOptions, 'csvFileName'> = {}) {
+    super();
+    this.dataDir = path.resolve(dataDir || process.env.LOCAL_DATA_DIR || path.join(process.cwd(), 'data'));
+    this.csvFileName = csvFileName || process.env.LOCAL_CSV_FILENAME || 'yearly_data.csv';
+    // Optional glob (relative to the data directory) for partitioned extracts, e.g. sales/**/*.csv
+    this.csvPattern = (options.csvPattern !== undefined ? options.csvPattern : process.env.LOCAL_CSV_PATTERN) || undefined;
+    this.columnMappingFile = options.columnMappingFile;
+
+    logger.info('Local file data source initialized', {
+      dataDir: this.dataDir,
+      csvFileName: this.csvFileName,
+      csvPattern: this.csvPattern
+    });
+  }
+
+  private get filePath(): string {
+    return path.join(this.dataDir, this.csvFileName);
+  }
+
+  /**
+   * Read and parse the CSV file from disk
+   */
+  protected async loadRows(): Promise<SalesData[]> {
+    if (this.csvPattern) {
+      return this.loadPartitionedRows();
+    }
+
+    logger.info(`Reading CSV data from local file: ${this.filePath}`);
+    if (!fs.existsSync(this.filePath)) {
+      throw new Error(`CSV file not found: ${this.filePath}`);
+    }
+    return this.parseCSVStream(fs.createReadStream(this.filePath), this.csvFileName);
+  }
+
+  /**
+   * Read every file matching the configured pattern and merge them
+   */
+  private async loadPartitionedRows(): Promise<SalesData[]> {
+    const partitions = await this.listPartitionFiles();
+    if (partitions.length === 0) {
+      throw new Error(`No CSV files match: ${path.join(this.dataDir, this.csvPattern || '')}`);
+    }
+    logger.info(`Found ${partitions.length} CSV partitions`, { files: partitions.map(p => p.name) });
+
+    const files: Array<CsvPartitionFile & { rows: SalesData[] }> = [];
+    for (const partition of partitions) {
+      const rows = await this.parseCSVStream(fs.createReadStream(path.join(this.dataDir, partition.name)), partition.name);
+      files.push({ ...partition, rows });
+    }
+
+    return this.mergePartitions(files);
+  }
+
+  /**
+   * Walk the data directory and list files whose relative path matches the configured pattern
+   */
+  private async listPartitionFiles(): Promise<CsvPartitionFile[]> {
+    const matcher = globToRegExp(this.csvPattern || '');
+    const files: CsvPartitionFile[] = [];
+
+    const walk = async (relativeDir: string): Promise<void> => {
+      const entries = await fs.promises.readdir(path.join(this.dataDir, relativeDir), { withFileTypes: true });
+      for (const entry of entries) {
+        const relativePath = relativeDir ? `${relativeDir}/${entry.name}` : entry.name;
+        if (entry.isDirectory()) {
+          await walk(relativePath);
+        } else if (entry.isFile() && matcher.test(relativePath)) {
+          const { mtimeMs } = await fs.promises.stat(path.join(this.dataDir, relativePath));
+          files.push({ name: relativePath, lastModified: mtimeMs });
+        }
+      }
+    };
+
+    await walk('');
+    return files.sort((a, b) => a.name.localeCompare(b.name));
+  }
+
+  /**
+   * Modification time and size of the configured file or partitions
+   */
+  protected async getSourceVersion(): Promise<string> {
+    const names = this.csvPattern
+      ? (await this.listPartitionFiles()).map(f => f.name)
+      : [this.csvFileName];
+    const versions = await Promise.all(names.map(async name => {
+      const { mtimeMs, size } = await fs.promises.stat(path.join(this.dataDir, name));
+      return `${name}@${mtimeMs}-${size}`;
+    }));
+    return versions.join(';');
+  }
+
+  /**
+   * Verify the data directory is readable
+   */
+  async testConnection(): Promise<boolean> {
+    try {
+      await fs.promises.access(this.dataDir, fs.constants.R_OK);
+      return true;
+    } catch (error) {
+      logger.error(`Local data directory not readable: ${this.dataDir}`, error);
+      return false;
+    }
+  }
+}
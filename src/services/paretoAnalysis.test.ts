@@ -0,0 +1,55 @@
+import { SalesData } from '@/types/data';
+import { buildPareto, parseParetoCutoffs } from './paretoAnalysis';
+
+const rows = (sales: Record<string, number>): SalesData[] =>
+  Object.entries(sales).map(([brand, gSales]) => ({ Brand: brand, gSales } as SalesData));
+
+describe('parseParetoCutoffs', () => {
+  it('reads three shares adding up to 100', () => {
+    expect(parseParetoCutoffs('80, 15, 5')).toEqual([80, 15, 5]);
+  });
+
+  it('rejects other shares', () => {
+    expect(() => parseParetoCutoffs('80,15')).toThrow('expected 3 positive shares');
+    expect(() => parseParetoCutoffs('80,15,-5')).toThrow('expected 3 positive shares');
+    expect(() => parseParetoCutoffs('70,20,5')).toThrow('must add up to 100');
+  });
+});
+
+describe('buildPareto', () => {
+  const data = rows({ Alio: 500, Killeen: 300, Centra: 100, Goddards: 60, Babykind: 30, Powerforce: 10, Returns: -20 });
+
+  it('ranks members with their share and cumulative share of the positive total', () => {
+    const { items, total } = buildPareto(data, 'Brand', 'gSales', [80, 15, 5]);
+
+    expect(total).toBe(980);
+    expect(items.map(item => item.name)).toEqual(['Alio', 'Killeen', 'Centra', 'Goddards', 'Babykind', 'Powerforce', 'Returns']);
+    expect(items[0]).toMatchObject({ rank: 1, share: 50, cumulativeShare: 50 });
+    expect(items[5].cumulativeShare).toBeCloseTo(100, 6);
+    expect(items[6]).toMatchObject({ share: -2, cumulativeShare: items[5].cumulativeShare });
+  });
+
+  it('keeps the member crossing a cut-off in the higher band', () => {
+    const { items } = buildPareto(data, 'Brand', 'gSales', [80, 15, 5]);
+    const classOf = (name: string) => items.find(item => item.name === name)!.class;
+
+    // Alio and Killeen reach exactly 80%; Goddards crosses 95%
+    expect(['Alio', 'Killeen'].map(classOf)).toEqual(['A', 'A']);
+    expect(['Centra', 'Goddards'].map(classOf)).toEqual(['B', 'B']);
+    expect(['Babykind', 'Powerforce'].map(classOf)).toEqual(['C', 'C']);
+  });
+
+  it('puts members without a positive value in the last band', () => {
+    const { items, classes } = buildPareto(data, 'Brand', 'gSales', [80, 15, 5]);
+
+    expect(items.find(item => item.name === 'Returns')!.class).toBe('C');
+    expect(classes.map(c => c.members)).toEqual([2, 2, 3]);
+    expect(classes[0].valueShare).toBeCloseTo(80, 6);
+  });
+
+  it('moves members between bands with the cut-offs', () => {
+    const { classes } = buildPareto(data, 'Brand', 'gSales', [50, 30, 20]);
+
+    expect(classes.map(c => c.members)).toEqual([1, 1, 5]);
+  });
+});
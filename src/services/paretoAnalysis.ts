@@ -0,0 +1,72 @@
+import _ from 'lodash';
+import { ParetoClass, ParetoItem, ParetoResult, SalesData } from '@/types/data';
+import { toNumber } from '@/utils/number';
+
+export const PARETO_CLASSES: ParetoClass[] = ['A', 'B', 'C'];
+
+/**
+ * Parse A/B/C cut-offs given as each band's share of the measure ("80,15,5"). Throws unless there
+ * are three positive shares adding up to 100.
+ */
+export function parseParetoCutoffs(value: string): number[] {
+  const cutoffs = value.split(',').map(part => Number(part.trim()));
+  if (cutoffs.length !== PARETO_CLASSES.length || cutoffs.some(c => !Number.isFinite(c) || c <= 0)) {
+    throw new Error(`Invalid ABC cut-offs "${value}": expected ${PARETO_CLASSES.length} positive shares such as 80,15,5`);
+  }
+  if (Math.abs(_.sum(cutoffs) - 100) > 1e-6) {
+    throw new Error(`Invalid ABC cut-offs "${value}": shares must add up to 100`);
+  }
+  return cutoffs;
+}
+
+/**
+ * Rank every member of a dimension by a measure with its share and cumulative share of the
+ * positive total. A member belongs to the first class whose cumulative cut-off (80, 95, 100 for
+ * 80/15/5) was not yet reached before it, so the member crossing a cut-off stays in the higher
+ * class. Members with no positive value close the ranking in the last class.
+ */
+export function buildPareto(rows: SalesData[], dimension: keyof SalesData, metric: string, cutoffs: number[]): ParetoResult {
+  const values = _.map(_.groupBy(rows, dimension as string), (items, name) => ({
+    name,
+    value: _.sumBy(items, row => toNumber(row[metric as keyof SalesData]))
+  }));
+  const ranked = _.orderBy(values, ['value', 'name'], ['desc', 'asc']);
+  const positiveTotal = _.sumBy(ranked, item => Math.max(item.value, 0));
+  const bounds = cutoffs.map((cutoff, i) => _.sum(cutoffs.slice(0, i)) + cutoff);
+
+  let cumulative = 0;
+  const items: ParetoItem[] = ranked.map((item, i) => {
+    const share = positiveTotal > 0 ? (item.value / positiveTotal) * 100 : 0;
+    const classIndex = item.value > 0 ? bounds.findIndex(bound => cumulative < bound - 1e-9) : -1;
+    if (item.value > 0) cumulative += share;
+    return {
+      rank: i + 1,
+      name: item.name,
+      value: item.value,
+      share,
+      cumulativeShare: cumulative,
+      class: PARETO_CLASSES[classIndex >= 0 ? classIndex : PARETO_CLASSES.length - 1]
+    };
+  });
+
+  const total = _.sumBy(items, 'value');
+  return {
+    dimension: String(dimension),
+    metric,
+    total,
+    members: items.length,
+    cutoffs: _.zipObject(PARETO_CLASSES, cutoffs) as Record<ParetoClass, number>,
+    classes: PARETO_CLASSES.map(paretoClass => {
+      const members = items.filter(item => item.class === paretoClass);
+      const value = _.sumBy(members, 'value');
+      return {
+        class: paretoClass,
+        members: members.length,
+        memberShare: items.length ? (members.length / items.length) * 100 : 0,
+        value,
+        valueShare: positiveTotal > 0 ? (value / positiveTotal) * 100 : 0
+      };
+    }),
+    items
+  };
+}
@@ -0,0 +1,110 @@
+import _ from 'lodash';
+import { DataFilters, PeriodComparison, PeriodWindow } from '@/types/data';
+import { periodKey, periodMonth } from './columnarDataset';
+import { filterValues } from './dimensionFilters';
+import { getFiscalCalendar } from './fiscalCalendar';
+
+// Rolling windows: number of months ending at the anchor month
+export const ROLLING_WINDOWS: Record<string, number> = { R3M: 3, R6M: 6, R12M: 12 };
+
+export const CUSTOM_PERIOD = 'custom';
+
+// Month references in from/to parameters
+export const MONTH_REF_PATTERN = /^(\d{4})-(0[1-9]|1[0-2])$/;
+
+const MONTHS = ['Jan', 'Feb', 'Mar', 'Apr', 'May', 'Jun', 'Jul', 'Aug', 'Sep', 'Oct', 'Nov', 'Dec'];
+
+/**
+ * Period key of a YYYY-MM month reference, -1 if malformed
+ */
+export function parseMonthRef(value: string): number {
+  const match = MONTH_REF_PATTERN.exec(value);
+  return match ? periodKey(parseInt(match[1], 10), MONTHS[parseInt(match[2], 10) - 1]) : -1;
+}
+
+/**
+ * YYYY-MM month reference of a period key
+ */
+export function formatMonthRef(period: number): string {
+  return `${Math.floor(period / 12)}-${String((period % 12) + 1).padStart(2, '0')}`;
+}
+
+/**
+ * Whether the filters ask for a rolling or custom window rather than a calendar period
+ */
+export function isWindowPeriod(filters: Pick<DataFilters, 'period' | 'from'>): boolean {
+  if (filters.period) return filters.period in ROLLING_WINDOWS || filters.period === CUSTOM_PERIOD;
+  return !!filters.from;
+}
+
+/**
+ * The same number of months shifted back a year (priorYear) or immediately before the window (priorPeriod)
+ */
+export function shiftPeriods(periods: number[], comparison: PeriodComparison, times = 1): number[] {
+  const step = comparison === 'priorYear' ? 12 : periods.length;
+  return periods.map(period => period - step * times);
+}
+
+/**
+ * Resolve a rolling or custom period to its months. Rolling windows end at `to`, else at the
+ * selected (fiscal) year and month, else at the latest month with data.
+ */
+export function resolvePeriodWindow(filters: DataFilters, latestPeriod: number): PeriodWindow | undefined {
+  if (!isWindowPeriod(filters)) return undefined;
+
+  const period = filters.period || CUSTOM_PERIOD;
+  const end = filters.to ? parseMonthRef(filters.to) : anchorPeriod(filters, latestPeriod);
+  const start = period === CUSTOM_PERIOD
+    ? (filters.from ? parseMonthRef(filters.from) : -1)
+    : end - ROLLING_WINDOWS[period] + 1;
+  if (start < 0 || end < 0 || start > end) {
+    throw new Error(`Invalid ${period} period: from ${filters.from || '?'} to ${filters.to || '?'}`);
+  }
+
+  return periodsWindow(_.range(start, end + 1), filters.compare || 'priorYear', period);
+}
+
+/**
+ * Window over an explicit, ascending list of period keys
+ */
+export function periodsWindow(periods: number[], comparison: PeriodComparison = 'priorYear', period = CUSTOM_PERIOD): PeriodWindow {
+  const start = _.first(periods)!;
+  const end = _.last(periods)!;
+  return {
+    period,
+    from: formatMonthRef(start),
+    to: formatMonthRef(end),
+    months: periods.length,
+    periods,
+    comparison,
+    comparisonPeriods: shiftPeriods(periods, comparison),
+    fiscalYear: getFiscalCalendar().fiscalYearOfPeriod(end)
+  };
+}
+
+/**
+ * The window the given window is compared with (by default its own comparison)
+ */
+export function comparisonWindow(window: PeriodWindow, comparison: PeriodComparison = window.comparison): PeriodWindow {
+  return periodsWindow(shiftPeriods(window.periods, comparison), comparison);
+}
+
+/**
+ * Last month of a window without `to`: the latest selected month of the selected fiscal year,
+ * falling back to the latest month with data
+ */
+function anchorPeriod(filters: DataFilters, latestPeriod: number): number {
+  const calendar = getFiscalCalendar();
+  const month = _.maxBy(filterValues(filters.month), m => calendar.periodOf(m));
+  if (filters.year) {
+    const yearPeriods = calendar.yearPeriods(filters.year);
+    const inYear = month
+      ? yearPeriods.filter(p => periodMonth(p) === month)
+      : yearPeriods.filter(p => p <= latestPeriod);
+    return inYear.length ? _.max(inYear)! : _.last(yearPeriods)!;
+  }
+  if (month && latestPeriod >= 0) {
+    return latestPeriod - ((latestPeriod % 12) - MONTHS.indexOf(month) + 12) % 12;
+  }
+  return latestPeriod;
+}
@@ -0,0 +1,79 @@
+import { PlanScenario, SalesData } from '@/types/data';
+import { SalesCube } from './salesCube';
+
+// Scenario column value of each plan scenario (matched case-insensitively)
+export const PLAN_SCENARIOS: Record<PlanScenario, string> = {
+  budget: 'Budget',
+  forecast: 'Forecast'
+};
+
+// Report row fields that identify a row; detail reports repeat names across brands and sub-categories
+const ROW_KEY_FIELDS = ['brand', 'subCategory', 'name'];
+
+// Scenario rows keyed by the plan array they were taken from
+const scenarios = new WeakMap<SalesData[], Map<PlanScenario, SalesData[]>>();
+
+/**
+ * Plan rows of one scenario, cubed like the actuals so report SUMIFS read from pre-aggregates
+ */
+export function scenarioRows(rows: SalesData[], scenario: PlanScenario): SalesData[] {
+  let byScenario = scenarios.get(rows);
+  if (!byScenario) {
+    byScenario = new Map();
+    scenarios.set(rows, byScenario);
+  }
+
+  let selected = byScenario.get(scenario);
+  if (!selected) {
+    const label = PLAN_SCENARIOS[scenario].toLowerCase();
+    selected = rows.filter(row => String(row.Scenario || '').trim().toLowerCase() === label);
+    SalesCube.for(selected);
+    byScenario.set(scenario, selected);
+  }
+  return selected;
+}
+
+const rowKey = (row: any): string => ROW_KEY_FIELDS.map(field => row[field] ?? '').join('\u0001');
+
+// Variance as a percentage of the plan, 0 without a plan (IFERROR)
+const varianceShare = (variance: number, plan: number): number =>
+  plan !== 0 ? Math.round((variance / Math.abs(plan)) * 1000) / 10 : 0;
+
+/**
+ * Add the plan values of a scenario and the variance against them to report rows, next to the
+ * last-year columns. Plan rows are matched by name (and brand/sub-category); rows the plan does
+ * not cover are compared with a plan of 0.
+ * - metric groups ({ ytd, ly, lyVar, ... }) gain `budget`, `budgetVar` and `budgetVarPercent`
+ *   (`forecast...` likewise); percentage groups such as fGPPercent get the variance in points only
+ * - P&L lines ({ valueCurrent, valuePrevious, ... }) gain `valueBudget`, `varianceBudget`,
+ *   `variancePercentBudget`, `percentSalesBudget` and `percentSalesVarBudget`
+ */
+export function attachPlanColumns(rows: any[], planRows: any[], scenario: PlanScenario): void {
+  const plans = new Map(planRows.map(row => [rowKey(row), row]));
+  const suffix = PLAN_SCENARIOS[scenario];
+
+  for (const row of rows) {
+    const plan = plans.get(rowKey(row)) || {};
+
+    if (typeof row.valueCurrent === 'number') {
+      const value = plan.valueCurrent ?? 0;
+      const percentSales = plan.percentSalesCurrent ?? 0;
+      row[`value${suffix}`] = value;
+      row[`variance${suffix}`] = row.valueCurrent - value;
+      row[`variancePercent${suffix}`] = varianceShare(row.valueCurrent - value, value);
+      row[`percentSales${suffix}`] = percentSales;
+      row[`percentSalesVar${suffix}`] = row.percentSalesCurrent - percentSales;
+      continue;
+    }
+
+    for (const [group, values] of Object.entries<any>(row)) {
+      if (!values || typeof values !== 'object' || typeof values.ytd !== 'number' || !('lyVar' in values)) continue;
+      const value = plan[group]?.ytd ?? 0;
+      values[scenario] = value;
+      values[`${scenario}Var`] = values.ytd - value;
+      if (!group.endsWith('Percent')) {
+        values[`${scenario}VarPercent`] = varianceShare(values.ytd - value, value);
+      }
+    }
+  }
+}
@@ -0,0 +1,390 @@
+import Joi from 'joi';
+import {
+  SalesData,
+  DataFilters,
+  QueryComparison,
+  QueryFilter,
+  QueryMeasure,
+  QueryResult,
+  QueryResultRow,
+  QuerySpec,
+  QueryValues
+} from '@/types/data';
+import { datasetCacheKey, getSalesDataSource } from '@/services/dataSource';
+import { cacheService } from '@/services/cacheService';
+import { restrictToScopes } from '@/services/analyticsService';
+import {
+  ColumnarDataset,
+  DIMENSION_FIELDS,
+  MEASURE_FIELDS,
+  DimensionField,
+  DimensionPredicates,
+  DimensionValue,
+  MeasureField,
+  dimensionValue,
+  restrictDimension
+} from '@/services/columnarDataset';
+import { SalesCube, CubeDimension } from '@/services/salesCube';
+import { logger } from '@/utils/logger';
+
+const MONTHS = ['Jan', 'Feb', 'Mar', 'Apr', 'May', 'Jun', 'Jul', 'Aug', 'Sep', 'Oct', 'Nov', 'Dec'];
+
+// Named measures that can be requested by name instead of a full measure object
+export const MEASURE_CATALOG: Record<string, QueryMeasure> = {
+  ...Object.fromEntries(MEASURE_FIELDS.map(field => [field, { name: field, op: 'sum', field }])),
+  'Rows': { name: 'Rows', op: 'count' },
+  'fGP%': { name: 'fGP%', op: 'ratio', numerator: 'fGP', denominator: 'gSales', percent: true },
+  'gSales per Case': { name: 'gSales per Case', op: 'ratio', numerator: 'gSales', denominator: 'Cases' },
+  'fGP per Case': { name: 'fGP per Case', op: 'ratio', numerator: 'fGP', denominator: 'Cases' },
+  'Customers': { name: 'Customers', op: 'countDistinct', field: 'Customer' },
+  'Brands': { name: 'Brands', op: 'countDistinct', field: 'Brand' }
+};
+
+const dimensionField = Joi.string().valid(...DIMENSION_FIELDS);
+const measureField = Joi.string().valid(...MEASURE_FIELDS);
+const filterValue = Joi.alternatives().try(Joi.string(), Joi.number());
+
+const querySpecSchema = Joi.object({
+  dimensions: Joi.array().items(dimensionField).unique().max(6).default([]),
+  measures: Joi.array().min(1).items(Joi.alternatives().try(
+    Joi.string().valid(...Object.keys(MEASURE_CATALOG)),
+    Joi.object({
+      name: Joi.string().min(1),
+      op: Joi.string().valid('sum', 'count', 'countDistinct', 'avg', 'ratio').required(),
+      field: Joi.when('op', {
+        switch: [
+          { is: 'countDistinct', then: dimensionField.required() },
+          { is: Joi.valid('sum', 'avg'), then: measureField.required() }
+        ],
+        otherwise: Joi.forbidden()
+      }),
+      numerator: Joi.when('op', { is: 'ratio', then: measureField.required(), otherwise: Joi.forbidden() }),
+      denominator: Joi.when('op', { is: 'ratio', then: measureField.required(), otherwise: Joi.forbidden() }),
+      percent: Joi.boolean().default(false)
+    })
+  )).required(),
+  filters: Joi.array().items(Joi.object({
+    field: dimensionField.required(),
+    in: Joi.array().items(filterValue).min(1),
+    notIn: Joi.array().items(filterValue).min(1)
+  }).or('in', 'notIn')).default([]),
+  sort: Joi.array().items(Joi.object({
+    by: Joi.string().required(),
+    direction: Joi.string().valid('asc', 'desc').default('desc')
+  })).default([]),
+  limit: Joi.number().integer().min(1).max(10000).default(1000),
+  compare: Joi.string().valid('LY', 'priorPeriod')
+});
+
+/**
+ * Validate a query body and expand catalog measure names into measure objects
+ */
+export function validateQuerySpec(body: unknown): { value?: QuerySpec; errors?: string[] } {
+  const { error, value } = querySpecSchema.validate(body, { abortEarly: false });
+  if (error) {
+    return { errors: error.details.map(d => d.message) };
+  }
+
+  const measures: QueryMeasure[] = value.measures.map((measure: string | Partial<QueryMeasure>) =>
+    typeof measure === 'string' ? MEASURE_CATALOG[measure] : { ...measure, name: measure.name || defaultMeasureName(measure) });
+  const spec: QuerySpec = { ...value, measures };
+
+  const errors: string[] = [];
+  const names = measures.map(m => m.name);
+  const duplicates = names.filter((name, i) => names.indexOf(name) !== i);
+  if (duplicates.length) {
+    errors.push(`Duplicate measure name(s): ${[...new Set(duplicates)].join(', ')}`);
+  }
+  for (const { by } of spec.sort) {
+    if (!spec.dimensions.includes(by) && !names.includes(by)) {
+      errors.push(`Cannot sort by "${by}": not a requested dimension or measure`);
+    }
+  }
+  if (spec.compare && !spec.filters.some(f => f.field === 'Year' && f.in)) {
+    errors.push(`Comparison "${spec.compare}" needs a Year filter with an "in" list to define the current period`);
+  }
+  return errors.length ? { errors } : { value: spec };
+}
+
+function defaultMeasureName(measure: Partial<QueryMeasure>): string {
+  if (measure.op === 'ratio') return `${measure.numerator}/${measure.denominator}`;
+  if (measure.op === 'count') return 'count';
+  return `${measure.op}(${measure.field})`;
+}
+
+// Running totals for one output group
+interface Accumulator {
+  dimensions: Record<string, DimensionValue>;
+  sums: Map<string, number>;
+  rows: number;
+  distinct: Map<string, Set<DimensionValue>>;
+}
+
+// A pre-aggregated cell or a single row, seen through the same accessors
+interface Fact {
+  value(field: string): DimensionValue;
+  measure(field: string): number;
+  rows: number;
+}
+
+// Periods (year * 12 + month index) read for a comparison, and how far to move them forward
+interface ComparisonWindow {
+  periods: Set<number>;
+  shift: number;
+}
+
+/**
+ * Answers ad-hoc group-by queries (dimensions, measures, filters, sort, limit and an
+ * optional comparison period) over the loaded sales data, within the caller's RLS scopes
+ */
+export class QueryService {
+  async run(spec: QuerySpec, scopes: DataFilters): Promise<QueryResult> {
+    const cacheKey = datasetCacheKey(`query_${JSON.stringify({ spec, scopes })}`);
+    const cached = await cacheService.get<QueryResult>(cacheKey);
+    if (cached) {
+      return cached;
+    }
+
+    const data = await getSalesDataSource().fetchSalesData();
+    const dataset = ColumnarDataset.for(data);
+    const predicates = this.buildPredicates(dataset, spec.filters);
+    restrictToScopes(predicates, scopes);
+
+    const current = this.aggregate(data, spec, predicates);
+    const comparison = spec.compare
+      ? this.aggregate(data, spec, ...this.comparisonScope(predicates, spec.compare))
+      : undefined;
+
+    // Groups only present in the comparison period (e.g. lapsed customers) are kept with empty current values
+    const keys = [...current.groups.keys()];
+    if (comparison) {
+      keys.push(...[...comparison.groups.keys()].filter(key => !current.groups.has(key)));
+    }
+
+    const rows = keys.map(key => {
+      const group = current.groups.get(key) || comparison!.groups.get(key)!;
+      const row: QueryResultRow = {
+        dimensions: group.dimensions,
+        measures: this.evaluate(spec.measures, current.groups.get(key))
+      };
+      if (comparison) {
+        row.comparison = this.evaluate(spec.measures, comparison.groups.get(key));
+        Object.assign(row, this.change(row.measures, row.comparison));
+      }
+      return row;
+    });
+
+    this.sortRows(rows, spec);
+
+    const result: QueryResult = {
+      dimensions: spec.dimensions,
+      measures: spec.measures.map(m => m.name),
+      compare: spec.compare || null,
+      rows: rows.slice(0, spec.limit),
+      totals: this.evaluate(spec.measures, current.total),
+      rowCount: rows.length,
+      truncated: rows.length > spec.limit
+    };
+    if (comparison) {
+      result.comparisonTotals = this.evaluate(spec.measures, comparison.total);
+    }
+
+    logger.debug('Semantic query', { dimensions: spec.dimensions, measures: result.measures, groups: rows.length });
+    await cacheService.set(cacheKey, result, 1800); // 30 minutes
+    return result;
+  }
+
+  /**
+   * Turn query filters into allow-lists; "notIn" becomes the dimension's other values
+   */
+  private buildPredicates(dataset: ColumnarDataset, filters: QueryFilter[]): DimensionPredicates {
+    const predicates: DimensionPredicates = {};
+    for (const filter of filters) {
+      const field = filter.field as DimensionField;
+      const normalize = (values: Array<string | number>) => (field === 'Year' ? values.map(Number) : values);
+      if (filter.in) {
+        restrictDimension(predicates, field, normalize(filter.in));
+      }
+      if (filter.notIn) {
+        const excluded = new Set<DimensionValue>(normalize(filter.notIn));
+        restrictDimension(predicates, field, dataset.distinct(field).filter(value => !excluded.has(value)));
+      }
+    }
+    return predicates;
+  }
+
+  /**
+   * Predicates and period window for the comparison: LY moves the current periods back a
+   * year, priorPeriod moves them back by the length of the current span
+   */
+  private comparisonScope(predicates: DimensionPredicates, compare: QueryComparison): [DimensionPredicates, ComparisonWindow] {
+    const years = [...(predicates.Year || [])] as number[];
+    const months = (predicates['Month Name'] ? [...predicates['Month Name']] : MONTHS)
+      .map(month => MONTHS.indexOf(String(month)))
+      .filter(index => index >= 0);
+    const current = years.flatMap(year => months.map(month => year * 12 + month));
+    if (current.length === 0) {
+      return [predicates, { periods: new Set(), shift: 0 }];
+    }
+
+    const shift = compare === 'LY' ? 12 : Math.max(...current) - Math.min(...current) + 1;
+    const periods = new Set(current.map(period => period - shift));
+    const comparisonPredicates: DimensionPredicates = {
+      ...predicates,
+      Year: new Set([...periods].map(period => Math.floor(period / 12))),
+      'Month Name': new Set([...periods].map(period => MONTHS[period % 12]))
+    };
+    return [comparisonPredicates, { periods, shift }];
+  }
+
+  /**
+   * Group matching facts by the query dimensions. Reads the sales cube when every
+   * dimension, filter and summed column is in it, otherwise the row index.
+   */
+  private aggregate(
+    data: SalesData[],
+    spec: QuerySpec,
+    predicates: DimensionPredicates,
+    window?: ComparisonWindow
+  ): { groups: Map<string, Accumulator>; total: Accumulator } {
+    const distinctFields = spec.measures.filter(m => m.op === 'countDistinct').map(m => m.field!);
+    const sumFields = [...new Set(spec.measures.flatMap(m =>
+      m.op === 'ratio' ? [m.numerator!, m.denominator!] : m.op === 'sum' || m.op === 'avg' ? [m.field!] : []))];
+    const needed = [...new Set([
+      ...spec.dimensions,
+      ...distinctFields,
+      ...(window ? ['Year', 'Month Name'] : [])
+    ])] as DimensionField[];
+
+    const groups = new Map<string, Accumulator>();
+    const total = this.createAccumulator({});
+
+    const visit = (fact: Fact) => {
+      const values: Record<string, DimensionValue> = {};
+      for (const field of spec.dimensions) values[field] = fact.value(field);
+
+      if (window) {
+        const period = Number(fact.value('Year')) * 12 + MONTHS.indexOf(String(fact.value('Month Name')));
+        if (!window.periods.has(period)) return;
+        // Label comparison facts with the current period they line up with
+        const aligned = period + window.shift;
+        if ('Year' in values) values.Year = Math.floor(aligned / 12);
+        if ('Month Name' in values) values['Month Name'] = MONTHS[aligned % 12];
+      }
+
+      const key = spec.dimensions.map(field => values[field]).join('\u0001');
+      let group = groups.get(key);
+      if (!group) {
+        group = this.createAccumulator(values);
+        groups.set(key, group);
+      }
+      for (const accumulator of [group, total]) {
+        accumulator.rows += fact.rows;
+        for (const field of sumFields) {
+          accumulator.sums.set(field, (accumulator.sums.get(field) || 0) + fact.measure(field));
+        }
+        for (const field of distinctFields) {
+          let seen = accumulator.distinct.get(field);
+          if (!seen) accumulator.distinct.set(field, (seen = new Set()));
+          seen.add(fact.value(field));
+        }
+      }
+    };
+
+    const fromCube = needed.every(field => SalesCube.isDimension(field))
+      && SalesCube.covers(predicates)
+      && sumFields.every(field => SalesCube.isMeasure(field));
+
+    if (fromCube) {
+      for (const cell of SalesCube.for(data).aggregate(needed as CubeDimension[], predicates)) {
+        visit({
+          value: field => cell.key[field as CubeDimension]!,
+          measure: field => cell.totals[field as keyof typeof cell.totals],
+          rows: cell.rows
+        });
+      }
+    } else {
+      const rows = Object.keys(predicates).length ? ColumnarDataset.for(data).filter(predicates) : data;
+      for (const row of rows) {
+        visit({
+          value: field => dimensionValue(row, field as DimensionField),
+          measure: field => Number(row[field as MeasureField]) || 0,
+          rows: 1
+        });
+      }
+    }
+
+    return { groups, total };
+  }
+
+  private createAccumulator(dimensions: Record<string, DimensionValue>): Accumulator {
+    return { dimensions, sums: new Map(), rows: 0, distinct: new Map() };
+  }
+
+  /**
+   * Compute measure values for a group; ratios and averages with a zero denominator are null
+   */
+  private evaluate(measures: QueryMeasure[], group?: Accumulator): QueryValues {
+    const values: QueryValues = {};
+    for (const measure of measures) {
+      const sum = (field: string) => (group ? group.sums.get(field) || 0 : 0);
+      switch (measure.op) {
+        case 'sum':
+          values[measure.name] = sum(measure.field!);
+          break;
+        case 'count':
+          values[measure.name] = group ? group.rows : 0;
+          break;
+        case 'countDistinct':
+          values[measure.name] = group ? group.distinct.get(measure.field!)?.size || 0 : 0;
+          break;
+        case 'avg':
+          values[measure.name] = group && group.rows > 0 ? sum(measure.field!) / group.rows : null;
+          break;
+        case 'ratio': {
+          const denominator = sum(measure.denominator!);
+          values[measure.name] = denominator !== 0
+            ? (sum(measure.numerator!) / denominator) * (measure.percent ? 100 : 1)
+            : null;
+          break;
+        }
+      }
+    }
+    return values;
+  }
+
+  private change(current: QueryValues, previous: QueryValues): Pick<QueryResultRow, 'change' | 'changePercent'> {
+    const change: QueryValues = {};
+    const changePercent: QueryValues = {};
+    for (const [name, value] of Object.entries(current)) {
+      const before = previous[name];
+      change[name] = value !== null && before !== null ? value - before : null;
+      changePercent[name] = change[name] !== null && before ? (change[name]! / Math.abs(before)) * 100 : null;
+    }
+    return { change, changePercent };
+  }
+
+  /**
+   * Sort by the requested keys; nulls always sort last. Without sort keys, groups keep first-seen order.
+   */
+  private sortRows(rows: QueryResultRow[], spec: QuerySpec): void {
+    if (spec.sort.length === 0) return;
+    const valueOf = (row: QueryResultRow, by: string) => (by in row.dimensions ? row.dimensions[by] : row.measures[by]);
+    rows.sort((a, b) => {
+      for (const { by, direction } of spec.sort) {
+        const x = valueOf(a, by);
+        const y = valueOf(b, by);
+        if (x === y) continue;
+        if (x === null || x === undefined) return 1;
+        if (y === null || y === undefined) return -1;
+        const order = by === 'Month Name'
+          ? MONTHS.indexOf(String(x)) - MONTHS.indexOf(String(y))
+          : typeof x === 'number' && typeof y === 'number' ? x - y : String(x).localeCompare(String(y));
+        if (order !== 0) return direction === 'asc' ? order : -order;
+      }
+      return 0;
+    });
+  }
+}
+
+export const queryService = new QueryService();
@@ -0,0 +1,119 @@
+import fs from 'fs';
+import path from 'path';
+import Joi from 'joi';
+import { ReportDefinition, ReportMember } from '@/types/data';
+import { logger } from '@/utils/logger';
+
+const MEASURES = ['Cases', 'gSales', 'fGP'];
+const VALUES = ['ytd', 'ly', 'lyVar', 'lyVarPercent', 'cyVLy'];
+
+const memberSchema = Joi.alternatives().try(
+  Joi.string().min(1),
+  Joi.object({ name: Joi.string().min(1).required(), values: Joi.array().min(1).items(Joi.string()).required() })
+);
+
+const definitionSchema = Joi.object({
+  id: Joi.string().required(),
+  version: Joi.number().integer().min(1).required(),
+  title: Joi.string().required(),
+  dimension: Joi.string().valid('businessArea', 'brand', 'category', 'subCategory', 'channel', 'customer').required(),
+  round: Joi.boolean().default(false),
+  columns: Joi.array().min(1).items(Joi.object({
+    key: Joi.string().required(),
+    measure: Joi.string().valid(...MEASURES),
+    ratio: Joi.array().ordered(Joi.string().valid(...MEASURES).required(), Joi.string().valid(...MEASURES).required()),
+    scale: Joi.number().positive(),
+    fields: Joi.object().pattern(Joi.string(), Joi.string().valid(...VALUES)).min(1).required()
+  }).xor('measure', 'ratio')).unique('key').required(),
+  sections: Joi.array().min(1).items(Joi.object({
+    name: Joi.string(),
+    members: Joi.alternatives().try(Joi.string().valid('*'), Joi.array().items(memberSchema)).required(),
+    hideEmpty: Joi.boolean().default(false),
+    sortBy: Joi.string().valid(...MEASURES),
+    subtotal: Joi.string()
+  })).required(),
+  totals: Joi.array().items(Joi.object({
+    name: Joi.string().required(),
+    of: Joi.alternatives().try(
+      Joi.string().valid('all'),
+      Joi.array().min(1).items(Joi.string()),
+      Joi.object({ contains: Joi.array().min(1).items(Joi.string()).required() })
+    ).required(),
+    hideEmpty: Joi.boolean().default(false)
+  })).default([]),
+  businessAreas: Joi.array().min(1).items(Joi.string()),
+  brandKeywords: Joi.array().min(1).items(Joi.string().lowercase())
+});
+
+// Definitions by id, with the modification time of the file they were read from
+const loaded = new Map<string, { mtimeMs: number; definition: ReportDefinition }>();
+
+const definitionsDir = (): string =>
+  process.env.REPORT_DEFINITIONS_DIR || path.join(__dirname, '../../config/reports');
+
+/**
+ * Read and validate a report definition file; its id must match the file name
+ */
+export function loadReportDefinition(filePath: string): ReportDefinition {
+  let raw: unknown;
+  try {
+    raw = JSON.parse(fs.readFileSync(filePath, 'utf-8'));
+  } catch (error) {
+    throw new Error(`Unable to read report definition ${filePath}: ${error instanceof Error ? error.message : error}`);
+  }
+
+  const { error, value } = definitionSchema.validate(raw, { abortEarly: false });
+  if (error) {
+    throw new Error(`Invalid report definition ${filePath}: ${error.details.map(d => d.message).join('; ')}`);
+  }
+  if (value.id !== path.basename(filePath, '.json')) {
+    throw new Error(`Invalid report definition ${filePath}: id "${value.id}" does not match the file name`);
+  }
+  return value as ReportDefinition;
+}
+
+/**
+ * The definition of a report (REPORT_DEFINITIONS_DIR/<id>.json, defaulting to config/reports).
+ * Files are re-read when they change, so layouts can be edited without a restart; an edit that
+ * fails validation is logged and the last valid version kept.
+ */
+export function getReportDefinition(id: string): ReportDefinition {
+  const filePath = path.join(definitionsDir(), `${id}.json`);
+  const cached = loaded.get(id);
+
+  let mtimeMs: number;
+  try {
+    mtimeMs = fs.statSync(filePath).mtimeMs;
+  } catch (error) {
+    if (cached) return cached.definition;
+    throw new Error(`Report definition ${filePath} not found`);
+  }
+  if (cached && cached.mtimeMs === mtimeMs) return cached.definition;
+
+  try {
+    const definition = loadReportDefinition(filePath);
+    loaded.set(id, { mtimeMs, definition });
+    if (cached) logger.info(`Reloaded report definition ${id} (version ${definition.version})`);
+    return definition;
+  } catch (error) {
+    if (!cached) throw error;
+    logger.error(`Keeping report definition ${id} version ${cached.definition.version}:`, error);
+    return cached.definition;
+  }
+}
+
+export const memberName = (member: ReportMember): string => (typeof member === 'string' ? member : member.name);
+
+export const memberValues = (member: ReportMember): string[] => (typeof member === 'string' ? [member] : member.values);
+
+/**
+ * Dimension values a report's named member stands for (the name itself when not a member)
+ */
+export function reportMemberValues(id: string, name: string): string[] {
+  for (const section of getReportDefinition(id).sections) {
+    if (section.members === '*') continue;
+    const member = section.members.find(m => memberName(m) === name);
+    if (member) return memberValues(member);
+  }
+  return [name];
+}
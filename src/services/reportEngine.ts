@@ -0,0 +1,130 @@
+import _ from 'lodash';
+import { ReportColumn, ReportDefinition, ReportMeasure, ReportMemberTotals, ReportTotal, ReportValue } from '@/types/data';
+import { memberName, memberValues } from './reportDefinitions';
+
+const MEASURES: ReportMeasure[] = ['Cases', 'gSales', 'fGP'];
+
+// Values that are percentages (rounded to one decimal) rather than amounts
+const PERCENT_VALUES = new Set<ReportValue>(['lyVarPercent', 'cyVLy']);
+
+interface RenderedMember {
+  name: string;
+  totals: ReportMemberTotals;
+}
+
+// IFERROR(value, 0)
+const iferror = (value: number): number => (isNaN(value) || !isFinite(value) ? 0 : value);
+
+const emptyTotals = (): ReportMemberTotals => ({
+  current: { Cases: 0, gSales: 0, fGP: 0 },
+  previous: { Cases: 0, gSales: 0, fGP: 0 }
+});
+
+function sumTotals(members: RenderedMember[]): ReportMemberTotals {
+  const sum = emptyTotals();
+  for (const { totals } of members) {
+    for (const measure of MEASURES) {
+      sum.current[measure] += totals.current[measure];
+      sum.previous[measure] += totals.previous[measure];
+    }
+  }
+  return sum;
+}
+
+/**
+ * One column group of a row: the current and last-year value of its measure (scaled) or ratio
+ * (a percentage), and the fields derived from them
+ */
+function columnValues(column: ReportColumn, totals: ReportMemberTotals, round: boolean): Record<string, number> {
+  const valueOf = (period: 'current' | 'previous'): number => {
+    if (column.ratio) {
+      const [numerator, denominator] = column.ratio;
+      return iferror(totals[period][numerator] / totals[period][denominator]) * 100;
+    }
+    return totals[period][column.measure!] / (column.scale || 1);
+  };
+  const ytd = valueOf('current');
+  const ly = valueOf('previous');
+  const values: Record<ReportValue, number> = {
+    ytd,
+    ly,
+    lyVar: ytd - ly,
+    lyVarPercent: iferror((ytd - ly) / Math.abs(ly)) * 100,
+    cyVLy: iferror(ytd / Math.abs(ly)) * 100
+  };
+
+  const group: Record<string, number> = {};
+  for (const [field, value] of Object.entries(column.fields)) {
+    const result = values[value!];
+    if (!round) group[field] = result;
+    else group[field] = column.ratio || PERCENT_VALUES.has(value!) ? Math.round(result * 10) / 10 : Math.round(result);
+  }
+  return group;
+}
+
+function reportRow(definition: ReportDefinition, name: string, totals: ReportMemberTotals, isTotal = false): any {
+  const row: any = { name };
+  for (const column of definition.columns) {
+    row[column.key] = columnValues(column, totals, definition.round);
+  }
+  if (isTotal) row.isTotal = true;
+  return row;
+}
+
+function totalMembers(total: ReportTotal, members: RenderedMember[]): RenderedMember[] {
+  if (total.of === 'all') return members;
+  if (Array.isArray(total.of)) {
+    const names = new Set(total.of);
+    return members.filter(member => names.has(member.name));
+  }
+  const patterns = total.of.contains.map(pattern => pattern.toLowerCase());
+  return members.filter(member => patterns.some(pattern => member.name.toLowerCase().includes(pattern)));
+}
+
+/**
+ * Render a report definition: each section's member rows (optionally without empty members,
+ * ordered by a measure, followed by a subtotal), then the total rows over the member rows.
+ * `available` lists the dimension's values in the data, for '*' sections; `totalsOf` gives the
+ * measure totals of the rows matching any of a member's dimension values.
+ */
+export function renderReport(
+  definition: ReportDefinition,
+  available: string[],
+  totalsOf: (values: string[]) => ReportMemberTotals
+): any[] {
+  const listed = new Set(definition.sections.flatMap(section =>
+    section.members === '*' ? [] : section.members.flatMap(member => [memberName(member), ...memberValues(member)])
+  ));
+
+  const rows: any[] = [];
+  const rendered: RenderedMember[] = [];
+  for (const section of definition.sections) {
+    const members = section.members === '*'
+      ? available.filter(value => value && !listed.has(value))
+      : section.members;
+
+    let sectionMembers: RenderedMember[] = members.map(member => ({
+      name: memberName(member),
+      totals: totalsOf(memberValues(member))
+    }));
+    if (section.hideEmpty) {
+      sectionMembers = sectionMembers.filter(({ totals }) => MEASURES.some(measure => totals.current[measure] > 0));
+    }
+    if (section.sortBy) {
+      sectionMembers = _.orderBy(sectionMembers, member => member.totals.current[section.sortBy!], 'desc');
+    }
+
+    rows.push(...sectionMembers.map(member => reportRow(definition, member.name, member.totals)));
+    if (section.subtotal && sectionMembers.length > 0) {
+      rows.push(reportRow(definition, section.subtotal, sumTotals(sectionMembers), true));
+    }
+    rendered.push(...sectionMembers);
+  }
+
+  for (const total of definition.totals) {
+    const members = totalMembers(total, rendered);
+    if (total.hideEmpty && members.length === 0) continue;
+    rows.push(reportRow(definition, total.name, sumTotals(members), true));
+  }
+  return rows;
+}
@@ -0,0 +1,257 @@
+import _ from 'lodash';
+import { PlanScenario } from '@/types/data';
+import { XlsxCell, XlsxFormat, buildWorkbook, cellRef } from '@/utils/xlsx';
+import { PLAN_SCENARIOS } from './planComparison';
+
+/**
+ * Report export settings: sheet title, and whether the report's amounts are already in thousands
+ */
+export interface ReportExport {
+  title: string;
+  moneyInThousands: boolean;
+}
+
+// Every /reports/* endpoint, by the last segment of its route
+export const REPORT_EXPORTS: Record<string, ReportExport> = {
+  'business-area-summary': { title: 'Business Area Summary', moneyInThousands: true },
+  'channel-summary': { title: 'Channel Summary', moneyInThousands: true },
+  'sales-to-fgp': { title: 'Sales to fGP', moneyInThousands: false },
+  'trend-by-month': { title: 'Trend by Month', moneyInThousands: false },
+  'customer-summary': { title: 'Customer Summary', moneyInThousands: false },
+  'total-brands': { title: 'Total Brands', moneyInThousands: false },
+  'food-brands': { title: 'Food Brands', moneyInThousands: false },
+  'food-brands-details': { title: 'Food Brands Details', moneyInThousands: false },
+  'household-brands': { title: 'Household Brands', moneyInThousands: false },
+  'household-brands-details': { title: 'Household Brands Details', moneyInThousands: true }
+};
+
+// Text columns identifying a row, in display order
+const LABEL_FIELDS = ['brand', 'subCategory', 'product', 'name', 'period'];
+const LABEL_HEADERS: Record<string, string> = { brand: 'Brand', subCategory: 'Sub-Category', product: 'Product', name: 'Name', period: 'Period' };
+
+// Numeric row fields that describe the report rather than a column
+const IGNORED_FIELDS = new Set(['currentYear', 'previousYear']);
+
+const GROUP_HEADERS: Record<string, string> = { cases: 'Cases', fGPPercent: 'fGP %', fGPFY24: 'fGP FY24', fullMonth2024: 'Full Month LY' };
+
+const SCENARIOS = Object.keys(PLAN_SCENARIOS) as PlanScenario[];
+
+const FIELD_HEADERS: Record<string, string> = {
+  ytd: 'YTD',
+  ly: 'LY',
+  lyVar: 'LY Var',
+  lyVarPercent: 'LY Var %',
+  cyVLy: 'CY v LY %',
+  valueCurrent: 'CY',
+  valuePrevious: 'LY',
+  variance: 'Var',
+  variancePercent: 'Var %',
+  percentSalesCurrent: '% Sales CY',
+  percentSalesPrevious: '% Sales LY',
+  percentSalesVar: '% Sales Var',
+  ...Object.fromEntries(SCENARIOS.flatMap(scenario => {
+    const label = PLAN_SCENARIOS[scenario];
+    return [
+      [scenario, label],
+      [`${scenario}Var`, `vs ${label}`],
+      [`${scenario}VarPercent`, `vs ${label} %`],
+      [`value${label}`, label],
+      [`variance${label}`, `vs ${label}`],
+      [`variancePercent${label}`, `vs ${label} %`],
+      [`percentSales${label}`, `% Sales ${label}`],
+      [`percentSalesVar${label}`, `% Sales vs ${label}`]
+    ];
+  }))
+};
+
+export interface ExportColumn {
+  // "group.field" for metric groups ({ ytd, ly, ... }), the field name for flat values
+  key: string;
+  header: string;
+  format: XlsxFormat;
+  label: boolean;
+  value: (row: any) => unknown;
+}
+
+const isGroup = (value: unknown): value is Record<string, unknown> =>
+  !!value && typeof value === 'object' && !Array.isArray(value) && Object.values(value).some(v => typeof v === 'number');
+
+export const isTotalRow = (row: any): boolean => !!row.isTotal || /(^|\s)total(\s|$)/i.test(String(row.name || ''));
+
+function columnFormat(key: string, moneyInThousands: boolean): XlsxFormat {
+  const [group, field] = key.includes('.') ? key.split('.') : ['', key];
+  if (/percent/i.test(group) || /percent/i.test(field) || field === 'cyVLy') return 'percent';
+  if (group === 'cases') return 'integer';
+  return moneyInThousands ? 'moneyThousands' : 'moneyUnits';
+}
+
+/**
+ * Columns of a report: its label fields, then every metric group field and flat numeric field
+ * in the order rows first show them
+ */
+export function reportColumns(rows: any[], moneyInThousands: boolean): ExportColumn[] {
+  const labels = LABEL_FIELDS.filter(field => rows.some(row => typeof row[field] === 'string' || typeof row[field] === 'number'));
+  const keys = new Set<string>();
+  for (const row of rows) {
+    for (const [field, value] of Object.entries<any>(row)) {
+      if (LABEL_FIELDS.includes(field) || IGNORED_FIELDS.has(field)) continue;
+      if (isGroup(value)) {
+        Object.keys(value).filter(key => typeof value[key] === 'number').forEach(key => keys.add(`${field}.${key}`));
+      } else if (typeof value === 'number') {
+        keys.add(field);
+      }
+    }
+  }
+
+  return [
+    ...labels.map(field => ({ key: field, header: LABEL_HEADERS[field], format: 'text' as XlsxFormat, label: true, value: (row: any) => row[field] })),
+    ...[...keys].map(key => {
+      const [group, field] = key.includes('.') ? key.split('.') : ['', key];
+      return {
+        key,
+        header: group ? `${GROUP_HEADERS[group] || group} ${FIELD_HEADERS[field] || field}` : FIELD_HEADERS[field] || field,
+        format: columnFormat(key, moneyInThousands),
+        label: false,
+        value: (row: any) => (group ? row[group]?.[field] : row[field])
+      };
+    })
+  ];
+}
+
+/**
+ * Formula of a variance column, from the cells of the same row it is derived from (the same
+ * arithmetic and IFERROR(x/ABS(base),0) shares as the reports); undefined for measure columns
+ */
+function varianceFormula(key: string, ref: (key: string) => string | undefined): string | undefined {
+  const [group, field] = key.includes('.') ? key.split('.') : ['', key];
+  const at = (name: string) => ref(group ? `${group}.${name}` : name);
+  const difference = (value?: string, base?: string) => (value && base ? `${value}-${base}` : undefined);
+  const share = (value?: string, base?: string) => (value && base ? `IFERROR(${value}/ABS(${base}),0)*100` : undefined);
+
+  if (group) {
+    if (field === 'lyVar') return difference(at('ytd'), at('ly'));
+    if (field === 'lyVarPercent') {
+      // Without a LY column, last year is YTD less the variance
+      const [ytd, lyVar] = [at('ytd'), at('lyVar')];
+      return share(lyVar, at('ly')) || (ytd && lyVar ? `IFERROR(${lyVar}/ABS(${ytd}-${lyVar}),0)*100` : undefined);
+    }
+    // fGP FY24 holds last year's fGP, compared with this year's fGP
+    if (field === 'cyVLy') return at('ly') ? share(at('ytd'), at('ly')) : group === 'fGPFY24' ? share(ref('fGP.ytd'), at('ytd')) : undefined;
+    for (const scenario of SCENARIOS) {
+      if (field === `${scenario}Var`) return difference(at('ytd'), at(scenario));
+      if (field === `${scenario}VarPercent`) return share(at(`${scenario}Var`), at(scenario));
+    }
+    return undefined;
+  }
+
+  if (field === 'variance') return difference(ref('valueCurrent'), ref('valuePrevious'));
+  if (field === 'variancePercent') return share(ref('variance'), ref('valuePrevious'));
+  if (field === 'percentSalesVar') return difference(ref('percentSalesCurrent'), ref('percentSalesPrevious'));
+  for (const label of Object.values(PLAN_SCENARIOS)) {
+    if (field === `variance${label}`) return difference(ref('valueCurrent'), ref(`value${label}`));
+    if (field === `variancePercent${label}`) return share(ref(`variance${label}`), ref(`value${label}`));
+    if (field === `percentSalesVar${label}`) return difference(ref('percentSalesCurrent'), ref(`percentSales${label}`));
+  }
+  return undefined;
+}
+
+// Title and header rows above the report rows
+const HEADER_ROWS = 2;
+
+// Compress row indexes into A1 ranges of one column: B3:B7,B9
+function sumRanges(column: number, rowIndexes: number[]): string {
+  const ranges: string[] = [];
+  for (let i = 0; i < rowIndexes.length; i++) {
+    let j = i;
+    while (j + 1 < rowIndexes.length && rowIndexes[j + 1] === rowIndexes[j] + 1) j++;
+    const from = cellRef(column, rowIndexes[i]);
+    ranges.push(i === j ? from : `${from}:${cellRef(column, rowIndexes[j])}`);
+    i = j;
+  }
+  return ranges.join(',');
+}
+
+/**
+ * Rows a total row adds up: the detail rows since the previous total, or every detail row above
+ * it, whichever reproduces its measure values exactly (null when neither does, e.g. totals of
+ * named members or of unrounded values)
+ */
+function totalMembers(rows: any[], index: number, measures: ExportColumn[]): number[] | null {
+  const above = _.range(index).filter(i => !isTotalRow(rows[i]));
+  const lastTotal = _.findLastIndex(rows.slice(0, index), isTotalRow);
+  const block = above.filter(i => i > lastTotal);
+
+  for (const members of [block, above]) {
+    if (members.length === 0) continue;
+    const matches = measures.every(column => {
+      const total = Number(column.value(rows[index]) ?? 0);
+      const sum = _.sumBy(members, i => Number(column.value(rows[i]) ?? 0));
+      return Math.abs(total - sum) <= 1e-9 * Math.max(1, Math.abs(total));
+    });
+    if (matches) return members;
+  }
+  return null;
+}
+
+/**
+ * An .xlsx workbook of a report's rows: a title row, a header row and the report rows, with
+ * number formats (€k, %), bold total rows, frozen labels and headers, formulas in the variance
+ * columns and SUM formulas in total rows that add up the rows above them
+ */
+export function reportWorkbook(report: string, rows: any[], generatedAt: string = new Date().toISOString()): Buffer {
+  const settings = REPORT_EXPORTS[report] || { title: report, moneyInThousands: false };
+  const columns = reportColumns(rows, settings.moneyInThousands);
+  const columnIndex = new Map(columns.map((column, i) => [column.key, i]));
+  const refIn = (row: number) => (key: string) => {
+    const index = columnIndex.get(key);
+    return index === undefined ? undefined : cellRef(index, row);
+  };
+  // Variance columns get formulas; the other amount columns are measures, which total rows may SUM
+  const derived = columns.map(column => !column.label && !!varianceFormula(column.key, refIn(0)));
+  const measures = columns.filter((column, i) => !column.label && !derived[i] && column.format !== 'percent');
+
+  const sheetRows: XlsxCell[][] = [
+    [{ value: settings.title, bold: true }, { value: `Generated ${generatedAt}` }],
+    columns.map(column => ({ value: column.header, header: true }))
+  ];
+  rows.forEach((row, r) => {
+    const sheetRow = HEADER_ROWS + r;
+    const total = isTotalRow(row);
+    const bold = total || !!row.isBold;
+    const members = total ? totalMembers(rows, r, measures) : null;
+
+    sheetRows.push(columns.map((column, c) => {
+      const raw = column.value(row);
+      const value = typeof raw === 'number' || typeof raw === 'string' ? raw : null;
+      const cell: XlsxCell = { value, format: column.format, bold };
+      if (derived[c]) cell.formula = varianceFormula(column.key, refIn(sheetRow));
+      else if (members && measures.includes(column)) cell.formula = `SUM(${sumRanges(c, members.map(i => HEADER_ROWS + i))})`;
+      return cell;
+    }));
+  });
+
+  return buildWorkbook([{
+    name: settings.title,
+    rows: sheetRows,
+    columnWidths: columns.map(column => (column.label ? 28 : 14)),
+    freeze: { rows: HEADER_ROWS, columns: columns.filter(column => column.label).length }
+  }]);
+}
+
+const csvField = (value: unknown): string => {
+  if (typeof value === 'number') return isFinite(value) ? String(value) : '';
+  const text = typeof value === 'string' ? value : '';
+  return /[",\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+};
+
+/**
+ * A report's rows as CSV, one column per workbook column (amounts as computed, unformatted)
+ */
+export function reportCsv(report: string, rows: any[]): string {
+  const settings = REPORT_EXPORTS[report] || { title: report, moneyInThousands: false };
+  const columns = reportColumns(rows, settings.moneyInThousands);
+  return [
+    columns.map(column => csvField(column.header)).join(','),
+    ...rows.map(row => columns.map(column => csvField(column.value(row))).join(','))
+  ].join('\n');
+}
@@ -0,0 +1,90 @@
+import fs from 'fs';
+import path from 'path';
+import { ReportMessage, ReportNotifier } from '@/types/data';
+import { logger } from '@/utils/logger';
+import { SmtpOptions, buildMimeMessage, sendMail } from '@/utils/smtp';
+
+const DEFAULT_FROM = 'Kinetica Biz-Pulse <reports@localhost>';
+
+/**
+ * Sends report messages through an SMTP server
+ */
+export class SmtpNotifier implements ReportNotifier {
+  readonly kind = 'smtp' as const;
+
+  constructor(private readonly options: SmtpOptions, private readonly from: string = DEFAULT_FROM) {}
+
+  async send(message: ReportMessage): Promise<string> {
+    const messageId = await sendMail(this.options, { ...message, from: this.from });
+    logger.info(`Sent "${message.subject}" to ${message.to.join(', ')} (${messageId})`);
+    return messageId;
+  }
+}
+
+/**
+ * Writes report messages to a directory as .eml files instead of sending them (development and tests)
+ */
+export class OutboxNotifier implements ReportNotifier {
+  readonly kind = 'outbox' as const;
+
+  constructor(readonly directory: string, private readonly from: string = DEFAULT_FROM) {}
+
+  async send(message: ReportMessage): Promise<string> {
+    const { raw } = buildMimeMessage({ ...message, from: this.from });
+    const slug = message.subject.toLowerCase().replace(/[^a-z0-9]+/g, '-').replace(/^-|-$/g, '').slice(0, 60);
+    const filePath = path.join(this.directory, `${new Date().toISOString().replace(/[:.]/g, '-')}-${slug}.eml`);
+
+    await fs.promises.mkdir(this.directory, { recursive: true });
+    await fs.promises.writeFile(filePath, raw);
+    logger.info(`Wrote "${message.subject}" for ${message.to.join(', ')} to ${filePath}`);
+    return filePath;
+  }
+}
+
+/**
+ * Create the notifier selected by REPORT_NOTIFIER (smtp | outbox); defaults to smtp when SMTP_HOST
+ * is set, and to the outbox otherwise
+ */
+function createReportNotifier(): ReportNotifier {
+  const kind = (process.env.REPORT_NOTIFIER || (process.env.SMTP_HOST ? 'smtp' : 'outbox')).toLowerCase();
+  const from = process.env.SMTP_FROM || DEFAULT_FROM;
+  logger.info(`Using ${kind} report notifier`);
+
+  switch (kind) {
+    case 'smtp': {
+      if (!process.env.SMTP_HOST) throw new Error('REPORT_NOTIFIER=smtp requires SMTP_HOST');
+      const secure = process.env.SMTP_SECURE === 'true';
+      return new SmtpNotifier({
+        host: process.env.SMTP_HOST,
+        port: Number(process.env.SMTP_PORT || (secure ? 465 : 587)),
+        secure,
+        user: process.env.SMTP_USER || undefined,
+        password: process.env.SMTP_PASSWORD || undefined,
+        allowInsecureAuth: process.env.SMTP_ALLOW_INSECURE_AUTH === 'true',
+        timeoutMs: Number(process.env.SMTP_TIMEOUT_MS || 30000)
+      }, from);
+    }
+    case 'outbox':
+      return new OutboxNotifier(process.env.REPORT_OUTBOX_DIR || path.join(process.cwd(), 'server', 'outbox'), from);
+    default:
+      throw new Error(`Unknown REPORT_NOTIFIER "${kind}"; expected smtp or outbox`);
+  }
+}
+
+// Lazy initialization to ensure environment variables are loaded
+let _reportNotifier: ReportNotifier | null = null;
+
+export const getReportNotifier = (): ReportNotifier => {
+  if (!_reportNotifier) {
+    _reportNotifier = createReportNotifier();
+  }
+  return _reportNotifier;
+};
+
+/**
+ * Override the active notifier (e.g. with an OutboxNotifier in tests).
+ * Pass null to fall back to the configured notifier on next access.
+ */
+export const setReportNotifier = (notifier: ReportNotifier | null): void => {
+  _reportNotifier = notifier;
+};
@@ -0,0 +1,311 @@
+import crypto from 'crypto';
+import fs from 'fs';
+import path from 'path';
+import cron, { ScheduledTask } from 'node-cron';
+import { User } from '@/models/user';
+import { DataFilters, ReportAttachment, ReportDeliveryRun, ReportFormat, ReportNotifier, ReportSubscription } from '@/types/data';
+import { resolveUserScopes } from '@/middleware/auth';
+import { logger } from '@/utils/logger';
+import { XLSX_CONTENT_TYPE } from '@/utils/xlsx';
+import { analyticsService } from './analyticsService';
+import { boardPackService, describeFilters, formatTimestamp } from './boardPack';
+import { csvUserService } from './csvUserService';
+import { getSalesDataSource } from './dataSource';
+import { REPORT_EXPORTS, reportCsv, reportWorkbook } from './reportExport';
+import { getReportNotifier } from './reportNotifier';
+
+export const BOARD_PACK_REPORT = 'board-pack';
+
+// Rows of every /reports/* report, by the last segment of its route
+const REPORT_RUNNERS: Record<string, (filters: DataFilters) => Promise<any[]>> = {
+  'business-area-summary': filters => analyticsService.getReportsBusinessAreaSummary(filters),
+  'channel-summary': filters => analyticsService.getReportsChannelSummary(filters),
+  'sales-to-fgp': filters => analyticsService.getSalesToFGPSummary(filters),
+  'trend-by-month': filters => analyticsService.getTrendByMonthSummary(filters),
+  'customer-summary': filters => analyticsService.getCustomerSummary(filters),
+  'total-brands': filters => analyticsService.getTotalBrandsSummary(filters),
+  'food-brands': filters => analyticsService.getFoodBrandsSummary(filters),
+  'food-brands-details': filters => analyticsService.getFoodBrandsDetails(filters),
+  'household-brands': filters => analyticsService.getHouseholdBrands(filters),
+  'household-brands-details': filters => analyticsService.getHouseholdBrandsDetails(filters)
+};
+
+export const SUBSCRIBABLE_REPORTS = [...Object.keys(REPORT_RUNNERS), BOARD_PACK_REPORT];
+
+export interface ReportSubscriptionInput {
+  name?: string;
+  report: string;
+  format: ReportFormat;
+  filters?: DataFilters;
+  schedule: string;
+  timezone?: string;
+  recipients?: string[];
+  enabled?: boolean;
+}
+
+const subscriptionsFile = (): string =>
+  process.env.REPORT_SUBSCRIPTIONS_FILE || path.join(process.cwd(), 'server', 'database', 'report-subscriptions.json');
+
+const reportTitle = (report: string): string =>
+  report === BOARD_PACK_REPORT ? 'Board Pack' : REPORT_EXPORTS[report]?.title || report;
+
+/**
+ * The board pack only renders as a PDF
+ */
+function checkFormat(subscription: Pick<ReportSubscription, 'report' | 'format'>): void {
+  if (subscription.report === BOARD_PACK_REPORT && subscription.format !== 'pdf') {
+    throw new Error('INVALID_FORMAT');
+  }
+}
+
+/**
+ * Reports run with the subscriber's RLS scopes, so they only go to the subscriber's own address or
+ * to a domain in REPORT_RECIPIENT_DOMAINS; admins may send them anywhere
+ */
+function checkRecipients(user: User, recipients: string[]): void {
+  if (user.roles.some(role => role.toLowerCase() === 'admin')) return;
+  const domains = (process.env.REPORT_RECIPIENT_DOMAINS || '').split(',').map(d => d.trim().toLowerCase()).filter(Boolean);
+  const allowed = (recipient: string) => {
+    const email = recipient.toLowerCase();
+    return email === user.email.toLowerCase() || domains.includes(email.split('@')[1]);
+  };
+  if (!recipients.every(allowed)) throw new Error('RECIPIENT_NOT_ALLOWED');
+}
+
+/**
+ * Report subscriptions: reports rendered with fixed filters on a cron schedule and delivered
+ * through the report notifier. Subscriptions are stored in REPORT_SUBSCRIPTIONS_FILE; each run
+ * applies the subscriber's current RLS scopes, looked up from the user directory.
+ */
+export class ReportSubscriptionService {
+  private enabled: boolean;
+  private started = false;
+  private tasks = new Map<string, ScheduledTask>();
+  private running = new Map<string, Promise<ReportDeliveryRun>>();
+
+  constructor() {
+    this.enabled = process.env.REPORT_SUBSCRIPTIONS_ENABLED !== 'false';
+  }
+
+  /**
+   * Schedule every enabled subscription (no-op when disabled or already started)
+   */
+  start(): void {
+    if (!this.enabled || this.started) return;
+    this.started = true;
+    this.read().forEach(subscription => this.schedule(subscription));
+    logger.info(`Report subscriptions scheduled: ${this.tasks.size}`);
+  }
+
+  stop(): void {
+    this.tasks.forEach(task => task.stop());
+    this.tasks.clear();
+    this.started = false;
+  }
+
+  list(userId: string): ReportSubscription[] {
+    return this.read().filter(subscription => subscription.userId === userId);
+  }
+
+  get(id: string): ReportSubscription | undefined {
+    return this.read().find(subscription => subscription.id === id);
+  }
+
+  /**
+   * Subscribe a user to a report; recipients default to the user's email
+   */
+  async create(userId: string, input: ReportSubscriptionInput): Promise<ReportSubscription> {
+    const user = await csvUserService.findById(userId);
+    if (!user) throw new Error('UNKNOWN_USER');
+    checkFormat(input);
+    const recipients = input.recipients?.length ? input.recipients : [user.email];
+    checkRecipients(user, recipients);
+
+    const now = new Date().toISOString();
+    const subscription: ReportSubscription = {
+      id: crypto.randomUUID(),
+      userId,
+      name: input.name || reportTitle(input.report),
+      report: input.report,
+      format: input.format,
+      filters: input.filters || {},
+      schedule: input.schedule,
+      ...(input.timezone ? { timezone: input.timezone } : {}),
+      recipients,
+      enabled: input.enabled ?? true,
+      createdAt: now,
+      updatedAt: now,
+      lastRun: null
+    };
+
+    this.write([...this.read(), subscription]);
+    this.schedule(subscription);
+    return subscription;
+  }
+
+  async update(id: string, changes: Partial<ReportSubscriptionInput>): Promise<ReportSubscription | undefined> {
+    const subscription = this.get(id);
+    if (!subscription) return undefined;
+    checkFormat({ ...subscription, ...changes });
+    if (changes.recipients) {
+      const user = await csvUserService.findById(subscription.userId);
+      if (!user) throw new Error('UNKNOWN_USER');
+      checkRecipients(user, changes.recipients);
+    }
+
+    // Re-read after the user lookup so changes saved meanwhile (e.g. a finished run) are kept
+    const subscriptions = this.read();
+    const index = subscriptions.findIndex(s => s.id === id);
+    if (index === -1) return undefined;
+    const updated: ReportSubscription = { ...subscriptions[index], ...changes, updatedAt: new Date().toISOString() };
+    subscriptions[index] = updated;
+    this.write(subscriptions);
+    this.schedule(updated);
+    return updated;
+  }
+
+  remove(id: string): boolean {
+    const subscriptions = this.read();
+    const remaining = subscriptions.filter(subscription => subscription.id !== id);
+    if (remaining.length === subscriptions.length) return false;
+    this.write(remaining);
+    this.unschedule(id);
+    return true;
+  }
+
+  /**
+   * Render and deliver a subscription now. Overlapping calls share the run already in progress.
+   */
+  runNow(id: string, trigger: ReportDeliveryRun['trigger'] = 'manual'): Promise<ReportDeliveryRun> {
+    let run = this.running.get(id);
+    if (!run) {
+      run = this.deliver(id, trigger).finally(() => this.running.delete(id));
+      this.running.set(id, run);
+    }
+    return run;
+  }
+
+  /**
+   * The report as a file attachment, for filters that already carry the subscriber's RLS scopes
+   */
+  async render(subscription: ReportSubscription, filters: DataFilters): Promise<{ attachment: ReportAttachment; rowCount?: number }> {
+    const { report, format } = subscription;
+    const title = reportTitle(report);
+    const filename = `kinetica-${report}-${new Date().toISOString().split('T')[0]}.${format}`;
+
+    if (report === BOARD_PACK_REPORT) {
+      const pack = await boardPackService.generate(filters);
+      return { attachment: { filename, contentType: 'application/pdf', content: pack.pdf } };
+    }
+
+    const runner = REPORT_RUNNERS[report];
+    if (!runner) throw new Error(`Unknown report "${report}"`);
+    const rows = await runner({ ...filters });
+
+    switch (format) {
+      case 'xlsx':
+        return { attachment: { filename, contentType: XLSX_CONTENT_TYPE, content: reportWorkbook(report, rows) }, rowCount: rows.length };
+      case 'csv':
+        return { attachment: { filename, contentType: 'text/csv', content: Buffer.from(reportCsv(report, rows), 'utf-8') }, rowCount: rows.length };
+      case 'pdf': {
+        const pack = await boardPackService.generate(filters, { title, cover: false, sections: [{ report, title, rows: async () => rows }] });
+        return { attachment: { filename, contentType: 'application/pdf', content: pack.pdf }, rowCount: rows.length };
+      }
+      default:
+        throw new Error(`Unknown report format "${format}"`);
+    }
+  }
+
+  private async deliver(id: string, trigger: ReportDeliveryRun['trigger']): Promise<ReportDeliveryRun> {
+    const started = Date.now();
+    let run: Omit<ReportDeliveryRun, 'startedAt' | 'finishedAt' | 'durationMs'>;
+    let notifier: ReportNotifier | undefined;
+    const subscription = this.get(id);
+    if (!subscription) throw new Error(`Report subscription ${id} not found`);
+
+    try {
+      const user = await csvUserService.findById(subscription.userId);
+      if (!user) throw new Error(`User ${subscription.userId} no longer exists`);
+      // The allowed domains or the user's roles may have changed since the subscription was saved
+      checkRecipients(user, subscription.recipients);
+      // Stored filters never carry scopes; the user's current scopes replace any that would
+      const filters: DataFilters = { ...subscription.filters, ...resolveUserScopes(user) };
+
+      notifier = getReportNotifier();
+      const { attachment, rowCount } = await this.render(subscription, filters);
+      const meta = getSalesDataSource().getLastFetchMeta();
+      const date = new Date().toISOString().split('T')[0];
+      const reference = await notifier.send({
+        to: subscription.recipients,
+        subject: `${subscription.name} – ${date}`,
+        text: [
+          `${reportTitle(subscription.report)} is attached (${attachment.filename}).`,
+          '',
+          ...describeFilters(subscription.filters),
+          `Data as of ${formatTimestamp(meta.lastUpdated)} (${meta.source})`,
+          '',
+          `Sent by the "${subscription.name}" subscription, scheduled "${subscription.schedule}"` +
+            (subscription.timezone ? ` (${subscription.timezone})` : '') + '.'
+        ].join('\n'),
+        attachments: [attachment]
+      });
+      run = { outcome: 'delivered', trigger, notifier: notifier.kind, attachment: attachment.filename, rowCount, reference };
+    } catch (error) {
+      logger.error(`Report subscription ${id} delivery failed:`, error);
+      run = { outcome: 'failed', trigger, notifier: notifier?.kind, error: error instanceof Error ? error.message : 'Unknown error' };
+    }
+
+    const finished = Date.now();
+    const lastRun: ReportDeliveryRun = {
+      startedAt: new Date(started).toISOString(),
+      finishedAt: new Date(finished).toISOString(),
+      durationMs: finished - started,
+      ...run
+    };
+    // The subscription may have been edited or removed while the report rendered
+    const subscriptions = this.read();
+    const current = subscriptions.find(s => s.id === id);
+    if (current) {
+      current.lastRun = lastRun;
+      this.write(subscriptions);
+    }
+    return lastRun;
+  }
+
+  private schedule(subscription: ReportSubscription): void {
+    this.unschedule(subscription.id);
+    if (!this.started || !subscription.enabled) return;
+
+    const timezone = subscription.timezone || process.env.REPORT_SCHEDULE_TIMEZONE;
+    this.tasks.set(subscription.id, cron.schedule(subscription.schedule, () => {
+      this.runNow(subscription.id, 'schedule').catch(error => logger.error('Scheduled report delivery failed:', error));
+    }, timezone ? { timezone } : {}));
+  }
+
+  private unschedule(id: string): void {
+    this.tasks.get(id)?.stop();
+    this.tasks.delete(id);
+  }
+
+  private read(): ReportSubscription[] {
+    const filePath = subscriptionsFile();
+    if (!fs.existsSync(filePath)) return [];
+    return JSON.parse(fs.readFileSync(filePath, 'utf-8'));
+  }
+
+  private write(subscriptions: ReportSubscription[]): void {
+    const filePath = subscriptionsFile();
+    fs.mkdirSync(path.dirname(filePath), { recursive: true });
+    fs.writeFileSync(filePath, JSON.stringify(subscriptions, null, 2));
+  }
+}
+
+// Lazy initialization to ensure environment variables are loaded
+let _reportSubscriptionService: ReportSubscriptionService | null = null;
+
+export const getReportSubscriptionService = (): ReportSubscriptionService => {
+  if (!_reportSubscriptionService) {
+    _reportSubscriptionService = new ReportSubscriptionService();
+  }
+  return _reportSubscriptionService;
+};
@@ -0,0 +1,208 @@
+import fs from 'fs';
+import path from 'path';
+import Joi from 'joi';
+import _ from 'lodash';
+import { RiskLevel, RiskMetric, RiskMetrics, RiskOperator, RiskReason, RiskRule, RiskRuleSet, SalesData } from '@/types/data';
+import { logger } from '@/utils/logger';
+import { toNumber } from '@/utils/number';
+
+export const RISK_METRICS: RiskMetric[] = ['gSales', 'fGP', 'fGPPercent', 'yoyVar', 'yoyVarPercent', 'momTrend', 'discountRate', 'topCustomerShare'];
+
+const OPERATORS: Record<RiskOperator, (actual: number, threshold: number) => boolean> = {
+  '<': (actual, threshold) => actual < threshold,
+  '<=': (actual, threshold) => actual <= threshold,
+  '>': (actual, threshold) => actual > threshold,
+  '>=': (actual, threshold) => actual >= threshold
+};
+
+const DISCOUNT_FIELDS = ['Price Downs', 'Perm. Disc.', 'LTA'] as const;
+
+const levelsSchema = Joi.object({
+  high: Joi.number(),
+  medium: Joi.number()
+});
+
+const rulesSchema = Joi.object({
+  levels: levelsSchema.fork(['high', 'medium'], field => field.required()).required(),
+  rules: Joi.array().min(1).items(Joi.object({
+    id: Joi.string().required(),
+    reason: Joi.string().required(),
+    metric: Joi.string().valid(...RISK_METRICS).required(),
+    operator: Joi.string().valid(...Object.keys(OPERATORS)).required(),
+    value: Joi.number().required(),
+    weight: Joi.number().min(0).required(),
+    enabled: Joi.boolean().default(true)
+  })).unique('id').required(),
+  businessAreas: Joi.object().pattern(Joi.string(), Joi.object({
+    levels: levelsSchema,
+    rules: Joi.object().pattern(Joi.string(), Joi.object({
+      value: Joi.number(),
+      weight: Joi.number().min(0),
+      enabled: Joi.boolean()
+    }))
+  })).default({})
+});
+
+// Deprecated single-threshold settings, with the rule each one now seeds
+const LEGACY_THRESHOLDS: Record<string, string> = {
+  RISK_LOW_MARGIN_THRESHOLD: 'low-margin',
+  RISK_DECLINING_TREND_THRESHOLD: 'declining-trend',
+  RISK_LOW_VOLUME_THRESHOLD: 'low-volume'
+};
+let legacyWarned = false;
+
+/**
+ * Use the deprecated RISK_*_THRESHOLD settings, where set, as the default value of the rule each
+ * one maps to (business area overrides still apply), warning once that they should move to the file
+ */
+function applyLegacyThresholds(ruleSet: RiskRuleSet): RiskRuleSet {
+  const set = Object.keys(LEGACY_THRESHOLDS).filter(name => process.env[name] !== undefined && process.env[name] !== '');
+  if (set.length === 0) return ruleSet;
+  if (!legacyWarned) {
+    logger.warn(`${set.join(', ')} ${set.length > 1 ? 'are' : 'is'} deprecated; set the rule values in the risk rules file (RISK_RULES_FILE) instead`);
+    legacyWarned = true;
+  }
+
+  const values = new Map(set.map(name => [LEGACY_THRESHOLDS[name], Number(process.env[name])] as const));
+  return {
+    ...ruleSet,
+    rules: ruleSet.rules.map(rule => {
+      const value = values.get(rule.id);
+      return value === undefined || !Number.isFinite(value) ? rule : { ...rule, value };
+    })
+  };
+}
+
+const riskRulesFile = (): string =>
+  process.env.RISK_RULES_FILE || path.join(__dirname, '../../config/risk-rules.json');
+
+/**
+ * Load and validate the risk rules file (RISK_RULES_FILE or config/risk-rules.json).
+ * Business area overrides may only refer to rules the file defines. The deprecated
+ * RISK_*_THRESHOLD settings, where set, replace the default values of their rules.
+ */
+export function loadRiskRules(rulesPath: string = riskRulesFile()): RiskRuleSet {
+  let raw: unknown;
+  try {
+    raw = JSON.parse(fs.readFileSync(rulesPath, 'utf-8'));
+  } catch (error) {
+    throw new Error(`Unable to read risk rules ${rulesPath}: ${error instanceof Error ? error.message : error}`);
+  }
+
+  const { error, value } = rulesSchema.validate(raw, { abortEarly: false });
+  if (error) {
+    throw new Error(`Invalid risk rules ${rulesPath}: ${error.details.map(d => d.message).join('; ')}`);
+  }
+
+  const ruleSet = value as RiskRuleSet;
+  const ids = new Set(ruleSet.rules.map(rule => rule.id));
+  for (const [businessArea, overrides] of Object.entries(ruleSet.businessAreas)) {
+    const unknown = Object.keys(overrides.rules || {}).filter(id => !ids.has(id));
+    if (unknown.length > 0) {
+      throw new Error(`Invalid risk rules ${rulesPath}: business area "${businessArea}" overrides unknown rule(s) ${unknown.join(', ')}`);
+    }
+  }
+  return applyLegacyThresholds(ruleSet);
+}
+
+// Rules read from the file, with its modification time
+let loaded: { mtimeMs: number; ruleSet: RiskRuleSet } | null = null;
+let _riskRules: RiskRuleSet | null = null;
+
+/**
+ * The active risk rules. The file is re-read when it changes, so rules can be retuned without a
+ * restart; a version that fails validation is logged and the last valid rules kept.
+ */
+export const getRiskRules = (): RiskRuleSet => {
+  if (_riskRules) return _riskRules;
+  const filePath = riskRulesFile();
+
+  let mtimeMs: number;
+  try {
+    mtimeMs = fs.statSync(filePath).mtimeMs;
+  } catch (error) {
+    if (loaded) return loaded.ruleSet;
+    throw new Error(`Risk rules ${filePath} not found`);
+  }
+  if (loaded && loaded.mtimeMs === mtimeMs) return loaded.ruleSet;
+
+  try {
+    const ruleSet = loadRiskRules(filePath);
+    if (loaded) logger.info(`Reloaded risk rules from ${filePath}`);
+    loaded = { mtimeMs, ruleSet };
+    return ruleSet;
+  } catch (error) {
+    if (!loaded) throw error;
+    logger.error('Keeping the previous risk rules:', error);
+    return loaded.ruleSet;
+  }
+};
+
+/**
+ * Override the active risk rules (e.g. in tests). Pass null to use the rules file again.
+ */
+export const setRiskRules = (ruleSet: RiskRuleSet | null): void => {
+  _riskRules = ruleSet;
+};
+
+/**
+ * Metrics the rules test, for an item's current rows and the same item's rows a year earlier.
+ * Percentages are 0-100; the month-on-month trend is computed by the caller.
+ */
+export function riskMetrics(rows: SalesData[], previousRows: SalesData[], momTrend: number): RiskMetrics {
+  const gSales = _.sumBy(rows, row => toNumber(row.gSales));
+  const fGP = _.sumBy(rows, row => toNumber(row.fGP));
+  const previousSales = _.sumBy(previousRows, row => toNumber(row.gSales));
+  const discounts = _.sumBy(rows, row => _.sumBy(DISCOUNT_FIELDS, field => toNumber(row[field])));
+  const byCustomer = _.groupBy(rows.filter(row => row.Customer), 'Customer');
+  const topCustomer = _.max(Object.values(byCustomer).map(customerRows => _.sumBy(customerRows, row => toNumber(row.gSales)))) || 0;
+
+  return {
+    gSales,
+    fGP,
+    fGPPercent: gSales !== 0 ? (fGP / gSales) * 100 : null,
+    yoyVar: previousRows.length ? gSales - previousSales : null,
+    yoyVarPercent: previousSales !== 0 ? ((gSales - previousSales) / Math.abs(previousSales)) * 100 : null,
+    momTrend,
+    discountRate: gSales > 0 ? (discounts / gSales) * 100 : null,
+    topCustomerShare: gSales > 0 ? (topCustomer / gSales) * 100 : null
+  };
+}
+
+/**
+ * Rules and levels that apply in a business area: the defaults with its overrides applied
+ */
+function rulesFor(ruleSet: RiskRuleSet, businessArea: string): { levels: RiskRuleSet['levels']; rules: RiskRule[] } {
+  const overrides = ruleSet.businessAreas[businessArea] || {};
+  return {
+    levels: { ...ruleSet.levels, ...overrides.levels },
+    rules: ruleSet.rules.map(rule => ({ ...rule, ...overrides.rules?.[rule.id] }))
+  };
+}
+
+/**
+ * Score an item against every enabled rule of its business area. The score is the sum of the
+ * weights of the triggered rules, and its level the highest level whose threshold it reaches.
+ */
+export function scoreRisk(metrics: RiskMetrics, businessArea: string, ruleSet: RiskRuleSet = getRiskRules()): { score: number; riskLevel: RiskLevel; reasons: RiskReason[] } {
+  const { levels, rules } = rulesFor(ruleSet, businessArea);
+
+  const reasons: RiskReason[] = [];
+  for (const rule of rules) {
+    const actual = metrics[rule.metric];
+    if (rule.enabled === false || actual === null || !OPERATORS[rule.operator](actual, rule.value)) continue;
+    reasons.push({
+      rule: rule.id,
+      reason: rule.reason,
+      metric: rule.metric,
+      operator: rule.operator,
+      threshold: rule.value,
+      actual,
+      weight: rule.weight
+    });
+  }
+
+  const score = _.sumBy(reasons, 'weight');
+  const riskLevel: RiskLevel = reasons.length && score >= levels.high ? 'high' : reasons.length && score >= levels.medium ? 'medium' : 'low';
+  return { score, riskLevel, reasons: _.orderBy(reasons, 'weight', 'desc') };
+}
@@ -0,0 +1,231 @@
+import { SalesData } from '@/types/data';
+import { toNumber } from '@/utils/number';
+import { DimensionField, DimensionPredicates, DimensionValue, PERIOD_FIELD, periodKey } from './columnarDataset';
+
+export const CUBE_DIMENSIONS = ['Year', 'Month Name', 'Business', 'Channel', 'Brand', 'Customer'] as const;
+export const CUBE_MEASURES = ['Cases', 'gSales', 'fGP', 'Group Cost', 'Price Downs', 'Perm. Disc.', 'LTA'] as const;
+
+export type CubeDimension = typeof CUBE_DIMENSIONS[number];
+export type CubeMeasure = typeof CUBE_MEASURES[number];
+export type CubeTotals = Record<CubeMeasure, number>;
+
+export interface CubeGroup {
+  key: Partial<Record<CubeDimension, DimensionValue>>;
+  totals: CubeTotals;
+  rows: number;
+}
+
+// Grains materialised on top of the base cube; every grain keeps Year x Month so
+// period-bounded queries only touch the cells of the requested months
+const ROLL_UP_GRAINS: CubeDimension[][] = [
+  ['Year', 'Month Name'],
+  ['Year', 'Month Name', 'Business'],
+  ['Year', 'Month Name', 'Channel'],
+  ['Year', 'Month Name', 'Business', 'Channel'],
+  ['Year', 'Month Name', 'Brand'],
+  ['Year', 'Month Name', 'Business', 'Channel', 'Brand'],
+  ['Year', 'Month Name', 'Customer'],
+  ['Year', 'Month Name', 'Business', 'Channel', 'Customer']
+];
+
+interface CubeCell {
+  values: DimensionValue[];
+  totals: Float64Array;
+  rows: number;
+  // Index of the first source row in the cell, used to keep first-seen ordering
+  seq: number;
+}
+
+class RollUp {
+  readonly cells: CubeCell[] = [];
+  readonly byPeriod = new Map<string, CubeCell[]>();
+  private readonly lookup = new Map<string, CubeCell>();
+  private readonly yearPos: number;
+  private readonly monthPos: number;
+
+  constructor(readonly dims: CubeDimension[]) {
+    this.yearPos = dims.indexOf('Year');
+    this.monthPos = dims.indexOf('Month Name');
+  }
+
+  add(values: DimensionValue[], totals: ArrayLike<number>, rows: number, seq: number): void {
+    const key = values.join('\u0001');
+    let cell = this.lookup.get(key);
+    if (!cell) {
+      cell = { values, totals: new Float64Array(CUBE_MEASURES.length), rows: 0, seq };
+      this.lookup.set(key, cell);
+      this.cells.push(cell);
+      const period = bucketKey(values[this.yearPos], values[this.monthPos]);
+      const bucket = this.byPeriod.get(period);
+      if (bucket) bucket.push(cell); else this.byPeriod.set(period, [cell]);
+    }
+    for (let m = 0; m < CUBE_MEASURES.length; m++) cell.totals[m] += totals[m];
+    cell.rows += rows;
+    if (seq < cell.seq) cell.seq = seq;
+  }
+}
+
+function bucketKey(year: DimensionValue, month: DimensionValue): string {
+  return `${year}\u0001${month}`;
+}
+
+// Cubes keyed by the row array they were built from
+const cubes = new WeakMap<SalesData[], SalesCube>();
+
+/**
+ * Pre-aggregated cube over Year x Month x Business x Channel x Brand x Customer,
+ * with roll-ups at the grains used by the reports. Built once per loaded dataset.
+ */
+export class SalesCube {
+  private readonly base: RollUp;
+  private readonly rollUps: RollUp[];
+  private readonly values = new Map<CubeDimension, Set<DimensionValue>>();
+
+  private constructor(rows: SalesData[]) {
+    this.base = new RollUp([...CUBE_DIMENSIONS]);
+    const totals = new Float64Array(CUBE_MEASURES.length);
+    for (const dim of CUBE_DIMENSIONS) this.values.set(dim, new Set());
+
+    rows.forEach((row, index) => {
+      const values = CUBE_DIMENSIONS.map(dim => {
+        const raw = row[dim];
+        const value = dim === 'Year'
+          ? (typeof raw === 'string' ? parseInt(raw) : raw as number)
+          : (raw === undefined || raw === null ? '' : raw as string);
+        this.values.get(dim)!.add(value);
+        return value;
+      });
+      for (let m = 0; m < CUBE_MEASURES.length; m++) totals[m] = toNumber(row[CUBE_MEASURES[m]]);
+      this.base.add(values, totals, 1, index);
+    });
+
+    this.rollUps = ROLL_UP_GRAINS.map(dims => {
+      const rollUp = new RollUp(dims);
+      const positions = dims.map(dim => CUBE_DIMENSIONS.indexOf(dim));
+      for (const cell of this.base.cells) {
+        rollUp.add(positions.map(p => cell.values[p]), cell.totals, cell.rows, cell.seq);
+      }
+      return rollUp;
+    });
+    this.rollUps.push(this.base);
+  }
+
+  /**
+   * Get (or build) the cube for a row array
+   */
+  static for(rows: SalesData[]): SalesCube {
+    let cube = cubes.get(rows);
+    if (!cube) {
+      cube = new SalesCube(rows);
+      cubes.set(rows, cube);
+    }
+    return cube;
+  }
+
+  /**
+   * Get the cube for a row array only if it has already been built
+   */
+  static peek(rows: SalesData[]): SalesCube | undefined {
+    return cubes.get(rows);
+  }
+
+  /**
+   * Whether every predicate is on a cube dimension (so the cube can answer it)
+   */
+  static covers(predicates: DimensionPredicates): boolean {
+    return (Object.keys(predicates) as DimensionField[]).every(field => field === PERIOD_FIELD || isCubeDimension(field));
+  }
+
+  static isDimension(field: string): field is CubeDimension {
+    return isCubeDimension(field);
+  }
+
+  static isMeasure(field: string): field is CubeMeasure {
+    return (CUBE_MEASURES as readonly string[]).includes(field);
+  }
+
+  /**
+   * Distinct values of a dimension in the cube
+   */
+  distinct(dim: CubeDimension): DimensionValue[] {
+    return [...this.values.get(dim)!];
+  }
+
+  /**
+   * Sum a measure over cells matching the predicates
+   */
+  sum(measure: CubeMeasure, predicates: DimensionPredicates = {}): number {
+    const m = CUBE_MEASURES.indexOf(measure);
+    let total = 0;
+    this.scan([], predicates, cell => {
+      total += cell.totals[m];
+    });
+    return total;
+  }
+
+  /**
+   * Totals grouped by the given dimensions, in first-seen row order
+   */
+  aggregate(groupBy: CubeDimension[], predicates: DimensionPredicates = {}): CubeGroup[] {
+    const groups = new Map<string, CubeGroup & { seq: number }>();
+    this.scan(groupBy, predicates, (cell, dims) => {
+      const values = groupBy.map(dim => cell.values[dims.indexOf(dim)]);
+      const key = values.join('\u0001');
+      let group = groups.get(key);
+      if (!group) {
+        group = {
+          key: Object.fromEntries(groupBy.map((dim, i) => [dim, values[i]])),
+          totals: Object.fromEntries(CUBE_MEASURES.map(measure => [measure, 0])) as CubeTotals,
+          rows: 0,
+          seq: cell.seq
+        };
+        groups.set(key, group);
+      }
+      CUBE_MEASURES.forEach((measure, i) => {
+        group!.totals[measure] += cell.totals[i];
+      });
+      group.rows += cell.rows;
+      if (cell.seq < group.seq) group.seq = cell.seq;
+    });
+
+    return [...groups.values()]
+      .sort((a, b) => a.seq - b.seq)
+      .map(({ key, totals, rows }) => ({ key, totals, rows }));
+  }
+
+  /**
+   * Visit matching cells of the smallest roll-up that holds every needed dimension
+   */
+  private scan(groupBy: CubeDimension[], predicates: DimensionPredicates, visit: (cell: CubeCell, dims: CubeDimension[]) => void): void {
+    const { [PERIOD_FIELD]: periods, ...rest } = predicates;
+    const filters = Object.entries(rest) as Array<[CubeDimension, ReadonlySet<DimensionValue>]>;
+    if (!filters.every(([field]) => isCubeDimension(field))) {
+      throw new Error(`Cube cannot answer predicates on ${filters.map(([f]) => f).filter(f => !isCubeDimension(f)).join(', ')}`);
+    }
+
+    const needed = new Set<CubeDimension>([...groupBy, ...filters.map(([field]) => field)]);
+    const rollUp = this.rollUps
+      .filter(r => [...needed].every(dim => r.dims.includes(dim)))
+      .reduce((best, r) => (r.cells.length < best.cells.length ? r : best));
+
+    const checks = filters
+      .filter(([field]) => field !== 'Year' && field !== 'Month Name')
+      .map(([field, allowed]) => ({ pos: rollUp.dims.indexOf(field), allowed }));
+    const matches = (cell: CubeCell) => checks.every(({ pos, allowed }) => allowed.has(cell.values[pos]));
+
+    const years = predicates.Year ? [...predicates.Year] : this.distinct('Year');
+    const months = predicates['Month Name'] ? [...predicates['Month Name']] : this.distinct('Month Name');
+    for (const year of years) {
+      for (const month of months) {
+        if (periods && !periods.has(periodKey(year, String(month)))) continue;
+        for (const cell of rollUp.byPeriod.get(bucketKey(year, month)) || []) {
+          if (matches(cell)) visit(cell, rollUp.dims);
+        }
+      }
+    }
+  }
+}
+
+function isCubeDimension(field: string): field is CubeDimension {
+  return (CUBE_DIMENSIONS as readonly string[]).includes(field);
+}
@@ -0,0 +1,53 @@
+import _ from 'lodash';
+import { SEASON_LENGTH, forecastSeries, sumVariance } from './salesForecast';
+
+// A trending monthly series with a seasonal swing, optionally with some noise
+const trendAndSeason = (t: number): number => 1000 + 10 * t + 200 * Math.sin((2 * Math.PI * t) / SEASON_LENGTH);
+const seasonal = (months: number, noise: (t: number) => number = () => 0): number[] =>
+  _.times(months, t => trendAndSeason(t) + noise(t));
+
+describe('forecastSeries', () => {
+  it('uses Holt-Winters once there are two full seasons', () => {
+    expect(forecastSeries(seasonal(24), 6).method).toBe('holtWinters');
+    expect(forecastSeries(seasonal(13), 6).method).toBe('seasonalNaive');
+    expect(forecastSeries(seasonal(12), 6).method).toBe('naiveDrift');
+  });
+
+  it('carries the trend and the season forward', () => {
+    const { values } = forecastSeries(seasonal(36), 12);
+
+    values.forEach((value, h) => expect(value).toBeCloseTo(trendAndSeason(36 + h), -1));
+  });
+
+  it('widens the error variance with each step ahead', () => {
+    const { variances } = forecastSeries(seasonal(36, t => (t % 3) * 15 - 15), 12);
+
+    expect(variances[0]).toBeGreaterThan(0);
+    for (let h = 1; h < variances.length; h++) {
+      expect(variances[h]).toBeGreaterThanOrEqual(variances[h - 1]);
+    }
+  });
+
+  it('reads each step variance from the covariance', () => {
+    for (const months of [36, 18, 6]) {
+      const forecast = forecastSeries(seasonal(months, t => (t % 4) * 20 - 30), 12);
+      forecast.variances.forEach((variance, h) => expect(forecast.covariance(h, h)).toBeCloseTo(variance, 6));
+      expect(forecast.covariance(2, 7)).toBeCloseTo(forecast.covariance(7, 2), 6);
+    }
+  });
+
+  it('gives a landing variance above the sum of the step variances, as step errors are correlated', () => {
+    const forecast = forecastSeries(seasonal(36, t => (t % 3) * 15 - 15), 6);
+    const steps = _.range(6);
+
+    expect(sumVariance(forecast, steps)).toBeGreaterThan(_.sum(forecast.variances));
+    expect(sumVariance(forecast, [0])).toBeCloseTo(forecast.variances[0], 6);
+  });
+
+  it('returns nothing for an empty horizon', () => {
+    const forecast = forecastSeries(seasonal(36), 0);
+
+    expect(forecast.values).toEqual([]);
+    expect(sumVariance(forecast, [])).toBe(0);
+  });
+});
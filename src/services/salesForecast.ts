@@ -0,0 +1,152 @@
+import _ from 'lodash';
+import { ForecastMethod } from '@/types/data';
+
+// Monthly data: one season is a year
+export const SEASON_LENGTH = 12;
+
+// Two-sided normal quantiles for the supported prediction interval levels
+export const INTERVAL_Z: Record<number, number> = { 80: 1.2816, 90: 1.6449, 95: 1.96 };
+
+// Smoothing parameters tried when fitting Holt-Winters (level, trend, season)
+const ALPHAS = [0.1, 0.2, 0.3, 0.5, 0.7, 0.9];
+const BETAS = [0.01, 0.05, 0.1, 0.2];
+const GAMMAS = [0.05, 0.1, 0.2, 0.3, 0.5];
+
+export interface SeriesForecast {
+  method: ForecastMethod;
+  values: number[];
+  // Forecast error variance of each step ahead
+  variances: number[];
+  // Forecast error covariance of two steps ahead (0-based): errors of different steps share shocks
+  covariance: (i: number, j: number) => number;
+}
+
+interface HoltWintersFit {
+  sse: number;
+  level: number;
+  trend: number;
+  seasonals: number[];
+  residuals: number[];
+}
+
+// Error variance, less the degrees of freedom the fitted parameters used
+const errorVariance = (errors: number[], parameters: number): number =>
+  errors.length > parameters ? _.sumBy(errors, e => e * e) / (errors.length - parameters) : 0;
+
+/**
+ * Additive Holt-Winters run over the series with fixed smoothing parameters. The trend starts as the
+ * change between the means of the first two seasons, the level at the end of the first season, and
+ * each seasonal as its month's average deviation from that trend line; one-step errors are
+ * collected after the first season.
+ */
+function runHoltWinters(series: number[], alpha: number, beta: number, gamma: number): HoltWintersFit {
+  const m = SEASON_LENGTH;
+  const firstSeason = _.mean(series.slice(0, m));
+  const secondSeason = _.mean(series.slice(m, 2 * m));
+  let trend = (secondSeason - firstSeason) / m;
+  // The first season's mean is the trend line's value mid-season
+  const trendLine = (t: number) => firstSeason + trend * (t - (m - 1) / 2);
+  let level = trendLine(m - 1);
+  const seasonals = _.times(m, i => (series[i] - trendLine(i) + series[i + m] - trendLine(i + m)) / 2);
+  const residuals: number[] = [];
+
+  for (let t = m; t < series.length; t++) {
+    const seasonal = seasonals[t % m];
+    residuals.push(series[t] - (level + trend + seasonal));
+    const previousLevel = level;
+    level = alpha * (series[t] - seasonal) + (1 - alpha) * (level + trend);
+    trend = beta * (level - previousLevel) + (1 - beta) * trend;
+    seasonals[t % m] = gamma * (series[t] - level) + (1 - gamma) * seasonal;
+  }
+
+  return { sse: _.sumBy(residuals, e => e * e), level, trend, seasonals, residuals };
+}
+
+// A forecast of the given values, with each step's variance read from the error covariance
+const withCovariance = (method: ForecastMethod, values: number[], covariance: (i: number, j: number) => number): SeriesForecast =>
+  ({ method, values, variances: values.map((_value, i) => covariance(i, i)), covariance });
+
+/**
+ * Holt-Winters with the smoothing parameters that minimise the one-step squared error. The error
+ * h steps ahead is the shock of step h plus c(j) times the shock j steps earlier, with
+ * c(j) = alpha * (1 + beta * j) + gamma * [j is a whole season]; its variance is
+ * sigma^2 * (1 + sum over j < h of c(j)^2), and steps share the shocks both depend on.
+ */
+function holtWinters(series: number[], horizon: number): SeriesForecast {
+  let best: (HoltWintersFit & { alpha: number; beta: number; gamma: number }) | null = null;
+  for (const alpha of ALPHAS) {
+    for (const beta of BETAS) {
+      for (const gamma of GAMMAS) {
+        const fit = runHoltWinters(series, alpha, beta, gamma);
+        if (!best || fit.sse < best.sse) best = { ...fit, alpha, beta, gamma };
+      }
+    }
+  }
+
+  const { level, trend, seasonals, residuals, alpha, beta, gamma } = best!;
+  const sigma2 = errorVariance(residuals, 3);
+  const n = series.length;
+  const values = _.times(horizon, i => level + (i + 1) * trend + seasonals[(n + i) % SEASON_LENGTH]);
+  const weight = (j: number) => (j === 0 ? 1 : alpha * (1 + beta * j) + (j % SEASON_LENGTH === 0 ? gamma : 0));
+  // Steps i and j (0-based) share the shocks of steps 0 to min(i, j)
+  return withCovariance('holtWinters', values, (i, j) =>
+    sigma2 * _.sumBy(_.range(Math.min(i, j) + 1), k => weight(i - k) * weight(j - k)));
+}
+
+/**
+ * Same month last year plus the average year-on-year change. Each further season ahead adds
+ * another season's error for its month, on top of the uncertainty in the average change that
+ * every step shares.
+ */
+function seasonalNaive(series: number[], horizon: number): SeriesForecast {
+  const m = SEASON_LENGTH;
+  const changes = series.slice(m).map((value, i) => value - series[i]);
+  const drift = _.mean(changes);
+  const sigma2 = errorVariance(changes.map(change => change - drift), 1);
+  const n = series.length;
+
+  const values: number[] = [];
+  for (let h = 1; h <= horizon; h++) {
+    values.push((h <= m ? series[n - m + h - 1] : values[h - 1 - m]) + drift);
+  }
+  const seasonsAhead = (i: number) => Math.floor(i / m) + 1;
+  return withCovariance('seasonalNaive', values, (i, j) => sigma2 * (
+    (i % m === j % m ? Math.min(seasonsAhead(i), seasonsAhead(j)) : 0) + (seasonsAhead(i) * seasonsAhead(j)) / changes.length
+  ));
+}
+
+/**
+ * Last value plus the average month-on-month change, for series shorter than a season and a month.
+ * Each step adds a month's error to the ones before it, and every step shares the uncertainty in
+ * the average change.
+ */
+function naiveDrift(series: number[], horizon: number): SeriesForecast {
+  const n = series.length;
+  if (n === 0) {
+    return withCovariance('naiveDrift', _.times(horizon, _.constant(0)), () => 0);
+  }
+  const changes = series.slice(1).map((value, i) => value - series[i]);
+  const drift = changes.length ? _.mean(changes) : 0;
+  const sigma2 = errorVariance(changes.map(change => change - drift), 1);
+  return withCovariance('naiveDrift', _.times(horizon, i => series[n - 1] + (i + 1) * drift), (i, j) =>
+    sigma2 * (Math.min(i, j) + 1 + (changes.length ? ((i + 1) * (j + 1)) / changes.length : 0)));
+}
+
+/**
+ * Forecast the next `horizon` months of a monthly series: Holt-Winters once there are two full
+ * seasons, seasonal naive with trend once there is a season and a month, naive with drift before that
+ */
+export function forecastSeries(series: number[], horizon: number): SeriesForecast {
+  if (horizon <= 0) return withCovariance('naiveDrift', [], () => 0);
+  if (series.length >= 2 * SEASON_LENGTH) return holtWinters(series, horizon);
+  if (series.length > SEASON_LENGTH) return seasonalNaive(series, horizon);
+  return naiveDrift(series, horizon);
+}
+
+/**
+ * Error variance of the sum of some steps of a forecast (0-based), e.g. the months left in a year:
+ * every pair of steps adds its covariance, as their errors are not independent
+ */
+export function sumVariance(forecast: SeriesForecast, steps: number[]): number {
+  return _.sumBy(steps, i => _.sumBy(steps, j => forecast.covariance(i, j)));
+}
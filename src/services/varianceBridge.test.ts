@@ -0,0 +1,77 @@
+import _ from 'lodash';
+import { SalesData } from '@/types/data';
+import { buildPnlBridge, buildVarianceBridge } from './varianceBridge';
+
+const row = (brand: string, cases: number, gSales: number, discounts: number, cost: number): SalesData => ({
+  Brand: brand,
+  Cases: cases,
+  gSales,
+  'Price Downs': discounts,
+  'Perm. Disc.': 0,
+  LTA: 0,
+  'Group Cost': cost,
+  fGP: gSales - discounts - cost
+} as SalesData);
+
+describe('buildVarianceBridge', () => {
+  const previous = [
+    row('Kept', 100, 1000, 100, 500),
+    row('Lost', 50, 400, 0, 300)
+  ];
+  const current = [
+    row('Kept', 120, 1320, 120, 600),
+    row('New', 30, 300, 30, 150)
+  ];
+
+  it('adds up to the actual fGP change with new and lost items', () => {
+    const bridge = buildVarianceBridge(previous, current, 'brand');
+    const effects = bridge.volumeVariance + bridge.mixVariance + bridge.priceVariance +
+      bridge.discountVariance + bridge.costVariance + bridge.otherVariance;
+
+    expect(bridge.previousValue).toBe(500);
+    expect(bridge.currentValue).toBe(720);
+    expect(bridge.totalVariance).toBe(220);
+    expect(effects).toBeCloseTo(220, 6);
+  });
+
+  it('stacks the waterfall from the previous to the current fGP', () => {
+    const { bridge } = buildVarianceBridge(previous, current, 'brand');
+    const effects = bridge.filter(step => step.type === 'effect');
+
+    expect(bridge[0]).toMatchObject({ name: 'Previous fGP', end: 500 });
+    expect(_.last(bridge)).toMatchObject({ name: 'Current fGP', end: 720 });
+    expect(_.last(effects)!.end).toBeCloseTo(720, 6);
+  });
+
+  it('values new items at their current rates, so their contribution is mix', () => {
+    const driver = buildVarianceBridge(previous, current, 'brand').drivers.find(d => d.item === 'New')!;
+
+    expect(driver.change).toBe(120);
+    expect(driver.volumeVariance).toBe(0);
+    expect(driver.priceVariance + driver.discountVariance + driver.costVariance + driver.otherVariance).toBe(0);
+    // A fifth of the cases move to an item earning 4.00 per case against 3.33 on average
+    expect(driver.mixVariance).toBeCloseTo(20, 6);
+  });
+
+  it('drops lost items out through volume and mix', () => {
+    const driver = buildVarianceBridge(previous, current, 'brand').drivers.find(d => d.item === 'Lost')!;
+
+    expect(driver.change).toBe(-100);
+    expect(driver.priceVariance + driver.discountVariance + driver.costVariance + driver.otherVariance).toBe(0);
+    // Total cases are flat, and losing an item earning 2.00 per case lifts the mix
+    expect(driver.volumeVariance).toBe(0);
+    expect(driver.mixVariance).toBeCloseTo(200 / 3, 6);
+  });
+});
+
+describe('buildPnlBridge', () => {
+  it('attributes the fGP change to the P&L lines', () => {
+    const bridge = buildPnlBridge('Total', [row('Kept', 100, 1000, 100, 500)], [row('Kept', 100, 1100, 150, 520)]);
+
+    expect(bridge.change).toBe(30);
+    expect(bridge.lines.find(line => line.line === 'gSales')!.effect).toBe(100);
+    expect(bridge.lines.find(line => line.line === 'Price Downs')!.effect).toBe(-50);
+    expect(bridge.lines.find(line => line.line === 'Group Cost')!.effect).toBe(-20);
+    expect(bridge.steps.find(step => step.name === 'Other')!.value).toBeCloseTo(0, 6);
+  });
+});
@@ -0,0 +1,190 @@
+import _ from 'lodash';
+import { FgpBridge, FgpBridgeLine, SalesData, VarianceAnalysis, VarianceBridgeStep, VarianceDriver, VarianceEffects, VarianceLevel } from '@/types/data';
+import { toNumber } from '@/utils/number';
+
+// Item the mix is measured over
+export const VARIANCE_LEVEL_FIELDS: Record<VarianceLevel, keyof SalesData> = {
+  sku: 'SKU Channel Name',
+  brand: 'Brand'
+};
+
+const DISCOUNT_FIELDS = ['Price Downs', 'Perm. Disc.', 'LTA'] as const;
+
+const EFFECT_STEPS: Array<[keyof VarianceEffects, string]> = [
+  ['volumeVariance', 'Volume'],
+  ['mixVariance', 'Mix'],
+  ['priceVariance', 'Price'],
+  ['discountVariance', 'Discounts'],
+  ['costVariance', 'Cost'],
+  ['otherVariance', 'Other']
+];
+
+// P&L lines from gSales down to fGP, with the sign each carries into fGP
+const PNL_LINES: Array<[keyof SalesData, number]> = [
+  ['gSales', 1],
+  ['Price Downs', -1],
+  ['Perm. Disc.', -1],
+  ['Group Cost', -1],
+  ['LTA', -1]
+];
+
+interface ItemTotals {
+  cases: number;
+  gSales: number;
+  discounts: number;
+  cost: number;
+  fGP: number;
+}
+
+// Per-case rates of an item in one period
+interface ItemRates {
+  price: number;
+  discount: number;
+  cost: number;
+  margin: number;
+}
+
+function totalsByItem(rows: SalesData[], field: keyof SalesData): Map<string, ItemTotals> {
+  const items = new Map<string, ItemTotals>();
+  for (const row of rows) {
+    const key = String(row[field] ?? '');
+    let totals = items.get(key);
+    if (!totals) {
+      totals = { cases: 0, gSales: 0, discounts: 0, cost: 0, fGP: 0 };
+      items.set(key, totals);
+    }
+    totals.cases += toNumber(row.Cases);
+    totals.gSales += toNumber(row.gSales);
+    for (const discount of DISCOUNT_FIELDS) totals.discounts += toNumber(row[discount]);
+    totals.cost += toNumber(row['Group Cost']);
+    totals.fGP += toNumber(row.fGP);
+  }
+  return items;
+}
+
+// Only items that sold cases carry per-case rates
+const soldCases = (totals?: ItemTotals): number => (totals && totals.cases > 0 ? totals.cases : 0);
+
+const ratesOf = (totals: ItemTotals): ItemRates => ({
+  price: totals.gSales / totals.cases,
+  discount: totals.discounts / totals.cases,
+  cost: totals.cost / totals.cases,
+  margin: totals.fGP / totals.cases
+});
+
+/**
+ * Price-volume-mix bridge of fGP from the previous to the current rows, per item at the given level:
+ * - volume: change in total cases at the previous average fGP per case
+ * - mix: shift in case share between items with different fGP per case
+ * - price, discount, cost: change in gSales, discounts (Price Downs, Perm. Disc., LTA) and Group Cost per case, on current cases
+ * - other: whatever fGP the per-case rates don't explain, so the steps always add up to the actual change
+ * New items are valued at their current rates (their whole contribution is mix); lost items drop out through volume and mix.
+ */
+export function buildVarianceBridge(
+  previousRows: SalesData[],
+  currentRows: SalesData[],
+  level: VarianceLevel = 'sku',
+  driverLimit = 10
+): Omit<VarianceAnalysis, 'period' | 'comparison'> {
+  const field = VARIANCE_LEVEL_FIELDS[level];
+  const previous = totalsByItem(previousRows, field);
+  const current = totalsByItem(currentRows, field);
+
+  const previousCases = _.sumBy([...previous.values()], soldCases);
+  const currentCases = _.sumBy([...current.values()], soldCases);
+  const previousMargin = previousCases > 0
+    ? _.sumBy([...previous.values()].filter(t => soldCases(t) > 0), t => t.fGP) / previousCases
+    : 0;
+
+  const drivers: VarianceDriver[] = [];
+  for (const item of new Set([...previous.keys(), ...current.keys()])) {
+    const before = previous.get(item);
+    const after = current.get(item);
+    const q0 = soldCases(before);
+    const q1 = soldCases(after);
+    const r1 = q1 ? ratesOf(after!) : null;
+    const r0 = q0 ? ratesOf(before!) : r1;
+    const m0 = r0 ? r0.margin : 0;
+    const s0 = previousCases > 0 ? q0 / previousCases : 0;
+    const s1 = currentCases > 0 ? q1 / currentCases : 0;
+
+    const volumeVariance = (currentCases - previousCases) * s0 * m0;
+    const mixVariance = (s1 - s0) * currentCases * (m0 - previousMargin);
+    const priceVariance = r1 && r0 ? q1 * (r1.price - r0.price) : 0;
+    const discountVariance = r1 && r0 ? -q1 * (r1.discount - r0.discount) : 0;
+    const costVariance = r1 && r0 ? -q1 * (r1.cost - r0.cost) : 0;
+    const rateVariance = r1 && r0 ? q1 * (r1.margin - r0.margin) : 0;
+    // fGP booked without cases (credits, accruals) has no per-case rate
+    const unitless = (q1 ? 0 : after?.fGP ?? 0) - (q0 ? 0 : before?.fGP ?? 0);
+
+    const previousValue = before?.fGP ?? 0;
+    const currentValue = after?.fGP ?? 0;
+    drivers.push({
+      item,
+      previous: previousValue,
+      current: currentValue,
+      change: currentValue - previousValue,
+      volumeVariance,
+      mixVariance,
+      priceVariance,
+      discountVariance,
+      costVariance,
+      otherVariance: rateVariance - priceVariance - discountVariance - costVariance + unitless
+    });
+  }
+
+  const effects = Object.fromEntries(EFFECT_STEPS.map(([key]) => [key, _.sumBy(drivers, key)])) as unknown as VarianceEffects;
+  const previousValue = _.sumBy(drivers, 'previous');
+  const currentValue = _.sumBy(drivers, 'current');
+
+  return {
+    measure: 'fGP',
+    level,
+    previousValue,
+    currentValue,
+    totalVariance: currentValue - previousValue,
+    ...effects,
+    bridge: waterfallSteps(previousValue, EFFECT_STEPS.map(([key, name]) => [name, effects[key]]), currentValue),
+    drivers: _.orderBy(drivers, d => Math.abs(d.change), 'desc').slice(0, driverLimit)
+  };
+}
+
+/**
+ * fGP bridge by P&L line: previous fGP, the effect of each line's change (gSales up adds,
+ * deductions and costs up subtract), any change the lines don't account for, then current fGP
+ */
+export function buildPnlBridge(name: string, previousRows: SalesData[], currentRows: SalesData[]): FgpBridge {
+  const total = (rows: SalesData[], field: keyof SalesData) => _.sumBy(rows, row => toNumber(row[field]));
+
+  const lines: FgpBridgeLine[] = PNL_LINES.map(([field, sign]) => {
+    const previous = total(previousRows, field);
+    const current = total(currentRows, field);
+    return { line: String(field), previous, current, change: current - previous, effect: sign * (current - previous) };
+  });
+  const previousValue = total(previousRows, 'fGP');
+  const currentValue = total(currentRows, 'fGP');
+  const other = currentValue - previousValue - _.sumBy(lines, 'effect');
+
+  return {
+    name,
+    previousValue,
+    currentValue,
+    change: currentValue - previousValue,
+    lines,
+    steps: waterfallSteps(previousValue, [...lines.map(l => [l.line, l.effect] as [string, number]), ['Other', other]], currentValue)
+  };
+}
+
+/**
+ * Waterfall bars: the previous total, each effect stacked on the running total, the current total
+ */
+function waterfallSteps(previousValue: number, effects: Array<[string, number]>, currentValue: number): VarianceBridgeStep[] {
+  const steps: VarianceBridgeStep[] = [{ name: 'Previous fGP', type: 'total', value: previousValue, start: 0, end: previousValue }];
+  let running = previousValue;
+  for (const [name, value] of effects) {
+    steps.push({ name, type: 'effect', value, start: running, end: running + value });
+    running += value;
+  }
+  steps.push({ name: 'Current fGP', type: 'total', value: currentValue, start: 0, end: currentValue });
+  return steps;
+}
@@ -1,4 +1,4 @@
-// Core data structure based on CSV columns
+// Core data structure based on CSV columns (headers are mapped via config/column-mapping.json)
 export interface SalesData {
   // Time dimensions
   Year: number;
@@ -39,19 +39,167 @@ export interface SalesData {
   
   // Computed fields
   ProdConcat?: string;
+
+  // Plan scenario (budget/forecast rows only)
+  Scenario?: string;
+}
+
+// Column mapping from CSV headers (and aliases) to SalesData fields
+export type ColumnType = 'string' | 'number' | 'integer';
+
+export interface ColumnMappingEntry {
+  field: string;
+  type: ColumnType;
+  required: boolean;
+  sources: string[];
+}
+
+export interface ColumnMapping {
+  columns: ColumnMappingEntry[];
+}
+
+// Mapped field -> actual header found in a CSV file
+export type ResolvedColumns = Record<string, string>;
+
+// Data source interfaces
+export type DataSourceKind = 'azure' | 'local' | 'memory';
+
+export interface DataFetchMeta {
+  source: DataSourceKind | 'cache';
+  rowCount: number;
+  lastUpdated: string;
+}
+
+export interface DataSummary {
+  totalRows: number;
+  dateRange: { start: string; end: string };
+  businessAreas: string[];
+  channels: string[];
+  lastUpdated: string;
+}
+
+export interface SalesDataSource {
+  readonly kind: DataSourceKind;
+  fetchSalesData(): Promise<SalesData[]>;
+  getLastFetchMeta(): DataFetchMeta;
+  getAvailableColumns(): Promise<string[]>;
+  checkForUpdates(): Promise<boolean>;
+  reload(): Promise<SalesData[]>;
+  getDatasetVersion(): string | null;
+  getDataQualityReport(): DataQualityReport | null;
+  testConnection(): Promise<boolean>;
+  getDataSummary(): Promise<DataSummary>;
+}
+
+export interface DataQualityIssue {
+  file?: string;
+  line: number;
+  action: 'rejected' | 'coerced';
+  rule: string;
+  column?: string;
+  value?: unknown;
+  message: string;
+  row?: Record<string, unknown>;
+  // RLS dimensions of the row the issue was found on, for scoping the report to a user
+  dimensions?: DataQualityDimensions;
+}
+
+export type DataQualityDimensions = Partial<Record<'Business' | 'Channel' | 'Brand' | 'Customer', string>>;
+
+export interface DataQualityRuleSummary {
+  rule: string;
+  action: 'rejected' | 'coerced';
+  count: number;
+  samples: DataQualityIssue[];
+}
+
+export interface DataQualityColumnStats {
+  column: string;
+  nullCount: number;
+  zeroCount: number;
+  nullRate: number;
+  zeroRate: number;
+}
+
+export interface DataQualityReport {
+  generatedAt: string;
+  source: DataSourceKind;
+  files: string[];
+  rowsRead: number;
+  rowsAccepted: number;
+  rowsRejected: number;
+  rowsCoerced: number;
+  rules: DataQualityRuleSummary[];
+  columns: DataQualityColumnStats[];
+  quarantine: DataQualityIssue[];
+}
+
+export type DataRefreshOutcome = 'reloaded' | 'unchanged' | 'failed';
+
+export interface DataRefreshRun {
+  startedAt: string;
+  finishedAt: string;
+  durationMs: number;
+  outcome: DataRefreshOutcome;
+  rowCount?: number;
+  version?: string | null;
+  error?: string;
+}
+
+export interface DataRefreshStatus {
+  enabled: boolean;
+  schedule: string;
+  running: boolean;
+  dataSource: DataSourceKind;
+  datasetVersion: string | null;
+  lastRun: DataRefreshRun | null;
+  lastReload: DataRefreshRun | null;
+}
+
+// Fiscal calendar interfaces
+export type FiscalPeriodPattern = 'calendar' | '4-4-5' | '4-5-4' | '5-4-4';
+
+export interface FiscalPeriod {
+  period: number;
+  month: string;
+  quarter: number;
+  label: string;
+  // Week range within the fiscal year for 4-4-5 style patterns, null for calendar months
+  weeks: { start: number; end: number } | null;
+}
+
+export interface FiscalCalendarInfo {
+  startMonth: number;
+  startMonthName: string;
+  pattern: FiscalPeriodPattern;
+  periods: FiscalPeriod[];
 }
 
 // Filter interfaces
+// One value or a multi-select list; 'All' (or an empty list) means no restriction
+export type FilterValue = string | string[];
+
+export type FilterDimension = 'month' | 'businessArea' | 'brand' | 'category' | 'subCategory' | 'channel' | 'customer';
+
+// Values to exclude per dimension, applied on top of the include lists
+export type FilterExclusions = Partial<Record<FilterDimension, string[]>>;
+
 export interface DataFilters {
   year?: number;
-  month?: string;
-  businessArea?: string;
-  brand?: string;
-  category?: string;
-  subCategory?: string;
-  channel?: string;
-  customer?: string;
+  month?: FilterValue;
+  businessArea?: FilterValue;
+  brand?: FilterValue;
+  category?: FilterValue;
+  subCategory?: FilterValue;
+  channel?: FilterValue;
+  customer?: FilterValue;
+  not?: FilterExclusions;
   period?: string;
+  // Custom month range (YYYY-MM); `to` also anchors the rolling windows
+  from?: string;
+  to?: string;
+  // What a rolling/custom period is compared with: the same months a year earlier (default) or the period before
+  compare?: PeriodComparison;
   limit?: number;
   offset?: number;
   // RLS filters
@@ -59,8 +207,90 @@ export interface DataFilters {
   allowedChannels?: string[];
   allowedBrands?: string[];
   allowedCustomers?: string[];
+  // Plan scenarios to report against alongside last year
+  vs?: PlanScenario[];
   // Internal flags
   skipYearFilter?: boolean;
+  // Resolved rolling/custom window to select, e.g. a comparison window; never parsed from the query
+  window?: PeriodWindow;
+  // Run a report on the rows of a plan scenario instead of the actuals
+  scenario?: PlanScenario;
+}
+
+// Budget/forecast scenarios of the plan file
+export type PlanScenario = 'budget' | 'forecast';
+
+// Rolling (R3M/R6M/R12M) and custom from/to periods
+export type PeriodComparison = 'priorYear' | 'priorPeriod';
+
+export interface PeriodWindow {
+  period: string;
+  from: string;
+  to: string;
+  months: number;
+  // Period keys (year * 12 + zero-based month) of the window and of its comparison window
+  periods: number[];
+  comparison: PeriodComparison;
+  comparisonPeriods: number[];
+  // Fiscal year the window ends in; reports use it as their current year
+  fiscalYear: number;
+}
+
+// Semantic query interfaces (POST /api/v1/query)
+export type QueryAggregation = 'sum' | 'count' | 'countDistinct' | 'avg' | 'ratio';
+export type QueryComparison = 'LY' | 'priorPeriod';
+
+export interface QueryMeasure {
+  name: string;
+  op: QueryAggregation;
+  // Measure column for sum/avg, dimension column for countDistinct
+  field?: string;
+  // Ratio of two summed measure columns
+  numerator?: string;
+  denominator?: string;
+  percent?: boolean;
+}
+
+export interface QueryFilter {
+  field: string;
+  in?: Array<string | number>;
+  notIn?: Array<string | number>;
+}
+
+export interface QuerySort {
+  by: string;
+  direction: 'asc' | 'desc';
+}
+
+export interface QuerySpec {
+  dimensions: string[];
+  measures: QueryMeasure[];
+  filters: QueryFilter[];
+  sort: QuerySort[];
+  limit: number;
+  compare?: QueryComparison;
+}
+
+export type QueryValues = Record<string, number | null>;
+
+export interface QueryResultRow {
+  dimensions: Record<string, string | number>;
+  measures: QueryValues;
+  comparison?: QueryValues;
+  change?: QueryValues;
+  changePercent?: QueryValues;
+}
+
+export interface QueryResult {
+  dimensions: string[];
+  measures: string[];
+  compare: QueryComparison | null;
+  rows: QueryResultRow[];
+  totals: QueryValues;
+  comparisonTotals?: QueryValues;
+  // Number of groups before the limit was applied
+  rowCount: number;
+  truncated: boolean;
 }
 
 // Aggregated data interfaces
@@ -85,12 +315,163 @@ export interface TopPerformer {
   category: string;
 }
 
+export type RiskLevel = 'high' | 'medium' | 'low';
+
 export interface RiskItem {
   name: string;
   value: number;
-  riskLevel: 'high' | 'medium' | 'low';
+  riskLevel: RiskLevel;
+  // Triggered reasons, joined
   reason: string;
   trend: number;
+  // Sum of the weights of the triggered rules
+  score: number;
+  // Business area whose rules scored the item (the one with most of its gSales)
+  businessArea: string;
+  reasons: RiskReason[];
+  metrics: RiskMetrics;
+}
+
+// Risk rules engine: metrics computed per item that rules test
+export type RiskMetric = 'gSales' | 'fGP' | 'fGPPercent' | 'yoyVar' | 'yoyVarPercent' | 'momTrend' | 'discountRate' | 'topCustomerShare';
+
+// null where the metric is undefined (no sales, no last-year sales); rules never trigger on null
+export type RiskMetrics = Record<RiskMetric, number | null>;
+
+export type RiskOperator = '<' | '<=' | '>' | '>=';
+
+export interface RiskRule {
+  id: string;
+  reason: string;
+  metric: RiskMetric;
+  operator: RiskOperator;
+  value: number;
+  weight: number;
+  enabled?: boolean;
+}
+
+// Per business area: new score levels and rule changes by rule id
+export interface RiskRuleOverrides {
+  levels?: Partial<RiskRuleSet['levels']>;
+  rules?: Record<string, Partial<Pick<RiskRule, 'value' | 'weight' | 'enabled'>>>;
+}
+
+export interface RiskRuleSet {
+  // Lowest scores rated high and medium risk
+  levels: { high: number; medium: number };
+  rules: RiskRule[];
+  businessAreas: Record<string, RiskRuleOverrides>;
+}
+
+export interface RiskReason {
+  rule: string;
+  reason: string;
+  metric: RiskMetric;
+  operator: RiskOperator;
+  threshold: number;
+  actual: number;
+  weight: number;
+}
+
+// Pareto / ABC classification of a dimension's members by a measure
+export type ParetoClass = 'A' | 'B' | 'C';
+
+export interface ParetoItem {
+  rank: number;
+  name: string;
+  value: number;
+  // Share and running share of the positive total (%)
+  share: number;
+  cumulativeShare: number;
+  class: ParetoClass;
+}
+
+export interface ParetoClassSummary {
+  class: ParetoClass;
+  members: number;
+  // Share of the members and of the positive total in the class (%)
+  memberShare: number;
+  value: number;
+  valueShare: number;
+}
+
+export interface ParetoResult {
+  dimension: string;
+  metric: string;
+  total: number;
+  members: number;
+  // Each class's share of the measure (%)
+  cutoffs: Record<ParetoClass, number>;
+  classes: ParetoClassSummary[];
+  items: ParetoItem[];
+}
+
+// Declarative report layouts (config/reports/*.json), rendered by the report engine
+export type ReportMeasure = 'Cases' | 'gSales' | 'fGP';
+export type ReportDimension = Exclude<FilterDimension, 'month'>;
+
+// Value a column field shows: the current or last-year value, their difference, the difference
+// as % of |last year|, or current as % of |last year|
+export type ReportValue = 'ytd' | 'ly' | 'lyVar' | 'lyVarPercent' | 'cyVLy';
+
+export interface ReportColumn {
+  // Row property the column group is written to (e.g. gSales -> row.gSales.ytd)
+  key: string;
+  // A measure, or a percentage ratio of two measures
+  measure?: ReportMeasure;
+  ratio?: [ReportMeasure, ReportMeasure];
+  // Divide measure values by this (e.g. 1000 for €k)
+  scale?: number;
+  // Output field -> value shown
+  fields: Partial<Record<string, ReportValue>>;
+}
+
+// A row member: a dimension value, or a named row summing several values
+export type ReportMember = string | { name: string; values: string[] };
+
+export interface ReportSection {
+  // Label for readers of the definition (e.g. BV Brands - Food); not rendered
+  name?: string;
+  // Members in order, or '*' for every value in the data not listed in another section
+  members: ReportMember[] | '*';
+  // Leave out members with nothing this year
+  hideEmpty?: boolean;
+  // Order members by a measure's current value, largest first
+  sortBy?: ReportMeasure;
+  // Subtotal row after the section's members
+  subtotal?: string;
+}
+
+export interface ReportTotal {
+  name: string;
+  // Every member row, named member rows, or member rows whose name contains one of the strings
+  of: 'all' | string[] | { contains: string[] };
+  // Leave the row out when no member row matches
+  hideEmpty?: boolean;
+}
+
+export interface ReportDefinition {
+  id: string;
+  version: number;
+  title: string;
+  dimension: ReportDimension;
+  // Round measure values to whole numbers and percentages to one decimal
+  round: boolean;
+  columns: ReportColumn[];
+  sections: ReportSection[];
+  totals: ReportTotal[];
+  // Business values the report covers (every business when unset)
+  businessAreas?: string[];
+  // Lower-case brand name keywords picking the report's brands when no row is in its business areas
+  brandKeywords?: string[];
+}
+
+export type ReportMeasureTotals = Record<ReportMeasure, number>;
+
+// A member's measure totals this year and last year
+export interface ReportMemberTotals {
+  current: ReportMeasureTotals;
+  previous: ReportMeasureTotals;
 }
 
 // Pagination interfaces
@@ -171,16 +552,231 @@ export interface CacheConfig {
 }
 
 // Analytics interfaces
-export interface VarianceAnalysis {
-  totalVariance: number;
+// Price-volume-mix bridge of fGP between two periods; every effect is in currency
+export type VarianceLevel = 'sku' | 'brand';
+
+export interface VarianceEffects {
   volumeVariance: number;
+  mixVariance: number;
   priceVariance: number;
+  discountVariance: number;
   costVariance: number;
-  mixVariance: number;
+  // Change not explained per case: fGP on zero-case lines and any gap between fGP and gSales less discounts and cost
+  otherVariance: number;
+}
+
+export interface VarianceBridgeStep {
+  name: string;
+  type: 'total' | 'effect';
+  value: number;
+  // Bar position for a waterfall chart
+  start: number;
+  end: number;
+}
+
+export interface VarianceDriver extends VarianceEffects {
+  item: string;
+  previous: number;
+  current: number;
+  change: number;
+}
+
+export interface VarianceAnalysis extends VarianceEffects {
+  measure: 'fGP';
+  level: VarianceLevel;
+  previousValue: number;
+  currentValue: number;
+  totalVariance: number;
+  bridge: VarianceBridgeStep[];
+  drivers: VarianceDriver[];
   period: string;
   comparison: string;
 }
 
+// fGP bridge by P&L line (GET /api/v1/dashboard/fgp-bridge)
+export type FgpBridgeGroupBy = 'business' | 'channel' | 'brand';
+
+export interface FgpBridgeLine {
+  line: string;
+  previous: number;
+  current: number;
+  change: number;
+  // Impact on fGP: the change for gSales, minus the change for deductions and costs
+  effect: number;
+}
+
+export interface FgpBridge {
+  name: string;
+  previousValue: number;
+  currentValue: number;
+  change: number;
+  lines: FgpBridgeLine[];
+  steps: VarianceBridgeStep[];
+}
+
+export interface FgpBridgeResult {
+  groupBy: FgpBridgeGroupBy | null;
+  period: string;
+  comparison: string;
+  total: FgpBridge;
+  groups: FgpBridge[];
+}
+
+// Customer lifecycle between the current and comparison periods; revenue is gSales
+export type CustomerLifecycleStatus = 'new' | 'retained' | 'recovered' | 'lost';
+
+export interface CustomerLifecycleEntry {
+  customer: string;
+  status: CustomerLifecycleStatus;
+  previous: number;
+  current: number;
+  change: number;
+  atRisk: boolean;
+}
+
+export interface CustomerPeriodStats {
+  customers: number;
+  revenue: number;
+  average: number;
+  median: number;
+  // Revenue of the ten largest customers and its share of the total (%)
+  topRevenue: number;
+  topShare: number;
+  highest: number;
+  lowest: number;
+}
+
+export interface CustomerLifecycle {
+  comparison: string;
+  current: CustomerPeriodStats;
+  previous: CustomerPeriodStats;
+  new: number;
+  retained: number;
+  recovered: number;
+  lost: number;
+  atRisk: number;
+  // Share of the comparison period's customers still active (%), null without comparison customers
+  retentionRate: number | null;
+  previousRetentionRate: number | null;
+  customers: CustomerLifecycleEntry[];
+}
+
+// Customer concentration (GET /api/v1/dashboard/customer-concentration), per the fGP bridge breakdowns
+export type ConcentrationGroupBy = FgpBridgeGroupBy;
+
+export interface ConcentrationStats {
+  // Customers with a positive value and their total
+  customers: number;
+  total: number;
+  // Herfindahl-Hirschman index over customer shares in % (0-10,000)
+  hhi: number;
+  // Share of the largest 1, 5 and 10 customers (%)
+  top1Share: number;
+  top5Share: number;
+  top10Share: number;
+}
+
+export interface ConcentrationMeasure {
+  current: ConcentrationStats;
+  previous: ConcentrationStats;
+  // Change vs LY (index points, share points)
+  hhiChange: number;
+  top1ShareChange: number;
+  top5ShareChange: number;
+  top10ShareChange: number;
+}
+
+export interface CustomerConcentration {
+  name: string;
+  revenue: ConcentrationMeasure;
+  fGP: ConcentrationMeasure;
+}
+
+export interface CustomerConcentrationResult {
+  comparison: string;
+  groupBy: ConcentrationGroupBy | null;
+  total: CustomerConcentration;
+  groups: CustomerConcentration[];
+}
+
+// A brand (name) a customer takes a large share (%) of
+export interface CustomerDependency {
+  name: string;
+  share: number;
+}
+
+// Forecast of the rest of the fiscal year (GET /api/v1/dashboard/forecast), per the fGP bridge breakdowns
+export type ForecastGroupBy = FgpBridgeGroupBy;
+export type ForecastMeasure = 'gSales' | 'Cases' | 'fGP';
+export type ForecastMethod = 'holtWinters' | 'seasonalNaive' | 'naiveDrift';
+
+export interface ForecastPoint {
+  // YYYY-MM
+  period: string;
+  month: string;
+  value: number;
+  // Prediction interval at the requested confidence
+  lower: number;
+  upper: number;
+}
+
+export interface MeasureForecast {
+  measure: ForecastMeasure;
+  method: ForecastMethod;
+  actualToDate: number;
+  forecast: ForecastPoint[];
+  // Full-year landing: actuals to date plus the forecast months
+  landing: number;
+  landingLower: number;
+  landingUpper: number;
+  lastYear: number;
+  landingVsLy: number;
+  landingVsLyPercent: number;
+}
+
+export interface ForecastGroup {
+  name: string;
+  measures: MeasureForecast[];
+}
+
+export interface ForecastResult {
+  fiscalYear: number;
+  // Last month with actuals (YYYY-MM), null without data
+  actualsThrough: string | null;
+  groupBy: ForecastGroupBy | null;
+  confidence: number;
+  total: ForecastGroup;
+  groups: ForecastGroup[];
+}
+
+// Anomaly detection: measures scanned and how a month's expected value was derived
+export type AnomalyMeasure = 'gSales' | 'Cases' | 'fGPPercent';
+export type AnomalyBaseline = 'seasonal' | 'trailing';
+
+export interface Anomaly {
+  // Month flagged (YYYY-MM) and its month name
+  period: string;
+  month: string;
+  // Series the anomaly was found in
+  brand: string;
+  customer: string;
+  channel: string;
+  dimension: string;
+  measure: AnomalyMeasure;
+  type: 'spike' | 'drop' | 'marginDrop';
+  baseline: AnomalyBaseline;
+  expected: number;
+  actual: number;
+  deviation: number;
+  // Deviation as a percentage of the expected value, null when nothing was expected
+  deviationPercent: number | null;
+  zScore: number;
+  // gSales (or fGP, for margin drops) the deviation is worth; anomalies rank by its size
+  impact: number;
+  severity: 'high' | 'medium';
+  explanation: string;
+}
+
 export interface TrendAnalysis {
   period: string;
   trend: 'up' | 'down' | 'stable';
@@ -194,3 +790,59 @@ export interface TrendAnalysis {
 
 
 
+
+// Scheduled report delivery interfaces
+export type ReportFormat = 'xlsx' | 'pdf' | 'csv';
+
+// A report sent to its subscriber on a cron schedule, run with fixed filters and the subscriber's RLS scopes
+export interface ReportSubscription {
+  id: string;
+  userId: string;
+  name: string;
+  // A /reports/* report id, or 'board-pack' (PDF only)
+  report: string;
+  format: ReportFormat;
+  filters: DataFilters;
+  schedule: string;
+  timezone?: string;
+  recipients: string[];
+  enabled: boolean;
+  createdAt: string;
+  updatedAt: string;
+  lastRun: ReportDeliveryRun | null;
+}
+
+export interface ReportDeliveryRun {
+  startedAt: string;
+  finishedAt: string;
+  durationMs: number;
+  outcome: 'delivered' | 'failed';
+  trigger: 'schedule' | 'manual';
+  notifier?: ReportNotifierKind;
+  attachment?: string;
+  rowCount?: number;
+  // Message id (SMTP) or file written (outbox)
+  reference?: string;
+  error?: string;
+}
+
+export type ReportNotifierKind = 'smtp' | 'outbox';
+
+export interface ReportAttachment {
+  filename: string;
+  contentType: string;
+  content: Buffer;
+}
+
+export interface ReportMessage {
+  to: string[];
+  subject: string;
+  text: string;
+  attachments: ReportAttachment[];
+}
+
+export interface ReportNotifier {
+  readonly kind: ReportNotifierKind;
+  // Deliver a message; resolves to a reference for the delivery log
+  send(message: ReportMessage): Promise<string>;
+}
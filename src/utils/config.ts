@@ -5,9 +5,10 @@ export const config = {
   refreshJwtSecret: (process.env.REFRESH_JWT_SECRET || 'dev-refresh-secret'),
   refreshJwtExpiresIn: (process.env.REFRESH_JWT_EXPIRES_IN || '7d'),
   topNDefaultLimit: Number(process.env.TOPN_LIMIT_DEFAULT || 20),
-  riskLowMarginThreshold: Number(process.env.RISK_LOW_MARGIN_THRESHOLD || 15),
-  riskDecliningTrendThreshold: Number(process.env.RISK_DECLINING_TREND_THRESHOLD || -5),
-  riskLowVolumeThreshold: Number(process.env.RISK_LOW_VOLUME_THRESHOLD || 10000),
+  abcCutoffs: (process.env.ABC_CUTOFFS || '80,15,5'),
+  anomalyZThreshold: Number(process.env.ANOMALY_Z_THRESHOLD || 3),
+  anomalyMarginDropThreshold: Number(process.env.ANOMALY_MARGIN_DROP_THRESHOLD || 5),
+  anomalyMinValue: Number(process.env.ANOMALY_MIN_VALUE || 1000),
 };
 
 
@@ -0,0 +1,35 @@
+/**
+ * Convert a simple glob pattern to a RegExp.
+ * Supports `**` (any depth), `*` (within one path segment) and `?` (single character).
+ */
+export function globToRegExp(pattern: string): RegExp {
+  let source = '';
+  for (let i = 0; i < pattern.length; i++) {
+    const char = pattern[i];
+    if (char === '*') {
+      if (pattern[i + 1] === '*') {
+        // `**/` matches zero or more directories
+        const followedBySlash = pattern[i + 2] === '/';
+        source += followedBySlash ? '(?:.*/)?' : '.*';
+        i += followedBySlash ? 2 : 1;
+      } else {
+        source += '[^/]*';
+      }
+    } else if (char === '?') {
+      source += '[^/]';
+    } else {
+      source += char.replace(/[.+^${}()|[\]\\]/g, '\\$&');
+    }
+  }
+  return new RegExp(`^${source}$`);
+}
+
+/**
+ * Get the literal directory prefix of a glob pattern (everything before the first wildcard segment)
+ */
+export function globStaticPrefix(pattern: string): string {
+  const firstWildcard = pattern.search(/[*?]/);
+  if (firstWildcard === -1) return pattern;
+  const slash = pattern.lastIndexOf('/', firstWildcard);
+  return slash === -1 ? '' : pattern.substring(0, slash + 1);
+}
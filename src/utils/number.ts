@@ -0,0 +1,9 @@
+/**
+ * A measure value as a number. Rows from the CSV sources are already numeric; fixture and plan
+ * rows may still hold formatted strings ("€1,234.5"), which are read leniently with 0 as fallback.
+ */
+export function toNumber(value: unknown): number {
+  if (typeof value === 'number') return value;
+  if (typeof value === 'string') return parseFloat(value.replace(/[^\d.-]/g, '')) || 0;
+  return 0;
+}
@@ -0,0 +1,188 @@
+import zlib from 'zlib';
+
+/**
+ * Minimal PDF writer for server-side reports: pages of text in the standard Helvetica fonts,
+ * lines and filled rectangles. Coordinates are points from the top-left corner of the page.
+ * Content streams are compressed with zlib, so no PDF library is needed.
+ */
+
+export type PdfColor = [number, number, number];
+
+export interface PdfTextOptions {
+  size?: number;
+  bold?: boolean;
+  color?: PdfColor;
+  align?: 'left' | 'right' | 'center';
+}
+
+// A4 landscape
+export const PDF_PAGE = { width: 842, height: 595 };
+
+// Helvetica and Helvetica-Bold advance widths (1/1000 em) of the printable ASCII characters
+const WIDTHS = {
+  regular: [
+    278, 278, 355, 556, 556, 889, 667, 191, 333, 333, 389, 584, 278, 333, 278, 278, 556, 556, 556, 556, 556, 556, 556, 556,
+    556, 556, 278, 278, 584, 584, 584, 556, 1015, 667, 667, 722, 722, 667, 611, 778, 722, 278, 500, 667, 556, 833, 722, 778,
+    667, 778, 722, 667, 611, 722, 667, 944, 667, 667, 611, 278, 278, 278, 469, 556, 333, 556, 556, 500, 556, 556, 278, 556,
+    556, 222, 222, 500, 222, 833, 556, 556, 556, 556, 333, 500, 278, 556, 500, 722, 500, 500, 500, 334, 260, 334, 584
+  ],
+  bold: [
+    278, 333, 474, 556, 556, 889, 722, 238, 333, 333, 389, 584, 278, 333, 278, 278, 556, 556, 556, 556, 556, 556, 556, 556,
+    556, 556, 333, 333, 584, 584, 584, 611, 975, 722, 722, 722, 722, 667, 611, 778, 722, 278, 556, 722, 611, 833, 722, 778,
+    667, 778, 722, 667, 611, 722, 667, 944, 667, 667, 611, 333, 278, 333, 584, 556, 333, 556, 611, 556, 611, 556, 333, 611,
+    611, 278, 278, 556, 278, 889, 611, 611, 611, 611, 389, 556, 333, 611, 556, 778, 556, 556, 500, 389, 280, 389, 584
+  ]
+};
+
+// WinAnsi codes of the characters outside Latin-1 that reports use
+const WIN_ANSI: Record<string, number> = { '€': 0x80, '–': 0x96, '—': 0x97, '‘': 0x91, '’': 0x92, '“': 0x93, '”': 0x94, '•': 0x95 };
+
+/**
+ * Text as WinAnsi character codes (one char per byte); characters the standard fonts lack become "?"
+ */
+function winAnsi(text: string): string {
+  return [...text].map(char => {
+    if (WIN_ANSI[char]) return String.fromCharCode(WIN_ANSI[char]);
+    const code = char.charCodeAt(0);
+    return code < 0x80 || (code >= 0xa0 && code <= 0xff) ? char : '?';
+  }).join('');
+}
+
+const number = (value: number): string => String(Math.round(value * 100) / 100);
+
+const color = ([r, g, b]: PdfColor): string => `${number(r)} ${number(g)} ${number(b)}`;
+
+export class PdfDocument {
+  private pages: string[][] = [];
+  private current = -1;
+
+  constructor(private readonly size = PDF_PAGE) {}
+
+  get pageCount(): number {
+    return this.pages.length;
+  }
+
+  get width(): number {
+    return this.size.width;
+  }
+
+  get height(): number {
+    return this.size.height;
+  }
+
+  /**
+   * Start a new page and draw on it
+   */
+  addPage(): void {
+    this.pages.push([]);
+    this.current = this.pages.length - 1;
+  }
+
+  /**
+   * Draw on an earlier page (0-based), e.g. to add page numbers once the page count is known
+   */
+  setPage(index: number): void {
+    if (index < 0 || index >= this.pages.length) throw new Error(`No page ${index + 1} in the document`);
+    this.current = index;
+  }
+
+  /**
+   * Width of a text in points
+   */
+  textWidth(text: string, size: number, bold = false): number {
+    const widths = bold ? WIDTHS.bold : WIDTHS.regular;
+    const units = [...winAnsi(text)].reduce((sum, char) => sum + (widths[char.charCodeAt(0) - 32] ?? 556), 0);
+    return (units * size) / 1000;
+  }
+
+  /**
+   * Text cut to fit a width, ending in "..." when shortened
+   */
+  fitText(text: string, maxWidth: number, size: number, bold = false): string {
+    if (this.textWidth(text, size, bold) <= maxWidth) return text;
+    let fitted = text;
+    while (fitted.length > 0 && this.textWidth(`${fitted}...`, size, bold) > maxWidth) fitted = fitted.slice(0, -1);
+    return `${fitted}...`;
+  }
+
+  /**
+   * Draw a line of text; y is its baseline
+   */
+  text(x: number, y: number, text: string, options: PdfTextOptions = {}): void {
+    const { size = 10, bold = false, align = 'left' } = options;
+    const width = this.textWidth(text, size, bold);
+    const left = align === 'right' ? x - width : align === 'center' ? x - width / 2 : x;
+    const escaped = winAnsi(text).replace(/[\\()]/g, c => `\\${c}`);
+    this.draw(`BT /${bold ? 'F2' : 'F1'} ${number(size)} Tf ${color(options.color || [0, 0, 0])} rg ` +
+      `1 0 0 1 ${number(left)} ${number(this.size.height - y)} Tm (${escaped}) Tj ET`);
+  }
+
+  rect(x: number, y: number, width: number, height: number, options: { fill?: PdfColor; stroke?: PdfColor; lineWidth?: number } = {}): void {
+    const box = `${number(x)} ${number(this.size.height - y - height)} ${number(width)} ${number(height)} re`;
+    if (options.fill) this.draw(`${color(options.fill)} rg ${box} f`);
+    if (options.stroke) this.draw(`${number(options.lineWidth ?? 0.5)} w ${color(options.stroke)} RG ${box} S`);
+  }
+
+  line(x1: number, y1: number, x2: number, y2: number, options: { color?: PdfColor; lineWidth?: number } = {}): void {
+    this.draw(`${number(options.lineWidth ?? 0.5)} w ${color(options.color || [0, 0, 0])} RG ` +
+      `${number(x1)} ${number(this.size.height - y1)} m ${number(x2)} ${number(this.size.height - y2)} l S`);
+  }
+
+  /**
+   * The document as PDF bytes
+   */
+  toBuffer(info: { title: string; createdAt?: Date }): Buffer {
+    if (this.pages.length === 0) this.addPage();
+    const created = (info.createdAt || new Date()).toISOString().replace(/[-:T]/g, '').slice(0, 14);
+    const literal = (text: string) => `(${winAnsi(text).replace(/[\\()]/g, c => `\\${c}`)})`;
+
+    // 1 catalog, 2 page tree, 3-4 fonts, 5 info, then a page and its content stream per page
+    const pageIds = this.pages.map((_, i) => 6 + i * 2);
+    const objects: Buffer[] = [
+      Buffer.from('<< /Type /Catalog /Pages 2 0 R >>'),
+      Buffer.from(`<< /Type /Pages /Kids [${pageIds.map(id => `${id} 0 R`).join(' ')}] /Count ${this.pages.length} >>`),
+      Buffer.from('<< /Type /Font /Subtype /Type1 /BaseFont /Helvetica /Encoding /WinAnsiEncoding >>'),
+      Buffer.from('<< /Type /Font /Subtype /Type1 /BaseFont /Helvetica-Bold /Encoding /WinAnsiEncoding >>'),
+      Buffer.from(`<< /Title ${literal(info.title)} /CreationDate (D:${created}Z) >>`, 'latin1')
+    ];
+    this.pages.forEach((operations, i) => {
+      const stream = zlib.deflateSync(Buffer.from(operations.join('\n'), 'latin1'));
+      objects.push(Buffer.from(`<< /Type /Page /Parent 2 0 R /MediaBox [0 0 ${this.size.width} ${this.size.height}] ` +
+        `/Resources << /Font << /F1 3 0 R /F2 4 0 R >> >> /Contents ${pageIds[i] + 1} 0 R >>`));
+      objects.push(Buffer.concat([
+        Buffer.from(`<< /Length ${stream.length} /Filter /FlateDecode >>\nstream\n`),
+        stream,
+        Buffer.from('\nendstream')
+      ]));
+    });
+
+    const parts: Buffer[] = [Buffer.from('%PDF-1.4\n%\xe2\xe3\xcf\xd3\n', 'latin1')];
+    let offset = parts[0].length;
+    const offsets = objects.map((object, i) => {
+      const start = offset;
+      const framed = Buffer.concat([Buffer.from(`${i + 1} 0 obj\n`), object, Buffer.from('\nendobj\n')]);
+      parts.push(framed);
+      offset += framed.length;
+      return start;
+    });
+
+    const xref = [
+      'xref',
+      `0 ${objects.length + 1}`,
+      '0000000000 65535 f ',
+      ...offsets.map(start => `${String(start).padStart(10, '0')} 00000 n `),
+      'trailer',
+      `<< /Size ${objects.length + 1} /Root 1 0 R /Info 5 0 R >>`,
+      'startxref',
+      String(offset),
+      '%%EOF'
+    ].join('\n');
+    parts.push(Buffer.from(`${xref}\n`));
+    return Buffer.concat(parts);
+  }
+
+  private draw(operation: string): void {
+    if (this.current < 0) this.addPage();
+    this.pages[this.current].push(operation);
+  }
+}
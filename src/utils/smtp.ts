@@ -0,0 +1,252 @@
+import crypto from 'crypto';
+import net from 'net';
+import os from 'os';
+import tls from 'tls';
+
+/**
+ * Minimal SMTP client and MIME message builder for outgoing report mail: plain-text body and
+ * base64 attachments, STARTTLS or implicit TLS, AUTH PLAIN (only over TLS unless allowInsecureAuth). Uses only net/tls, so no mail
+ * library is needed.
+ */
+
+export interface MailAttachment {
+  filename: string;
+  contentType: string;
+  content: Buffer;
+}
+
+export interface MailMessage {
+  from: string;
+  to: string[];
+  subject: string;
+  text: string;
+  attachments?: MailAttachment[];
+  date?: Date;
+}
+
+export interface SmtpOptions {
+  host: string;
+  port: number;
+  // Implicit TLS (port 465); otherwise STARTTLS is used when the server offers it
+  secure: boolean;
+  user?: string;
+  password?: string;
+  // Send credentials over a connection that is not encrypted (no implicit TLS or STARTTLS)
+  allowInsecureAuth?: boolean;
+  timeoutMs?: number;
+}
+
+interface SmtpReply {
+  code: number;
+  lines: string[];
+}
+
+// RFC 2047 encoded-word for non-ASCII header values
+const headerText = (value: string): string =>
+  /^[\x20-\x7e]*$/.test(value) ? value : `=?UTF-8?B?${Buffer.from(value, 'utf-8').toString('base64')}?=`;
+
+const base64Lines = (content: Buffer): string => content.toString('base64').replace(/.{76}/g, '$&\r\n');
+
+const address = (value: string): string => value.replace(/^.*<([^>]+)>.*$/, '$1').trim();
+
+/**
+ * A MIME message (multipart/mixed when there are attachments) with CRLF line endings; returns the
+ * message and its Message-ID
+ */
+export function buildMimeMessage(message: MailMessage): { messageId: string; raw: string } {
+  const domain = address(message.from).split('@')[1] || os.hostname();
+  const messageId = `<${crypto.randomUUID()}@${domain}>`;
+  const headers = [
+    `From: ${message.from}`,
+    `To: ${message.to.join(', ')}`,
+    `Subject: ${headerText(message.subject)}`,
+    `Date: ${(message.date || new Date()).toUTCString().replace('GMT', '+0000')}`,
+    `Message-ID: ${messageId}`,
+    'MIME-Version: 1.0'
+  ];
+  const textPart = [
+    'Content-Type: text/plain; charset=utf-8',
+    'Content-Transfer-Encoding: base64',
+    '',
+    base64Lines(Buffer.from(message.text, 'utf-8'))
+  ];
+
+  const attachments = message.attachments || [];
+  if (attachments.length === 0) {
+    return { messageId, raw: [...headers, ...textPart, ''].join('\r\n') };
+  }
+
+  const boundary = `----=_Part_${crypto.randomBytes(12).toString('hex')}`;
+  const parts = [
+    textPart.join('\r\n'),
+    ...attachments.map(attachment => [
+      `Content-Type: ${attachment.contentType}; name="${headerText(attachment.filename)}"`,
+      'Content-Transfer-Encoding: base64',
+      `Content-Disposition: attachment; filename="${headerText(attachment.filename)}"`,
+      '',
+      base64Lines(attachment.content)
+    ].join('\r\n'))
+  ];
+  return {
+    messageId,
+    raw: [
+      ...headers,
+      `Content-Type: multipart/mixed; boundary="${boundary}"`,
+      '',
+      ...parts.map(part => `--${boundary}\r\n${part}`),
+      `--${boundary}--`,
+      ''
+    ].join('\r\n')
+  };
+}
+
+/**
+ * One SMTP conversation: replies are read line by line from the socket, which can be swapped
+ * for its TLS upgrade after STARTTLS
+ */
+class SmtpSession {
+  private buffer = '';
+  private lines: string[] = [];
+  private replies: SmtpReply[] = [];
+  private waiting: { resolve: (reply: SmtpReply) => void; reject: (error: Error) => void } | null = null;
+  private failure: Error | null = null;
+
+  constructor(private socket: net.Socket, private readonly timeoutMs: number) {
+    this.attach(socket);
+  }
+
+  async command(line: string | null, expected: number[], label = line?.split(' ')[0]): Promise<SmtpReply> {
+    if (line !== null) this.socket.write(`${line}\r\n`);
+    const reply = await this.read();
+    if (!expected.includes(reply.code)) {
+      throw new Error(`SMTP ${label || 'greeting'} failed: ${reply.code} ${reply.lines.join(' ')}`);
+    }
+    return reply;
+  }
+
+  /**
+   * Continue the session over a TLS connection wrapping the current socket
+   */
+  async upgrade(host: string): Promise<void> {
+    this.socket.removeAllListeners('data');
+    this.socket.removeAllListeners('timeout');
+    this.socket.setTimeout(0);
+    const secured = tls.connect({ socket: this.socket, servername: host });
+    await new Promise<void>((resolve, reject) => {
+      secured.once('secureConnect', resolve);
+      secured.once('error', reject);
+    });
+    this.socket = secured;
+    this.attach(secured);
+  }
+
+  close(): void {
+    this.socket.end();
+    this.socket.destroy();
+  }
+
+  private attach(socket: net.Socket): void {
+    socket.setTimeout(this.timeoutMs, () => this.fail(new Error(`SMTP connection timed out after ${this.timeoutMs}ms`)));
+    socket.on('data', (chunk: Buffer) => {
+      this.buffer += chunk.toString('utf-8');
+      let end: number;
+      while ((end = this.buffer.indexOf('\r\n')) >= 0) {
+        const line = this.buffer.slice(0, end);
+        this.buffer = this.buffer.slice(end + 2);
+        this.lines.push(line.slice(4));
+        // "250-..." continues a multi-line reply, "250 ..." ends it
+        if (line[3] !== '-') {
+          this.replies.push({ code: parseInt(line.slice(0, 3), 10), lines: this.lines });
+          this.lines = [];
+          this.flush();
+        }
+      }
+    });
+    socket.on('error', error => this.fail(error));
+    socket.on('close', () => this.fail(new Error('SMTP connection closed')));
+  }
+
+  private read(): Promise<SmtpReply> {
+    return new Promise((resolve, reject) => {
+      this.waiting = { resolve, reject };
+      this.flush();
+    });
+  }
+
+  private flush(): void {
+    if (!this.waiting) return;
+    const waiting = this.waiting;
+    if (this.replies.length > 0) {
+      this.waiting = null;
+      waiting.resolve(this.replies.shift()!);
+    } else if (this.failure) {
+      this.waiting = null;
+      waiting.reject(this.failure);
+    }
+  }
+
+  private fail(error: Error): void {
+    if (!this.failure) this.failure = error;
+    this.flush();
+  }
+}
+
+function connect(options: SmtpOptions): Promise<net.Socket> {
+  return new Promise((resolve, reject) => {
+    const connected = () => {
+      socket.setTimeout(0);
+      socket.removeListener('timeout', timedOut);
+      socket.removeListener('error', reject);
+      resolve(socket);
+    };
+    const timedOut = () => socket.destroy(new Error(`Unable to connect to ${options.host}:${options.port}`));
+    const socket: net.Socket = options.secure
+      ? tls.connect({ host: options.host, port: options.port, servername: options.host }, connected)
+      : net.connect({ host: options.host, port: options.port }, connected);
+    socket.once('error', reject);
+    socket.setTimeout(options.timeoutMs || 30000, timedOut);
+  });
+}
+
+/**
+ * Send a message through an SMTP server; resolves to its Message-ID
+ */
+export async function sendMail(options: SmtpOptions, message: MailMessage): Promise<string> {
+  const { messageId, raw } = buildMimeMessage(message);
+  const session = new SmtpSession(await connect(options), options.timeoutMs || 30000);
+  const hostname = os.hostname();
+
+  try {
+    await session.command(null, [220]);
+    const ehlo = await session.command(`EHLO ${hostname}`, [250]);
+    const offers = (keyword: string) => ehlo.lines.some(line => line.toUpperCase().startsWith(keyword));
+
+    let encrypted = options.secure;
+    if (!options.secure && offers('STARTTLS')) {
+      await session.command('STARTTLS', [220]);
+      await session.upgrade(options.host);
+      await session.command(`EHLO ${hostname}`, [250]);
+      encrypted = true;
+    }
+    if (options.user) {
+      if (!encrypted && !options.allowInsecureAuth) {
+        throw new Error(`SMTP server ${options.host} does not offer STARTTLS; refusing to send credentials unencrypted`);
+      }
+      const credentials = Buffer.from(`\0${options.user}\0${options.password || ''}`, 'utf-8').toString('base64');
+      // The label keeps the credentials out of error messages
+      await session.command(`AUTH PLAIN ${credentials}`, [235], 'AUTH');
+    }
+
+    await session.command(`MAIL FROM:<${address(message.from)}>`, [250]);
+    for (const recipient of message.to) {
+      await session.command(`RCPT TO:<${address(recipient)}>`, [250, 251]);
+    }
+    await session.command('DATA', [354]);
+    // Lines starting with "." are dot-stuffed; a lone "." ends the message
+    await session.command(`${raw.replace(/\r\n\./g, '\r\n..').replace(/\r\n$/, '')}\r\n.`, [250], 'DATA');
+    await session.command('QUIT', [221]).catch(() => undefined);
+    return messageId;
+  } finally {
+    session.close();
+  }
+}
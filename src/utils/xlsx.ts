@@ -0,0 +1,247 @@
+import zlib from 'zlib';
+
+/**
+ * Minimal Office Open XML (.xlsx) writer: inline-string and number cells, formulas with their
+ * cached values, a fixed set of number formats, bold rows, column widths and frozen panes.
+ * The workbook is zipped in-process with zlib, so no spreadsheet library is needed.
+ */
+
+export const XLSX_CONTENT_TYPE = 'application/vnd.openxmlformats-officedocument.spreadsheetml.sheet';
+
+export type XlsxFormat = 'text' | 'integer' | 'decimal' | 'moneyUnits' | 'moneyThousands' | 'percent';
+
+export interface XlsxCell {
+  value: string | number | null;
+  // Formula without the leading "=", evaluated when the workbook is opened; value is its cached result
+  formula?: string;
+  format?: XlsxFormat;
+  bold?: boolean;
+  header?: boolean;
+}
+
+export interface XlsxSheet {
+  name: string;
+  rows: XlsxCell[][];
+  columnWidths?: number[];
+  // Rows and columns kept in view while scrolling
+  freeze?: { rows: number; columns: number };
+}
+
+// Number format per cell format; amounts are shown in € thousands ("k"), percentages are 0-100 values
+const FORMATS: Array<{ format: XlsxFormat; numFmtId: number; code?: string }> = [
+  { format: 'text', numFmtId: 0 },
+  { format: 'integer', numFmtId: 164, code: '#,##0' },
+  { format: 'decimal', numFmtId: 165, code: '#,##0.00' },
+  { format: 'moneyUnits', numFmtId: 166, code: '"€"#,##0.0,"k"' },
+  { format: 'moneyThousands', numFmtId: 167, code: '"€"#,##0.0"k"' },
+  { format: 'percent', numFmtId: 168, code: '0.0"%"' }
+];
+
+// Cell style index: two per format (regular, bold), then the header style
+const styleIndex = (cell: XlsxCell): number => {
+  if (cell.header) return FORMATS.length * 2;
+  const format = FORMATS.findIndex(f => f.format === (cell.format || 'text'));
+  return format * 2 + (cell.bold ? 1 : 0);
+};
+
+const escapeXml = (text: string): string =>
+  text.replace(/[&<>"]/g, c => ({ '&': '&amp;', '<': '&lt;', '>': '&gt;', '"': '&quot;' }[c]!))
+    // Characters XML 1.0 does not allow
+    .replace(/[\u0000-\u0008\u000B\u000C\u000E-\u001F]/g, '');
+
+/**
+ * A1 reference of a 0-based column and row
+ */
+export function cellRef(column: number, row: number): string {
+  let name = '';
+  for (let n = column + 1; n > 0; n = Math.floor((n - 1) / 26)) {
+    name = String.fromCharCode(65 + ((n - 1) % 26)) + name;
+  }
+  return `${name}${row + 1}`;
+}
+
+// Sheet names are at most 31 characters and may not contain []:*?/\
+const sheetName = (name: string): string => name.replace(/[[\]:*?/\\]/g, ' ').slice(0, 31) || 'Sheet';
+
+function cellXml(cell: XlsxCell, ref: string): string {
+  const style = styleIndex(cell);
+  const s = style ? ` s="${style}"` : '';
+  if (cell.formula) {
+    const cached = typeof cell.value === 'number' && isFinite(cell.value) ? `<v>${cell.value}</v>` : '';
+    return `<c r="${ref}"${s}><f>${escapeXml(cell.formula)}</f>${cached}</c>`;
+  }
+  if (typeof cell.value === 'number' && isFinite(cell.value)) {
+    return `<c r="${ref}"${s}><v>${cell.value}</v></c>`;
+  }
+  if (cell.value === null || cell.value === undefined || cell.value === '') {
+    return style ? `<c r="${ref}"${s}/>` : '';
+  }
+  return `<c r="${ref}"${s} t="inlineStr"><is><t xml:space="preserve">${escapeXml(String(cell.value))}</t></is></c>`;
+}
+
+function sheetXml(sheet: XlsxSheet): string {
+  let views = '<sheetView workbookViewId="0"/>';
+  const { rows = 0, columns = 0 } = sheet.freeze || {};
+  if (rows > 0 || columns > 0) {
+    const pane = rows > 0 && columns > 0 ? 'bottomRight' : rows > 0 ? 'bottomLeft' : 'topRight';
+    const split = `${columns > 0 ? ` xSplit="${columns}"` : ''}${rows > 0 ? ` ySplit="${rows}"` : ''}`;
+    views = `<sheetView workbookViewId="0"><pane${split} topLeftCell="${cellRef(columns, rows)}" activePane="${pane}" state="frozen"/>` +
+      `<selection pane="${pane}"/></sheetView>`;
+  }
+
+  const cols = sheet.columnWidths?.length
+    ? `<cols>${sheet.columnWidths.map((width, i) => `<col min="${i + 1}" max="${i + 1}" width="${width}" customWidth="1"/>`).join('')}</cols>`
+    : '';
+  const data = sheet.rows.map((row, r) =>
+    `<row r="${r + 1}">${row.map((cell, c) => cellXml(cell, cellRef(c, r))).join('')}</row>`
+  ).join('');
+
+  return '<?xml version="1.0" encoding="UTF-8" standalone="yes"?>' +
+    '<worksheet xmlns="http://schemas.openxmlformats.org/spreadsheetml/2006/main">' +
+    `<sheetViews>${views}</sheetViews><sheetFormatPr defaultRowHeight="15"/>${cols}<sheetData>${data}</sheetData></worksheet>`;
+}
+
+function stylesXml(): string {
+  const numFmts = FORMATS.filter(f => f.code);
+  const xfs = FORMATS.flatMap(f => [0, 1].map(font =>
+    `<xf numFmtId="${f.numFmtId}" fontId="${font}" fillId="0" borderId="0" xfId="0"${f.numFmtId ? ' applyNumberFormat="1"' : ''}${font ? ' applyFont="1"' : ''}/>`
+  ));
+  xfs.push('<xf numFmtId="0" fontId="1" fillId="2" borderId="1" xfId="0" applyFont="1" applyFill="1" applyBorder="1" applyAlignment="1"><alignment wrapText="1" vertical="center"/></xf>');
+
+  return '<?xml version="1.0" encoding="UTF-8" standalone="yes"?>' +
+    '<styleSheet xmlns="http://schemas.openxmlformats.org/spreadsheetml/2006/main">' +
+    `<numFmts count="${numFmts.length}">${numFmts.map(f => `<numFmt numFmtId="${f.numFmtId}" formatCode="${escapeXml(f.code!)}"/>`).join('')}</numFmts>` +
+    '<fonts count="2"><font><sz val="11"/><name val="Calibri"/></font><font><b/><sz val="11"/><name val="Calibri"/></font></fonts>' +
+    '<fills count="3"><fill><patternFill patternType="none"/></fill><fill><patternFill patternType="gray125"/></fill>' +
+    '<fill><patternFill patternType="solid"><fgColor rgb="FFD9E1F2"/><bgColor indexed="64"/></patternFill></fill></fills>' +
+    '<borders count="2"><border><left/><right/><top/><bottom/><diagonal/></border>' +
+    '<border><left/><right/><top/><bottom style="thin"><color auto="1"/></bottom><diagonal/></border></borders>' +
+    '<cellStyleXfs count="1"><xf numFmtId="0" fontId="0" fillId="0" borderId="0"/></cellStyleXfs>' +
+    `<cellXfs count="${xfs.length}">${xfs.join('')}</cellXfs>` +
+    '<cellStyles count="1"><cellStyle name="Normal" xfId="0" builtinId="0"/></cellStyles>' +
+    '</styleSheet>';
+}
+
+const CRC_TABLE = Array.from({ length: 256 }, (_, n) => {
+  let c = n;
+  for (let k = 0; k < 8; k++) c = c & 1 ? 0xedb88320 ^ (c >>> 1) : c >>> 1;
+  return c >>> 0;
+});
+
+function crc32(data: Buffer): number {
+  let crc = 0xffffffff;
+  for (const byte of data) crc = CRC_TABLE[(crc ^ byte) & 0xff] ^ (crc >>> 8);
+  return (crc ^ 0xffffffff) >>> 0;
+}
+
+/**
+ * Deflated ZIP archive of the given files
+ */
+function zip(files: Array<{ name: string; content: string }>): Buffer {
+  const now = new Date();
+  const time = (now.getHours() << 11) | (now.getMinutes() << 5) | Math.floor(now.getSeconds() / 2);
+  const date = ((now.getFullYear() - 1980) << 9) | ((now.getMonth() + 1) << 5) | now.getDate();
+
+  const local: Buffer[] = [];
+  const central: Buffer[] = [];
+  let offset = 0;
+  for (const file of files) {
+    const name = Buffer.from(file.name, 'utf-8');
+    const data = Buffer.from(file.content, 'utf-8');
+    const compressed = zlib.deflateRawSync(data);
+    const crc = crc32(data);
+
+    const header = Buffer.alloc(30);
+    header.writeUInt32LE(0x04034b50, 0);
+    header.writeUInt16LE(20, 4);
+    header.writeUInt16LE(0x0800, 6); // UTF-8 names
+    header.writeUInt16LE(8, 8); // deflate
+    header.writeUInt16LE(time, 10);
+    header.writeUInt16LE(date, 12);
+    header.writeUInt32LE(crc, 14);
+    header.writeUInt32LE(compressed.length, 18);
+    header.writeUInt32LE(data.length, 22);
+    header.writeUInt16LE(name.length, 26);
+    header.writeUInt16LE(0, 28);
+    local.push(header, name, compressed);
+
+    const entry = Buffer.alloc(46);
+    entry.writeUInt32LE(0x02014b50, 0);
+    entry.writeUInt16LE(20, 4);
+    entry.writeUInt16LE(20, 6);
+    entry.writeUInt16LE(0x0800, 8);
+    entry.writeUInt16LE(8, 10);
+    entry.writeUInt16LE(time, 12);
+    entry.writeUInt16LE(date, 14);
+    entry.writeUInt32LE(crc, 16);
+    entry.writeUInt32LE(compressed.length, 20);
+    entry.writeUInt32LE(data.length, 24);
+    entry.writeUInt16LE(name.length, 28);
+    entry.writeUInt32LE(offset, 42);
+    central.push(entry, name);
+
+    offset += header.length + name.length + compressed.length;
+  }
+
+  const centralSize = central.reduce((sum, part) => sum + part.length, 0);
+  const end = Buffer.alloc(22);
+  end.writeUInt32LE(0x06054b50, 0);
+  end.writeUInt16LE(files.length, 8);
+  end.writeUInt16LE(files.length, 10);
+  end.writeUInt32LE(centralSize, 12);
+  end.writeUInt32LE(offset, 16);
+  return Buffer.concat([...local, ...central, end]);
+}
+
+/**
+ * Build an .xlsx workbook. Excel recalculates the formulas when the file is opened; the cached
+ * values are what viewers without a calculation engine show.
+ */
+export function buildWorkbook(sheets: XlsxSheet[]): Buffer {
+  const names = new Set<string>();
+  const unique = sheets.map((sheet, i) => {
+    let name = sheetName(sheet.name);
+    if (names.has(name.toLowerCase())) name = `${name.slice(0, 27)} (${i + 1})`;
+    names.add(name.toLowerCase());
+    return name;
+  });
+
+  const files = [
+    {
+      name: '[Content_Types].xml',
+      content: '<?xml version="1.0" encoding="UTF-8" standalone="yes"?>' +
+        '<Types xmlns="http://schemas.openxmlformats.org/package/2006/content-types">' +
+        '<Default Extension="rels" ContentType="application/vnd.openxmlformats-package.relationships+xml"/>' +
+        '<Default Extension="xml" ContentType="application/xml"/>' +
+        '<Override PartName="/xl/workbook.xml" ContentType="application/vnd.openxmlformats-officedocument.spreadsheetml.sheet.main+xml"/>' +
+        '<Override PartName="/xl/styles.xml" ContentType="application/vnd.openxmlformats-officedocument.spreadsheetml.styles+xml"/>' +
+        sheets.map((_, i) => `<Override PartName="/xl/worksheets/sheet${i + 1}.xml" ContentType="application/vnd.openxmlformats-officedocument.spreadsheetml.worksheet+xml"/>`).join('') +
+        '</Types>'
+    },
+    {
+      name: '_rels/.rels',
+      content: '<?xml version="1.0" encoding="UTF-8" standalone="yes"?>' +
+        '<Relationships xmlns="http://schemas.openxmlformats.org/package/2006/relationships">' +
+        '<Relationship Id="rId1" Type="http://schemas.openxmlformats.org/officeDocument/2006/relationships/officeDocument" Target="xl/workbook.xml"/>' +
+        '</Relationships>'
+    },
+    {
+      name: 'xl/workbook.xml',
+      content: '<?xml version="1.0" encoding="UTF-8" standalone="yes"?>' +
+        '<workbook xmlns="http://schemas.openxmlformats.org/spreadsheetml/2006/main" xmlns:r="http://schemas.openxmlformats.org/officeDocument/2006/relationships">' +
+        `<sheets>${unique.map((name, i) => `<sheet name="${escapeXml(name)}" sheetId="${i + 1}" r:id="rId${i + 1}"/>`).join('')}</sheets>` +
+        '<calcPr calcId="191029" fullCalcOnLoad="1"/></workbook>'
+    },
+    {
+      name: 'xl/_rels/workbook.xml.rels',
+      content: '<?xml version="1.0" encoding="UTF-8" standalone="yes"?>' +
+        '<Relationships xmlns="http://schemas.openxmlformats.org/package/2006/relationships">' +
+        sheets.map((_, i) => `<Relationship Id="rId${i + 1}" Type="http://schemas.openxmlformats.org/officeDocument/2006/relationships/worksheet" Target="worksheets/sheet${i + 1}.xml"/>`).join('') +
+        `<Relationship Id="rId${sheets.length + 1}" Type="http://schemas.openxmlformats.org/officeDocument/2006/relationships/styles" Target="styles.xml"/>` +
+        '</Relationships>'
+    },
+    { name: 'xl/styles.xml', content: stylesXml() },
+    ...sheets.map((sheet, i) => ({ name: `xl/worksheets/sheet${i + 1}.xml`, content: sheetXml(sheet) }))
+  ];
+  return zip(files);
+}